@@ -1,22 +1,41 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { parseQrPayload } from '../services/qrPayloadService.js';
 
 const prisma = new PrismaClient();
 
 export const processQRPayment = async (req: Request, res: Response) => {
     try {
-        const userId = (req as any).userId;
-        const { goalId, amount, qrData } = req.body;
+        const userId = (req as any).user.id;
+        const { goalId, qrData } = req.body;
 
         // Validate input
-        if (!goalId || !amount || !qrData) {
+        if (!goalId || !qrData) {
             return res.status(400).json({
                 success: false,
-                error: 'Goal ID, amount, and QR data are required',
+                error: 'Goal ID and QR data are required',
             });
         }
 
-        if (amount <= 0) {
+        const parsed = parseQrPayload(String(qrData));
+        if (!parsed.ok) {
+            return res.status(400).json({
+                success: false,
+                error: parsed.error,
+            });
+        }
+        const { payload } = parsed;
+
+        // A code with a fixed amount is paid exactly that
+        const amount = payload.amount ?? Number(req.body.amount);
+        if (payload.amount !== null && req.body.amount !== undefined && Number(req.body.amount) !== payload.amount) {
+            return res.status(400).json({
+                success: false,
+                error: 'Amount does not match the QR code',
+            });
+        }
+
+        if (!Number.isFinite(amount) || amount <= 0) {
             return res.status(400).json({
                 success: false,
                 error: 'Amount must be greater than 0',
@@ -46,33 +65,57 @@ export const processQRPayment = async (req: Request, res: Response) => {
             });
         }
 
-        // Deduct amount from goal
-        const updatedGoal = await prisma.goal.update({
-            where: { id: goalId },
-            data: {
-                saved: goal.saved - amount,
-            },
-        });
+        const payee = payload.payeeName || payload.payeeAddress;
 
-        // Create a payment record (you can expand this to store QR data)
-        // For now, we'll just create an expense record to track the payment
-        await prisma.expense.create({
-            data: {
-                description: `QR Payment from ${goal.name}`,
-                amount: amount,
-                category: 'Payment',
-                date: new Date(),
-                userId: userId,
-            },
+        const { updatedGoal, qrPayment } = await prisma.$transaction(async (tx) => {
+            // Deduct amount from goal
+            const updatedGoal = await tx.goal.update({
+                where: { id: goalId },
+                data: {
+                    saved: goal.saved - amount,
+                },
+            });
+
+            // Track the payment as an expense, with what the QR code said
+            const expense = await tx.expense.create({
+                data: {
+                    description: payload.note ? `${payee}: ${payload.note}` : `QR payment to ${payee}`,
+                    amount: amount,
+                    category: 'Payment',
+                    date: new Date(),
+                    userId: userId,
+                },
+            });
+
+            const qrPayment = await tx.qrPayment.create({
+                data: {
+                    format: payload.format,
+                    payeeName: payload.payeeName,
+                    payeeAddress: payload.payeeAddress,
+                    amount,
+                    currency: payload.currency,
+                    requestedAmount: payload.amount,
+                    note: payload.note,
+                    reference: payload.reference,
+                    merchantCategoryCode: payload.merchantCategoryCode,
+                    merchantCity: payload.merchantCity,
+                    rawData: String(qrData).trim(),
+                    userId,
+                    goalId,
+                    expenseId: expense.id,
+                },
+            });
+
+            return { updatedGoal, qrPayment };
         });
 
         res.json({
             success: true,
-            message: 'Payment successful',
+            message: `Paid ${payee}`,
             data: {
                 goal: updatedGoal,
                 amountPaid: amount,
-                qrData: qrData,
+                qrPayment,
             },
         });
     } catch (error) {
@@ -0,0 +1,224 @@
+// Parses what a payment QR code holds: a UPI deep link
+// (upi://pay?pa=...&pn=...) or an EMVCo merchant-presented code, a string of
+// tag-length-value fields that ends in a CRC.
+
+export type QrFormat = 'UPI' | 'EMVCO';
+
+export interface QrPayload {
+    format: QrFormat;
+    payeeName: string | null;
+    // UPI virtual payment address, or the merchant account for EMVCo codes
+    payeeAddress: string;
+    // Set when the code fixes what has to be paid
+    amount: number | null;
+    currency: string;
+    note: string | null;
+    reference: string | null;
+    merchantCategoryCode: string | null;
+    merchantCity: string | null;
+}
+
+export type QrParseResult = { ok: true; payload: QrPayload } | { ok: false; error: string };
+
+// ISO 4217 numeric codes EMVCo uses for the transaction currency
+const NUMERIC_CURRENCIES: Record<string, string> = {
+    '036': 'AUD',
+    '124': 'CAD',
+    '156': 'CNY',
+    '356': 'INR',
+    '392': 'JPY',
+    '702': 'SGD',
+    '784': 'AED',
+    '826': 'GBP',
+    '840': 'USD',
+    '978': 'EUR',
+};
+
+const VPA_PATTERN = /^[\w.-]+@[\w.-]+$/;
+const AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+const parseAmount = (value: string | undefined): number | null | undefined => {
+    if (value === undefined || value === '') return null;
+    if (!AMOUNT_PATTERN.test(value)) return undefined;
+    const amount = parseFloat(value);
+    return amount > 0 ? amount : undefined;
+};
+
+const orNull = (value: string | undefined | null): string | null => (value ? value : null);
+
+// ================= UPI =================
+
+// Query parameters of a upi://pay link, or null when one can't be decoded
+const parseUpiParams = (query: string): Map<string, string> | null => {
+    const params = new Map<string, string>();
+    for (const pair of query.split('&')) {
+        if (!pair) continue;
+        const [key = '', value = ''] = pair.split('=', 2);
+        try {
+            params.set(key.toLowerCase(), decodeURIComponent(value.replace(/\+/g, ' ')).trim());
+        } catch {
+            return null;
+        }
+    }
+    return params;
+};
+
+const parseUpi = (raw: string): QrParseResult => {
+    const match = /^upi:\/\/pay\?(.*)$/i.exec(raw);
+    if (!match) {
+        return { ok: false, error: 'Only UPI payment links are supported' };
+    }
+
+    const params = parseUpiParams(match[1] ?? '');
+    if (!params) {
+        return { ok: false, error: 'Malformed UPI link' };
+    }
+
+    const payeeAddress = params.get('pa');
+    if (!payeeAddress || !VPA_PATTERN.test(payeeAddress)) {
+        return { ok: false, error: 'UPI link has no valid payee address' };
+    }
+
+    const amount = parseAmount(params.get('am'));
+    if (amount === undefined) {
+        return { ok: false, error: 'UPI link has an invalid amount' };
+    }
+
+    const currency = (params.get('cu') || 'INR').toUpperCase();
+    if (currency !== 'INR') {
+        return { ok: false, error: 'UPI payments must be in INR' };
+    }
+
+    return {
+        ok: true,
+        payload: {
+            format: 'UPI',
+            payeeName: orNull(params.get('pn')),
+            payeeAddress,
+            amount,
+            currency,
+            note: orNull(params.get('tn')),
+            reference: orNull(params.get('tr')),
+            merchantCategoryCode: orNull(params.get('mc')),
+            merchantCity: null,
+        },
+    };
+};
+
+// ================= EMVCO =================
+
+/**
+ * CRC-16/CCITT-FALSE (polynomial 0x1021, initial value 0xFFFF), as EMVCo
+ * computes it over the UTF-8 bytes of the payload up to and including the
+ * CRC tag and length.
+ */
+export const crc16 = (data: string): string => {
+    let crc = 0xffff;
+    for (const byte of new TextEncoder().encode(data)) {
+        crc ^= byte << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+        }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Split a string of two-digit tags and two-digit lengths into its fields, or
+// null when a length runs past the end
+const parseTlv = (data: string): Map<string, string> | null => {
+    const fields = new Map<string, string>();
+    let offset = 0;
+
+    while (offset < data.length) {
+        const tag = data.slice(offset, offset + 2);
+        const length = data.slice(offset + 2, offset + 4);
+        if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(length)) return null;
+
+        const end = offset + 4 + parseInt(length, 10);
+        if (end > data.length) return null;
+
+        fields.set(tag, data.slice(offset + 4, end));
+        offset = end;
+    }
+
+    return fields;
+};
+
+// Merchant account templates are tags 26-51; the first one that names an
+// account wins. Sub-tag 00 is the scheme, 01 is usually the account itself.
+const findMerchantAccount = (fields: Map<string, string>): string | null => {
+    for (let tag = 26; tag <= 51; tag++) {
+        const template = fields.get(String(tag));
+        if (!template) continue;
+
+        const sub = parseTlv(template);
+        const account = sub?.get('01') ?? [...(sub?.entries() ?? [])].find(([id]) => id !== '00')?.[1];
+        if (account) return account;
+    }
+    return null;
+};
+
+const parseEmvco = (raw: string): QrParseResult => {
+    // The CRC is always the last field: tag 63, length 04, four hex digits
+    const crcAt = raw.length - 8;
+    if (crcAt < 0 || raw.slice(crcAt, crcAt + 4) !== '6304') {
+        return { ok: false, error: 'QR code has no checksum' };
+    }
+    if (crc16(raw.slice(0, crcAt + 4)) !== raw.slice(crcAt + 4).toUpperCase()) {
+        return { ok: false, error: 'QR code checksum doesn\'t match; it may have been tampered with' };
+    }
+
+    const fields = parseTlv(raw.slice(0, crcAt));
+    if (!fields || fields.get('00') !== '01') {
+        return { ok: false, error: 'Malformed QR code' };
+    }
+
+    const payeeAddress = findMerchantAccount(fields);
+    if (!payeeAddress) {
+        return { ok: false, error: 'QR code has no merchant account' };
+    }
+
+    const currency = NUMERIC_CURRENCIES[fields.get('53') ?? ''];
+    if (!currency) {
+        return { ok: false, error: 'QR code is in an unsupported currency' };
+    }
+
+    const amount = parseAmount(fields.get('54'));
+    if (amount === undefined) {
+        return { ok: false, error: 'QR code has an invalid amount' };
+    }
+
+    // Additional data: 01 bill number, 05 reference label, 08 purpose
+    const extra = parseTlv(fields.get('62') ?? '') ?? new Map<string, string>();
+
+    return {
+        ok: true,
+        payload: {
+            format: 'EMVCO',
+            payeeName: orNull(fields.get('59')),
+            payeeAddress,
+            amount,
+            currency,
+            note: orNull(extra.get('08')),
+            reference: orNull(extra.get('05') ?? extra.get('01')),
+            merchantCategoryCode: orNull(fields.get('52')),
+            merchantCity: orNull(fields.get('60')),
+        },
+    };
+};
+
+// ================= PAYLOADS =================
+
+/**
+ * Work out who a scanned QR code pays and how much. Anything that isn't a
+ * well-formed UPI link or EMVCo code, or whose checksum doesn't match, is
+ * rejected.
+ */
+export const parseQrPayload = (raw: string): QrParseResult => {
+    const data = raw.trim();
+
+    if (/^upi:/i.test(data)) return parseUpi(data);
+    if (data.startsWith('000201')) return parseEmvco(data);
+
+    return { ok: false, error: 'Not a supported payment QR code' };
+};
@@ -8,9 +8,18 @@ interface Tip {
     potentialSavings?: number;
 }
 
-// Helper function to format currency in US format
-function formatCurrency(amount: number): string {
-    return amount.toLocaleString('en-US');
+// Helper function to format an amount in the wallet's currency, US style
+function formatCurrency(amount: number, currency: string = 'USD'): string {
+    try {
+        return new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency,
+            maximumFractionDigits: 2,
+        }).format(amount);
+    } catch {
+        // Unknown currency code
+        return `${currency} ${amount.toLocaleString('en-US')}`;
+    }
 }
 
 export class TipGenerationService {
@@ -19,6 +28,7 @@ export class TipGenerationService {
      */
     async generateDepositTips(userId: string, amount: number): Promise<Tip[]> {
         const tips: Tip[] = [];
+        let currency = 'USD';
 
         try {
             // Fetch user's goals and wallet info
@@ -30,25 +40,27 @@ export class TipGenerationService {
                 prisma.wallet.findUnique({ where: { userId } }),
             ]);
 
+            if (wallet) currency = wallet.currency;
+
             // Tip 1: Congratulatory message
             if (amount >= 10000) {
                 tips.push({
                     type: 'ACHIEVEMENT',
-                    title: `🎉 Wow! You added $${formatCurrency(amount)} to your wallet!`,
+                    title: `🎉 Wow! You added ${formatCurrency(amount, currency)} to your wallet!`,
                     description: 'Great job building your savings! This is a significant deposit that brings you closer to your financial goals.',
                     impact: 'HIGH',
                 });
             } else if (amount >= 1000) {
                 tips.push({
                     type: 'SAVING',
-                    title: `💰 Nice! $${formatCurrency(amount)} added to your wallet`,
+                    title: `💰 Nice! ${formatCurrency(amount, currency)} added to your wallet`,
                     description: 'Every deposit counts! You\'re making steady progress toward financial security.',
                     impact: 'MEDIUM',
                 });
             } else {
                 tips.push({
                     type: 'SAVING',
-                    title: `✨ $${formatCurrency(amount)} deposited successfully`,
+                    title: `✨ ${formatCurrency(amount, currency)} deposited successfully`,
                     description: 'Small steps lead to big achievements. Keep up the consistent saving habit!',
                     impact: 'LOW',
                 });
@@ -64,7 +76,7 @@ export class TipGenerationService {
                     tips.push({
                         type: 'GOAL',
                         title: '🎯 Smart Allocation Opportunity',
-                        description: `You could fully fund your "${topGoals[0].name}" goal ($${formatCurrency(topGoals[0].target - topGoals[0].saved)})${topGoals.length > 1 ? ` and "${topGoals[1].name}" goal ($${formatCurrency(topGoals[1].target - topGoals[1].saved)})` : ''}, and still have $${formatCurrency(amount - totalNeeded)} left in your wallet!`,
+                        description: `You could fully fund your "${topGoals[0].name}" goal (${formatCurrency(topGoals[0].target - topGoals[0].saved, currency)})${topGoals.length > 1 ? ` and "${topGoals[1].name}" goal (${formatCurrency(topGoals[1].target - topGoals[1].saved, currency)})` : ''}, and still have ${formatCurrency(amount - totalNeeded, currency)} left in your wallet!`,
                         impact: 'HIGH',
                         potentialSavings: amount - totalNeeded,
                     });
@@ -77,7 +89,7 @@ export class TipGenerationService {
                     tips.push({
                         type: 'GOAL',
                         title: '💡 Suggested Goal Allocation',
-                        description: `Consider allocating $${formatCurrency(allocation1)} to "${topGoals[0].name}" and $${formatCurrency(allocation2)} to "${topGoals[1].name}". You'll still have $${formatCurrency(remaining)} in your wallet for emergencies!`,
+                        description: `Consider allocating ${formatCurrency(allocation1, currency)} to "${topGoals[0].name}" and ${formatCurrency(allocation2, currency)} to "${topGoals[1].name}". You'll still have ${formatCurrency(remaining, currency)} in your wallet for emergencies!`,
                         impact: 'MEDIUM',
                         potentialSavings: remaining,
                     });
@@ -89,7 +101,7 @@ export class TipGenerationService {
                     tips.push({
                         type: 'GOAL',
                         title: '🎯 Boost Your Goal Progress',
-                        description: `Put $${formatCurrency(Math.floor(allocation))} toward your "${goals[0].name}" goal and keep $${formatCurrency(Math.floor(remaining))} for flexibility. You'd be ${Math.round(((goals[0].saved + allocation) / goals[0].target) * 100)}% toward your goal!`,
+                        description: `Put ${formatCurrency(Math.floor(allocation), currency)} toward your "${goals[0].name}" goal and keep ${formatCurrency(Math.floor(remaining), currency)} for flexibility. You'd be ${Math.round(((goals[0].saved + allocation) / goals[0].target) * 100)}% toward your goal!`,
                         impact: 'MEDIUM',
                     });
                 }
@@ -105,8 +117,8 @@ export class TipGenerationService {
                 if (nextMilestone) {
                     tips.push({
                         type: 'ACHIEVEMENT',
-                        title: `🏆 Milestone Reached: $${formatCurrency(nextMilestone)}!`,
-                        description: `Congratulations! Your wallet balance just crossed $${formatCurrency(nextMilestone)}. You're building serious financial momentum!`,
+                        title: `🏆 Milestone Reached: ${formatCurrency(nextMilestone, currency)}!`,
+                        description: `Congratulations! Your wallet balance just crossed ${formatCurrency(nextMilestone, currency)}. You're building serious financial momentum!`,
                         impact: 'HIGH',
                     });
                 } else if (goals.length > 0) {
@@ -118,7 +130,7 @@ export class TipGenerationService {
                     tips.push({
                         type: 'SAVING',
                         title: '📊 Your Financial Overview',
-                        description: `You have $${formatCurrency(currentBalance)} in your wallet. Across ${goals.length} goal${goals.length > 1 ? 's' : ''}, you've saved $${formatCurrency(totalSaved)} of $${formatCurrency(totalTarget)} (${Math.round(avgProgress)}% average progress). You're doing great!`,
+                        description: `You have ${formatCurrency(currentBalance, currency)} in your wallet. Across ${goals.length} goal${goals.length > 1 ? 's' : ''}, you've saved ${formatCurrency(totalSaved, currency)} of ${formatCurrency(totalTarget, currency)} (${Math.round(avgProgress)}% average progress). You're doing great!`,
                         impact: 'MEDIUM',
                     });
                 }
@@ -130,7 +142,7 @@ export class TipGenerationService {
             return [{
                 type: 'SAVING',
                 title: '💰 Deposit Successful',
-                description: `You've added $${formatCurrency(amount)} to your wallet. Keep up the great saving habits!`,
+                description: `You've added ${formatCurrency(amount, currency)} to your wallet. Keep up the great saving habits!`,
                 impact: 'MEDIUM',
             }];
         }
@@ -141,13 +153,17 @@ export class TipGenerationService {
      */
     async generateGoalTips(userId: string, goalId: string, amount: number): Promise<Tip[]> {
         const tips: Tip[] = [];
+        let currency = 'USD';
 
         try {
-            const [goal, allGoals] = await Promise.all([
+            const [goal, allGoals, wallet] = await Promise.all([
                 prisma.goal.findUnique({ where: { id: goalId } }),
                 prisma.goal.findMany({ where: { userId, isActive: true } }),
+                prisma.wallet.findUnique({ where: { userId }, select: { currency: true } }),
             ]);
 
+            if (wallet) currency = wallet.currency;
+
             if (!goal) return tips;
 
             const newSaved = goal.saved + amount;
@@ -159,14 +175,14 @@ export class TipGenerationService {
                 tips.push({
                     type: 'ACHIEVEMENT',
                     title: `🎉 Goal Achieved: ${goal.name}!`,
-                    description: `Congratulations! You've reached your goal of $${formatCurrency(goal.target)}. Time to celebrate this amazing achievement!`,
+                    description: `Congratulations! You've reached your goal of ${formatCurrency(goal.target, currency)}. Time to celebrate this amazing achievement!`,
                     impact: 'HIGH',
                 });
             } else if (progress >= 75) {
                 tips.push({
                     type: 'GOAL',
                     title: `🔥 Almost There: ${Math.round(progress)}% Complete!`,
-                    description: `Amazing progress on "${goal.name}"! Just $${formatCurrency(remaining)} more to reach your $${formatCurrency(goal.target)} goal. You're so close!`,
+                    description: `Amazing progress on "${goal.name}"! Just ${formatCurrency(remaining, currency)} more to reach your ${formatCurrency(goal.target, currency)} goal. You're so close!`,
                     impact: 'HIGH',
                 });
             } else if (progress >= 50) {
@@ -180,7 +196,7 @@ export class TipGenerationService {
                 tips.push({
                     type: 'GOAL',
                     title: `✨ Progress Update: ${Math.round(progress)}% Complete`,
-                    description: `Great contribution to "${goal.name}"! You've saved $${formatCurrency(newSaved)} of your $${formatCurrency(goal.target)} goal.`,
+                    description: `Great contribution to "${goal.name}"! You've saved ${formatCurrency(newSaved, currency)} of your ${formatCurrency(goal.target, currency)} goal.`,
                     impact: 'MEDIUM',
                 });
             }
@@ -197,21 +213,21 @@ export class TipGenerationService {
                     tips.push({
                         type: 'SAVING',
                         title: '⚡ You\'re Ahead of Schedule!',
-                        description: `At this rate, you only need to save $${dailyNeed.toFixed(2)}/day to reach your goal by ${targetDate.toLocaleDateString('en-US')}. You might even finish early!`,
+                        description: `At this rate, you only need to save ${formatCurrency(dailyNeed, currency)}/day to reach your goal by ${targetDate.toLocaleDateString('en-US')}. You might even finish early!`,
                         impact: 'MEDIUM',
                     });
                 } else if (dailyNeed <= 50) {
                     tips.push({
                         type: 'SAVING',
                         title: '🎯 On Track to Success',
-                        description: `Save $${dailyNeed.toFixed(2)}/day and you'll reach your "${goal.name}" goal by ${targetDate.toLocaleDateString('en-US')}. You've got this!`,
+                        description: `Save ${formatCurrency(dailyNeed, currency)}/day and you'll reach your "${goal.name}" goal by ${targetDate.toLocaleDateString('en-US')}. You've got this!`,
                         impact: 'MEDIUM',
                     });
                 } else {
                     tips.push({
                         type: 'WARNING',
                         title: '⏰ Increase Your Pace',
-                        description: `To reach your goal by ${targetDate.toLocaleDateString('en-US')}, try saving $${dailyNeed.toFixed(2)}/day. Consider adjusting your target date or increasing contributions.`,
+                        description: `To reach your goal by ${targetDate.toLocaleDateString('en-US')}, try saving ${formatCurrency(dailyNeed, currency)}/day. Consider adjusting your target date or increasing contributions.`,
                         impact: 'MEDIUM',
                     });
                 }
@@ -251,7 +267,7 @@ export class TipGenerationService {
             return [{
                 type: 'GOAL',
                 title: '✅ Contribution Successful',
-                description: `You've added $${formatCurrency(amount)} to your goal. Great work on building your savings!`,
+                description: `You've added ${formatCurrency(amount, currency)} to your goal. Great work on building your savings!`,
                 impact: 'MEDIUM',
             }];
         }
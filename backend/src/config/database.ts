@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 declare global {
   var __prisma: PrismaClient | undefined;
@@ -12,6 +12,31 @@ if (process.env.NODE_ENV !== 'production') {
   globalThis.__prisma = prisma;
 }
 
+// How many times a serializable transaction is retried after a write conflict
+const SERIALIZATION_RETRIES = 5;
+
+/**
+ * Run a transaction at SERIALIZABLE isolation, so reads it makes can't go
+ * stale before it commits. Postgres aborts one side of a conflicting pair
+ * (Prisma error P2034); that attempt is rolled back and retried after a short,
+ * jittered pause. Use this for anything that moves money.
+ */
+export async function serializableTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+    } catch (error) {
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+      if (!conflict || attempt >= SERIALIZATION_RETRIES) throw error;
+      await new Promise(resolve => setTimeout(resolve, attempt * 25 + Math.random() * 25));
+    }
+  }
+}
+
 export async function connectDatabase() {
   try {
     await prisma.$connect();
@@ -28,6 +28,10 @@ const envSchema = z.object({
   RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(900000),
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(100),
   
+  // Background Jobs
+  SCHEDULER_ENABLED: z.enum(['true', 'false']).default('true'),
+  SCHEDULER_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
+  
   // AI
   GEMINI_API_KEY: z.string().optional(),
   GEMINI_MODEL: z.string().optional(),
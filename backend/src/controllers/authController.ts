@@ -2,6 +2,14 @@ import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../config/database.js';
+import { isSupportedCurrency, normalizeCurrency } from '../services/fxService.js';
+import {
+  issueStepUpToken,
+  removeTransactionPin as removePin,
+  setTransactionPin as setPin,
+  verifyStepUpCredential,
+} from '../services/stepUpService.js';
+import { StepUpInput } from '../types/index.js';
 
 // ---------- ENV GUARD ----------
 const JWT_SECRET = process.env.JWT_SECRET;
@@ -11,9 +19,10 @@ if (!JWT_SECRET) {
 }
 
 // ---------- HELPERS ----------
-const generateToken = (user: { id: string; email: string }) => {
+// Child profiles get the restricted `child` scope (see denyChildScope)
+const generateToken = (user: { id: string; email: string; childProfile?: unknown }) => {
   return jwt.sign(
-    { id: user.id, email: user.email },
+    { id: user.id, email: user.email, ...(user.childProfile ? { scope: 'child' } : {}) },
     JWT_SECRET,
     { expiresIn: '7d' }
   );
@@ -91,6 +100,7 @@ export const login = async (req: Request, res: Response) => {
 
     const user = await prisma.user.findUnique({
       where: { email },
+      include: { childProfile: true },
     });
 
     if (!user) {
@@ -119,6 +129,7 @@ export const login = async (req: Request, res: Response) => {
           email: user.email,
           firstName: user.firstName,
           lastName: user.lastName,
+          isChild: user.childProfile !== null,
         },
         token,
       },
@@ -144,6 +155,11 @@ export const getProfile = async (req: Request, res: Response) => {
         email: true,
         firstName: true,
         lastName: true,
+        homeCurrency: true,
+        isMerchant: true,
+        merchantName: true,
+        transactionPin: true,
+        childProfile: { select: { parentId: true } },
         createdAt: true,
       },
     });
@@ -155,9 +171,16 @@ export const getProfile = async (req: Request, res: Response) => {
       });
     }
 
+    const { transactionPin, childProfile, ...profile } = user;
+
     return res.json({
       success: true,
-      data: user,
+      data: {
+        ...profile,
+        hasTransactionPin: transactionPin !== null,
+        isChild: childProfile !== null,
+        parentId: childProfile?.parentId ?? null,
+      },
     });
   } catch (error) {
     console.error('Get profile error:', error);
@@ -171,12 +194,22 @@ export const getProfile = async (req: Request, res: Response) => {
 export const updateProfile = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
-    const { firstName, lastName, password } = req.body;
+    const { firstName, lastName, password, homeCurrency } = req.body;
 
     const dataToUpdate: any = {};
 
     if (firstName !== undefined) dataToUpdate.firstName = firstName;
     if (lastName !== undefined) dataToUpdate.lastName = lastName;
+    if (homeCurrency !== undefined) {
+      const currency = normalizeCurrency(String(homeCurrency));
+      if (!(await isSupportedCurrency(currency))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Unsupported currency',
+        });
+      }
+      dataToUpdate.homeCurrency = currency;
+    }
     if (password) {
       dataToUpdate.password = await bcrypt.hash(password, 10);
     }
@@ -189,6 +222,7 @@ export const updateProfile = async (req: Request, res: Response) => {
         email: true,
         firstName: true,
         lastName: true,
+        homeCurrency: true,
       },
     });
 
@@ -211,3 +245,103 @@ export const changePassword = async (req: Request, res: Response) => {
     error: 'Not implemented yet',
   });
 };
+
+export const setTransactionPin = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { pin, password } = req.body;
+
+    const outcome = await setPin(userId, pin, password);
+
+    if (!outcome) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({
+        success: false,
+        error: outcome.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Transaction PIN set',
+    });
+  } catch (error) {
+    console.error('Set transaction PIN error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to set transaction PIN',
+    });
+  }
+};
+
+export const removeTransactionPin = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const outcome = await removePin(userId, req.body.password);
+
+    if (!outcome) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({
+        success: false,
+        error: outcome.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Transaction PIN removed',
+    });
+  } catch (error) {
+    console.error('Remove transaction PIN error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove transaction PIN',
+    });
+  }
+};
+
+export const stepUp = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const outcome = await verifyStepUpCredential(userId, req.body as StepUpInput);
+
+    if (!outcome) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({
+        success: false,
+        error: outcome.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: issueStepUpToken(userId),
+    });
+  } catch (error) {
+    console.error('Step-up error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to confirm',
+    });
+  }
+};
@@ -0,0 +1,411 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import { previewRule, ruleSchedule } from '../services/autoSaveService.js';
+import { occurrenceFrom } from '../utils/recurrence.js';
+
+const SCHEDULE_FIELDS = ['trigger', 'frequency', 'interval', 'startDate', 'endDate', 'isActive'];
+
+const findRule = (id: string, userId: string) =>
+  prisma.autoSaveRule.findFirst({ where: { id, userId } });
+
+/**
+ * Turn a validated request body into rule fields, with the first run of a
+ * scheduled rule at or after now (past occurrences are never back-filled).
+ */
+const buildRuleData = (ruleData: any, lastRunAt: Date | null = null) => {
+  const data = {
+    ...ruleData,
+    startDate: ruleData.startDate ? new Date(ruleData.startDate) : null,
+    endDate: ruleData.endDate ? new Date(ruleData.endDate) : null,
+  };
+
+  const schedule = ruleSchedule(data);
+  if (!schedule) {
+    return { ...data, frequency: data.trigger === 'SCHEDULE' ? data.frequency : null, nextRunAt: null };
+  }
+
+  const from = new Date(Math.max(
+    Date.now(),
+    schedule.startDate.getTime(),
+    lastRunAt ? lastRunAt.getTime() + 1 : 0
+  ));
+  const next = occurrenceFrom(schedule, from);
+
+  return {
+    ...data,
+    ...next,
+    isActive: (data.isActive ?? true) && next.isActive,
+  };
+};
+
+const validateRule = (rule: any) => {
+  if (rule.amountType === 'PERCENTAGE' && rule.amount > 100) {
+    return 'Percentage must be at most 100';
+  }
+  if (rule.trigger === 'SCHEDULE' && (!rule.frequency || !rule.startDate)) {
+    return 'Scheduled rules need a frequency and startDate';
+  }
+  if (rule.endDate && rule.startDate && new Date(rule.endDate) < new Date(rule.startDate)) {
+    return 'endDate must be on or after startDate';
+  }
+  return null;
+};
+
+export const createAutoSaveRule = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const ruleData = req.body;
+
+    const validationError = validateRule(ruleData);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+    }
+
+    const goal = await prisma.goal.findFirst({
+      where: { id: ruleData.goalId, userId },
+    });
+
+    if (!goal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Goal not found',
+      });
+    }
+
+    const rule = await prisma.autoSaveRule.create({
+      data: {
+        ...buildRuleData(ruleData),
+        userId,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: rule,
+      message: 'Auto-save rule created successfully',
+    });
+  } catch (error) {
+    console.error('Create auto-save rule error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create auto-save rule',
+    });
+  }
+};
+
+export const getAutoSaveRules = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { active } = req.query;
+
+    const where: any = { userId };
+    if (active !== undefined) where.isActive = active === 'true';
+
+    const rules = await prisma.autoSaveRule.findMany({
+      where,
+      include: {
+        goal: { select: { id: true, name: true, emoji: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return res.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    console.error('Get auto-save rules error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get auto-save rules',
+    });
+  }
+};
+
+export const getAutoSaveRule = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rule ID is required',
+      });
+    }
+
+    const rule = await prisma.autoSaveRule.findFirst({
+      where: { id, userId },
+      include: {
+        goal: { select: { id: true, name: true, emoji: true } },
+        runs: {
+          orderBy: { createdAt: 'desc' },
+          take: 5,
+        },
+      },
+    });
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Auto-save rule not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    console.error('Get auto-save rule error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get auto-save rule',
+    });
+  }
+};
+
+export const updateAutoSaveRule = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rule ID is required',
+      });
+    }
+
+    const existingRule = await findRule(id, userId);
+
+    if (!existingRule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Auto-save rule not found',
+      });
+    }
+
+    const merged = { ...existingRule, ...req.body };
+
+    const validationError = validateRule(merged);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+    }
+
+    if (req.body.goalId && req.body.goalId !== existingRule.goalId) {
+      const goal = await prisma.goal.findFirst({
+        where: { id: req.body.goalId, userId },
+      });
+
+      if (!goal) {
+        return res.status(404).json({
+          success: false,
+          error: 'Goal not found',
+        });
+      }
+    }
+
+    // Only reschedule when something that affects the schedule changed
+    const reschedule = SCHEDULE_FIELDS.some(field => req.body[field] !== undefined);
+
+    const updatedRule = await prisma.autoSaveRule.update({
+      where: { id },
+      data: reschedule
+        ? buildRuleData({
+            trigger: merged.trigger,
+            frequency: merged.frequency,
+            interval: merged.interval,
+            startDate: merged.startDate,
+            endDate: merged.endDate,
+            isActive: merged.isActive,
+            ...req.body,
+          }, existingRule.lastRunAt)
+        : req.body,
+    });
+
+    return res.json({
+      success: true,
+      data: updatedRule,
+      message: 'Auto-save rule updated successfully',
+    });
+  } catch (error) {
+    console.error('Update auto-save rule error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update auto-save rule',
+    });
+  }
+};
+
+export const deleteAutoSaveRule = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rule ID is required',
+      });
+    }
+
+    const existingRule = await findRule(id, userId);
+
+    if (!existingRule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Auto-save rule not found',
+      });
+    }
+
+    // Savings already made by the rule are kept; they just lose the rule link
+    await prisma.autoSaveRule.delete({ where: { id } });
+
+    return res.json({
+      success: true,
+      message: 'Auto-save rule deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete auto-save rule error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete auto-save rule',
+    });
+  }
+};
+
+export const previewAutoSaveRuleDefinition = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { count, depositAmount } = req.query as { count?: number; depositAmount?: number };
+
+    const validationError = validateRule(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+      });
+    }
+
+    const preview = await previewRule(userId, buildRuleData(req.body), {
+      ...(count !== undefined && { count }),
+      ...(depositAmount !== undefined && { depositAmount }),
+    });
+
+    return res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    console.error('Preview auto-save rule error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to preview auto-save rule',
+    });
+  }
+};
+
+export const previewAutoSaveRule = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { count, depositAmount } = req.query as { count?: number; depositAmount?: number };
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rule ID is required',
+      });
+    }
+
+    const rule = await findRule(id, userId);
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Auto-save rule not found',
+      });
+    }
+
+    const preview = await previewRule(userId, rule, {
+      ...(count !== undefined && { count }),
+      ...(depositAmount !== undefined && { depositAmount }),
+    });
+
+    return res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    console.error('Preview auto-save rule error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to preview auto-save rule',
+    });
+  }
+};
+
+export const getAutoSaveRuleRuns = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { page = '1', limit = '20', status } = req.query;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rule ID is required',
+      });
+    }
+
+    const rule = await findRule(id, userId);
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Auto-save rule not found',
+      });
+    }
+
+    const pageNum = Number(page);
+    const limitNum = Number(limit);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = { ruleId: id };
+    if (status) where.status = status;
+
+    const [runs, total] = await Promise.all([
+      prisma.autoSaveRun.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.autoSaveRun.count({ where }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: runs,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get auto-save rule runs error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get auto-save rule runs',
+    });
+  }
+};
@@ -0,0 +1,210 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { isSupportedCurrency } from '../services/fxService.js';
+import {
+  billSplitDetails,
+  cancelBillSplit as cancelSplit,
+  createBillSplit as createSplit,
+} from '../services/billSplitService.js';
+import { acceptPaymentRequest } from '../services/paymentRequestService.js';
+import { recordRoundUp } from '../services/roundUpService.js';
+import { getHomeCurrency } from '../services/walletService.js';
+import { BillSplitCreateInput } from '../types/index.js';
+
+export const createBillSplit = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const body = req.body as BillSplitCreateInput;
+    const currency = body.currency ?? await getHomeCurrency(prisma, userId);
+
+    if (!(await isSupportedCurrency(currency))) {
+      return res.status(400).json({ success: false, error: 'Unsupported currency' });
+    }
+
+    const outcome = await createSplit(userId, {
+      description: body.description,
+      category: body.category,
+      amount: body.amount,
+      currency,
+      date: body.date ? new Date(body.date) : new Date(),
+      method: body.method,
+      creatorShares: body.creatorShares,
+      participants: body.participants.map(({ phone, email, shares, amount }) => ({
+        ...(phone !== undefined && { phone }),
+        ...(email !== undefined && { email }),
+        ...(shares !== undefined && { shares }),
+        ...(amount !== undefined && { amount }),
+      })),
+    });
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    const split = await prisma.billSplit.findUniqueOrThrow({
+      where: { id: outcome.split.id },
+      include: billSplitDetails,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: split,
+      message: 'Bill split',
+    });
+  } catch (error) {
+    console.error('Create bill split error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to split bill' });
+  }
+};
+
+export const getBillSplits = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { role, page = 1, limit = 20 } = req.query as unknown as {
+      role?: 'created' | 'owed';
+      page?: number;
+      limit?: number;
+    };
+    const skip = (page - 1) * limit;
+
+    const created: Prisma.BillSplitWhereInput = { creatorId: userId };
+    const owed: Prisma.BillSplitWhereInput = { participants: { some: { userId } } };
+    const where: Prisma.BillSplitWhereInput = role === 'created'
+      ? created
+      : role === 'owed'
+        ? owed
+        : { OR: [created, owed] };
+
+    const [splits, total] = await Promise.all([
+      prisma.billSplit.findMany({
+        where,
+        include: billSplitDetails,
+        orderBy: { date: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.billSplit.count({ where }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: splits,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get bill splits error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get bill splits' });
+  }
+};
+
+export const getBillSplit = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Bill split ID is required' });
+    }
+
+    const split = await prisma.billSplit.findFirst({
+      where: { id, OR: [{ creatorId: userId }, { participants: { some: { userId } } }] },
+      include: billSplitDetails,
+    });
+
+    if (!split) {
+      return res.status(404).json({ success: false, error: 'Bill split not found' });
+    }
+
+    return res.json({ success: true, data: split });
+  } catch (error) {
+    console.error('Get bill split error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get bill split' });
+  }
+};
+
+export const settleBillSplit = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Bill split ID is required' });
+    }
+
+    const participant = await prisma.billSplitParticipant.findUnique({
+      where: { splitId_userId: { splitId: id, userId } },
+    });
+
+    if (!participant) {
+      return res.status(404).json({ success: false, error: 'Bill split not found' });
+    }
+
+    if (participant.settledAt) {
+      return res.status(400).json({ success: false, error: 'Your share is already paid' });
+    }
+
+    const outcome = await acceptPaymentRequest(participant.paymentRequestId, userId);
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Bill split not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    const { request, transfer } = outcome;
+    let wallet = transfer.senderWallet;
+
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const roundUp = request.currency === homeCurrency
+      ? await recordRoundUp(userId, { amount: request.amount, sourceTransactionId: transfer.transaction.id })
+      : null;
+    if (roundUp?.status === 'SWEPT') {
+      wallet = await prisma.wallet.findUniqueOrThrow({ where: { id: wallet.id } });
+    }
+
+    const split = await prisma.billSplit.findUniqueOrThrow({ where: { id }, include: billSplitDetails });
+
+    return res.json({
+      success: true,
+      data: { split, transaction: transfer.transaction, wallet, roundUp, fx: transfer.fx },
+      message: 'Share paid',
+    });
+  } catch (error) {
+    console.error('Settle bill split error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to pay share' });
+  }
+};
+
+export const cancelBillSplit = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Bill split ID is required' });
+    }
+
+    const outcome = await cancelSplit(id, userId);
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Bill split not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({ success: true, data: outcome.split, message: 'Bill split cancelled' });
+  } catch (error) {
+    console.error('Cancel bill split error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to cancel bill split' });
+  }
+};
@@ -0,0 +1,209 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import {
+  getBudgetStatuses,
+  parseMonth,
+  summarizeBudgets,
+} from '../services/budgetService.js';
+
+const findBudgetByCategory = (userId: string, category: string) =>
+  prisma.budget.findFirst({
+    where: { userId, category: { equals: category, mode: 'insensitive' } },
+  });
+
+export const createBudget = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const budgetData = req.body;
+
+    const existingBudget = await findBudgetByCategory(userId, budgetData.category);
+
+    if (existingBudget) {
+      return res.status(409).json({
+        success: false,
+        error: `A budget for ${existingBudget.category} already exists`,
+      });
+    }
+
+    const budget = await prisma.budget.create({
+      data: {
+        ...budgetData,
+        userId,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: budget,
+      message: 'Budget created successfully',
+    });
+  } catch (error) {
+    console.error('Create budget error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create budget',
+    });
+  }
+};
+
+export const getBudgets = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { month, includeInactive } = req.query;
+
+    const budgets = await getBudgetStatuses(
+      userId,
+      parseMonth(month as string | undefined),
+      includeInactive !== 'true'
+    );
+
+    return res.json({
+      success: true,
+      data: budgets,
+      summary: summarizeBudgets(budgets.filter(b => b.isActive)),
+    });
+  } catch (error) {
+    console.error('Get budgets error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get budgets',
+    });
+  }
+};
+
+export const getBudget = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { month } = req.query;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Budget ID is required',
+      });
+    }
+
+    const statuses = await getBudgetStatuses(userId, parseMonth(month as string | undefined), false);
+    const budget = statuses.find(b => b.id === id);
+
+    if (!budget) {
+      return res.status(404).json({
+        success: false,
+        error: 'Budget not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: budget,
+    });
+  } catch (error) {
+    console.error('Get budget error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get budget',
+    });
+  }
+};
+
+export const updateBudget = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Budget ID is required',
+      });
+    }
+
+    const existingBudget = await prisma.budget.findFirst({
+      where: { id, userId },
+    });
+
+    if (!existingBudget) {
+      return res.status(404).json({
+        success: false,
+        error: 'Budget not found',
+      });
+    }
+
+    if (req.body.category) {
+      const duplicate = await findBudgetByCategory(userId, req.body.category);
+      if (duplicate && duplicate.id !== id) {
+        return res.status(409).json({
+          success: false,
+          error: `A budget for ${duplicate.category} already exists`,
+        });
+      }
+    }
+
+    const rollover = req.body.rollover ?? existingBudget.rollover;
+    const rolloverCap =
+      req.body.rolloverCap !== undefined ? req.body.rolloverCap : existingBudget.rolloverCap;
+
+    if (rollover === 'CAPPED' && rolloverCap === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'rolloverCap is required for CAPPED rollover',
+      });
+    }
+
+    const updatedBudget = await prisma.budget.update({
+      where: { id },
+      data: req.body,
+    });
+
+    return res.json({
+      success: true,
+      data: updatedBudget,
+      message: 'Budget updated successfully',
+    });
+  } catch (error) {
+    console.error('Update budget error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update budget',
+    });
+  }
+};
+
+export const deleteBudget = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Budget ID is required',
+      });
+    }
+
+    const existingBudget = await prisma.budget.findFirst({
+      where: { id, userId },
+    });
+
+    if (!existingBudget) {
+      return res.status(404).json({
+        success: false,
+        error: 'Budget not found',
+      });
+    }
+
+    await prisma.budget.delete({ where: { id } });
+
+    return res.json({
+      success: true,
+      message: 'Budget deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete budget error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete budget',
+    });
+  }
+};
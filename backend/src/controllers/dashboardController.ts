@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database.js';
+import { getBudgetStatuses, summarizeBudgets } from '../services/budgetService.js';
+import { FxRateTable, convertWithTable, loadRateTable } from '../services/fxService.js';
+import { getHomeCurrency } from '../services/walletService.js';
 
 export const getDashboardData = async (req: Request, res: Response) => {
   try {
@@ -14,10 +17,16 @@ export const getDashboardData = async (req: Request, res: Response) => {
       monthlyExpenses,
       yearlyExpenses,
       monthlySavings,
-      yearlySavings
+      yearlySavings,
+      budgets,
+      homeCurrency,
+      rateTable,
+      goalCurrencies,
+      wallets
     ] = await Promise.all([
-      // Total savings
-      prisma.saving.aggregate({
+      // Total savings, per goal so each can be converted from the goal's currency
+      prisma.saving.groupBy({
+        by: ['goalId'],
         where: { userId },
         _sum: { amount: true },
       }),
@@ -69,7 +78,8 @@ export const getDashboardData = async (req: Request, res: Response) => {
       }),
       
       // Monthly savings (current month)
-      prisma.saving.aggregate({
+      prisma.saving.groupBy({
+        by: ['goalId'],
         where: {
           userId,
           date: {
@@ -80,7 +90,8 @@ export const getDashboardData = async (req: Request, res: Response) => {
       }),
       
       // Yearly savings (current year)
-      prisma.saving.aggregate({
+      prisma.saving.groupBy({
+        by: ['goalId'],
         where: {
           userId,
           date: {
@@ -89,16 +100,36 @@ export const getDashboardData = async (req: Request, res: Response) => {
         },
         _sum: { amount: true },
       }),
+
+      // Budget-vs-actual for the current month
+      getBudgetStatuses(userId),
+
+      // Everything below is reported in the user's home currency
+      getHomeCurrency(prisma, userId),
+      loadRateTable(),
+      prisma.goal.findMany({
+        where: { userId },
+        select: { id: true, currency: true },
+      }),
+      prisma.wallet.findMany({
+        where: { userId },
+        select: { balance: true, currency: true },
+      }),
     ]);
 
+    const currencyByGoal = new Map(goalCurrencies.map(goal => [goal.id, goal.currency]));
+    const toHome = (amount: number, currency: string) =>
+      convertWithTable(rateTable, amount, currency, homeCurrency);
+
     // Calculate savings data
-    const totalSaved = totalSavings._sum.amount || 0;
-    const monthlyGrowth = monthlySavings._sum.amount || 0;
-    const yearlyGrowth = yearlySavings._sum.amount || 0;
+    const totalSaved = sumSavingsInCurrency(totalSavings, currencyByGoal, rateTable, homeCurrency);
+    const monthlyGrowth = sumSavingsInCurrency(monthlySavings, currencyByGoal, rateTable, homeCurrency);
+    const yearlyGrowth = sumSavingsInCurrency(yearlySavings, currencyByGoal, rateTable, homeCurrency);
+    const walletTotal = wallets.reduce((sum, wallet) => sum + toHome(wallet.balance, wallet.currency), 0);
 
-    // Calculate monthly budget (estimated based on expenses)
+    // Monthly budget is the sum of the user's category budgets (including rollover)
     const monthlyExpenseTotal = monthlyExpenses._sum.amount || 0;
-    const monthlyBudget = Math.max(monthlyExpenseTotal * 1.2, 2500); // 20% buffer or minimum $2500
+    const budgetSummary = summarizeBudgets(budgets);
 
     // Format recent expenses
     const formattedExpenses = recentExpenses.map(expense => ({
@@ -109,13 +140,14 @@ export const getDashboardData = async (req: Request, res: Response) => {
       date: formatRelativeDate(expense.date),
     }));
 
-    // Format goals with progress
+    // Format goals with progress, converted to the home currency
     const formattedGoals = goals.map(goal => ({
       id: goal.id,
       name: goal.name,
       description: goal.description,
-      target: goal.target,
-      saved: goal.saved,
+      target: toHome(goal.target, goal.currency),
+      saved: toHome(goal.saved, goal.currency),
+      currency: goal.currency,
       targetDate: goal.targetDate.toISOString().split('T')[0],
       priority: goal.priority,
       emoji: goal.emoji,
@@ -128,7 +160,8 @@ export const getDashboardData = async (req: Request, res: Response) => {
       monthlyGrowth,
       yearlyGrowth,
       monthlyExpenseTotal,
-      goals
+      goals,
+      budgetSummary.overBudgetCategories
     );
 
     // Format AI suggestions
@@ -142,12 +175,17 @@ export const getDashboardData = async (req: Request, res: Response) => {
     }));
 
     const dashboardData = {
+      currency: homeCurrency,
+      walletTotal: Math.round(walletTotal * 100) / 100,
       savings: {
         total: totalSaved,
         monthlyGrowth,
         yearlyGrowth,
       },
-      monthlyBudget,
+      monthlyBudget: budgetSummary.limit,
+      monthlySpent: monthlyExpenseTotal,
+      budgetSummary,
+      budgets,
       recentExpenses: formattedExpenses,
       goals: formattedGoals,
       quickInsights,
@@ -177,9 +215,10 @@ export const getAnalytics = async (req: Request, res: Response) => {
     startDate.setDate(startDate.getDate() - days);
 
     // Get spending analytics
-    const [expenseAnalytics, savingsAnalytics] = await Promise.all([
+    const [expenseAnalytics, savingsAnalytics, budgets] = await Promise.all([
       getSpendingAnalytics(userId, startDate),
       getSavingsAnalytics(userId, startDate),
+      getBudgetStatuses(userId),
     ]);
 
     res.json({
@@ -187,6 +226,10 @@ export const getAnalytics = async (req: Request, res: Response) => {
       data: {
         spending: expenseAnalytics,
         savings: savingsAnalytics,
+        budgets: {
+          summary: summarizeBudgets(budgets),
+          categories: budgets,
+        },
       },
     });
   } catch (error) {
@@ -199,6 +242,20 @@ export const getAnalytics = async (req: Request, res: Response) => {
 };
 
 // Helper functions
+function sumSavingsInCurrency(
+  groups: { goalId: string | null; _sum: { amount: number | null } }[],
+  currencyByGoal: Map<string, string>,
+  rateTable: FxRateTable,
+  currency: string
+): number {
+  // Savings without a goal were made in the home currency
+  const total = groups.reduce((sum, group) => {
+    const from = (group.goalId && currencyByGoal.get(group.goalId)) || currency;
+    return sum + convertWithTable(rateTable, group._sum.amount || 0, from, currency);
+  }, 0);
+  return Math.round(total * 100) / 100;
+}
+
 function formatRelativeDate(date: Date): string {
   const now = new Date();
   const diffTime = Math.abs(now.getTime() - date.getTime());
@@ -216,10 +273,16 @@ function generateQuickInsights(
   monthlyGrowth: number,
   yearlyGrowth: number,
   monthlyExpenses: number,
-  goals: any[]
+  goals: any[],
+  overBudgetCategories: string[]
 ): string[] {
   const insights = [];
 
+  // Budget insights
+  if (overBudgetCategories.length > 0) {
+    insights.push(`You're over budget on ${overBudgetCategories.join(', ')} this month.`);
+  }
+
   // Savings insights
   if (monthlyGrowth > 500) {
     insights.push("Great job! You've been saving consistently this month. Keep up the momentum!");
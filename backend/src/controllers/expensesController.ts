@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { prisma } from '../config/database.js';
+import { recordRoundUp } from '../services/roundUpService.js';
 
 export const createExpense = async (req: Request, res: Response) => {
   try {
@@ -14,9 +15,12 @@ export const createExpense = async (req: Request, res: Response) => {
       },
     });
 
+    const roundUp = await recordRoundUp(userId, { amount: expense.amount, expenseId: expense.id });
+
     return res.status(201).json({
       success: true,
       data: expense,
+      roundUp,
       message: 'Expense created successfully',
     });
   } catch (error) {
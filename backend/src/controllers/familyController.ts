@@ -0,0 +1,338 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import {
+  ChildControls,
+  childUserSelect,
+  createChild as createChildProfile,
+  findChild,
+  getChildOverview,
+  updateChildControls as updateControls,
+} from '../services/familyService.js';
+import { savePayee } from '../services/payeeService.js';
+import { closeHeldTransfer, releaseHeldTransfer } from '../services/riskService.js';
+import { TransferSchedule, firstRunFrom } from '../services/scheduledTransferService.js';
+import { AllowanceCreateInput, ChildCreateInput, PayeeCreateInput } from '../types/index.js';
+
+// ================= CHILDREN =================
+
+export const createChild = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { email, password, firstName, lastName, phone } = req.body as ChildCreateInput;
+
+    const outcome = await createChildProfile(userId, {
+      email,
+      password,
+      firstName,
+      ...(lastName !== undefined && { lastName }),
+      ...(phone !== undefined && { phone }),
+    });
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: outcome.child,
+      message: 'Child profile created',
+    });
+  } catch (error) {
+    console.error('Create child error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to create child profile' });
+  }
+};
+
+export const getChildren = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const children = await prisma.childProfile.findMany({
+      where: { parentId: userId },
+      include: {
+        user: {
+          select: {
+            ...childUserSelect,
+            wallets: { select: { id: true, currency: true, balance: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return res.json({ success: true, data: children });
+  } catch (error) {
+    console.error('Get children error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get children' });
+  }
+};
+
+export const getChild = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Child ID is required' });
+    }
+
+    const profile = await findChild(prisma, userId, id);
+
+    if (!profile) {
+      return res.status(404).json({ success: false, error: 'Child not found' });
+    }
+
+    return res.json({
+      success: true,
+      data: { ...profile, ...(await getChildOverview(profile)) },
+    });
+  } catch (error) {
+    console.error('Get child error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get child' });
+  }
+};
+
+export const updateChildControls = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Child ID is required' });
+    }
+
+    const profile = await updateControls(userId, id, req.body as ChildControls);
+
+    if (!profile) {
+      return res.status(404).json({ success: false, error: 'Child not found' });
+    }
+
+    return res.json({
+      success: true,
+      data: { ...profile, ...(await getChildOverview(profile)) },
+      message: 'Limits updated',
+    });
+  } catch (error) {
+    console.error('Update child controls error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update limits' });
+  }
+};
+
+export const getChildActivity = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { page = '1', limit = '20' } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Child ID is required' });
+    }
+
+    if (!(await findChild(prisma, userId, id))) {
+      return res.status(404).json({ success: false, error: 'Child not found' });
+    }
+
+    const where = { OR: [{ senderUserId: id }, { receiverUserId: id }] };
+
+    const [transactions, total] = await Promise.all([
+      prisma.transaction.findMany({
+        where,
+        // Whether a transfer was held, and what the parent decided
+        include: { riskDecision: { select: { outcome: true, resolution: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.transaction.count({ where }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: transactions,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get child activity error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get child activity' });
+  }
+};
+
+// ================= ALLOWANCES =================
+
+export const createAllowance = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { amount, description, frequency, interval, startDate, endDate } = req.body as AllowanceCreateInput;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Child ID is required' });
+    }
+
+    const profile = await findChild(prisma, userId, id);
+
+    if (!profile) {
+      return res.status(404).json({ success: false, error: 'Child not found' });
+    }
+
+    const schedule: TransferSchedule = {
+      frequency,
+      interval,
+      startDate: new Date(startDate),
+      endDate: endDate ? new Date(endDate) : null,
+    };
+
+    const allowance = await prisma.scheduledTransfer.create({
+      data: {
+        amount,
+        currency: profile.user.homeCurrency,
+        description: description || `Allowance for ${profile.user.firstName}`,
+        ...schedule,
+        ...firstRunFrom(schedule, schedule.startDate),
+        userId,
+        receiverId: id,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: allowance,
+      message: 'Allowance scheduled',
+    });
+  } catch (error) {
+    console.error('Create allowance error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to schedule allowance' });
+  }
+};
+
+// ================= PAYEES =================
+
+export const createChildPayee = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { phone, nickname, isFavorite } = req.body as PayeeCreateInput;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Child ID is required' });
+    }
+
+    if (!(await findChild(prisma, userId, id))) {
+      return res.status(404).json({ success: false, error: 'Child not found' });
+    }
+
+    const outcome = await savePayee(id, {
+      phone,
+      ...(nickname !== undefined && { nickname }),
+      ...(isFavorite !== undefined && { isFavorite }),
+    });
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: outcome.payee,
+      message: 'Payee saved',
+    });
+  } catch (error) {
+    console.error('Create child payee error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to save payee' });
+  }
+};
+
+// ================= APPROVALS =================
+
+export const getApprovals = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const holds = await prisma.riskDecision.findMany({
+      where: {
+        outcome: 'HOLD_PARENT',
+        resolution: null,
+        user: { childProfile: { parentId: userId } },
+        transaction: { status: 'PENDING' },
+      },
+      include: {
+        user: { select: { id: true, firstName: true, lastName: true } },
+        transaction: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return res.json({ success: true, data: holds });
+  } catch (error) {
+    console.error('Get approvals error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get approvals' });
+  }
+};
+
+export const approveChildTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Transaction ID is required' });
+    }
+
+    const outcome = await releaseHeldTransfer(id, { role: 'PARENT', userId });
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Transfer awaiting approval not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({
+      success: true,
+      data: { txRecord: outcome.transfer.transaction, decision: outcome.decision },
+      message: 'Transfer approved',
+    });
+  } catch (error) {
+    console.error('Approve child transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to approve transfer' });
+  }
+};
+
+export const declineChildTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Transaction ID is required' });
+    }
+
+    const outcome = await closeHeldTransfer(id, { role: 'PARENT', userId });
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Transfer awaiting approval not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({
+      success: true,
+      data: { txRecord: outcome.transaction, decision: outcome.decision },
+      message: 'Transfer declined',
+    });
+  } catch (error) {
+    console.error('Decline child transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to decline transfer' });
+  }
+};
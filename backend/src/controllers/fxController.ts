@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import {
+  FX_BASE_CURRENCY,
+  quoteConversion,
+  setRates,
+  syncRatesFromFile,
+} from '../services/fxService.js';
+
+export const getFxRates = async (req: Request, res: Response) => {
+  try {
+    const rates = await prisma.fxRate.findMany({
+      orderBy: { currency: 'asc' },
+    });
+
+    return res.json({
+      success: true,
+      data: rates,
+      base: FX_BASE_CURRENCY,
+    });
+  } catch (error) {
+    console.error('Get FX rates error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get exchange rates',
+    });
+  }
+};
+
+export const convertCurrency = async (req: Request, res: Response) => {
+  try {
+    const { from, to, amount } = req.query as unknown as { from: string; to: string; amount: number };
+
+    const quote = await quoteConversion(amount, from, to);
+
+    if (!quote) {
+      return res.status(400).json({
+        success: false,
+        error: `No exchange rate from ${from} to ${to}`,
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: quote,
+    });
+  } catch (error) {
+    console.error('Convert currency error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to convert currency',
+    });
+  }
+};
+
+export const updateFxRates = async (req: Request, res: Response) => {
+  try {
+    const updated = await setRates(req.body.rates, 'ADMIN');
+
+    return res.json({
+      success: true,
+      data: { updated },
+      message: `Updated ${updated} exchange rate(s)`,
+    });
+  } catch (error) {
+    console.error('Update FX rates error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update exchange rates',
+    });
+  }
+};
+
+export const reloadFxRates = async (req: Request, res: Response) => {
+  try {
+    const updated = await syncRatesFromFile(true);
+
+    return res.json({
+      success: true,
+      data: { updated },
+      message: `Loaded ${updated} exchange rate(s) from file`,
+    });
+  } catch (error) {
+    console.error('Reload FX rates error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reload exchange rates',
+    });
+  }
+};
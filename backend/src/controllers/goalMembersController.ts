@@ -0,0 +1,205 @@
+import { Request, Response } from 'express';
+import { GoalMemberRole } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import {
+  cancelGoalInvitation as cancelInvitation,
+  inviteToGoal,
+  removeGoalMember as removeMember,
+  respondToGoalInvitation,
+  updateGoalMemberRole as updateMemberRole,
+} from '../services/sharedGoalService.js';
+import { GoalInvitationCreateInput } from '../types/index.js';
+
+// ================= INVITATIONS =================
+
+export const createGoalInvitation = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { phone, email, role } = req.body as GoalInvitationCreateInput;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Goal ID is required' });
+    }
+
+    const outcome = await inviteToGoal(id, userId, {
+      ...(phone !== undefined && { phone }),
+      ...(email !== undefined && { email }),
+      role,
+    });
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Goal not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: outcome.invitation,
+      message: 'Invitation sent',
+    });
+  } catch (error) {
+    console.error('Create goal invitation error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to send invitation' });
+  }
+};
+
+export const cancelGoalInvitation = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { id, invitationId } = req.params;
+
+    if (!id || !invitationId) {
+      return res.status(400).json({ success: false, error: 'Goal and invitation IDs are required' });
+    }
+
+    const outcome = await cancelInvitation(id, invitationId, userId);
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Invitation not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({ success: true, data: outcome.invitation, message: 'Invitation cancelled' });
+  } catch (error) {
+    console.error('Cancel goal invitation error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to cancel invitation' });
+  }
+};
+
+export const getGoalInvitations = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const invitations = await prisma.goalInvitation.findMany({
+      where: { inviteeId: userId, status: 'PENDING' },
+      include: {
+        goal: { select: { id: true, name: true, emoji: true, target: true, saved: true, currency: true } },
+        inviter: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return res.json({ success: true, data: invitations });
+  } catch (error) {
+    console.error('Get goal invitations error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get invitations' });
+  }
+};
+
+const respond = async (req: Request, res: Response, accept: boolean) => {
+  const userId = (req as any).user.id;
+  const id = req.params.invitationId;
+
+  if (!id) {
+    return res.status(400).json({ success: false, error: 'Invitation ID is required' });
+  }
+
+  const outcome = await respondToGoalInvitation(id, userId, accept);
+
+  if (!outcome) {
+    return res.status(404).json({ success: false, error: 'Invitation not found' });
+  }
+
+  if (!outcome.ok) {
+    return res.status(400).json({ success: false, error: outcome.error });
+  }
+
+  return res.json({
+    success: true,
+    data: outcome.invitation,
+    message: accept ? 'You joined the goal' : 'Invitation declined',
+  });
+};
+
+export const acceptGoalInvitation = async (req: Request, res: Response) => {
+  try {
+    return await respond(req, res, true);
+  } catch (error) {
+    console.error('Accept goal invitation error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to accept invitation' });
+  }
+};
+
+export const declineGoalInvitation = async (req: Request, res: Response) => {
+  try {
+    return await respond(req, res, false);
+  } catch (error) {
+    console.error('Decline goal invitation error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to decline invitation' });
+  }
+};
+
+// ================= MEMBERS =================
+
+export const updateGoalMember = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { id, userId: memberId } = req.params;
+    const { role } = req.body as { role: GoalMemberRole };
+
+    if (!id || !memberId) {
+      return res.status(400).json({ success: false, error: 'Goal and member IDs are required' });
+    }
+
+    const member = await updateMemberRole(id, userId, memberId, role);
+
+    if (!member) {
+      return res.status(404).json({ success: false, error: 'Member not found' });
+    }
+
+    return res.json({ success: true, data: member, message: 'Member updated' });
+  } catch (error) {
+    console.error('Update goal member error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update member' });
+  }
+};
+
+const takeOff = async (req: Request, res: Response, memberId: string | undefined) => {
+  const userId = (req as any).user.id;
+  const id = req.params.id;
+
+  if (!id || !memberId) {
+    return res.status(400).json({ success: false, error: 'Goal and member IDs are required' });
+  }
+
+  const outcome = await removeMember(id, memberId, userId);
+
+  if (!outcome) {
+    return res.status(404).json({ success: false, error: 'Member not found' });
+  }
+
+  if (!outcome.ok) {
+    return res.status(400).json({ success: false, error: outcome.error });
+  }
+
+  return res.json({
+    success: true,
+    data: { returned: outcome.returned },
+    message: memberId === userId ? 'You left the goal' : 'Member removed',
+  });
+};
+
+export const removeGoalMember = async (req: Request, res: Response) => {
+  try {
+    return await takeOff(req, res, req.params.userId);
+  } catch (error) {
+    console.error('Remove goal member error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to remove member' });
+  }
+};
+
+export const leaveGoal = async (req: Request, res: Response) => {
+  try {
+    return await takeOff(req, res, (req as any).user.id);
+  } catch (error) {
+    console.error('Leave goal error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to leave goal' });
+  }
+};
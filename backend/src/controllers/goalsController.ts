@@ -1,5 +1,23 @@
 import { Request, Response } from 'express';
-import { prisma } from '../config/database.js';
+import { prisma, serializableTransaction } from '../config/database.js';
+import {
+  addGoalLedgerEntry,
+  deductGoalLedgerEntry,
+  getGoalLedgerBalance,
+  getGoalWalletBalance,
+} from '../services/goalLedgerService.js';
+import { postTransfer } from '../services/ledgerService.js';
+import { checkTransferLimits } from '../services/riskService.js';
+import {
+  canContribute,
+  findGoalAccess,
+  getGoalMemberBreakdown,
+  getWithdrawableShare,
+  goalsVisibleTo,
+  returnMemberShare,
+  withdrawGoalShare,
+} from '../services/sharedGoalService.js';
+import { ensureWallet, findWallet, getHomeCurrency } from '../services/walletService.js';
 
 export const createGoal = async (req: Request, res: Response) => {
   try {
@@ -10,6 +28,7 @@ export const createGoal = async (req: Request, res: Response) => {
       data: {
         ...goalData,
         userId,
+        currency: await getHomeCurrency(prisma, userId),
         targetDate: new Date(goalData.targetDate),
       },
     });
@@ -33,11 +52,15 @@ export const getGoals = async (req: Request, res: Response) => {
     const userId = (req as any).user.id;
     const { active } = req.query;
 
-    const where: any = { userId };
+    const where: any = goalsVisibleTo(userId);
     if (active !== undefined) where.isActive = active === 'true';
 
     const goals = await prisma.goal.findMany({
       where,
+      include: {
+        members: { where: { userId }, select: { role: true } },
+        _count: { select: { members: true } },
+      },
       orderBy: [
         { priority: 'desc' },
         { targetDate: 'asc' },
@@ -46,7 +69,11 @@ export const getGoals = async (req: Request, res: Response) => {
 
     return res.json({
       success: true,
-      data: goals,
+      data: goals.map(({ members, _count, ...goal }) => ({
+        ...goal,
+        role: goal.userId === userId ? 'OWNER' : members[0]!.role,
+        memberCount: _count.members,
+      })),
     });
   } catch (error) {
     console.error('Get goals error:', error);
@@ -69,11 +96,9 @@ export const getGoal = async (req: Request, res: Response) => {
       });
     }
 
-    const goal = await prisma.goal.findFirst({
-      where: { id, userId },
-    });
+    const access = await findGoalAccess(prisma, id, userId);
 
-    if (!goal) {
+    if (!access) {
       return res.status(404).json({
         success: false,
         error: 'Goal not found',
@@ -82,7 +107,19 @@ export const getGoal = async (req: Request, res: Response) => {
 
     return res.json({
       success: true,
-      data: goal,
+      data: {
+        ...access.goal,
+        role: access.role,
+        members: await getGoalMemberBreakdown(prisma, access.goal),
+        // Only the owner sees who hasn't answered yet
+        ...(access.role === 'OWNER' && {
+          invitations: await prisma.goalInvitation.findMany({
+            where: { goalId: id, status: 'PENDING' },
+            include: { invitee: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } } },
+            orderBy: { createdAt: 'asc' },
+          }),
+        }),
+      },
     });
   } catch (error) {
     console.error('Get goal error:', error);
@@ -105,27 +142,59 @@ export const updateGoal = async (req: Request, res: Response) => {
       });
     }
 
-    const existingGoal = await prisma.goal.findFirst({
-      where: { id, userId },
-    });
+    const access = await findGoalAccess(prisma, id, userId);
 
-    if (!existingGoal) {
+    if (!access) {
       return res.status(404).json({
         success: false,
         error: 'Goal not found',
       });
     }
 
+    if (access.role !== 'OWNER') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the goal owner can edit it',
+      });
+    }
+
+    const { saved, ...goalData } = req.body;
+
     const dataToUpdate = {
-      ...req.body,
-      ...(req.body.targetDate && {
-        targetDate: new Date(req.body.targetDate),
+      ...goalData,
+      ...(goalData.targetDate && {
+        targetDate: new Date(goalData.targetDate),
       }),
     };
 
-    const updatedGoal = await prisma.goal.update({
-      where: { id },
-      data: dataToUpdate,
+    const updatedGoal = await serializableTransaction(async (tx) => {
+      // Editing the balance directly is recorded as a manual adjustment so the
+      // contribution ledger still adds up to `saved`. The current balance is
+      // re-read here so a contribution landing meanwhile isn't overwritten
+      const { saved: current } = await tx.goal.findUniqueOrThrow({ where: { id } });
+
+      if (saved !== undefined && saved !== current) {
+        const adjustment = {
+          amount: Math.abs(saved - current),
+          type: 'MANUAL' as const,
+          date: new Date(),
+          userId,
+          goalId: id,
+          isExternal: true,
+        };
+        const movement = { counterparty: { type: 'EXTERNAL' as const }, description: 'Manual adjustment' };
+
+        if (saved > current) {
+          await addGoalLedgerEntry(tx, adjustment, movement);
+        } else {
+          await deductGoalLedgerEntry(tx, adjustment, movement);
+        }
+      }
+
+      return tx.goal.update({
+        where: { id },
+        data: dataToUpdate,
+      });
     });
 
     return res.json({
@@ -154,18 +223,44 @@ export const deleteGoal = async (req: Request, res: Response) => {
       });
     }
 
-    const existingGoal = await prisma.goal.findFirst({
-      where: { id, userId },
-    });
+    const access = await findGoalAccess(prisma, id, userId);
 
-    if (!existingGoal) {
+    if (!access) {
       return res.status(404).json({
         success: false,
         error: 'Goal not found',
       });
     }
 
-    await prisma.goal.delete({ where: { id } });
+    if (access.role !== 'OWNER') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the goal owner can delete it',
+      });
+    }
+
+    await serializableTransaction(async (tx) => {
+      // Members and then the owner get their share back as if they had left,
+      // the wallet part to their wallet. Whatever is left was saved outside the
+      // app and is written off so the goal's ledger account closes at zero
+      const members = await tx.goalMember.findMany({ where: { goalId: id } });
+      for (const member of members) {
+        await returnMemberShare(tx, access.goal, member.userId);
+      }
+      await returnMemberShare(tx, access.goal, userId);
+
+      const { saved } = await tx.goal.findUniqueOrThrow({ where: { id } });
+      if (saved > 0) {
+        await postTransfer(tx, {
+          from: { type: 'GOAL', goalId: id },
+          to: { type: 'EXTERNAL' },
+          amount: saved,
+          description: `Closed goal ${access.goal.name}`,
+        });
+      }
+
+      await tx.goal.delete({ where: { id } });
+    });
 
     return res.json({
       success: true,
@@ -184,7 +279,7 @@ export const addToGoal = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
     const id = req.params.id;
-    const { amount } = req.body;
+    const { amount, source = 'WALLET' } = req.body;
 
     if (!id) {
       return res.status(400).json({
@@ -200,35 +295,81 @@ export const addToGoal = async (req: Request, res: Response) => {
       });
     }
 
-    const goal = await prisma.goal.findFirst({
-      where: { id, userId },
-    });
+    const access = await findGoalAccess(prisma, id, userId);
 
-    if (!goal) {
+    if (!access) {
       return res.status(404).json({
         success: false,
         error: 'Goal not found',
       });
     }
 
-    const updatedGoal = await prisma.goal.update({
-      where: { id },
-      data: { saved: goal.saved + amount },
-    });
+    if (!canContribute(access.role)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Viewers can\'t add to this goal',
+      });
+    }
 
-    await prisma.saving.create({
-      data: {
+    const { goal } = access;
+
+    const isExternal = source === 'EXTERNAL';
+
+    const result = await serializableTransaction(async (tx) => {
+      const entry = {
         amount,
-        type: 'GOAL_CONTRIBUTION',
+        type: 'GOAL_CONTRIBUTION' as const,
         date: new Date(),
         userId,
-      },
+        goalId: id,
+        isExternal,
+      };
+
+      let recorded;
+      if (isExternal) {
+        recorded = await addGoalLedgerEntry(tx, entry, {
+          counterparty: { type: 'EXTERNAL' },
+          description: `Saved outside the app for ${goal.name}`,
+        });
+      } else {
+        const wallet = await findWallet(tx, userId, goal.currency);
+        if (!wallet) return null;
+
+        // The wallet is debited conditionally, so it can't fund more than it holds
+        recorded = await addGoalLedgerEntry(tx, entry, {
+          counterparty: { type: 'WALLET', walletId: wallet.id },
+          transaction: {
+            amount,
+            currency: wallet.currency,
+            type: 'GOAL_TRANSFER',
+            status: 'COMPLETED',
+            description: `Saved to ${goal.name}`,
+            senderWalletId: wallet.id,
+            senderUserId: userId,
+          },
+        });
+      }
+      if (!recorded) return null;
+
+      const updatedGoal = await tx.goal.findUniqueOrThrow({ where: { id } });
+
+      return { goal: updatedGoal, transaction: recorded.transaction };
     });
 
+    if (!result) {
+      return res.status(400).json({
+        success: false,
+        error: 'Insufficient wallet balance',
+      });
+    }
+
     return res.json({
       success: true,
-      data: updatedGoal,
-      message: `Added ₹${amount} to ${goal.name}`,
+      data: result.goal,
+      transaction: result.transaction,
+      message: isExternal
+        ? `Recorded ₹${amount} saved outside the app for ${goal.name}`
+        : `Moved ₹${amount} from your wallet to ${goal.name}`,
     });
   } catch (error) {
     console.error('Add to goal error:', error);
@@ -239,12 +380,290 @@ export const addToGoal = async (req: Request, res: Response) => {
   }
 };
 
+export const withdrawFromGoal = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { amount } = req.body;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Goal ID is required',
+      });
+    }
+
+    const access = await findGoalAccess(prisma, id, userId);
+
+    if (!access) {
+      return res.status(404).json({
+        success: false,
+        error: 'Goal not found',
+      });
+    }
+
+    if (!canContribute(access.role)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Viewers can\'t withdraw from this goal',
+      });
+    }
+
+    const { goal } = access;
+
+    const result = await serializableTransaction(async (tx) => {
+      // Contributors can only take back what they put in themselves, and only
+      // what came from their wallet can go back to it
+      let walletShare = Infinity;
+      if (access.role === 'CONTRIBUTOR') {
+        const share = await getWithdrawableShare(tx, id, userId);
+        if (amount > share) return { share };
+        walletShare = await getGoalWalletBalance(tx, id, userId);
+      }
+
+      const withdrawal = await withdrawGoalShare(tx, goal, {
+        userId,
+        amount,
+        walletShare,
+        description: `Withdrawn from ${goal.name}`,
+      });
+      if (!withdrawal) return null;
+
+      const [updatedGoal, wallet] = await Promise.all([
+        tx.goal.findUniqueOrThrow({ where: { id } }),
+        ensureWallet(tx, userId, goal.currency),
+      ]);
+
+      return { goal: updatedGoal, wallet, withdrawal };
+    });
+
+    if (!result) {
+      return res.status(400).json({
+        success: false,
+        error: 'Insufficient funds in goal',
+        data: {
+          required: amount,
+          available: goal.saved,
+        },
+      });
+    }
+
+    if ('share' in result) {
+      return res.status(400).json({
+        success: false,
+        error: 'You can only withdraw your own share of this goal',
+        data: {
+          required: amount,
+          available: result.share,
+        },
+      });
+    }
+
+    const { toWallet, toExternal, transaction } = result.withdrawal;
+
+    return res.json({
+      success: true,
+      data: result.goal,
+      wallet: result.wallet,
+      transaction,
+      returned: { toWallet, toExternal },
+      message: toExternal > 0
+        ? `Withdrew ₹${amount} from ${goal.name}: ₹${toWallet} to your wallet, ₹${toExternal} saved outside the app released`
+        : `Withdrew ₹${amount} from ${goal.name} to your wallet`,
+    });
+  } catch (error) {
+    console.error('Withdraw from goal error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to withdraw from goal',
+    });
+  }
+};
+
+export const makePaymentFromGoal = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { amount, description, category } = req.body;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Goal ID is required',
+      });
+    }
+
+    const access = await findGoalAccess(prisma, id, userId);
+
+    if (!access) {
+      return res.status(404).json({
+        success: false,
+        error: 'Goal not found',
+      });
+    }
+
+    if (access.role !== 'OWNER') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the goal owner can pay from it',
+      });
+    }
+
+    const { goal } = access;
+
+    const result = await serializableTransaction(async (tx) => {
+      // Paying from a goal leaves the app, so it counts like any other payment
+      const limitHit = await checkTransferLimits(tx, { senderId: userId, amount, currency: goal.currency });
+      if (limitHit) return { error: limitHit };
+
+      const recorded = await deductGoalLedgerEntry(tx, {
+        amount,
+        type: 'GOAL_PAYMENT',
+        date: new Date(),
+        userId,
+        goalId: id,
+      }, {
+        counterparty: { type: 'EXTERNAL' },
+        transaction: {
+          amount,
+          currency: goal.currency,
+          type: 'GOAL_PAYMENT',
+          status: 'COMPLETED',
+          description: description || `Payment from ${goal.name}`,
+          senderUserId: userId,
+        },
+      });
+      if (!recorded?.transaction) return null;
+
+      const expense = await tx.expense.create({
+        data: {
+          description: description || `Payment from ${goal.name}`,
+          amount,
+          category: category || 'Goal Payment',
+          date: new Date(),
+          userId,
+        },
+      });
+
+      await tx.saving.update({
+        where: { id: recorded.saving.id },
+        data: { expenseId: expense.id },
+      });
+
+      const updatedGoal = await tx.goal.findUniqueOrThrow({ where: { id } });
+
+      return { goal: updatedGoal, expense, transaction: recorded.transaction };
+    });
+
+    if (!result) {
+      return res.status(400).json({
+        success: false,
+        error: 'Insufficient funds in goal',
+        data: {
+          required: amount,
+          available: goal.saved,
+        },
+      });
+    }
+
+    if ('error' in result) {
+      return res.status(400).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: result.goal,
+      expense: result.expense,
+      transaction: result.transaction,
+      message: `Paid ₹${amount} from ${goal.name}`,
+    });
+  } catch (error) {
+    console.error('Make payment from goal error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to make payment from goal',
+    });
+  }
+};
+
+export const getGoalContributions = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { page = '1', limit = '20', type } = req.query;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Goal ID is required',
+      });
+    }
+
+    const access = await findGoalAccess(prisma, id, userId);
+
+    if (!access) {
+      return res.status(404).json({
+        success: false,
+        error: 'Goal not found',
+      });
+    }
+
+    const { goal } = access;
+
+    const pageNum = Number(page);
+    const limitNum = Number(limit);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = { goalId: id };
+    if (type) where.type = type;
+
+    const [contributions, total, ledgerBalance] = await Promise.all([
+      prisma.saving.findMany({
+        where,
+        include: {
+          autoSaveRule: { select: { id: true, name: true } },
+          expense: { select: { id: true, description: true } },
+        },
+        orderBy: { date: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.saving.count({ where }),
+      getGoalLedgerBalance(prisma, id),
+    ]);
+
+    return res.json({
+      success: true,
+      data: contributions,
+      summary: {
+        saved: goal.saved,
+        ledgerBalance,
+      },
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get goal contributions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get goal contributions',
+    });
+  }
+};
+
 export const getGoalProgress = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
 
     const goals = await prisma.goal.findMany({
-      where: { userId, isActive: true },
+      where: { ...goalsVisibleTo(userId), isActive: true },
       select: {
         id: true,
         name: true,
@@ -253,6 +672,8 @@ export const getGoalProgress = async (req: Request, res: Response) => {
         targetDate: true,
         priority: true,
         emoji: true,
+        userId: true,
+        members: { where: { userId }, select: { role: true } },
       },
       orderBy: [
         { priority: 'desc' },
@@ -260,8 +681,9 @@ export const getGoalProgress = async (req: Request, res: Response) => {
       ],
     });
 
-    const goalsWithProgress = goals.map(goal => ({
+    const goalsWithProgress = goals.map(({ members, ...goal }) => ({
       ...goal,
+      role: goal.userId === userId ? 'OWNER' : members[0]!.role,
       progress: (goal.saved / goal.target) * 100,
       remaining: goal.target - goal.saved,
       daysRemaining: Math.ceil(
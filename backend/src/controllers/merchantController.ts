@@ -0,0 +1,352 @@
+import { Request, Response } from 'express';
+import { Invoice, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import {
+  INVOICE_EXPIRY_MINUTES,
+  INVOICE_MAX_EXPIRY_MINUTES,
+  encodeInvoiceQr,
+  expireInvoices,
+  getSettlementReport as buildSettlementReport,
+  invoiceTokenFromQr,
+  newInvoiceToken,
+  payInvoice as payInvoiceByToken,
+  refundInvoice as refundPaidInvoice,
+  waitForInvoiceChange,
+} from '../services/invoiceService.js';
+import { renderQr } from '../services/receiveQrService.js';
+import { recordRoundUp } from '../services/roundUpService.js';
+import { findWallet, getHomeCurrency } from '../services/walletService.js';
+import { InvoiceCreateInput, InvoicePayInput, MerchantUpdateInput } from '../types/index.js';
+
+const invoicePayer = {
+  payer: { select: { id: true, firstName: true, lastName: true, phone: true } },
+} as const;
+
+// The token is what pays an invoice, so it only goes out inside the code
+const withoutToken = <T extends { token: string }>(invoice: T): Omit<T, 'token'> => {
+  const rest: Partial<T> = { ...invoice };
+  delete rest.token;
+  return rest as Omit<T, 'token'>;
+};
+
+// An open invoice comes with its code; paid or lapsed ones have nothing left to scan
+const withCode = async <T extends Invoice>(invoice: T) => {
+  if (invoice.status !== 'CREATED') return withoutToken(invoice);
+
+  const payload = encodeInvoiceQr(invoice);
+  const { svg, png } = await renderQr(payload);
+  return { ...withoutToken(invoice), payload, svg, png };
+};
+
+// ================= MERCHANTS =================
+
+export const createInvoice = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { amount, reference, description, expiresInMinutes } = req.body as InvoiceCreateInput;
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const currency = (req.body as InvoiceCreateInput).currency ?? homeCurrency;
+
+    // Invoices are paid out in their own currency, so the merchant has to be able to hold it
+    if (currency !== homeCurrency && !(await findWallet(prisma, userId, currency))) {
+      return res.status(404).json({ success: false, error: 'Wallet not found' });
+    }
+
+    const minutes = expiresInMinutes ?? INVOICE_EXPIRY_MINUTES;
+    if (minutes > INVOICE_MAX_EXPIRY_MINUTES) {
+      return res.status(400).json({
+        success: false,
+        error: `Invoices can be open for at most ${INVOICE_MAX_EXPIRY_MINUTES} minutes`,
+      });
+    }
+
+    const existing = await prisma.invoice.findUnique({
+      where: { merchantId_reference: { merchantId: userId, reference } },
+    });
+    if (existing) {
+      return res.status(400).json({ success: false, error: 'An invoice with this reference already exists' });
+    }
+
+    const invoice = await prisma.invoice.create({
+      data: {
+        amount,
+        currency,
+        reference,
+        description: description || null,
+        token: newInvoiceToken(),
+        expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+        merchantId: userId,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: await withCode(invoice),
+      message: 'Invoice created',
+    });
+  } catch (error) {
+    console.error('Create invoice error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to create invoice' });
+  }
+};
+
+export const getInvoices = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { status, page = 1, limit = 20 } = req.query as unknown as {
+      status?: Prisma.InvoiceWhereInput['status'];
+      page?: number;
+      limit?: number;
+    };
+    const skip = (page - 1) * limit;
+
+    // Invoices past their expiry show as expired even before the scheduler gets to them
+    await expireInvoices(new Date(), userId);
+
+    const where: Prisma.InvoiceWhereInput = {
+      merchantId: userId,
+      ...(status && { status }),
+    };
+
+    const [invoices, total] = await Promise.all([
+      prisma.invoice.findMany({
+        where,
+        include: invoicePayer,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.invoice.count({ where }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: invoices.map(withoutToken),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get invoices error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get invoices' });
+  }
+};
+
+export const getInvoice = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Invoice ID is required' });
+    }
+
+    await expireInvoices(new Date(), userId);
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, merchantId: userId },
+      include: { ...invoicePayer, transactions: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    return res.json({ success: true, data: await withCode(invoice) });
+  } catch (error) {
+    console.error('Get invoice error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get invoice' });
+  }
+};
+
+/**
+ * Poll an invoice's status. With `after`, the request is held until the
+ * status moves on from it, for at most `wait` seconds, so a till can wait for
+ * the payment without polling in a tight loop.
+ */
+export const getInvoiceStatus = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { after, wait = 0 } = req.query as unknown as {
+      after?: Invoice['status'];
+      wait?: number;
+    };
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Invoice ID is required' });
+    }
+
+    const read = async () => {
+      await expireInvoices(new Date(), userId);
+      return prisma.invoice.findFirst({
+        where: { id, merchantId: userId },
+        select: { id: true, status: true, expiresAt: true, paidAt: true, refundedAt: true },
+      });
+    };
+
+    let invoice = await read();
+
+    if (invoice && after && invoice.status === after && wait > 0) {
+      // Stop at the expiry too, so an unpaid invoice reports EXPIRED on time
+      const untilExpiry = invoice.status === 'CREATED'
+        ? Math.max(0, invoice.expiresAt.getTime() - Date.now())
+        : Infinity;
+      await waitForInvoiceChange(id, Math.min(wait * 1000, untilExpiry));
+      invoice = await read();
+    }
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    return res.json({ success: true, data: invoice });
+  } catch (error) {
+    console.error('Get invoice status error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get invoice status' });
+  }
+};
+
+export const refundInvoice = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Invoice ID is required' });
+    }
+
+    const outcome = await refundPaidInvoice(id, userId);
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({
+      success: true,
+      data: { invoice: withoutToken(outcome.invoice), refund: outcome.refund },
+      message: 'Invoice refunded',
+    });
+  } catch (error) {
+    console.error('Refund invoice error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to refund invoice' });
+  }
+};
+
+export const getSettlementReport = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { date } = req.query as { date?: string };
+
+    const [year, month, day] = (date ?? '').split('-').map(Number);
+    const reportDay = date ? new Date(year ?? 0, (month ?? 1) - 1, day ?? 1) : new Date();
+
+    const report = await buildSettlementReport(userId, reportDay);
+
+    return res.json({
+      success: true,
+      data: {
+        ...report,
+        paid: report.paid.map(withoutToken),
+        refunded: report.refunded.map(withoutToken),
+      },
+    });
+  } catch (error) {
+    console.error('Get settlement report error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get settlement report' });
+  }
+};
+
+// ================= PAYERS =================
+
+export const payInvoice = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { payload, goalId } = req.body as InvoicePayInput;
+
+    const token = invoiceTokenFromQr(payload);
+    if (!token) {
+      return res.status(400).json({ success: false, error: 'Not a PiggyBank invoice code' });
+    }
+
+    const outcome = await payInvoiceByToken(token, userId, goalId);
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    const invoice = withoutToken(outcome.invoice);
+    let wallet = outcome.wallet;
+
+    // Paying from the wallet is spending like any other transfer
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const roundUp = wallet && invoice.currency === homeCurrency
+      ? await recordRoundUp(userId, { amount: invoice.amount, sourceTransactionId: outcome.transaction.id })
+      : null;
+    if (wallet && roundUp?.status === 'SWEPT') {
+      wallet = await prisma.wallet.findUniqueOrThrow({ where: { id: wallet.id } });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        invoice,
+        transaction: outcome.transaction,
+        wallet,
+        goal: outcome.goal,
+        roundUp,
+      },
+      message: 'Invoice paid',
+    });
+  } catch (error) {
+    console.error('Pay invoice error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to pay invoice' });
+  }
+};
+
+// ================= ADMIN =================
+
+export const updateMerchantStatus = async (req: Request, res: Response) => {
+  try {
+    const userId = req.params.id;
+    const { isMerchant, merchantName } = req.body as MerchantUpdateInput;
+
+    if (!userId) {
+      return res.status(400).json({ success: false, error: 'User ID is required' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        isMerchant,
+        ...(merchantName !== undefined && { merchantName }),
+      },
+      select: { id: true, isMerchant: true, merchantName: true },
+    });
+
+    return res.json({
+      success: true,
+      data: updated,
+      message: isMerchant ? 'Merchant mode enabled' : 'Merchant mode disabled',
+    });
+  } catch (error) {
+    console.error('Update merchant status error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update merchant status' });
+  }
+};
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+
+export const getNotifications = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { page = '1', limit = '20', isRead } = req.query;
+
+    const pageNum = Number(page);
+    const limitNum = Number(limit);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = { userId };
+    if (isRead !== undefined) where.isRead = isRead === 'true';
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.notification.count({ where }),
+      prisma.notification.count({ where: { userId, isRead: false } }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: notifications,
+      unreadCount,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get notifications',
+    });
+  }
+};
+
+export const markNotificationAsRead = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Notification ID is required',
+      });
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where: { id, userId },
+      data: { isRead: true },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Notification not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Notification marked as read',
+    });
+  } catch (error) {
+    console.error('Mark notification as read error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to mark notification as read',
+    });
+  }
+};
+
+export const markAllNotificationsAsRead = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    await prisma.notification.updateMany({
+      where: { userId, isRead: false },
+      data: { isRead: true },
+    });
+
+    return res.json({
+      success: true,
+      message: 'All notifications marked as read',
+    });
+  } catch (error) {
+    console.error('Mark all notifications as read error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to mark all notifications as read',
+    });
+  }
+};
@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { findPayee, payeeUserSelect, savePayee } from '../services/payeeService.js';
+import { PayeeCreateInput, PayeeUpdateInput } from '../types/index.js';
+
+export const createPayee = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { phone, nickname, isFavorite } = req.body as PayeeCreateInput;
+
+    const outcome = await savePayee(userId, {
+      phone,
+      ...(nickname !== undefined && { nickname }),
+      ...(isFavorite !== undefined && { isFavorite }),
+    });
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: outcome.payee,
+      message: 'Payee saved',
+    });
+  } catch (error) {
+    console.error('Create payee error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to save payee' });
+  }
+};
+
+export const getPayees = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { search, favorite, page = 1, limit = 50 } = req.query as unknown as {
+      search?: string;
+      favorite?: boolean;
+      page?: number;
+      limit?: number;
+    };
+    const skip = (page - 1) * limit;
+
+    const digits = search?.replace(/\D+/g, '');
+    const where: Prisma.PayeeWhereInput = {
+      userId,
+      ...(favorite !== undefined && { isFavorite: favorite }),
+      ...(search && {
+        OR: [
+          { nickname: { contains: search, mode: 'insensitive' } },
+          { payeeUser: { firstName: { contains: search, mode: 'insensitive' } } },
+          { payeeUser: { lastName: { contains: search, mode: 'insensitive' } } },
+          ...(digits ? [{ payeeUser: { phone: { contains: digits } } }] : []),
+        ],
+      }),
+    };
+
+    const [payees, total] = await Promise.all([
+      prisma.payee.findMany({
+        where,
+        include: { payeeUser: { select: payeeUserSelect } },
+        // Favorites first, then whoever was paid most recently
+        orderBy: [
+          { isFavorite: 'desc' },
+          { lastUsedAt: { sort: 'desc', nulls: 'last' } },
+          { createdAt: 'desc' },
+        ],
+        skip,
+        take: limit,
+      }),
+      prisma.payee.count({ where }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: payees,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get payees error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get payees' });
+  }
+};
+
+export const updatePayee = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const { nickname, isFavorite } = req.body as PayeeUpdateInput;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Payee ID is required' });
+    }
+
+    if (!(await findPayee(prisma, userId, id))) {
+      return res.status(404).json({ success: false, error: 'Payee not found' });
+    }
+
+    const payee = await prisma.payee.update({
+      where: { id },
+      data: {
+        ...(nickname !== undefined && { nickname }),
+        ...(isFavorite !== undefined && { isFavorite }),
+      },
+      include: { payeeUser: { select: payeeUserSelect } },
+    });
+
+    return res.json({ success: true, data: payee, message: 'Payee updated' });
+  } catch (error) {
+    console.error('Update payee error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update payee' });
+  }
+};
+
+export const deletePayee = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Payee ID is required' });
+    }
+
+    if (!(await findPayee(prisma, userId, id))) {
+      return res.status(404).json({ success: false, error: 'Payee not found' });
+    }
+
+    await prisma.payee.delete({ where: { id } });
+
+    return res.json({ success: true, message: 'Payee removed' });
+  } catch (error) {
+    console.error('Delete payee error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to remove payee' });
+  }
+};
@@ -0,0 +1,229 @@
+import { Request, Response } from 'express';
+import { PaymentLink, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import {
+  PAYMENT_LINK_MAX_EXPIRY_MINUTES,
+  newPaymentLinkToken,
+  paymentLinkCreatorName,
+  paymentLinkState,
+  paymentLinkUrl,
+  summarizeLinkPayments,
+} from '../services/paymentLinkService.js';
+import { findWallet, getHomeCurrency } from '../services/walletService.js';
+import { PaymentLinkCreateInput } from '../types/index.js';
+
+// What the creator sees of a link: its address and what it shows right now
+const withUrl = <T extends PaymentLink>(link: T) => ({
+  ...link,
+  state: paymentLinkState(link),
+  url: paymentLinkUrl(link),
+});
+
+// ================= CREATORS =================
+
+export const createPaymentLink = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { amount, note, singleUse, expiresInMinutes } = req.body as PaymentLinkCreateInput;
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const currency = (req.body as PaymentLinkCreateInput).currency ?? homeCurrency;
+
+    // Money can always be received in the home currency; others need a wallet
+    if (currency !== homeCurrency && !(await findWallet(prisma, userId, currency))) {
+      return res.status(404).json({ success: false, error: 'Wallet not found' });
+    }
+
+    if (expiresInMinutes !== undefined && expiresInMinutes > PAYMENT_LINK_MAX_EXPIRY_MINUTES) {
+      return res.status(400).json({
+        success: false,
+        error: `Payment links can be valid for at most ${PAYMENT_LINK_MAX_EXPIRY_MINUTES} minutes`,
+      });
+    }
+
+    const link = await prisma.paymentLink.create({
+      data: {
+        token: newPaymentLinkToken(),
+        amount: amount ?? null,
+        currency,
+        note: note ?? null,
+        singleUse: singleUse ?? false,
+        expiresAt: expiresInMinutes !== undefined ? new Date(Date.now() + expiresInMinutes * 60 * 1000) : null,
+        creatorId: userId,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: withUrl(link),
+      message: 'Payment link created',
+    });
+  } catch (error) {
+    console.error('Create payment link error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to create payment link' });
+  }
+};
+
+export const getPaymentLinks = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { status, page = 1, limit = 20 } = req.query as unknown as {
+      status?: PaymentLink['status'];
+      page?: number;
+      limit?: number;
+    };
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PaymentLinkWhereInput = {
+      creatorId: userId,
+      ...(status && { status }),
+    };
+
+    const [links, total] = await Promise.all([
+      prisma.paymentLink.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.paymentLink.count({ where }),
+    ]);
+
+    const received = await summarizeLinkPayments(prisma, links.map((link) => link.id));
+
+    return res.json({
+      success: true,
+      data: links.map((link) => ({
+        ...withUrl(link),
+        ...(received.get(link.id) ?? { paymentCount: 0, totalReceived: 0 }),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get payment links error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get payment links' });
+  }
+};
+
+export const getPaymentLink = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Payment link ID is required' });
+    }
+
+    const link = await prisma.paymentLink.findFirst({
+      where: { id, creatorId: userId },
+      include: { transactions: { orderBy: { createdAt: 'desc' } } },
+    });
+
+    if (!link) {
+      return res.status(404).json({ success: false, error: 'Payment link not found' });
+    }
+
+    // Transactions only hold the payer's ID
+    const senderIds = [...new Set(link.transactions.flatMap((transaction) => transaction.senderUserId ?? []))];
+    const senders = await prisma.user.findMany({
+      where: { id: { in: senderIds } },
+      select: { id: true, firstName: true, lastName: true, phone: true },
+    });
+    const senderById = new Map(senders.map((sender) => [sender.id, sender]));
+
+    const { transactions, ...rest } = link;
+    const received = transactions.filter((transaction) => transaction.status === 'COMPLETED');
+
+    return res.json({
+      success: true,
+      data: {
+        ...withUrl(rest),
+        payments: transactions.map((transaction) => ({
+          ...transaction,
+          sender: senderById.get(transaction.senderUserId ?? '') ?? null,
+        })),
+        paymentCount: received.length,
+        totalReceived: received.reduce((sum, transaction) => sum + transaction.amount, 0),
+      },
+    });
+  } catch (error) {
+    console.error('Get payment link error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get payment link' });
+  }
+};
+
+export const disablePaymentLink = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Payment link ID is required' });
+    }
+
+    const link = await prisma.paymentLink.findFirst({ where: { id, creatorId: userId } });
+
+    if (!link) {
+      return res.status(404).json({ success: false, error: 'Payment link not found' });
+    }
+
+    if (link.status !== 'ACTIVE') {
+      return res.status(400).json({ success: false, error: `Payment link is already ${link.status.toLowerCase()}` });
+    }
+
+    const updated = await prisma.paymentLink.update({
+      where: { id },
+      data: { status: 'DISABLED' },
+    });
+
+    return res.json({ success: true, data: withUrl(updated), message: 'Payment link disabled' });
+  } catch (error) {
+    console.error('Disable payment link error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to disable payment link' });
+  }
+};
+
+// ================= VISITORS =================
+
+/**
+ * What anyone holding the link sees before logging in: who it pays, how much
+ * and whether it can still be paid. Account details stay hidden.
+ */
+export const getPaymentLinkPreview = async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token;
+
+    if (!token) {
+      return res.status(400).json({ success: false, error: 'Payment link token is required' });
+    }
+
+    const link = await prisma.paymentLink.findUnique({
+      where: { token },
+      include: { creator: { select: { firstName: true, lastName: true, merchantName: true } } },
+    });
+
+    if (!link) {
+      return res.status(404).json({ success: false, error: 'Payment link not found' });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        name: paymentLinkCreatorName(link.creator),
+        amount: link.amount,
+        currency: link.currency,
+        note: link.note,
+        singleUse: link.singleUse,
+        expiresAt: link.expiresAt,
+        state: paymentLinkState(link),
+      },
+    });
+  } catch (error) {
+    console.error('Get payment link preview error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get payment link' });
+  }
+};
@@ -0,0 +1,219 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { isSupportedCurrency } from '../services/fxService.js';
+import {
+  PAYMENT_REQUEST_EXPIRY_DAYS,
+  acceptPaymentRequest as acceptRequest,
+  closePaymentRequest,
+  expirePaymentRequests,
+  paymentRequestParties,
+} from '../services/paymentRequestService.js';
+import { recordRoundUp } from '../services/roundUpService.js';
+import { findUserByPhone } from '../services/transferService.js';
+import { getHomeCurrency } from '../services/walletService.js';
+import { PaymentRequestCreateInput } from '../types/index.js';
+
+export const createPaymentRequest = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { amount, note, payerPhone, payerEmail, expiresInDays } = req.body as PaymentRequestCreateInput;
+    const currency = (req.body as PaymentRequestCreateInput).currency ?? await getHomeCurrency(prisma, userId);
+
+    if (!(await isSupportedCurrency(currency))) {
+      return res.status(400).json({ success: false, error: 'Unsupported currency' });
+    }
+
+    const payer = payerPhone
+      ? await findUserByPhone(prisma, payerPhone)
+      : await prisma.user.findUnique({ where: { email: payerEmail ?? '' } });
+
+    if (!payer) {
+      return res.status(404).json({ success: false, error: 'Payer not found' });
+    }
+
+    if (payer.id === userId) {
+      return res.status(400).json({ success: false, error: 'Cannot request money from yourself' });
+    }
+
+    const days = expiresInDays ?? PAYMENT_REQUEST_EXPIRY_DAYS;
+    const request = await prisma.paymentRequest.create({
+      data: {
+        amount,
+        currency,
+        note: note || null,
+        expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+        requesterId: userId,
+        payerId: payer.id,
+      },
+      include: paymentRequestParties,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: request,
+      message: 'Payment request sent',
+    });
+  } catch (error) {
+    console.error('Create payment request error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to create payment request' });
+  }
+};
+
+const listPaymentRequests = async (req: Request, res: Response, direction: 'incoming' | 'outgoing') => {
+  const userId = (req as any).user.id;
+  const { status, page = 1, limit = 20 } = req.query as unknown as {
+    status?: Prisma.PaymentRequestWhereInput['status'];
+    page?: number;
+    limit?: number;
+  };
+  const skip = (page - 1) * limit;
+
+  // Requests past their expiry show as expired even before the scheduler gets to them
+  await expirePaymentRequests(new Date(), userId);
+
+  const where: Prisma.PaymentRequestWhereInput = {
+    ...(direction === 'incoming' ? { payerId: userId } : { requesterId: userId }),
+    ...(status && { status }),
+  };
+
+  const [requests, total] = await Promise.all([
+    prisma.paymentRequest.findMany({
+      where,
+      include: paymentRequestParties,
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take: limit,
+    }),
+    prisma.paymentRequest.count({ where }),
+  ]);
+
+  return res.json({
+    success: true,
+    data: requests,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+};
+
+export const getIncomingPaymentRequests = async (req: Request, res: Response) => {
+  try {
+    return await listPaymentRequests(req, res, 'incoming');
+  } catch (error) {
+    console.error('Get incoming payment requests error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get payment requests' });
+  }
+};
+
+export const getOutgoingPaymentRequests = async (req: Request, res: Response) => {
+  try {
+    return await listPaymentRequests(req, res, 'outgoing');
+  } catch (error) {
+    console.error('Get outgoing payment requests error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get payment requests' });
+  }
+};
+
+export const acceptPaymentRequest = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Payment request ID is required' });
+    }
+
+    const outcome = await acceptRequest(id, userId);
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    const { request, transfer } = outcome;
+    let wallet = transfer.senderWallet;
+
+    // Paying a request is spending like any other transfer
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const roundUp = request.currency === homeCurrency
+      ? await recordRoundUp(userId, { amount: request.amount, sourceTransactionId: transfer.transaction.id })
+      : null;
+    if (roundUp?.status === 'SWEPT') {
+      wallet = await prisma.wallet.findUniqueOrThrow({ where: { id: wallet.id } });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        request,
+        transaction: transfer.transaction,
+        wallet,
+        roundUp,
+        fx: transfer.fx,
+      },
+      message: 'Payment request paid',
+    });
+  } catch (error) {
+    console.error('Accept payment request error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to accept payment request' });
+  }
+};
+
+export const declinePaymentRequest = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Payment request ID is required' });
+    }
+
+    const outcome = await closePaymentRequest(id, userId, 'DECLINED');
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({ success: true, data: outcome.request, message: 'Payment request declined' });
+  } catch (error) {
+    console.error('Decline payment request error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to decline payment request' });
+  }
+};
+
+export const cancelPaymentRequest = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Payment request ID is required' });
+    }
+
+    const outcome = await closePaymentRequest(id, userId, 'CANCELLED');
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Payment request not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({ success: true, data: outcome.request, message: 'Payment request cancelled' });
+  } catch (error) {
+    console.error('Cancel payment request error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to cancel payment request' });
+  }
+};
@@ -1,49 +1,88 @@
 import { Request, Response } from 'express';
-import { prisma } from '../config/database.js';
+import { prisma, serializableTransaction } from '../config/database.js';
+import { applyDepositRules } from '../services/autoSaveService.js';
+import {
+  convertWithTable,
+  isSupportedCurrency,
+  loadRateTable,
+  normalizeCurrency,
+} from '../services/fxService.js';
+import { postTransfer } from '../services/ledgerService.js';
+import { findPayee, recordPayeeUse } from '../services/payeeService.js';
+import { paymentLinkClosedReason, payThroughLink } from '../services/paymentLinkService.js';
+import { decodeReceiveQr } from '../services/receiveQrService.js';
+import { findUserByPhone } from '../services/transferService.js';
+import { ensureWallet, findWallet, getHomeCurrency } from '../services/walletService.js';
+import { recordRoundUp } from '../services/roundUpService.js';
+import { screenTransfer } from '../services/riskService.js';
 
 function toNumber(value: any): number {
   const n = typeof value === 'string' ? parseFloat(value) : value;
   return Number.isFinite(n) ? n : 0;
 }
 
-function normalizePhoneCandidates(input: string): string[] {
-  if (!input) return [];
-  const trimmed = String(input).trim();
-  const digitsOnly = trimmed.replace(/\D+/g, '');
-  const candidates = new Set<string>();
-
-  candidates.add(trimmed);
-  if (digitsOnly) candidates.add(digitsOnly);
-  if (digitsOnly) candidates.add(`+${digitsOnly}`);
-
-  if (digitsOnly.length === 10) {
-    candidates.add(`1${digitsOnly}`);
-    candidates.add(`+1${digitsOnly}`);
-  }
-
-  return Array.from(candidates);
-}
-
 export const getWallet = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const currency = req.query.currency ? normalizeCurrency(String(req.query.currency)) : homeCurrency;
 
-    let wallet = await prisma.wallet.findUnique({ where: { userId } });
+    let wallet = await findWallet(prisma, userId, currency);
     if (!wallet) {
-      wallet = await prisma.wallet.create({
-        data: { userId, balance: 1000, currency: 'USD' },
+      if (currency !== homeCurrency) {
+        return res.status(404).json({ success: false, error: 'Wallet not found' });
+      }
+
+      // A user's first wallet starts with demo funds, posted like any other
+      // deposit. The check is repeated inside the transaction so concurrent
+      // first loads can't both fund a wallet
+      wallet = await serializableTransaction(async (tx) => {
+        const existing = await findWallet(tx, userId, currency);
+        if (existing) return existing;
+
+        const isFirstWallet = (await tx.wallet.count({ where: { userId } })) === 0;
+        const created = await tx.wallet.create({
+          data: { userId, balance: 0, currency },
+        });
+        if (isFirstWallet) {
+          await postTransfer(tx, {
+            from: { type: 'EXTERNAL' },
+            to: { type: 'WALLET', walletId: created.id },
+            amount: 1000,
+            description: 'Welcome balance',
+          });
+        }
+        return tx.wallet.findUniqueOrThrow({ where: { id: created.id } });
       });
     }
 
-    const [sent, received] = await Promise.all([
-      prisma.transaction.count({ where: { senderUserId: userId } }),
-      prisma.transaction.count({ where: { receiverUserId: userId } }),
+    const [sent, received, goals, external] = await Promise.all([
+      prisma.transaction.count({ where: { senderUserId: userId, status: 'COMPLETED' } }),
+      prisma.transaction.count({ where: { receiverUserId: userId, status: 'COMPLETED' } }),
+      prisma.goal.aggregate({ where: { userId, currency }, _sum: { saved: true } }),
+      prisma.saving.aggregate({
+        where: { userId, goal: { currency }, isExternal: true },
+        _sum: { amount: true },
+      }),
     ]);
 
+    // Money in goals saving in this currency has left the wallet balance; the
+    // part recorded as saved outside the app was never in the wallet to begin with
+    const allocated = goals._sum.saved ?? 0;
+    const allocatedExternal = Math.min(allocated, Math.max(0, external._sum.amount ?? 0));
+
     return res.json({
       success: true,
       data: {
         ...wallet,
+        homeCurrency,
+        funds: {
+          available: wallet.balance,
+          allocated,
+          allocatedFromWallet: allocated - allocatedExternal,
+          allocatedExternal,
+          total: wallet.balance + allocated,
+        },
         stats: { sent, received },
       },
     });
@@ -53,6 +92,64 @@ export const getWallet = async (req: Request, res: Response) => {
   }
 };
 
+export const getWallets = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const [homeCurrency, wallets, rates] = await Promise.all([
+      getHomeCurrency(prisma, userId),
+      prisma.wallet.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      loadRateTable(),
+    ]);
+
+    const data = wallets.map(wallet => ({
+      ...wallet,
+      balanceInHomeCurrency: convertWithTable(rates, wallet.balance, wallet.currency, homeCurrency),
+    }));
+    const total = data.reduce((sum, wallet) => sum + wallet.balanceInHomeCurrency, 0);
+
+    return res.json({
+      success: true,
+      data,
+      summary: {
+        homeCurrency,
+        total: Math.round(total * 100) / 100,
+      },
+    });
+  } catch (error) {
+    console.error('Get wallets error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get wallets' });
+  }
+};
+
+export const openWallet = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const currency = normalizeCurrency(req.body.currency || '');
+
+    if (!(await isSupportedCurrency(currency))) {
+      return res.status(400).json({ success: false, error: 'Unsupported currency' });
+    }
+
+    if (await findWallet(prisma, userId, currency)) {
+      return res.status(400).json({ success: false, error: `You already have a ${currency} wallet` });
+    }
+
+    const wallet = await prisma.wallet.create({
+      data: { userId, balance: 0, currency },
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: wallet,
+      message: `${currency} wallet opened successfully`,
+    });
+  } catch (error) {
+    console.error('Open wallet error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to open wallet' });
+  }
+};
+
 export const getTransactions = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
@@ -66,6 +163,16 @@ export const getTransactions = async (req: Request, res: Response) => {
         where: {
           OR: [{ senderUserId: userId }, { receiverUserId: userId }],
         },
+        // Links between a reversed transaction and the one that undid it
+        include: {
+          reversalOf: { select: { id: true, amount: true, currency: true, type: true, createdAt: true } },
+          reversedBy: { select: { id: true, amount: true, currency: true, status: true, createdAt: true } },
+          reversalRequests: {
+            select: { id: true, status: true, createdAt: true },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+          },
+        },
         orderBy: { createdAt: 'desc' },
         skip,
         take: limitNum,
@@ -97,31 +204,61 @@ export const deposit = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
     const amount = toNumber(req.body.amount);
-    const currency = (req.body.currency as string) || 'USD';
+    const currency = req.body.currency
+      ? normalizeCurrency(req.body.currency)
+      : await getHomeCurrency(prisma, userId);
 
     if (amount <= 0) {
       return res.status(400).json({ success: false, error: 'Amount must be greater than 0' });
     }
 
-    const wallet = await prisma.wallet.upsert({
-      where: { userId },
-      update: { balance: { increment: amount } },
-      create: { userId, balance: amount, currency },
-    });
+    if (!(await isSupportedCurrency(currency))) {
+      return res.status(400).json({ success: false, error: 'Unsupported currency' });
+    }
 
-    await prisma.transaction.create({
-      data: {
+    const description = req.body.description || 'Deposit';
+
+    const { wallet, transaction } = await serializableTransaction(async (tx) => {
+      const { id: walletId } = await ensureWallet(tx, userId, currency);
+
+      const journalEntry = await postTransfer(tx, {
+        from: { type: 'EXTERNAL' },
+        to: { type: 'WALLET', walletId },
         amount,
         currency,
-        type: 'DEPOSIT',
-        status: 'COMPLETED',
-        description: req.body.description || 'Deposit',
-        receiverWalletId: wallet.id,
-        receiverUserId: userId,
-      },
+        description,
+      });
+
+      const transaction = await tx.transaction.create({
+        data: {
+          amount,
+          currency,
+          type: 'DEPOSIT',
+          status: 'COMPLETED',
+          description,
+          receiverWalletId: walletId,
+          receiverUserId: userId,
+          journalEntryId: journalEntry?.id ?? null,
+        },
+      });
+
+      const wallet = await tx.wallet.findUniqueOrThrow({ where: { id: walletId } });
+      return { wallet, transaction };
     });
 
-    return res.status(201).json({ success: true, data: wallet, message: 'Deposit successful' });
+    // Deposit-triggered auto-save rules move part of it straight into goals
+    const autoSaveRuns = await applyDepositRules(userId, transaction);
+    const autoSaved = autoSaveRuns.some(run => run.status === 'SUCCEEDED');
+    const latestWallet = autoSaved
+      ? await prisma.wallet.findUnique({ where: { id: wallet.id } })
+      : wallet;
+
+    return res.status(201).json({
+      success: true,
+      data: latestWallet,
+      autoSaveRuns,
+      message: 'Deposit successful',
+    });
   } catch (error) {
     console.error('Deposit error:', error);
     return res.status(500).json({ success: false, error: 'Failed to deposit' });
@@ -132,35 +269,63 @@ export const withdraw = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
     const amount = toNumber(req.body.amount);
-    const currency = (req.body.currency as string) || 'USD';
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const currency = req.body.currency ? normalizeCurrency(req.body.currency) : homeCurrency;
 
     if (amount <= 0) {
       return res.status(400).json({ success: false, error: 'Amount must be greater than 0' });
     }
 
-    const wallet = await prisma.wallet.findUnique({ where: { userId } });
+    // Fails fast on the common case; the conditional debit inside the
+    // transaction is what actually stops concurrent withdrawals overdrawing
+    const wallet = await findWallet(prisma, userId, currency);
     if (!wallet || wallet.balance < amount) {
       return res.status(400).json({ success: false, error: 'Insufficient funds' });
     }
 
-    const updated = await prisma.wallet.update({
-      where: { id: wallet.id },
-      data: { balance: { decrement: amount } },
-    });
+    const description = req.body.description || 'Withdrawal';
 
-    await prisma.transaction.create({
-      data: {
+    const result = await serializableTransaction(async (tx) => {
+      const journalEntry = await postTransfer(tx, {
+        from: { type: 'WALLET', walletId: wallet.id },
+        to: { type: 'EXTERNAL' },
         amount,
-        currency,
-        type: 'WITHDRAWAL',
-        status: 'COMPLETED',
-        description: req.body.description || 'Withdrawal',
-        senderWalletId: wallet.id,
-        senderUserId: userId,
-      },
+        description,
+      });
+      if (!journalEntry) return null;
+
+      const transaction = await tx.transaction.create({
+        data: {
+          amount,
+          currency,
+          type: 'WITHDRAWAL',
+          status: 'COMPLETED',
+          description,
+          senderWalletId: wallet.id,
+          senderUserId: userId,
+          journalEntryId: journalEntry.id,
+        },
+      });
+
+      const updated = await tx.wallet.findUniqueOrThrow({ where: { id: wallet.id } });
+      return { updated, transaction };
     });
 
-    return res.json({ success: true, data: updated, message: 'Withdrawal successful' });
+    if (!result) {
+      return res.status(400).json({ success: false, error: 'Insufficient funds' });
+    }
+
+    const { updated, transaction } = result;
+
+    // Spare change is only rounded up on spending in the home currency
+    const roundUp = currency === homeCurrency
+      ? await recordRoundUp(userId, { amount, sourceTransactionId: transaction.id })
+      : null;
+    const latestWallet = roundUp?.status === 'SWEPT'
+      ? await prisma.wallet.findUnique({ where: { id: wallet.id } })
+      : updated;
+
+    return res.json({ success: true, data: latestWallet, roundUp, message: 'Withdrawal successful' });
   } catch (error) {
     console.error('Withdraw error:', error);
     return res.status(500).json({ success: false, error: 'Failed to withdraw' });
@@ -170,86 +335,116 @@ export const withdraw = async (req: Request, res: Response) => {
 export const transfer = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
-    const amount = toNumber(req.body.amount);
-    const currency = (req.body.currency as string) || 'USD';
+    const homeCurrency = await getHomeCurrency(prisma, userId);
     const receiverPhoneInput = (req.body.receiverPhone as string) || '';
-    const description = (req.body.description as string) || 'Transfer';
+    const payeeId = (req.body.payeeId as string) || '';
+
+    if (req.body.qrPayload && req.body.linkToken) {
+      return res.status(400).json({ success: false, error: 'Send either a payment code or a payment link, not both' });
+    }
+
+    // A scanned receive-money code names the receiver and currency, and may fix the amount
+    const scanned = req.body.qrPayload ? decodeReceiveQr(String(req.body.qrPayload)) : null;
+    if (scanned && !scanned.ok) {
+      return res.status(400).json({ success: false, error: scanned.error });
+    }
+
+    // So does a payment link, which is checked again when the transfer is sent
+    const link = req.body.linkToken
+      ? await prisma.paymentLink.findUnique({ where: { token: String(req.body.linkToken) } })
+      : null;
+    if (req.body.linkToken && !link) {
+      return res.status(404).json({ success: false, error: 'Payment link not found' });
+    }
+    const linkClosed = link ? paymentLinkClosedReason(link) : null;
+    if (linkClosed) {
+      return res.status(400).json({ success: false, error: linkClosed });
+    }
+
+    const code = scanned?.ok
+      ? scanned.qr
+      : link && { receiverId: link.creatorId, currency: link.currency, amount: link.amount, note: link.note };
+
+    if (code && code.amount !== null && req.body.amount !== undefined && toNumber(req.body.amount) !== code.amount) {
+      return res.status(400).json({ success: false, error: 'Amount does not match the payment code' });
+    }
+
+    const amount = code?.amount ?? toNumber(req.body.amount);
+    const currency = code?.currency
+      ?? (req.body.currency ? normalizeCurrency(req.body.currency) : homeCurrency);
+    const description = (req.body.description as string) || code?.note || 'Transfer';
 
     if (amount <= 0) {
       return res.status(400).json({ success: false, error: 'Amount must be greater than 0' });
     }
 
-    if (!receiverPhoneInput) {
-      return res.status(400).json({ success: false, error: 'Receiver phone number is required' });
+    if (!receiverPhoneInput && !payeeId && !code) {
+      return res.status(400).json({ success: false, error: 'Receiver phone number or payee is required' });
     }
 
-    const candidates = normalizePhoneCandidates(receiverPhoneInput);
-    const digitsOnly = receiverPhoneInput.replace(/\D+/g, '');
-    const last10 = digitsOnly.length >= 10 ? digitsOnly.slice(-10) : undefined;
-
-    const [sender, senderWallet, receiverUser] = await Promise.all([
+    // A saved payee, a payment code or a link already points at the user it pays
+    const [sender, receiverUser] = await Promise.all([
       prisma.user.findUnique({ where: { id: userId } }),
-      prisma.wallet.findUnique({ where: { userId } }),
-      prisma.user.findFirst({
-        where: {
-          OR: [
-            { phone: { in: candidates } },
-            ...(last10
-              ? [{ phone: { endsWith: last10 } }, { phone: { contains: last10 } }]
-              : []),
-          ],
-        },
-      }),
+      code
+        ? prisma.user.findUnique({ where: { id: code.receiverId } })
+        : payeeId
+          ? findPayee(prisma, userId, payeeId).then((payee) => payee?.payeeUser ?? null)
+          : findUserByPhone(prisma, receiverPhoneInput),
     ]);
 
     if (!receiverUser) {
-      return res.status(404).json({ success: false, error: 'Receiver not found' });
+      return res.status(404).json({ success: false, error: payeeId ? 'Payee not found' : 'Receiver not found' });
+    }
+
+    if (receiverUser.id === userId) {
+      return res.status(400).json({ success: false, error: 'Cannot transfer to yourself' });
     }
 
     if (sender?.phone && receiverUser.phone && sender.phone === receiverUser.phone) {
       return res.status(400).json({ success: false, error: 'Cannot transfer to your own phone number' });
     }
 
-    if (!senderWallet || senderWallet.balance < amount) {
-      return res.status(400).json({ success: false, error: 'Insufficient funds' });
-    }
+    const screened = await serializableTransaction((tx) => {
+      const transfer = { senderId: userId, receiver: receiverUser, amount, currency, description };
+      return link ? payThroughLink(tx, link.id, transfer) : screenTransfer(tx, transfer);
+    });
 
-    let receiverWallet = await prisma.wallet.findUnique({ where: { userId: receiverUser.id } });
-    if (!receiverWallet) {
-      receiverWallet = await prisma.wallet.create({
-        data: { userId: receiverUser.id, balance: 0, currency },
-      });
+    if (screened.status === 'REJECTED') {
+      return res.status(400).json({ success: false, error: screened.error });
     }
 
-    const result = await prisma.$transaction(async (tx) => {
-      const updatedSender = await tx.wallet.update({
-        where: { id: senderWallet.id },
-        data: { balance: { decrement: amount } },
-      });
-
-      const updatedReceiver = await tx.wallet.update({
-        where: { id: receiverWallet!.id },
-        data: { balance: { increment: amount } },
-      });
-
-      const txRecord = await tx.transaction.create({
-        data: {
-          amount,
-          currency,
-          type: 'TRANSFER',
-          status: 'COMPLETED',
-          description,
-          senderWalletId: senderWallet.id,
-          senderUserId: userId,
-          receiverWalletId: receiverWallet!.id,
-          receiverUserId: receiverUser.id,
-        },
+    if (screened.status === 'HELD') {
+      const { transaction, decision } = screened;
+      const messages = {
+        HOLD_REVIEW: 'Transfer is on hold for review',
+        HOLD_PARENT: 'Transfer is waiting for a parent\'s approval',
+      } as Partial<Record<typeof decision.outcome, string>>;
+      return res.status(202).json({
+        success: true,
+        data: { txRecord: transaction, hold: { outcome: decision.outcome, reasons: decision.reasons } },
+        message: messages[decision.outcome] ?? 'Please confirm this transfer to send it',
       });
+    }
 
-      return { updatedSender, updatedReceiver, txRecord };
-    });
+    const { transfer: transferred } = screened;
+    const { fx } = transferred;
+    // Children use the payees their parent saved, but don't add new ones
+    await recordPayeeUse(userId, receiverUser.id, (req as any).user.scope !== 'child');
+
+    const result = {
+      updatedSender: transferred.senderWallet,
+      updatedReceiver: transferred.receiverWallet,
+      txRecord: transferred.transaction,
+    };
+
+    const roundUp = currency === homeCurrency
+      ? await recordRoundUp(userId, { amount, sourceTransactionId: result.txRecord.id })
+      : null;
+    if (roundUp?.status === 'SWEPT') {
+      result.updatedSender = await prisma.wallet.findUniqueOrThrow({ where: { id: result.updatedSender.id } });
+    }
 
-    return res.json({ success: true, data: result, message: 'Transfer successful' });
+    return res.json({ success: true, data: { ...result, roundUp, fx }, message: 'Transfer successful' });
   } catch (error) {
     console.error('Transfer error:', error);
     return res.status(500).json({ success: false, error: 'Failed to transfer' });
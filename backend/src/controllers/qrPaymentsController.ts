@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import { parseQrPayload } from '../services/qrPayloadService.js';
+import { payQrCode } from '../services/qrPaymentService.js';
+import { recordRoundUp } from '../services/roundUpService.js';
+import { getHomeCurrency } from '../services/walletService.js';
+import { QrPaymentCreateInput } from '../types/index.js';
+
+export const processQrPayment = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { qrData, amount: amountInput, goalId, category } = req.body as QrPaymentCreateInput;
+
+    const parsed = parseQrPayload(qrData);
+    if (!parsed.ok) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+    const { payload } = parsed;
+
+    // A code with a fixed amount is paid exactly that
+    if (payload.amount !== null && amountInput !== undefined && amountInput !== payload.amount) {
+      return res.status(400).json({ success: false, error: 'Amount does not match the QR code' });
+    }
+
+    const amount = payload.amount ?? amountInput;
+    if (amount === undefined) {
+      return res.status(400).json({ success: false, error: 'Amount is required' });
+    }
+
+    const outcome = await payQrCode({
+      userId,
+      payload,
+      rawData: qrData,
+      amount,
+      ...(goalId && { goalId }),
+      ...(category && { category }),
+    });
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Goal not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    let { wallet } = outcome;
+
+    // Paying from the wallet is spending like a withdrawal; spare change is
+    // only rounded up in the home currency
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const roundUp = wallet && payload.currency === homeCurrency
+      ? await recordRoundUp(userId, { amount, sourceTransactionId: outcome.transaction.id })
+      : null;
+    if (wallet && roundUp?.status === 'SWEPT') {
+      wallet = await prisma.wallet.findUniqueOrThrow({ where: { id: wallet.id } });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        qrPayment: outcome.qrPayment,
+        transaction: outcome.transaction,
+        expense: outcome.expense,
+        wallet,
+        goal: outcome.goal,
+        amountPaid: amount,
+        roundUp,
+      },
+      message: `Paid ${payload.payeeName || payload.payeeAddress}`,
+    });
+  } catch (error) {
+    console.error('QR payment error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process QR payment' });
+  }
+};
+
+export const getQrPayments = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { page = 1, limit = 20 } = req.query as unknown as {
+      page?: number;
+      limit?: number;
+    };
+    const skip = (page - 1) * limit;
+
+    const [payments, total] = await Promise.all([
+      prisma.qrPayment.findMany({
+        where: { userId },
+        include: {
+          goal: { select: { id: true, name: true } },
+          transaction: { select: { id: true, status: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.qrPayment.count({ where: { userId } }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: payments,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get QR payments error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get QR payments' });
+  }
+};
@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import { normalizeCurrency } from '../services/fxService.js';
+import { invoiceTokenFromQr } from '../services/invoiceService.js';
+import { parseQrPayload } from '../services/qrPayloadService.js';
+import {
+  RECEIVE_QR_MAX_EXPIRY_MINUTES,
+  decodeReceiveQr,
+  encodeReceiveQr,
+  isReceiveQr,
+  renderQr,
+} from '../services/receiveQrService.js';
+import { findWallet, getHomeCurrency } from '../services/walletService.js';
+
+export const getReceiveQr = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { currency: currencyInput, amount, note, expiresInMinutes } = req.query as unknown as {
+      currency?: string;
+      amount?: number;
+      note?: string;
+      expiresInMinutes?: number;
+    };
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const currency = currencyInput ? normalizeCurrency(currencyInput) : homeCurrency;
+
+    // Money can always be received in the home currency; others need a wallet
+    if (currency !== homeCurrency && !(await findWallet(prisma, userId, currency))) {
+      return res.status(404).json({ success: false, error: 'Wallet not found' });
+    }
+
+    if (expiresInMinutes !== undefined && expiresInMinutes > RECEIVE_QR_MAX_EXPIRY_MINUTES) {
+      return res.status(400).json({
+        success: false,
+        error: `Codes can be valid for at most ${RECEIVE_QR_MAX_EXPIRY_MINUTES} minutes`,
+      });
+    }
+
+    const qr = {
+      receiverId: userId,
+      currency,
+      amount: amount ?? null,
+      note: note ?? null,
+      expiresAt: expiresInMinutes !== undefined ? new Date(Date.now() + expiresInMinutes * 60 * 1000) : null,
+    };
+    const payload = encodeReceiveQr(qr);
+    const { svg, png } = await renderQr(payload);
+
+    return res.json({
+      success: true,
+      data: { ...qr, payload, svg, png },
+    });
+  } catch (error) {
+    console.error('Get receive QR error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to create QR code' });
+  }
+};
+
+export const resolveReceiveQr = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { payload } = req.body as { payload: string };
+
+    // Merchant invoice codes are looked up by their token
+    const invoiceToken = invoiceTokenFromQr(payload);
+    if (invoiceToken) {
+      const invoice = await prisma.invoice.findUnique({
+        where: { token: invoiceToken },
+        include: {
+          merchant: { select: { id: true, firstName: true, lastName: true, merchantName: true } },
+        },
+      });
+
+      if (!invoice) {
+        return res.status(404).json({ success: false, error: 'Invoice not found' });
+      }
+
+      if (invoice.status !== 'CREATED') {
+        return res.status(400).json({ success: false, error: `Invoice is already ${invoice.status.toLowerCase()}` });
+      }
+
+      if (invoice.expiresAt <= new Date()) {
+        return res.status(400).json({ success: false, error: 'Invoice has expired' });
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          kind: 'INVOICE',
+          invoiceId: invoice.id,
+          reference: invoice.reference,
+          currency: invoice.currency,
+          amount: invoice.amount,
+          note: invoice.description,
+          expiresAt: invoice.expiresAt,
+          receiver: invoice.merchant,
+        },
+      });
+    }
+
+    // Anything else is a UPI or EMVCo code, paid out of the app through
+    // POST /api/payments/qr-payment; clients show what it says from here
+    if (!isReceiveQr(payload)) {
+      const parsed = parseQrPayload(payload);
+      if (!parsed.ok) {
+        return res.status(400).json({ success: false, error: parsed.error });
+      }
+      return res.json({ success: true, data: { kind: 'EXTERNAL', ...parsed.payload } });
+    }
+
+    const decoded = decodeReceiveQr(payload);
+
+    if (!decoded.ok) {
+      return res.status(400).json({ success: false, error: decoded.error });
+    }
+
+    const { qr } = decoded;
+
+    if (qr.receiverId === userId) {
+      return res.status(400).json({ success: false, error: 'This is your own code' });
+    }
+
+    const receiver = await prisma.user.findUnique({
+      where: { id: qr.receiverId },
+      select: { id: true, firstName: true, lastName: true },
+    });
+
+    if (!receiver) {
+      return res.status(404).json({ success: false, error: 'Receiver not found' });
+    }
+
+    return res.json({ success: true, data: { kind: 'WALLET', ...qr, receiver } });
+  } catch (error) {
+    console.error('Resolve receive QR error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to read QR code' });
+  }
+};
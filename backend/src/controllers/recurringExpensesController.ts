@@ -0,0 +1,355 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import { skipNextOccurrence } from '../services/recurringExpenseService.js';
+import { occurrenceFrom } from '../utils/recurrence.js';
+
+const findRecurringExpense = (id: string, userId: string) =>
+  prisma.recurringExpense.findFirst({ where: { id, userId } });
+
+export const createRecurringExpense = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const templateData = req.body;
+
+    const schedule = {
+      frequency: templateData.frequency,
+      interval: templateData.interval,
+      startDate: new Date(templateData.startDate),
+      endDate: templateData.endDate ? new Date(templateData.endDate) : null,
+    };
+
+    const recurringExpense = await prisma.recurringExpense.create({
+      data: {
+        ...templateData,
+        ...schedule,
+        ...occurrenceFrom(schedule, schedule.startDate),
+        userId,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: recurringExpense,
+      message: 'Recurring expense created successfully',
+    });
+  } catch (error) {
+    console.error('Create recurring expense error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create recurring expense',
+    });
+  }
+};
+
+export const getRecurringExpenses = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { active } = req.query;
+
+    const where: any = { userId };
+    if (active !== undefined) where.isActive = active === 'true';
+
+    const recurringExpenses = await prisma.recurringExpense.findMany({
+      where,
+      orderBy: [
+        { isActive: 'desc' },
+        { nextRunAt: 'asc' },
+      ],
+    });
+
+    return res.json({
+      success: true,
+      data: recurringExpenses,
+    });
+  } catch (error) {
+    console.error('Get recurring expenses error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get recurring expenses',
+    });
+  }
+};
+
+export const getRecurringExpense = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Recurring expense ID is required',
+      });
+    }
+
+    const recurringExpense = await prisma.recurringExpense.findFirst({
+      where: { id, userId },
+      include: {
+        expenses: {
+          orderBy: { date: 'desc' },
+          take: 12,
+        },
+      },
+    });
+
+    if (!recurringExpense) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring expense not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: recurringExpense,
+    });
+  } catch (error) {
+    console.error('Get recurring expense error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get recurring expense',
+    });
+  }
+};
+
+export const updateRecurringExpense = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Recurring expense ID is required',
+      });
+    }
+
+    const existing = await findRecurringExpense(id, userId);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring expense not found',
+      });
+    }
+
+    const schedule = {
+      frequency: req.body.frequency ?? existing.frequency,
+      interval: req.body.interval ?? existing.interval,
+      startDate: req.body.startDate ? new Date(req.body.startDate) : existing.startDate,
+      endDate: req.body.endDate !== undefined
+        ? (req.body.endDate ? new Date(req.body.endDate) : null)
+        : existing.endDate,
+    };
+
+    if (schedule.endDate && schedule.endDate < schedule.startDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'endDate must be on or after startDate',
+      });
+    }
+
+    // Recompute the next occurrence from the new schedule without re-posting
+    // anything that has already been materialized
+    const from = existing.lastRunAt
+      ? new Date(Math.max(existing.lastRunAt.getTime() + 1, schedule.startDate.getTime()))
+      : schedule.startDate;
+
+    const updated = await prisma.recurringExpense.update({
+      where: { id },
+      data: {
+        ...req.body,
+        ...schedule,
+        ...occurrenceFrom(schedule, from),
+      },
+    });
+
+    return res.json({
+      success: true,
+      data: updated,
+      message: 'Recurring expense updated successfully',
+    });
+  } catch (error) {
+    console.error('Update recurring expense error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update recurring expense',
+    });
+  }
+};
+
+export const deleteRecurringExpense = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Recurring expense ID is required',
+      });
+    }
+
+    const existing = await findRecurringExpense(id, userId);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring expense not found',
+      });
+    }
+
+    // Expenses already posted are kept; they just lose the template link
+    await prisma.recurringExpense.delete({ where: { id } });
+
+    return res.json({
+      success: true,
+      message: 'Recurring expense deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete recurring expense error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete recurring expense',
+    });
+  }
+};
+
+export const pauseRecurringExpense = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Recurring expense ID is required',
+      });
+    }
+
+    const existing = await findRecurringExpense(id, userId);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring expense not found',
+      });
+    }
+
+    const updated = await prisma.recurringExpense.update({
+      where: { id },
+      data: { isPaused: true },
+    });
+
+    return res.json({
+      success: true,
+      data: updated,
+      message: 'Recurring expense paused',
+    });
+  } catch (error) {
+    console.error('Pause recurring expense error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to pause recurring expense',
+    });
+  }
+};
+
+export const resumeRecurringExpense = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Recurring expense ID is required',
+      });
+    }
+
+    const existing = await findRecurringExpense(id, userId);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring expense not found',
+      });
+    }
+
+    // Occurrences that fell inside the pause are skipped, not back-posted
+    const from = new Date(Math.max(Date.now(), existing.nextRunAt.getTime()));
+
+    const updated = await prisma.recurringExpense.update({
+      where: { id },
+      data: {
+        isPaused: false,
+        ...occurrenceFrom(existing, from),
+      },
+    });
+
+    return res.json({
+      success: true,
+      data: updated,
+      message: 'Recurring expense resumed',
+    });
+  } catch (error) {
+    console.error('Resume recurring expense error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to resume recurring expense',
+    });
+  }
+};
+
+export const skipRecurringExpense = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({
+        success: false,
+        error: 'Recurring expense ID is required',
+      });
+    }
+
+    const existing = await findRecurringExpense(id, userId);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring expense not found',
+      });
+    }
+
+    if (!existing.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: 'Recurring expense has ended',
+      });
+    }
+
+    const skipped = await skipNextOccurrence(existing);
+
+    if (!skipped) {
+      return res.status(409).json({
+        success: false,
+        error: 'The next occurrence was just posted, please try again',
+      });
+    }
+
+    const updated = await findRecurringExpense(id, userId);
+
+    return res.json({
+      success: true,
+      data: updated,
+      message: 'Next occurrence skipped',
+    });
+  } catch (error) {
+    console.error('Skip recurring expense error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to skip next occurrence',
+    });
+  }
+};
@@ -0,0 +1,193 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import {
+  ReversalApprover,
+  approveReversalRequest,
+  cancelReversalRequest,
+  fileReversalRequest,
+  rejectReversalRequest,
+  reversalRequestDetails,
+} from '../services/reversalService.js';
+
+type ReversalListQuery = {
+  status?: Prisma.ReversalRequestWhereInput['status'];
+  page?: number;
+  limit?: number;
+};
+
+// The signed-in user when they act as the receiver of a transfer; the admin
+// routes have no user and act as an operator
+const approverFor = (req: Request): ReversalApprover =>
+  (req as any).user ? { role: 'RECEIVER', userId: (req as any).user.id } : { role: 'ADMIN' };
+
+const listReversalRequests = async (req: Request, res: Response, where: Prisma.ReversalRequestWhereInput) => {
+  const { status, page = 1, limit = 20 } = req.query as unknown as ReversalListQuery;
+  const skip = (page - 1) * limit;
+
+  const filtered: Prisma.ReversalRequestWhereInput = { ...where, ...(status && { status }) };
+
+  const [requests, total] = await Promise.all([
+    prisma.reversalRequest.findMany({
+      where: filtered,
+      include: reversalRequestDetails,
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take: limit,
+    }),
+    prisma.reversalRequest.count({ where: filtered }),
+  ]);
+
+  return res.json({
+    success: true,
+    data: requests,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+};
+
+export const requestReversal = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Transaction ID is required' });
+    }
+
+    const outcome = await fileReversalRequest(id, userId, req.body.reason);
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Transaction not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: outcome.request,
+      message: 'Reversal requested',
+    });
+  } catch (error) {
+    console.error('Request reversal error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to request reversal' });
+  }
+};
+
+export const getIncomingReversalRequests = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    return await listReversalRequests(req, res, {
+      transaction: { type: 'TRANSFER', receiverUserId: userId },
+    });
+  } catch (error) {
+    console.error('Get incoming reversal requests error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get reversal requests' });
+  }
+};
+
+export const getOutgoingReversalRequests = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    return await listReversalRequests(req, res, { requesterId: userId });
+  } catch (error) {
+    console.error('Get outgoing reversal requests error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get reversal requests' });
+  }
+};
+
+// Admin: requests from every user, to review withdrawals and disputed transfers
+export const getAllReversalRequests = async (req: Request, res: Response) => {
+  try {
+    return await listReversalRequests(req, res, {});
+  } catch (error) {
+    console.error('Get reversal requests error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get reversal requests' });
+  }
+};
+
+export const approveReversal = async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Reversal request ID is required' });
+    }
+
+    const outcome = await approveReversalRequest(id, approverFor(req));
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Reversal request not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({
+      success: true,
+      data: { request: outcome.request, transaction: outcome.compensation },
+      message: 'Reversal approved',
+    });
+  } catch (error) {
+    console.error('Approve reversal error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to approve reversal' });
+  }
+};
+
+export const rejectReversal = async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Reversal request ID is required' });
+    }
+
+    const outcome = await rejectReversalRequest(id, approverFor(req));
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Reversal request not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({ success: true, data: outcome.request, message: 'Reversal rejected' });
+  } catch (error) {
+    console.error('Reject reversal error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to reject reversal' });
+  }
+};
+
+export const cancelReversal = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Reversal request ID is required' });
+    }
+
+    const outcome = await cancelReversalRequest(id, userId);
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Reversal request not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({ success: true, data: outcome.request, message: 'Reversal request cancelled' });
+  } catch (error) {
+    console.error('Cancel reversal error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to cancel reversal request' });
+  }
+};
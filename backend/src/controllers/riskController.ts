@@ -0,0 +1,308 @@
+import { Request, Response } from 'express';
+import { Prisma, RiskPolicy, RiskRuleType, TransferLimit } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import {
+  DEFAULT_RISK_POLICY,
+  DEFAULT_RISK_RULES,
+  HoldActor,
+  closeHeldTransfer,
+  getLimitUsage,
+  getRiskPolicy,
+  getRiskRules,
+  releaseHeldTransfer,
+} from '../services/riskService.js';
+import { recordPayeeUse } from '../services/payeeService.js';
+import { recordRoundUp } from '../services/roundUpService.js';
+import { getHomeCurrency } from '../services/walletService.js';
+import { RiskRuleUpdateInput } from '../types/index.js';
+
+// The signed-in sender on the payments routes; the admin routes have no user
+const holdActorFor = (req: Request): HoldActor =>
+  (req as any).user ? { role: 'SENDER', userId: (req as any).user.id } : { role: 'ADMIN' };
+
+// ================= USER =================
+
+export const getTransferLimits = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const usage = await getLimitUsage(userId);
+
+    return res.json({ success: true, data: usage });
+  } catch (error) {
+    console.error('Get transfer limits error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get transfer limits' });
+  }
+};
+
+export const confirmHeldTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Transaction ID is required' });
+    }
+
+    const outcome = await releaseHeldTransfer(id, holdActorFor(req));
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Held transfer not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    const { transfer } = outcome;
+    let wallet = transfer.senderWallet;
+
+    if (transfer.transaction.receiverUserId) {
+      await recordPayeeUse(userId, transfer.transaction.receiverUserId, (req as any).user.scope !== 'child');
+    }
+
+    const homeCurrency = await getHomeCurrency(prisma, userId);
+    const roundUp = transfer.transaction.currency === homeCurrency
+      ? await recordRoundUp(userId, { amount: transfer.transaction.amount, sourceTransactionId: transfer.transaction.id })
+      : null;
+    if (roundUp?.status === 'SWEPT') {
+      wallet = await prisma.wallet.findUniqueOrThrow({ where: { id: wallet.id } });
+    }
+
+    return res.json({
+      success: true,
+      data: { txRecord: transfer.transaction, wallet, roundUp, fx: transfer.fx },
+      message: 'Transfer successful',
+    });
+  } catch (error) {
+    console.error('Confirm held transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to confirm transfer' });
+  }
+};
+
+const closeHold = async (req: Request, res: Response) => {
+  const id = req.params.id;
+
+  if (!id) {
+    return res.status(400).json({ success: false, error: 'Transaction ID is required' });
+  }
+
+  const outcome = await closeHeldTransfer(id, holdActorFor(req));
+
+  if (!outcome) {
+    return res.status(404).json({ success: false, error: 'Held transfer not found' });
+  }
+
+  if (!outcome.ok) {
+    return res.status(400).json({ success: false, error: outcome.error });
+  }
+
+  return res.json({
+    success: true,
+    data: { txRecord: outcome.transaction, decision: outcome.decision },
+    message: outcome.decision.resolution === 'CANCELLED' ? 'Transfer cancelled' : 'Transfer declined',
+  });
+};
+
+export const cancelHeldTransfer = async (req: Request, res: Response) => {
+  try {
+    return await closeHold(req, res);
+  } catch (error) {
+    console.error('Cancel held transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to cancel transfer' });
+  }
+};
+
+// ================= ADMIN =================
+
+export const approveHeldTransfer = async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Transaction ID is required' });
+    }
+
+    const outcome = await releaseHeldTransfer(id, holdActorFor(req));
+
+    if (!outcome) {
+      return res.status(404).json({ success: false, error: 'Held transfer not found' });
+    }
+
+    if (!outcome.ok) {
+      return res.status(400).json({ success: false, error: outcome.error });
+    }
+
+    return res.json({
+      success: true,
+      data: { txRecord: outcome.transfer.transaction, decision: outcome.decision },
+      message: 'Transfer approved',
+    });
+  } catch (error) {
+    console.error('Approve held transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to approve transfer' });
+  }
+};
+
+export const declineHeldTransfer = async (req: Request, res: Response) => {
+  try {
+    return await closeHold(req, res);
+  } catch (error) {
+    console.error('Decline held transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to decline transfer' });
+  }
+};
+
+export const getRiskDecisions = async (req: Request, res: Response) => {
+  try {
+    const { outcome, userId, unresolved, page = 1, limit = 20 } = req.query as unknown as {
+      outcome?: Prisma.RiskDecisionWhereInput['outcome'];
+      userId?: string;
+      unresolved?: 'true' | 'false';
+      page?: number;
+      limit?: number;
+    };
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.RiskDecisionWhereInput = {
+      ...(outcome && { outcome }),
+      ...(userId && { userId }),
+      ...(unresolved === 'true' && {
+        outcome: { in: ['HOLD_CONFIRM', 'HOLD_REVIEW', 'HOLD_PARENT'] },
+        resolution: null,
+      }),
+    };
+
+    const [decisions, total] = await Promise.all([
+      prisma.riskDecision.findMany({
+        where,
+        include: {
+          user: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+          transaction: { select: { id: true, status: true, description: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.riskDecision.count({ where }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: decisions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Get risk decisions error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get risk decisions' });
+  }
+};
+
+export const getRiskConfig = async (req: Request, res: Response) => {
+  try {
+    const [policy, rules] = await Promise.all([getRiskPolicy(), getRiskRules()]);
+
+    return res.json({ success: true, data: { policy, rules } });
+  } catch (error) {
+    console.error('Get risk config error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get risk configuration' });
+  }
+};
+
+export const updateRiskPolicy = async (req: Request, res: Response) => {
+  try {
+    const changes = req.body as Partial<Omit<RiskPolicy, 'id' | 'updatedAt'>>;
+    const current = await getRiskPolicy();
+    const confirmScore = changes.confirmScore ?? current.confirmScore;
+    const reviewScore = changes.reviewScore ?? current.reviewScore;
+
+    if (confirmScore > reviewScore) {
+      return res.status(400).json({ success: false, error: 'confirmScore must not exceed reviewScore' });
+    }
+
+    const policy = await prisma.riskPolicy.upsert({
+      where: { id: 'default' },
+      create: { ...DEFAULT_RISK_POLICY, ...changes, id: 'default' },
+      update: changes,
+    });
+
+    return res.json({ success: true, data: policy, message: 'Risk policy updated' });
+  } catch (error) {
+    console.error('Update risk policy error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update risk policy' });
+  }
+};
+
+export const updateRiskRule = async (req: Request, res: Response) => {
+  try {
+    const type = req.params.type as RiskRuleType;
+    const { isEnabled, score, params } = req.body as RiskRuleUpdateInput;
+
+    const defaults = DEFAULT_RISK_RULES.find(rule => rule.type === type);
+    if (!defaults) {
+      return res.status(404).json({ success: false, error: 'Risk rule not found' });
+    }
+
+    const unknownParams = Object.keys(params ?? {}).filter(key => !(key in defaults.params));
+    if (unknownParams.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown params for ${type}: ${unknownParams.join(', ')}`,
+      });
+    }
+
+    const current = (await getRiskRules()).find(rule => rule.type === type) ?? defaults;
+    const merged = { ...current.params, ...params };
+
+    const rule = await prisma.riskRule.upsert({
+      where: { type },
+      create: {
+        type,
+        isEnabled: isEnabled ?? current.isEnabled,
+        score: score ?? current.score,
+        params: merged,
+      },
+      update: {
+        ...(isEnabled !== undefined && { isEnabled }),
+        ...(score !== undefined && { score }),
+        params: merged,
+      },
+    });
+
+    return res.json({ success: true, data: rule, message: 'Risk rule updated' });
+  } catch (error) {
+    console.error('Update risk rule error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update risk rule' });
+  }
+};
+
+export const updateUserTransferLimits = async (req: Request, res: Response) => {
+  try {
+    const userId = req.params.id;
+
+    if (!userId) {
+      return res.status(400).json({ success: false, error: 'User ID is required' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    const changes = req.body as Partial<Pick<TransferLimit, 'dailyLimit' | 'weeklyLimit' | 'monthlyLimit'>>;
+    const limits = await prisma.transferLimit.upsert({
+      where: { userId },
+      create: { ...changes, userId },
+      update: changes,
+    });
+
+    return res.json({ success: true, data: limits, message: 'Transfer limits updated' });
+  } catch (error) {
+    console.error('Update transfer limits error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update transfer limits' });
+  }
+};
@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import {
+  getRoundUpSummary,
+  resolveRoundUpSettings,
+  sweepRoundUps,
+} from '../services/roundUpService.js';
+
+export const getRoundUpSettings = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const [settings, summary] = await Promise.all([
+      resolveRoundUpSettings(userId),
+      getRoundUpSummary(userId),
+    ]);
+
+    return res.json({
+      success: true,
+      data: settings,
+      summary,
+    });
+  } catch (error) {
+    console.error('Get round-up settings error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get round-up settings',
+    });
+  }
+};
+
+export const updateRoundUpSettings = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const settingsData = req.body;
+
+    const current = await resolveRoundUpSettings(userId);
+    const goalId = settingsData.goalId !== undefined ? settingsData.goalId : current.goalId;
+    const isEnabled = settingsData.isEnabled ?? current.isEnabled;
+
+    if (isEnabled && !goalId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Choose a goal to receive round-ups',
+      });
+    }
+
+    if (settingsData.goalId) {
+      const goal = await prisma.goal.findFirst({
+        where: { id: settingsData.goalId, userId, isActive: true },
+      });
+
+      if (!goal) {
+        return res.status(404).json({
+          success: false,
+          error: 'Goal not found',
+        });
+      }
+    }
+
+    const settings = await prisma.roundUpSetting.upsert({
+      where: { userId },
+      update: settingsData,
+      create: { ...settingsData, userId },
+    });
+
+    return res.json({
+      success: true,
+      data: settings,
+      message: 'Round-up settings updated successfully',
+    });
+  } catch (error) {
+    console.error('Update round-up settings error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update round-up settings',
+    });
+  }
+};
+
+export const getRoundUps = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { page = '1', limit = '20', status } = req.query;
+
+    const pageNum = Number(page);
+    const limitNum = Number(limit);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = { userId };
+    if (status) where.status = status;
+
+    const [roundUps, total] = await Promise.all([
+      prisma.roundUp.findMany({
+        where,
+        include: {
+          expense: { select: { id: true, description: true, category: true } },
+          sourceTransaction: { select: { id: true, type: true, description: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.roundUp.count({ where }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: roundUps,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get round-ups error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get round-ups',
+    });
+  }
+};
+
+export const sweepPendingRoundUps = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const result = await sweepRoundUps(userId);
+
+    return res.json({
+      success: true,
+      data: result,
+      message: result.swept > 0
+        ? `Moved ${result.total} in spare change to your goal`
+        : 'No round-ups were swept',
+    });
+  } catch (error) {
+    console.error('Sweep round-ups error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to sweep round-ups',
+    });
+  }
+};
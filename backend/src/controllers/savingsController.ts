@@ -1,18 +1,39 @@
 import { Request, Response } from 'express';
-import { prisma } from '../config/database.js';
+import { prisma, serializableTransaction } from '../config/database.js';
+import { addGoalLedgerEntry, reverseGoalLedgerEntry } from '../services/goalLedgerService.js';
 
 export const createSaving = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user.id;
     const savingData = req.body;
 
-    const saving = await prisma.saving.create({
-      data: {
-        ...savingData,
-        userId,
-        date: new Date(savingData.date),
-      },
-    });
+    if (savingData.goalId) {
+      const goal = await prisma.goal.findFirst({
+        where: { id: savingData.goalId, userId },
+      });
+
+      if (!goal) {
+        return res.status(404).json({
+          success: false,
+          error: 'Goal not found',
+        });
+      }
+    }
+
+    // Savings recorded by hand never came out of the wallet
+    const data = {
+      ...savingData,
+      userId,
+      date: new Date(savingData.date),
+      isExternal: true,
+    };
+
+    const saving = savingData.goalId
+      ? await serializableTransaction(async (tx) => {
+          const recorded = await addGoalLedgerEntry(tx, data, { counterparty: { type: 'EXTERNAL' } });
+          return recorded?.saving;
+        })
+      : await prisma.saving.create({ data });
 
     return res.status(201).json({
       success: true,
@@ -35,6 +56,7 @@ export const getSavings = async (req: Request, res: Response) => {
       page = '1',
       limit = '20',
       type,
+      goalId,
       startDate,
       endDate,
       sortBy = 'date',
@@ -47,6 +69,7 @@ export const getSavings = async (req: Request, res: Response) => {
 
     const where: any = { userId };
     if (type) where.type = type;
+    if (goalId) where.goalId = goalId;
 
     if (startDate || endDate) {
       where.date = {};
@@ -142,7 +165,29 @@ export const deleteSaving = async (req: Request, res: Response) => {
       });
     }
 
-    await prisma.saving.delete({ where: { id } });
+    // Money taken out of a goal has already reached the wallet or paid an
+    // expense; deleting the entry would put it back in the goal a second time
+    if (existingSaving.type === 'GOAL_WITHDRAWAL' || existingSaving.type === 'GOAL_PAYMENT') {
+      return res.status(400).json({
+        success: false,
+        error: 'Withdrawals and payments from a goal cannot be deleted',
+      });
+    }
+
+    // Take the money back out of the goal it was credited to
+    const reversal = await serializableTransaction(async (tx) => {
+      const reversed = await reverseGoalLedgerEntry(tx, existingSaving);
+      if (!reversed.ok) return reversed;
+      await tx.saving.delete({ where: { id } });
+      return reversed;
+    });
+
+    if (!reversal.ok) {
+      return res.status(400).json({
+        success: false,
+        error: reversal.error,
+      });
+    }
 
     return res.json({
       success: true,
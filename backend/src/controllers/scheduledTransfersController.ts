@@ -0,0 +1,231 @@
+import { Request, Response } from 'express';
+import { prisma } from '../config/database.js';
+import { isSupportedCurrency } from '../services/fxService.js';
+import {
+  TransferSchedule,
+  cancelScheduledTransfer as cancelSchedule,
+  firstRunFrom,
+} from '../services/scheduledTransferService.js';
+import { findUserByPhone } from '../services/transferService.js';
+import { getHomeCurrency } from '../services/walletService.js';
+import { ScheduledTransferCreateInput, ScheduledTransferUpdateInput } from '../types/index.js';
+
+const receiverSelect = {
+  receiver: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+} as const;
+
+const findScheduledTransfer = (id: string, userId: string) =>
+  prisma.scheduledTransfer.findFirst({ where: { id, userId } });
+
+// Recurring schedules keep their start date but pick up from now, so a start in
+// the past doesn't make the scheduler catch up on every occurrence already
+// missed; a one-off transfer that is still due just runs straight away
+const firstRunFromNow = (schedule: TransferSchedule, from: Date) =>
+  firstRunFrom(schedule, schedule.frequency ? new Date(Math.max(from.getTime(), Date.now())) : from);
+
+export const createScheduledTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { receiverPhone, amount, description, frequency, interval, startDate, endDate } =
+      req.body as ScheduledTransferCreateInput;
+    const currency = (req.body as ScheduledTransferCreateInput).currency ?? await getHomeCurrency(prisma, userId);
+
+    if (!(await isSupportedCurrency(currency))) {
+      return res.status(400).json({ success: false, error: 'Unsupported currency' });
+    }
+
+    const receiver = await findUserByPhone(prisma, receiverPhone);
+    if (!receiver) {
+      return res.status(404).json({ success: false, error: 'Recipient not found' });
+    }
+
+    if (receiver.id === userId) {
+      return res.status(400).json({ success: false, error: 'Cannot transfer to yourself' });
+    }
+
+    const schedule: TransferSchedule = {
+      frequency: frequency ?? null,
+      interval,
+      startDate: new Date(startDate),
+      endDate: endDate ? new Date(endDate) : null,
+    };
+
+    if (schedule.endDate && schedule.endDate < schedule.startDate) {
+      return res.status(400).json({ success: false, error: 'endDate must be after startDate' });
+    }
+
+    const scheduledTransfer = await prisma.scheduledTransfer.create({
+      data: {
+        amount,
+        currency,
+        description: description || null,
+        ...schedule,
+        ...firstRunFromNow(schedule, schedule.startDate),
+        userId,
+        receiverId: receiver.id,
+      },
+      include: receiverSelect,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: scheduledTransfer,
+      message: 'Transfer scheduled',
+    });
+  } catch (error) {
+    console.error('Create scheduled transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to schedule transfer' });
+  }
+};
+
+export const getScheduledTransfers = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { active } = req.query;
+
+    const where: any = { userId };
+    if (active !== undefined) where.isActive = active === 'true';
+
+    const scheduledTransfers = await prisma.scheduledTransfer.findMany({
+      where,
+      include: {
+        ...receiverSelect,
+        // Occurrences still waiting on funds
+        transactions: {
+          where: { status: 'PENDING' },
+          orderBy: { scheduledFor: 'asc' },
+        },
+      },
+      orderBy: [
+        { isActive: 'desc' },
+        { nextRunAt: 'asc' },
+      ],
+    });
+
+    return res.json({ success: true, data: scheduledTransfers });
+  } catch (error) {
+    console.error('Get scheduled transfers error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get scheduled transfers' });
+  }
+};
+
+export const getScheduledTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Scheduled transfer ID is required' });
+    }
+
+    const scheduledTransfer = await prisma.scheduledTransfer.findFirst({
+      where: { id, userId },
+      include: {
+        ...receiverSelect,
+        transactions: {
+          orderBy: { scheduledFor: 'desc' },
+          take: 12,
+        },
+      },
+    });
+
+    if (!scheduledTransfer) {
+      return res.status(404).json({ success: false, error: 'Scheduled transfer not found' });
+    }
+
+    return res.json({ success: true, data: scheduledTransfer });
+  } catch (error) {
+    console.error('Get scheduled transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get scheduled transfer' });
+  }
+};
+
+export const updateScheduledTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+    const body = req.body as ScheduledTransferUpdateInput;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Scheduled transfer ID is required' });
+    }
+
+    const existing = await findScheduledTransfer(id, userId);
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Scheduled transfer not found' });
+    }
+
+    if (!existing.isActive) {
+      return res.status(400).json({ success: false, error: 'Scheduled transfer has ended' });
+    }
+
+    const schedule: TransferSchedule = {
+      frequency: body.frequency !== undefined ? body.frequency : existing.frequency,
+      interval: body.interval ?? existing.interval,
+      startDate: body.startDate ? new Date(body.startDate) : existing.startDate,
+      endDate: body.endDate !== undefined
+        ? (body.endDate ? new Date(body.endDate) : null)
+        : existing.endDate,
+    };
+
+    if (schedule.endDate && schedule.endDate < schedule.startDate) {
+      return res.status(400).json({ success: false, error: 'endDate must be on or after startDate' });
+    }
+
+    // Recompute the next occurrence without re-sending anything already due;
+    // edits only apply to occurrences from now on
+    const from = existing.lastRunAt
+      ? new Date(Math.max(existing.lastRunAt.getTime() + 1, schedule.startDate.getTime()))
+      : schedule.startDate;
+
+    const updated = await prisma.scheduledTransfer.update({
+      where: { id },
+      data: {
+        ...(body.amount !== undefined && { amount: body.amount }),
+        ...(body.description !== undefined && { description: body.description || null }),
+        ...schedule,
+        ...firstRunFromNow(schedule, from),
+      },
+      include: receiverSelect,
+    });
+
+    return res.json({
+      success: true,
+      data: updated,
+      message: 'Scheduled transfer updated',
+    });
+  } catch (error) {
+    console.error('Update scheduled transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update scheduled transfer' });
+  }
+};
+
+export const cancelScheduledTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const id = req.params.id;
+
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'Scheduled transfer ID is required' });
+    }
+
+    const existing = await findScheduledTransfer(id, userId);
+
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Scheduled transfer not found' });
+    }
+
+    // Kept rather than deleted so its sent transfers stay linked
+    const cancelled = await cancelSchedule(id);
+
+    return res.json({
+      success: true,
+      data: cancelled,
+      message: 'Scheduled transfer cancelled',
+    });
+  } catch (error) {
+    console.error('Cancel scheduled transfer error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to cancel scheduled transfer' });
+  }
+};
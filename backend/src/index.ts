@@ -8,6 +8,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import { connectDatabase, disconnectDatabase } from './config/database.js';
+import { startScheduler, stopScheduler } from './services/scheduler.js';
 
 // Import routes
 import authRoutes from './routes/auth.js';
@@ -18,6 +19,15 @@ import insightsRoutes from './routes/insights.js';
 import dashboardRoutes from './routes/dashboard.js';
 import paymentsRoutes from './routes/payments.js';
 import chatRoutes from './routes/chat.js';
+import budgetsRoutes from './routes/budgets.js';
+import fxRoutes from './routes/fx.js';
+import notificationsRoutes from './routes/notifications.js';
+import splitsRoutes from './routes/splits.js';
+import familyRoutes from './routes/family.js';
+import payeesRoutes from './routes/payees.js';
+import merchantRoutes from './routes/merchant.js';
+import paymentLinksRoutes from './routes/paymentLinks.js';
+import adminRoutes from './routes/admin.js';
 
 // (env already loaded above)
 
@@ -94,7 +104,10 @@ app.get('/api', (req, res) => {
           { method: 'POST', path: '/register', description: 'Register a new user' },
           { method: 'POST', path: '/login', description: 'Login user' },
           { method: 'GET', path: '/profile', description: 'Get user profile (requires auth)' },
-          { method: 'PUT', path: '/profile', description: 'Update user profile (requires auth)' }
+          { method: 'PUT', path: '/profile', description: 'Update user profile (requires auth)' },
+          { method: 'PUT', path: '/pin', description: 'Set or change your transaction PIN (requires auth)' },
+          { method: 'DELETE', path: '/pin', description: 'Remove your transaction PIN (requires auth)' },
+          { method: 'POST', path: '/step-up', description: 'Exchange your PIN or password for a step-up token (requires auth)' }
         ]
       },
       goals: {
@@ -104,7 +117,18 @@ app.get('/api', (req, res) => {
           { method: 'POST', path: '/', description: 'Create a new goal (requires auth)' },
           { method: 'GET', path: '/:id', description: 'Get goal by ID (requires auth)' },
           { method: 'PUT', path: '/:id', description: 'Update goal (requires auth)' },
-          { method: 'DELETE', path: '/:id', description: 'Delete goal (requires auth)' }
+          { method: 'DELETE', path: '/:id', description: 'Delete goal (requires auth)' },
+          { method: 'POST', path: '/:id/withdraw', description: 'Withdraw money from goal to wallet (requires auth)' },
+          { method: 'POST', path: '/:id/payment', description: 'Pay an expense from goal savings (requires auth)' },
+          { method: 'GET', path: '/:id/contributions', description: 'Get goal contribution ledger (requires auth)' },
+          { method: 'GET', path: '/invitations', description: 'Get pending invitations to shared goals (requires auth)' },
+          { method: 'POST', path: '/invitations/:invitationId/accept', description: 'Join a shared goal (requires auth)' },
+          { method: 'POST', path: '/invitations/:invitationId/decline', description: 'Decline a shared goal invitation (requires auth)' },
+          { method: 'POST', path: '/:id/invitations', description: 'Invite someone by email or phone as a contributor or viewer (requires auth)' },
+          { method: 'DELETE', path: '/:id/invitations/:invitationId', description: 'Cancel a pending invitation (requires auth)' },
+          { method: 'PUT', path: '/:id/members/:userId', description: 'Change a member\'s role (requires auth)' },
+          { method: 'DELETE', path: '/:id/members/:userId', description: 'Remove a member, returning their share (requires auth)' },
+          { method: 'POST', path: '/:id/leave', description: 'Leave a shared goal, taking your share (requires auth)' }
         ]
       },
       expenses: {
@@ -112,6 +136,14 @@ app.get('/api', (req, res) => {
         endpoints: [
           { method: 'GET', path: '/', description: 'Get all expenses (requires auth)' },
           { method: 'POST', path: '/', description: 'Create a new expense (requires auth)' },
+          { method: 'GET', path: '/recurring', description: 'Get recurring expenses (requires auth)' },
+          { method: 'POST', path: '/recurring', description: 'Create a recurring expense (requires auth)' },
+          { method: 'GET', path: '/recurring/:id', description: 'Get recurring expense with posted expenses (requires auth)' },
+          { method: 'PUT', path: '/recurring/:id', description: 'Update recurring expense (requires auth)' },
+          { method: 'DELETE', path: '/recurring/:id', description: 'Delete recurring expense (requires auth)' },
+          { method: 'POST', path: '/recurring/:id/pause', description: 'Pause recurring expense (requires auth)' },
+          { method: 'POST', path: '/recurring/:id/resume', description: 'Resume recurring expense (requires auth)' },
+          { method: 'POST', path: '/recurring/:id/skip', description: 'Skip next occurrence (requires auth)' },
           { method: 'GET', path: '/:id', description: 'Get expense by ID (requires auth)' },
           { method: 'PUT', path: '/:id', description: 'Update expense (requires auth)' },
           { method: 'DELETE', path: '/:id', description: 'Delete expense (requires auth)' }
@@ -124,7 +156,19 @@ app.get('/api', (req, res) => {
           { method: 'POST', path: '/', description: 'Create a new saving (requires auth)' },
           { method: 'GET', path: '/:id', description: 'Get saving by ID (requires auth)' },
           { method: 'PUT', path: '/:id', description: 'Update saving (requires auth)' },
-          { method: 'DELETE', path: '/:id', description: 'Delete saving (requires auth)' }
+          { method: 'DELETE', path: '/:id', description: 'Delete saving (requires auth)' },
+          { method: 'GET', path: '/rules', description: 'Get auto-save rules (requires auth)' },
+          { method: 'POST', path: '/rules', description: 'Create auto-save rule (requires auth)' },
+          { method: 'POST', path: '/rules/preview', description: 'Preview an auto-save rule (requires auth)' },
+          { method: 'GET', path: '/rules/:id', description: 'Get auto-save rule (requires auth)' },
+          { method: 'PUT', path: '/rules/:id', description: 'Update auto-save rule (requires auth)' },
+          { method: 'DELETE', path: '/rules/:id', description: 'Delete auto-save rule (requires auth)' },
+          { method: 'GET', path: '/rules/:id/preview', description: 'Preview upcoming runs of a rule (requires auth)' },
+          { method: 'GET', path: '/rules/:id/runs', description: 'Get auto-save rule run history (requires auth)' },
+          { method: 'GET', path: '/round-ups/settings', description: 'Get round-up settings and monthly summary (requires auth)' },
+          { method: 'PUT', path: '/round-ups/settings', description: 'Update round-up settings (requires auth)' },
+          { method: 'GET', path: '/round-ups', description: 'Get round-up history (requires auth)' },
+          { method: 'POST', path: '/round-ups/sweep', description: 'Sweep pending round-ups into the goal now (requires auth)' }
         ]
       },
       insights: {
@@ -147,11 +191,38 @@ app.get('/api', (req, res) => {
       payments: {
         base: '/api/payments',
         endpoints: [
-          { method: 'GET', path: '/wallet', description: 'Get wallet info (requires auth)' },
+          { method: 'GET', path: '/wallet', description: 'Get wallet info with available vs goal-allocated funds; ?currency= picks a wallet (requires auth)' },
+          { method: 'GET', path: '/wallets', description: 'List wallets in every currency with a home-currency total (requires auth)' },
+          { method: 'POST', path: '/wallets', description: 'Open a wallet in another currency (requires auth)' },
           { method: 'GET', path: '/transactions', description: 'List transactions (requires auth)' },
           { method: 'POST', path: '/deposit', description: 'Deposit funds (requires auth)' },
           { method: 'POST', path: '/withdraw', description: 'Withdraw funds (requires auth)' },
-          { method: 'POST', path: '/transfer', description: 'Transfer to another user by email (requires auth)' }
+          { method: 'POST', path: '/transfer', description: 'Transfer to another user by phone number, saved payee, receive QR code or payment link (requires auth)' },
+          { method: 'GET', path: '/wallet/qr', description: 'Get a signed QR code others can scan to pay you (requires auth)' },
+          { method: 'POST', path: '/qr/resolve', description: 'Check a scanned receive or invoice QR code and show who it pays (requires auth)' },
+          { method: 'POST', path: '/invoices/pay', description: 'Pay a scanned merchant invoice from your wallet or a goal (requires auth)' },
+          { method: 'POST', path: '/qr-payment', description: 'Pay a scanned UPI or EMVCo code from your wallet or a goal (requires auth)' },
+          { method: 'GET', path: '/qr-payments', description: 'Get your QR payments (requires auth)' },
+          { method: 'GET', path: '/limits', description: 'Get your transfer limits and how much of each is used (requires auth)' },
+          { method: 'POST', path: '/transactions/:id/confirm', description: 'Confirm a held transfer (requires auth and step-up)' },
+          { method: 'POST', path: '/transactions/:id/cancel', description: 'Cancel a held transfer (requires auth)' },
+          { method: 'POST', path: '/requests', description: 'Request money from another user by phone or email (requires auth)' },
+          { method: 'GET', path: '/requests/incoming', description: 'List payment requests sent to you (requires auth)' },
+          { method: 'GET', path: '/requests/outgoing', description: 'List payment requests you sent (requires auth)' },
+          { method: 'POST', path: '/requests/:id/accept', description: 'Pay a payment request (requires auth)' },
+          { method: 'POST', path: '/requests/:id/decline', description: 'Decline a payment request (requires auth)' },
+          { method: 'POST', path: '/requests/:id/cancel', description: 'Cancel a payment request you sent (requires auth)' },
+          { method: 'GET', path: '/scheduled', description: 'List scheduled transfers (requires auth)' },
+          { method: 'POST', path: '/scheduled', description: 'Schedule a one-off or recurring transfer (requires auth)' },
+          { method: 'GET', path: '/scheduled/:id', description: 'Get a scheduled transfer with its recent occurrences (requires auth)' },
+          { method: 'PUT', path: '/scheduled/:id', description: 'Edit a scheduled transfer (requires auth)' },
+          { method: 'DELETE', path: '/scheduled/:id', description: 'Cancel a scheduled transfer (requires auth)' },
+          { method: 'POST', path: '/transactions/:id/reversal', description: 'Ask for a transfer or withdrawal you made to be reversed (requires auth)' },
+          { method: 'GET', path: '/reversals/incoming', description: 'List reversal requests on transfers you received (requires auth)' },
+          { method: 'GET', path: '/reversals/outgoing', description: 'List reversal requests you filed (requires auth)' },
+          { method: 'POST', path: '/reversals/:id/approve', description: 'Return a transfer you received (requires auth)' },
+          { method: 'POST', path: '/reversals/:id/reject', description: 'Reject a reversal request (requires auth)' },
+          { method: 'POST', path: '/reversals/:id/cancel', description: 'Cancel a reversal request you filed (requires auth)' }
         ]
       }
       ,
@@ -160,6 +231,104 @@ app.get('/api', (req, res) => {
         endpoints: [
           { method: 'POST', path: '/', description: 'Send a chat message to AI (requires auth)' }
         ]
+      },
+      budgets: {
+        base: '/api/budgets',
+        endpoints: [
+          { method: 'GET', path: '/', description: 'Get budgets with budget-vs-actual for a month (requires auth)' },
+          { method: 'POST', path: '/', description: 'Create a category budget (requires auth)' },
+          { method: 'GET', path: '/:id', description: 'Get budget by ID (requires auth)' },
+          { method: 'PUT', path: '/:id', description: 'Update budget (requires auth)' },
+          { method: 'DELETE', path: '/:id', description: 'Delete budget (requires auth)' }
+        ]
+      },
+      fx: {
+        base: '/api/fx',
+        endpoints: [
+          { method: 'GET', path: '/rates', description: 'Get exchange rates against USD (requires auth)' },
+          { method: 'GET', path: '/convert', description: 'Quote a conversion including the FX spread (requires auth)' },
+          { method: 'PUT', path: '/rates', description: 'Set exchange rates (requires X-Admin-Key)' },
+          { method: 'POST', path: '/rates/reload', description: 'Reload exchange rates from the rate file (requires X-Admin-Key)' }
+        ]
+      },
+      notifications: {
+        base: '/api/notifications',
+        endpoints: [
+          { method: 'GET', path: '/', description: 'Get notifications with the unread count (requires auth)' },
+          { method: 'PUT', path: '/mark-all-read', description: 'Mark all notifications as read (requires auth)' },
+          { method: 'PUT', path: '/:id/read', description: 'Mark a notification as read (requires auth)' }
+        ]
+      },
+      splits: {
+        base: '/api/splits',
+        endpoints: [
+          { method: 'POST', path: '/', description: 'Split a bill you paid with other users (requires auth)' },
+          { method: 'GET', path: '/', description: 'Get bills you split or owe a share of (requires auth)' },
+          { method: 'GET', path: '/:id', description: 'Get a split bill with who has paid (requires auth)' },
+          { method: 'POST', path: '/:id/settle', description: 'Pay your share from your wallet (requires auth)' },
+          { method: 'DELETE', path: '/:id', description: 'Stop collecting a split bill (requires auth)' }
+        ]
+      },
+      family: {
+        base: '/api/family',
+        endpoints: [
+          { method: 'POST', path: '/children', description: 'Create a child profile (requires auth, not for children)' },
+          { method: 'GET', path: '/children', description: 'Get your children with their wallets (requires auth, not for children)' },
+          { method: 'GET', path: '/children/:id', description: 'Get a child\'s wallets, goals, limits and allowances (requires auth, not for children)' },
+          { method: 'PUT', path: '/children/:id/limits', description: 'Change a child\'s limits and approval threshold (requires auth, not for children)' },
+          { method: 'GET', path: '/children/:id/activity', description: 'Get a child\'s transactions (requires auth, not for children)' },
+          { method: 'POST', path: '/children/:id/allowances', description: 'Schedule a recurring allowance (requires auth, not for children)' },
+          { method: 'POST', path: '/children/:id/payees', description: 'Save a payee the child can send to (requires auth, not for children)' },
+          { method: 'GET', path: '/approvals', description: 'Get child transfers waiting for approval (requires auth, not for children)' },
+          { method: 'POST', path: '/approvals/:id/approve', description: 'Approve a held child transfer (requires auth, not for children)' },
+          { method: 'POST', path: '/approvals/:id/decline', description: 'Decline a held child transfer (requires auth, not for children)' }
+        ]
+      },
+      payees: {
+        base: '/api/payees',
+        endpoints: [
+          { method: 'GET', path: '/', description: 'Get saved payees, favorites first; search by name, nickname or phone (requires auth)' },
+          { method: 'POST', path: '/', description: 'Save a payee by phone number (requires auth, not for children)' },
+          { method: 'PUT', path: '/:id', description: 'Rename a payee or mark it as a favorite (requires auth)' },
+          { method: 'DELETE', path: '/:id', description: 'Remove a payee (requires auth)' }
+        ]
+      },
+      merchant: {
+        base: '/api/merchant',
+        endpoints: [
+          { method: 'POST', path: '/invoices', description: 'Create an invoice with a one-time QR code (requires auth, merchants only)' },
+          { method: 'GET', path: '/invoices', description: 'List your invoices; ?status= filters (requires auth, merchants only)' },
+          { method: 'GET', path: '/invoices/:id', description: 'Get an invoice with its payment and any refund (requires auth, merchants only)' },
+          { method: 'GET', path: '/invoices/:id/status', description: 'Poll an invoice status; ?after=&wait= holds until it changes (requires auth, merchants only)' },
+          { method: 'POST', path: '/invoices/:id/refund', description: 'Refund a paid invoice (requires auth, merchants only, step-up)' },
+          { method: 'GET', path: '/settlements', description: 'Daily settlement report; ?date=YYYY-MM-DD (requires auth, merchants only)' }
+        ]
+      },
+      paymentLinks: {
+        base: '/api/payment-links',
+        endpoints: [
+          { method: 'GET', path: '/preview/:token', description: 'Preview a payment link: who it pays and how much (public)' },
+          { method: 'POST', path: '/', description: 'Create a /pay/<token> link that opens a transfer to you (requires auth)' },
+          { method: 'GET', path: '/', description: 'List your payment links with what each has received; ?status= filters (requires auth)' },
+          { method: 'GET', path: '/:id', description: 'Get a payment link with the payments made through it (requires auth)' },
+          { method: 'POST', path: '/:id/disable', description: 'Stop a payment link from taking payments (requires auth)' }
+        ]
+      },
+      admin: {
+        base: '/api/admin',
+        endpoints: [
+          { method: 'GET', path: '/reversals', description: 'List reversal requests from all users (requires X-Admin-Key)' },
+          { method: 'POST', path: '/reversals/:id/approve', description: 'Approve a reversal (requires X-Admin-Key)' },
+          { method: 'POST', path: '/reversals/:id/reject', description: 'Reject a reversal (requires X-Admin-Key)' },
+          { method: 'GET', path: '/risk', description: 'Get the risk policy and rules (requires X-Admin-Key)' },
+          { method: 'PUT', path: '/risk/policy', description: 'Set default limits and hold thresholds (requires X-Admin-Key)' },
+          { method: 'PUT', path: '/risk/rules/:type', description: 'Enable, disable or tune a fraud rule (requires X-Admin-Key)' },
+          { method: 'GET', path: '/risk/decisions', description: 'Audit of screened transfers (requires X-Admin-Key)' },
+          { method: 'POST', path: '/risk/held/:id/approve', description: 'Send a held transfer (requires X-Admin-Key)' },
+          { method: 'POST', path: '/risk/held/:id/decline', description: 'Decline a held transfer (requires X-Admin-Key)' },
+          { method: 'PUT', path: '/users/:id/limits', description: "Override a user's transfer limits (requires X-Admin-Key)" },
+          { method: 'PUT', path: '/users/:id/merchant', description: 'Switch merchant mode on or off for a user (requires X-Admin-Key)' }
+        ]
       }
     },
     authentication: {
@@ -183,6 +352,15 @@ app.use('/api/insights', insightsRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/payments', paymentsRoutes);
 app.use('/api/chat', chatRoutes);
+app.use('/api/budgets', budgetsRoutes);
+app.use('/api/fx', fxRoutes);
+app.use('/api/notifications', notificationsRoutes);
+app.use('/api/splits', splitsRoutes);
+app.use('/api/family', familyRoutes);
+app.use('/api/payees', payeesRoutes);
+app.use('/api/merchant', merchantRoutes);
+app.use('/api/payment-links', paymentLinksRoutes);
+app.use('/api/admin', adminRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -248,12 +426,14 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  stopScheduler();
   await disconnectDatabase();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully');
+  stopScheduler();
   await disconnectDatabase();
   process.exit(0);
 });
@@ -271,6 +451,9 @@ async function startServer() {
       console.log(`🔗 Health check: /health`);
       console.log(`📚 API Documentation: /api`);      
     });
+
+    // Start background jobs
+    startScheduler();
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
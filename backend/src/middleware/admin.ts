@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Guard operator-only endpoints with the shared ADMIN_API_KEY, sent in the
+ * X-Admin-Key header. Admin endpoints are disabled when no key is configured.
+ */
+export const requireAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const expected = process.env.ADMIN_API_KEY;
+  const provided = req.get('X-Admin-Key');
+
+  if (!expected) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin endpoints are disabled',
+    });
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided ?? '');
+  const matches = providedBuffer.length === expectedBuffer.length
+    && timingSafeEqual(providedBuffer, expectedBuffer);
+
+  if (!matches) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin key',
+    });
+  }
+
+  return next();
+};
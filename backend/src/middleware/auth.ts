@@ -7,10 +7,14 @@ if (!JWT_SECRET) {
   throw new Error('JWT_SECRET is not defined in environment variables');
 }
 
+// Child profiles sign in with the `child` scope; everyone else has `full`
+export type TokenScope = 'full' | 'child';
+
 interface AuthRequest extends Request {
   user?: {
     id: string;
     email: string;
+    scope: TokenScope;
   };
 }
 
@@ -50,6 +54,7 @@ export const authenticate = (
     req.user = {
       id: decoded.id as string,
       email: decoded.email as string,
+      scope: decoded.scope === 'child' ? 'child' : 'full',
     };
 
     return next();
@@ -60,3 +65,23 @@ export const authenticate = (
     });
   }
 };
+
+/**
+ * Refuse requests made with a child's token, for things only their parent
+ * may do: changing limits, managing the family, or setting up payments to new
+ * people. Must run after `authenticate`.
+ */
+export const denyChildScope = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.user?.scope === 'child') {
+    return res.status(403).json({
+      success: false,
+      error: 'Ask a parent to do this for you',
+    });
+  }
+
+  return next();
+};
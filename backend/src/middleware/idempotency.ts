@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from '../services/idempotencyService.js';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Make a money-moving endpoint safe to retry. Requests without an
+ * Idempotency-Key header run as usual. With one, the first request runs and its
+ * response is stored before it is sent; a retry with the same key and body gets
+ * that response back (flagged with `Idempotent-Replayed: true`) without running
+ * again. Reusing a key for a different request is rejected with 422. Server
+ * errors aren't stored, so those requests can be retried with the same key.
+ * Must run after `authenticate`.
+ */
+export const idempotent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined) return next();
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  try {
+    const claim = await claimIdempotencyKey({
+      userId: (req as any).user.id,
+      key,
+      method: req.method,
+      path: req.baseUrl + req.path,
+      body: req.body,
+    });
+
+    if (claim.outcome === 'MISMATCH') {
+      return res.status(422).json({
+        success: false,
+        error: 'Idempotency-Key has already been used for a different request',
+      });
+    }
+
+    if (claim.outcome === 'IN_PROGRESS') {
+      return res.status(409).json({
+        success: false,
+        error: 'A request with this Idempotency-Key is still being processed',
+      });
+    }
+
+    if (claim.outcome === 'REPLAY') {
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(claim.record.responseStatus ?? 200).json(claim.record.responseBody);
+    }
+
+    const { id } = claim.record;
+    const originalJson = res.json.bind(res);
+
+    // Persist the response before sending it, so a retry that arrives once the
+    // client has seen it is guaranteed to find it
+    res.json = (body?: any) => {
+      const stored = res.statusCode >= 500
+        ? releaseIdempotencyKey(id)
+        : completeIdempotencyKey(id, res.statusCode, body);
+
+      stored
+        .catch(error => console.error('Store idempotency key error:', error))
+        .finally(() => originalJson(body));
+
+      return res;
+    };
+
+    return next();
+  } catch (error) {
+    console.error('Idempotency key error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to process idempotency key',
+    });
+  }
+};
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../config/database.js';
+
+/**
+ * Only let merchants through, i.e. users an operator has switched to merchant
+ * mode. Must run after `authenticate`.
+ */
+export const requireMerchant = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: (req as any).user.id },
+      select: { isMerchant: true },
+    });
+
+    if (!user?.isMerchant) {
+      return res.status(403).json({
+        success: false,
+        error: 'Merchant account required',
+      });
+    }
+
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+};
@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { exceedsStepUpThreshold, verifyStepUpToken } from '../services/stepUpService.js';
+
+export const STEP_UP_HEADER = 'X-Step-Up-Token';
+
+// Amount a request would move, or null when there is nothing to check
+export type StepUpAmount = (req: Request) => Promise<{ amount: number; currency: string } | null>;
+
+/**
+ * Require a step-up token from POST /api/auth/step-up in the X-Step-Up-Token
+ * header, so a stolen session token alone can't move money out. Rejected
+ * requests get 403 with `stepUpRequired: true`, for the client to ask for the
+ * PIN or password and retry. Must run after `authenticate`.
+ */
+export const requireStepUp = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const token = req.get(STEP_UP_HEADER);
+
+  if (!token || !verifyStepUpToken(token, (req as any).user.id)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Confirm with your transaction PIN or password',
+      stepUpRequired: true,
+    });
+  }
+
+  return next();
+};
+
+/**
+ * Require a step-up token only when the amount the request moves is above
+ * STEP_UP_TRANSFER_THRESHOLD.
+ */
+export const requireStepUpAbove = (amountOf: StepUpAmount) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const moving = await amountOf(req);
+    if (!moving || !(await exceedsStepUpThreshold(moving.amount, moving.currency))) {
+      return next();
+    }
+  } catch (error) {
+    console.error('Step-up check error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to check transfer',
+    });
+  }
+
+  return requireStepUp(req, res, next);
+};
@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { requireAdmin } from '../middleware/admin.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
+import {
+  MerchantUpdateSchema,
+  ReversalRequestQuerySchema,
+  RiskDecisionQuerySchema,
+  RiskPolicyUpdateSchema,
+  RiskRuleParamsSchema,
+  RiskRuleUpdateSchema,
+  TransferLimitUpdateSchema,
+} from '../types/index.js';
+import { z } from 'zod';
+import {
+  getAllReversalRequests,
+  approveReversal,
+  rejectReversal,
+} from '../controllers/reversalsController.js';
+import {
+  getRiskConfig,
+  updateRiskPolicy,
+  updateRiskRule,
+  getRiskDecisions,
+  approveHeldTransfer,
+  declineHeldTransfer,
+  updateUserTransferLimits,
+} from '../controllers/riskController.js';
+import { updateMerchantStatus } from '../controllers/merchantController.js';
+
+const router = Router();
+
+const IdParamSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// Operator endpoints, authenticated with X-Admin-Key instead of a user token
+router.use(requireAdmin);
+
+// Reversals
+router.get('/reversals', validateQuery(ReversalRequestQuerySchema), getAllReversalRequests);
+router.post('/reversals/:id/approve', validateParams(IdParamSchema), approveReversal);
+router.post('/reversals/:id/reject', validateParams(IdParamSchema), rejectReversal);
+
+// Risk: limits, rules and held transfers
+router.get('/risk', getRiskConfig);
+router.put('/risk/policy', validateBody(RiskPolicyUpdateSchema), updateRiskPolicy);
+router.put('/risk/rules/:type', validateParams(RiskRuleParamsSchema), validateBody(RiskRuleUpdateSchema), updateRiskRule);
+router.get('/risk/decisions', validateQuery(RiskDecisionQuerySchema), getRiskDecisions);
+router.post('/risk/held/:id/approve', validateParams(IdParamSchema), approveHeldTransfer);
+router.post('/risk/held/:id/decline', validateParams(IdParamSchema), declineHeldTransfer);
+router.put('/users/:id/limits', validateParams(IdParamSchema), validateBody(TransferLimitUpdateSchema), updateUserTransferLimits);
+
+// Merchants
+router.put('/users/:id/merchant', validateParams(IdParamSchema), validateBody(MerchantUpdateSchema), updateMerchantStatus);
+
+export default router;
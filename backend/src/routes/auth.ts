@@ -1,13 +1,22 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth.js';
 import { validateBody } from '../middleware/validation.js';
-import { UserRegisterSchema, UserLoginSchema } from '../types/index.js';
+import {
+  UserRegisterSchema,
+  UserLoginSchema,
+  StepUpSchema,
+  TransactionPinRemoveSchema,
+  TransactionPinSetSchema,
+} from '../types/index.js';
 import {
   register,
   login,
   getProfile,
   updateProfile,
   changePassword,
+  setTransactionPin,
+  removeTransactionPin,
+  stepUp,
 } from '../controllers/authController.js';
 
 const router = Router();
@@ -21,4 +30,9 @@ router.get('/profile', authenticate, getProfile);
 router.put('/profile', authenticate, updateProfile);
 router.put('/change-password', authenticate, changePassword);
 
+// Transaction PIN and step-up confirmation for moving money out
+router.put('/pin', authenticate, validateBody(TransactionPinSetSchema), setTransactionPin);
+router.delete('/pin', authenticate, validateBody(TransactionPinRemoveSchema), removeTransactionPin);
+router.post('/step-up', authenticate, validateBody(StepUpSchema), stepUp);
+
 export default router;
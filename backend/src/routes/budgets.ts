@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
+import { BudgetCreateSchema, BudgetUpdateSchema, BudgetQuerySchema } from '../types/index.js';
+import { z } from 'zod';
+import {
+  createBudget,
+  getBudgets,
+  getBudget,
+  updateBudget,
+  deleteBudget,
+} from '../controllers/budgetsController.js';
+
+const router = Router();
+
+const BudgetIdSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// All routes require authentication
+router.use(authenticate);
+
+// Budget CRUD operations
+router.post('/', validateBody(BudgetCreateSchema), createBudget);
+router.get('/', validateQuery(BudgetQuerySchema), getBudgets);
+router.get('/:id', validateParams(BudgetIdSchema), validateQuery(BudgetQuerySchema), getBudget);
+router.put('/:id', validateParams(BudgetIdSchema), validateBody(BudgetUpdateSchema), updateBudget);
+router.delete('/:id', validateParams(BudgetIdSchema), deleteBudget);
+
+export default router;
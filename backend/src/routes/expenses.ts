@@ -1,7 +1,12 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth.js';
 import { validateBody, validateParams } from '../middleware/validation.js';
-import { ExpenseCreateSchema, ExpenseUpdateSchema } from '../types/index.js';
+import {
+  ExpenseCreateSchema,
+  ExpenseUpdateSchema,
+  RecurringExpenseCreateSchema,
+  RecurringExpenseUpdateSchema,
+} from '../types/index.js';
 import { z } from 'zod';
 import {
   createExpense,
@@ -10,6 +15,16 @@ import {
   updateExpense,
   deleteExpense,
 } from '../controllers/expensesController.js';
+import {
+  createRecurringExpense,
+  getRecurringExpenses,
+  getRecurringExpense,
+  updateRecurringExpense,
+  deleteRecurringExpense,
+  pauseRecurringExpense,
+  resumeRecurringExpense,
+  skipRecurringExpense,
+} from '../controllers/recurringExpensesController.js';
 
 const router = Router();
 
@@ -20,6 +35,16 @@ const ExpenseIdSchema = z.object({
 // All routes require authentication
 router.use(authenticate);
 
+// Recurring expense templates
+router.post('/recurring', validateBody(RecurringExpenseCreateSchema), createRecurringExpense);
+router.get('/recurring', getRecurringExpenses);
+router.get('/recurring/:id', validateParams(ExpenseIdSchema), getRecurringExpense);
+router.put('/recurring/:id', validateParams(ExpenseIdSchema), validateBody(RecurringExpenseUpdateSchema), updateRecurringExpense);
+router.delete('/recurring/:id', validateParams(ExpenseIdSchema), deleteRecurringExpense);
+router.post('/recurring/:id/pause', validateParams(ExpenseIdSchema), pauseRecurringExpense);
+router.post('/recurring/:id/resume', validateParams(ExpenseIdSchema), resumeRecurringExpense);
+router.post('/recurring/:id/skip', validateParams(ExpenseIdSchema), skipRecurringExpense);
+
 // Expense CRUD operations
 router.post('/', validateBody(ExpenseCreateSchema), createExpense);
 router.get('/', getExpenses);
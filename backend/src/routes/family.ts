@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { authenticate, denyChildScope } from '../middleware/auth.js';
+import { validateBody, validateParams } from '../middleware/validation.js';
+import { AllowanceCreateSchema, ChildControlsUpdateSchema, ChildCreateSchema, PayeeCreateSchema } from '../types/index.js';
+import { z } from 'zod';
+import {
+  createChild,
+  getChildren,
+  getChild,
+  updateChildControls,
+  getChildActivity,
+  createAllowance,
+  createChildPayee,
+  getApprovals,
+  approveChildTransfer,
+  declineChildTransfer,
+} from '../controllers/familyController.js';
+
+const router = Router();
+
+const IdParamSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// Parents only; a child's token can't manage the family or its own limits
+router.use(authenticate, denyChildScope);
+
+// Child profiles
+router.post('/children', validateBody(ChildCreateSchema), createChild);
+router.get('/children', getChildren);
+router.get('/children/:id', validateParams(IdParamSchema), getChild);
+router.put('/children/:id/limits', validateParams(IdParamSchema), validateBody(ChildControlsUpdateSchema), updateChildControls);
+router.get('/children/:id/activity', validateParams(IdParamSchema), getChildActivity);
+router.post('/children/:id/allowances', validateParams(IdParamSchema), validateBody(AllowanceCreateSchema), createAllowance);
+router.post('/children/:id/payees', validateParams(IdParamSchema), validateBody(PayeeCreateSchema), createChildPayee);
+
+// Child transfers waiting for approval, by transaction ID
+router.get('/approvals', getApprovals);
+router.post('/approvals/:id/approve', validateParams(IdParamSchema), approveChildTransfer);
+router.post('/approvals/:id/decline', validateParams(IdParamSchema), declineChildTransfer);
+
+export default router;
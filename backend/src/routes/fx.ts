@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { requireAdmin } from '../middleware/admin.js';
+import { validateBody, validateQuery } from '../middleware/validation.js';
+import { FxConvertQuerySchema, FxRatesUpdateSchema } from '../types/index.js';
+import {
+  getFxRates,
+  convertCurrency,
+  updateFxRates,
+  reloadFxRates,
+} from '../controllers/fxController.js';
+
+const router = Router();
+
+router.get('/rates', authenticate, getFxRates);
+router.get('/convert', authenticate, validateQuery(FxConvertQuerySchema), convertCurrency);
+
+// Operator endpoints for keeping the rate table current
+router.put('/rates', requireAdmin, validateBody(FxRatesUpdateSchema), updateFxRates);
+router.post('/rates/reload', requireAdmin, reloadFxRates);
+
+export default router;
@@ -1,7 +1,14 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { requireStepUp } from '../middleware/stepUp.js';
 import { validateBody, validateParams } from '../middleware/validation.js';
-import { GoalCreateSchema, GoalUpdateSchema } from '../types/index.js';
+import {
+  GoalCreateSchema,
+  GoalInvitationCreateSchema,
+  GoalMemberUpdateSchema,
+  GoalUpdateSchema,
+} from '../types/index.js';
 import { z } from 'zod';
 import {
   createGoal,
@@ -10,8 +17,21 @@ import {
   updateGoal,
   deleteGoal,
   addToGoal,
+  withdrawFromGoal,
+  makePaymentFromGoal,
+  getGoalContributions,
   getGoalProgress,
 } from '../controllers/goalsController.js';
+import {
+  createGoalInvitation,
+  cancelGoalInvitation,
+  getGoalInvitations,
+  acceptGoalInvitation,
+  declineGoalInvitation,
+  updateGoalMember,
+  removeGoalMember,
+  leaveGoal,
+} from '../controllers/goalMembersController.js';
 
 const router = Router();
 
@@ -19,6 +39,20 @@ const GoalIdSchema = z.object({
   id: z.string().cuid(),
 });
 
+const GoalInvitationIdSchema = z.object({
+  id: z.string().cuid(),
+  invitationId: z.string().cuid(),
+});
+
+const GoalMemberIdSchema = z.object({
+  id: z.string().cuid(),
+  userId: z.string().cuid(),
+});
+
+const InvitationIdSchema = z.object({
+  invitationId: z.string().cuid(),
+});
+
 // All routes require authentication
 router.use(authenticate);
 
@@ -26,6 +60,9 @@ router.use(authenticate);
 router.post('/', validateBody(GoalCreateSchema), createGoal);
 router.get('/', getGoals);
 router.get('/progress', getGoalProgress);
+router.get('/invitations', getGoalInvitations);
+router.post('/invitations/:invitationId/accept', validateParams(InvitationIdSchema), acceptGoalInvitation);
+router.post('/invitations/:invitationId/decline', validateParams(InvitationIdSchema), declineGoalInvitation);
 router.get('/:id', validateParams(GoalIdSchema), getGoal);
 router.put('/:id', validateParams(GoalIdSchema), validateBody(GoalUpdateSchema), updateGoal);
 router.delete('/:id', validateParams(GoalIdSchema), deleteGoal);
@@ -33,6 +70,26 @@ router.delete('/:id', validateParams(GoalIdSchema), deleteGoal);
 // Goal-specific operations
 router.post('/:id/add', validateParams(GoalIdSchema), validateBody(z.object({
   amount: z.number().positive(),
-})), addToGoal);
+  source: z.enum(['WALLET', 'EXTERNAL']).default('WALLET'),
+})), idempotent, addToGoal);
+
+router.post('/:id/withdraw', validateParams(GoalIdSchema), validateBody(z.object({
+  amount: z.number().positive(),
+})), requireStepUp, withdrawFromGoal);
+
+router.post('/:id/payment', validateParams(GoalIdSchema), validateBody(z.object({
+  amount: z.number().positive(),
+  description: z.string().optional(),
+  category: z.string().min(1).optional(),
+})), requireStepUp, makePaymentFromGoal);
+
+router.get('/:id/contributions', validateParams(GoalIdSchema), getGoalContributions);
+
+// Sharing: the owner invites and manages members; members can leave, taking their share
+router.post('/:id/invitations', validateParams(GoalIdSchema), validateBody(GoalInvitationCreateSchema), createGoalInvitation);
+router.delete('/:id/invitations/:invitationId', validateParams(GoalInvitationIdSchema), cancelGoalInvitation);
+router.put('/:id/members/:userId', validateParams(GoalMemberIdSchema), validateBody(GoalMemberUpdateSchema), updateGoalMember);
+router.delete('/:id/members/:userId', validateParams(GoalMemberIdSchema), removeGoalMember);
+router.post('/:id/leave', validateParams(GoalIdSchema), leaveGoal);
 
 export default router;
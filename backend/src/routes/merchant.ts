@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { requireMerchant } from '../middleware/merchant.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { requireStepUp } from '../middleware/stepUp.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
+import {
+  InvoiceCreateSchema,
+  InvoiceQuerySchema,
+  InvoiceStatusQuerySchema,
+  SettlementQuerySchema,
+} from '../types/index.js';
+import { z } from 'zod';
+import {
+  createInvoice,
+  getInvoices,
+  getInvoice,
+  getInvoiceStatus,
+  refundInvoice,
+  getSettlementReport,
+} from '../controllers/merchantController.js';
+
+const router = Router();
+
+const InvoiceIdSchema = z.object({
+  id: z.string().cuid(),
+});
+
+router.use(authenticate, requireMerchant);
+
+router.post('/invoices', validateBody(InvoiceCreateSchema), createInvoice);
+router.get('/invoices', validateQuery(InvoiceQuerySchema), getInvoices);
+router.get('/invoices/:id', validateParams(InvoiceIdSchema), getInvoice);
+router.get('/invoices/:id/status', validateParams(InvoiceIdSchema), validateQuery(InvoiceStatusQuerySchema), getInvoiceStatus);
+router.post('/invoices/:id/refund', validateParams(InvoiceIdSchema), requireStepUp, idempotent, refundInvoice);
+router.get('/settlements', validateQuery(SettlementQuerySchema), getSettlementReport);
+
+export default router;
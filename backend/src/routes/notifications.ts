@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { validateParams } from '../middleware/validation.js';
+import { z } from 'zod';
+import {
+  getNotifications,
+  markNotificationAsRead,
+  markAllNotificationsAsRead,
+} from '../controllers/notificationsController.js';
+
+const router = Router();
+
+const NotificationIdSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', getNotifications);
+router.put('/mark-all-read', markAllNotificationsAsRead);
+router.put('/:id/read', validateParams(NotificationIdSchema), markNotificationAsRead);
+
+export default router;
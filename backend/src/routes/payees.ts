@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { authenticate, denyChildScope } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
+import { PayeeCreateSchema, PayeeQuerySchema, PayeeUpdateSchema } from '../types/index.js';
+import { z } from 'zod';
+import {
+  createPayee,
+  getPayees,
+  updatePayee,
+  deletePayee,
+} from '../controllers/payeesController.js';
+
+const router = Router();
+
+const PayeeIdSchema = z.object({
+  id: z.string().cuid(),
+});
+
+router.use(authenticate);
+
+router.get('/', validateQuery(PayeeQuerySchema), getPayees);
+// A child's payees are added by their parent
+router.post('/', denyChildScope, validateBody(PayeeCreateSchema), createPayee);
+router.put('/:id', validateParams(PayeeIdSchema), validateBody(PayeeUpdateSchema), updatePayee);
+router.delete('/:id', validateParams(PayeeIdSchema), deletePayee);
+
+export default router;
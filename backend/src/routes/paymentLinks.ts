@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
+import { PaymentLinkCreateSchema, PaymentLinkQuerySchema } from '../types/index.js';
+import { z } from 'zod';
+import {
+  createPaymentLink,
+  getPaymentLinks,
+  getPaymentLink,
+  disablePaymentLink,
+  getPaymentLinkPreview,
+} from '../controllers/paymentLinksController.js';
+
+const router = Router();
+
+const PaymentLinkIdSchema = z.object({
+  id: z.string().cuid(),
+});
+
+const PaymentLinkTokenSchema = z.object({
+  token: z.string().regex(/^[\w-]{1,64}$/),
+});
+
+// Shown to whoever opens the link, before they log in
+router.get('/preview/:token', validateParams(PaymentLinkTokenSchema), getPaymentLinkPreview);
+
+router.use(authenticate);
+
+router.post('/', validateBody(PaymentLinkCreateSchema), createPaymentLink);
+router.get('/', validateQuery(PaymentLinkQuerySchema), getPaymentLinks);
+router.get('/:id', validateParams(PaymentLinkIdSchema), getPaymentLink);
+router.post('/:id/disable', validateParams(PaymentLinkIdSchema), disablePaymentLink);
+
+export default router;
@@ -1,15 +1,177 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth.js';
-import { deposit, withdraw, transfer, getWallet, getTransactions } from '../controllers/paymentsController.js';
+import { authenticate, denyChildScope } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { requireStepUp, requireStepUpAbove, StepUpAmount } from '../middleware/stepUp.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
+import {
+  InvoicePaySchema,
+  PaymentRequestCreateSchema,
+  PaymentRequestQuerySchema,
+  QrPaymentCreateSchema,
+  QrPaymentQuerySchema,
+  ReceiveQrQuerySchema,
+  ReceiveQrResolveSchema,
+  ReversalRequestCreateSchema,
+  ReversalRequestQuerySchema,
+  ScheduledTransferCreateSchema,
+  ScheduledTransferUpdateSchema,
+  WalletOpenSchema,
+} from '../types/index.js';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { normalizeCurrency } from '../services/fxService.js';
+import { invoiceTokenFromQr } from '../services/invoiceService.js';
+import { decodeReceiveQr } from '../services/receiveQrService.js';
+import { getHomeCurrency } from '../services/walletService.js';
+import {
+  deposit,
+  withdraw,
+  transfer,
+  getWallet,
+  getWallets,
+  openWallet,
+  getTransactions,
+} from '../controllers/paymentsController.js';
+import { getReceiveQr, resolveReceiveQr } from '../controllers/receiveQrController.js';
+import { payInvoice } from '../controllers/merchantController.js';
+import { processQrPayment, getQrPayments } from '../controllers/qrPaymentsController.js';
+import {
+  createPaymentRequest,
+  getIncomingPaymentRequests,
+  getOutgoingPaymentRequests,
+  acceptPaymentRequest,
+  declinePaymentRequest,
+  cancelPaymentRequest,
+} from '../controllers/paymentRequestsController.js';
+import {
+  createScheduledTransfer,
+  getScheduledTransfers,
+  getScheduledTransfer,
+  updateScheduledTransfer,
+  cancelScheduledTransfer,
+} from '../controllers/scheduledTransfersController.js';
+import {
+  requestReversal,
+  getIncomingReversalRequests,
+  getOutgoingReversalRequests,
+  approveReversal,
+  rejectReversal,
+  cancelReversal,
+} from '../controllers/reversalsController.js';
+import {
+  getTransferLimits,
+  confirmHeldTransfer,
+  cancelHeldTransfer,
+} from '../controllers/riskController.js';
 
 const router = Router();
 
+const IdParamSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// What a transfer or new schedule sends, in the body's currency or the sender's home currency.
+// A scanned payment code or a payment link sets both; codes that don't verify and unknown
+// links are left to the handler to reject
+const bodyAmount: StepUpAmount = async (req) => {
+  const scanned = req.body.qrPayload ? decodeReceiveQr(String(req.body.qrPayload)) : null;
+  if (scanned && !scanned.ok) return null;
+  const link = req.body.linkToken
+    ? await prisma.paymentLink.findUnique({
+      where: { token: String(req.body.linkToken) },
+      select: { amount: true, currency: true },
+    })
+    : null;
+  if (req.body.linkToken && !link) return null;
+  const code = scanned?.ok ? scanned.qr : link;
+
+  return {
+    amount: code?.amount ?? (Number(req.body.amount) || 0),
+    currency: code?.currency ?? (req.body.currency
+      ? normalizeCurrency(String(req.body.currency))
+      : await getHomeCurrency(prisma, (req as any).user.id)),
+  };
+};
+
+// What an edited schedule will send, in the schedule's own currency; edits that leave the
+// amount alone and unknown schedules are left to the handler
+const scheduleAmount: StepUpAmount = async (req) => {
+  const id = req.params.id;
+  if (!id || req.body.amount === undefined) return null;
+  const schedule = await prisma.scheduledTransfer.findFirst({
+    where: { id, userId: (req as any).user.id },
+    select: { currency: true },
+  });
+  return schedule && { amount: Number(req.body.amount) || 0, currency: schedule.currency };
+};
+
+// What paying a request sends; unknown requests are left to the handler to reject
+const requestAmount: StepUpAmount = async (req) => {
+  const id = req.params.id;
+  if (!id) return null;
+  return prisma.paymentRequest.findFirst({
+    where: { id, payerId: (req as any).user.id },
+    select: { amount: true, currency: true },
+  });
+};
+
+// What paying a scanned invoice sends; unknown invoices are left to the handler to reject
+const invoiceAmount: StepUpAmount = async (req) => {
+  const token = invoiceTokenFromQr(String(req.body.payload ?? ''));
+  if (!token) return null;
+  return prisma.invoice.findUnique({
+    where: { token },
+    select: { amount: true, currency: true },
+  });
+};
+
 router.use(authenticate);
 
 router.get('/wallet', getWallet);
+router.get('/wallets', getWallets);
+router.post('/wallets', validateBody(WalletOpenSchema), openWallet);
 router.get('/transactions', getTransactions);
-router.post('/deposit', deposit);
-router.post('/withdraw', withdraw);
-router.post('/transfer', transfer);
+router.post('/deposit', idempotent, deposit);
+router.post('/withdraw', requireStepUp, idempotent, withdraw);
+router.post('/transfer', requireStepUpAbove(bodyAmount), idempotent, transfer);
+router.get('/limits', getTransferLimits);
+
+// Receive-money QR codes
+router.get('/wallet/qr', validateQuery(ReceiveQrQuerySchema), getReceiveQr);
+router.post('/qr/resolve', validateBody(ReceiveQrResolveSchema), resolveReceiveQr);
+
+// Merchant invoices, paid by scanning their code
+router.post('/invoices/pay', validateBody(InvoicePaySchema), requireStepUpAbove(invoiceAmount), idempotent, payInvoice);
+
+// UPI and EMVCo codes, paid out of the app from the wallet or a goal
+router.post('/qr-payment', validateBody(QrPaymentCreateSchema), requireStepUp, idempotent, processQrPayment);
+router.get('/qr-payments', validateQuery(QrPaymentQuerySchema), getQrPayments);
+
+// Transfers held by the risk checks
+router.post('/transactions/:id/confirm', validateParams(IdParamSchema), requireStepUp, idempotent, confirmHeldTransfer);
+router.post('/transactions/:id/cancel', validateParams(IdParamSchema), cancelHeldTransfer);
+
+// Payment requests
+router.post('/requests', validateBody(PaymentRequestCreateSchema), createPaymentRequest);
+router.get('/requests/incoming', validateQuery(PaymentRequestQuerySchema), getIncomingPaymentRequests);
+router.get('/requests/outgoing', validateQuery(PaymentRequestQuerySchema), getOutgoingPaymentRequests);
+router.post('/requests/:id/accept', validateParams(IdParamSchema), requireStepUpAbove(requestAmount), idempotent, acceptPaymentRequest);
+router.post('/requests/:id/decline', validateParams(IdParamSchema), declinePaymentRequest);
+router.post('/requests/:id/cancel', validateParams(IdParamSchema), cancelPaymentRequest);
+
+// Scheduled transfers
+router.get('/scheduled', getScheduledTransfers);
+router.post('/scheduled', denyChildScope, validateBody(ScheduledTransferCreateSchema), requireStepUpAbove(bodyAmount), createScheduledTransfer);
+router.get('/scheduled/:id', validateParams(IdParamSchema), getScheduledTransfer);
+router.put('/scheduled/:id', denyChildScope, validateParams(IdParamSchema), validateBody(ScheduledTransferUpdateSchema), requireStepUpAbove(scheduleAmount), updateScheduledTransfer);
+router.delete('/scheduled/:id', validateParams(IdParamSchema), cancelScheduledTransfer);
+
+// Reversals
+router.post('/transactions/:id/reversal', validateParams(IdParamSchema), validateBody(ReversalRequestCreateSchema), requestReversal);
+router.get('/reversals/incoming', validateQuery(ReversalRequestQuerySchema), getIncomingReversalRequests);
+router.get('/reversals/outgoing', validateQuery(ReversalRequestQuerySchema), getOutgoingReversalRequests);
+router.post('/reversals/:id/approve', validateParams(IdParamSchema), idempotent, approveReversal);
+router.post('/reversals/:id/reject', validateParams(IdParamSchema), rejectReversal);
+router.post('/reversals/:id/cancel', validateParams(IdParamSchema), cancelReversal);
 
 export default router;
@@ -1,7 +1,13 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth.js';
-import { validateBody, validateParams } from '../middleware/validation.js';
-import { SavingCreateSchema } from '../types/index.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
+import {
+  SavingCreateSchema,
+  AutoSaveRuleCreateSchema,
+  AutoSaveRuleUpdateSchema,
+  AutoSaveRulePreviewQuerySchema,
+  RoundUpSettingsSchema,
+} from '../types/index.js';
 import { z } from 'zod';
 import {
   createSaving,
@@ -11,6 +17,22 @@ import {
   getSavingsSummary,
   getSavingsAnalytics,
 } from '../controllers/savingsController.js';
+import {
+  createAutoSaveRule,
+  getAutoSaveRules,
+  getAutoSaveRule,
+  updateAutoSaveRule,
+  deleteAutoSaveRule,
+  previewAutoSaveRuleDefinition,
+  previewAutoSaveRule,
+  getAutoSaveRuleRuns,
+} from '../controllers/autoSaveRulesController.js';
+import {
+  getRoundUpSettings,
+  updateRoundUpSettings,
+  getRoundUps,
+  sweepPendingRoundUps,
+} from '../controllers/roundUpsController.js';
 
 const router = Router();
 
@@ -21,6 +43,22 @@ const SavingIdSchema = z.object({
 // All routes require authentication
 router.use(authenticate);
 
+// Auto-save rules
+router.post('/rules', validateBody(AutoSaveRuleCreateSchema), createAutoSaveRule);
+router.get('/rules', getAutoSaveRules);
+router.post('/rules/preview', validateQuery(AutoSaveRulePreviewQuerySchema), validateBody(AutoSaveRuleCreateSchema), previewAutoSaveRuleDefinition);
+router.get('/rules/:id', validateParams(SavingIdSchema), getAutoSaveRule);
+router.put('/rules/:id', validateParams(SavingIdSchema), validateBody(AutoSaveRuleUpdateSchema), updateAutoSaveRule);
+router.delete('/rules/:id', validateParams(SavingIdSchema), deleteAutoSaveRule);
+router.get('/rules/:id/preview', validateParams(SavingIdSchema), validateQuery(AutoSaveRulePreviewQuerySchema), previewAutoSaveRule);
+router.get('/rules/:id/runs', validateParams(SavingIdSchema), getAutoSaveRuleRuns);
+
+// Round-ups
+router.get('/round-ups/settings', getRoundUpSettings);
+router.put('/round-ups/settings', validateBody(RoundUpSettingsSchema), updateRoundUpSettings);
+router.get('/round-ups', getRoundUps);
+router.post('/round-ups/sweep', sweepPendingRoundUps);
+
 // Saving operations
 router.post('/', validateBody(SavingCreateSchema), createSaving);
 router.get('/', getSavings);
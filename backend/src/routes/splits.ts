@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { requireStepUpAbove, StepUpAmount } from '../middleware/stepUp.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.js';
+import { BillSplitCreateSchema, BillSplitQuerySchema } from '../types/index.js';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import {
+  createBillSplit,
+  getBillSplits,
+  getBillSplit,
+  settleBillSplit,
+  cancelBillSplit,
+} from '../controllers/billSplitsController.js';
+
+const router = Router();
+
+const BillSplitIdSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// What paying the user's share sends
+const shareAmount: StepUpAmount = async (req) => {
+  const splitId = req.params.id;
+  if (!splitId) return null;
+  const share = await prisma.billSplitParticipant.findUnique({
+    where: { splitId_userId: { splitId, userId: (req as any).user.id } },
+    include: { split: { select: { currency: true } } },
+  });
+  return share && { amount: share.amount, currency: share.split.currency };
+};
+
+// All routes require authentication
+router.use(authenticate);
+
+router.post('/', validateBody(BillSplitCreateSchema), createBillSplit);
+router.get('/', validateQuery(BillSplitQuerySchema), getBillSplits);
+router.get('/:id', validateParams(BillSplitIdSchema), getBillSplit);
+router.post('/:id/settle', validateParams(BillSplitIdSchema), requireStepUpAbove(shareAmount), idempotent, settleBillSplit);
+router.delete('/:id', validateParams(BillSplitIdSchema), cancelBillSplit);
+
+export default router;
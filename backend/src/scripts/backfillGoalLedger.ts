@@ -0,0 +1,19 @@
+import { prisma } from '../config/database.js';
+import { backfillGoalLedger } from '../services/goalLedgerService.js';
+
+async function main() {
+  console.log('📒 Backfilling goal contribution ledger...');
+
+  const adjusted = await backfillGoalLedger();
+
+  console.log(`✅ Added opening balances for ${adjusted} goal(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Backfill failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
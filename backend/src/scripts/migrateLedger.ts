@@ -0,0 +1,19 @@
+import { prisma } from '../config/database.js';
+import { migrateToLedger } from '../services/ledgerService.js';
+
+async function main() {
+  console.log('📒 Opening ledger accounts for existing wallets and goals...');
+
+  const opened = await migrateToLedger();
+
+  console.log(`✅ Opened ${opened.wallets} wallet account(s) and ${opened.goals} goal account(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Ledger migration failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
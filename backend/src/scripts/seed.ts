@@ -22,7 +22,7 @@ async function main() {
   });
 
   // Ensure wallet exists
-  let wallet = await prisma.wallet.findUnique({ where: { userId: user.id } });
+  let wallet = await prisma.wallet.findUnique({ where: { userId_currency: { userId: user.id, currency: 'USD' } } });
   if (!wallet) {
     wallet = await prisma.wallet.create({ data: { userId: user.id, balance: 1500, currency: 'USD' } });
   }
@@ -44,7 +44,7 @@ async function main() {
 
   console.log('✅ Alice user created/updated:', { id: other.id, email: other.email, phone: other.phone });
 
-  let otherWallet = await prisma.wallet.findUnique({ where: { userId: other.id } });
+  let otherWallet = await prisma.wallet.findUnique({ where: { userId_currency: { userId: other.id, currency: 'USD' } } });
   if (!otherWallet) {
     otherWallet = await prisma.wallet.create({ data: { userId: other.id, balance: 500, currency: 'USD' } });
   }
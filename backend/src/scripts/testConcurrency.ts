@@ -0,0 +1,178 @@
+import dotenv from 'dotenv';
+import { prisma } from '../config/database.js';
+import { verifyLedger } from '../services/ledgerService.js';
+
+dotenv.config();
+
+// Fires bursts of parallel requests at a running API and checks that wallet and
+// goal balances come out exactly as if the successful requests had run one
+// after another. Every burst asks for more than the balance can cover, so
+// lost updates or overdrafts show up as a wrong final balance.
+//
+//   npm run dev                  # in another terminal
+//   npm run test:concurrency
+//
+// Keep STRESS_REQUESTS small enough that the whole run (about 7x that many
+// requests) stays under the API's rate limit.
+
+const API_URL = process.env.API_URL || `http://localhost:${process.env.PORT || 3001}`;
+const PARALLEL = parseInt(process.env.STRESS_REQUESTS || '10');
+
+let failures = 0;
+
+function check(label: string, actual: number, expected: number) {
+  if (Math.abs(actual - expected) < 0.005) {
+    console.log(`  ✅ ${label}: ${actual}`);
+  } else {
+    failures++;
+    console.error(`  ❌ ${label}: expected ${expected}, got ${actual}`);
+  }
+}
+
+async function api(token: string | null, method: string, path: string, body?: unknown) {
+  const response = await fetch(`${API_URL}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+  return { status: response.status, body: await response.json() as any };
+}
+
+// Run `count` copies of a request at once and count the 2xx responses
+async function burst(count: number, request: (i: number) => Promise<{ status: number }>) {
+  const results = await Promise.all(Array.from({ length: count }, (_, i) => request(i)));
+  const unexpected = results.filter(r => r.status >= 500);
+  if (unexpected.length > 0) {
+    failures++;
+    console.error(`  ❌ ${unexpected.length} request(s) failed with a server error`);
+  }
+  return results.filter(r => r.status >= 200 && r.status < 300).length;
+}
+
+async function createUser(label: string) {
+  const stamp = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+  const { body } = await api(null, 'POST', '/api/auth/register', {
+    email: `stress-${label}-${stamp}@example.com`,
+    password: 'password123',
+    firstName: 'Stress',
+    lastName: label,
+  });
+  if (!body.success) throw new Error(`Could not register test user: ${body.error}`);
+
+  // Transfers look the receiver up by phone
+  const phone = `+1${stamp.slice(-10)}`;
+  await prisma.user.update({ where: { id: body.data.user.id }, data: { phone } });
+
+  return { id: body.data.user.id as string, token: body.data.token as string, phone };
+}
+
+// New users hold USD by default
+const walletBalance = async (userId: string) =>
+  (await prisma.wallet.findUniqueOrThrow({ where: { userId_currency: { userId, currency: 'USD' } } })).balance;
+
+async function main() {
+  console.log(`🧪 Concurrency test against ${API_URL} with ${PARALLEL} parallel requests per burst`);
+
+  const alice = await createUser('alice');
+  const bob = await createUser('bob');
+
+  console.log('👛 Parallel first wallet loads');
+  await burst(PARALLEL, () => api(alice.token, 'GET', '/api/payments/wallet'));
+  check('Wallet funded once', await walletBalance(alice.id), 1000);
+
+  console.log('💵 Parallel deposits');
+  const deposited = await burst(PARALLEL, () =>
+    api(alice.token, 'POST', '/api/payments/deposit', { amount: 10 })
+  );
+  check('Deposits accepted', deposited, PARALLEL);
+  check('Balance after deposits', await walletBalance(alice.id), 1000 + 10 * PARALLEL);
+
+  console.log('🏧 Parallel withdrawals asking for more than the balance');
+  let start = await walletBalance(alice.id);
+  let amount = Math.ceil((start * 2) / PARALLEL);
+  const withdrawn = await burst(PARALLEL, () =>
+    api(alice.token, 'POST', '/api/payments/withdraw', { amount })
+  );
+  check('Withdrawals accepted', withdrawn, Math.min(PARALLEL, Math.floor(start / amount)));
+  check('Balance after withdrawals', await walletBalance(alice.id), start - withdrawn * amount);
+
+  console.log('🎯 Parallel wallet-funded goal contributions');
+  await api(alice.token, 'POST', '/api/payments/deposit', { amount: 500 });
+  const { body: goalBody } = await api(alice.token, 'POST', '/api/goals', {
+    name: 'Stress test goal',
+    target: 100000,
+    targetDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+  });
+  const goalId = goalBody.data.id as string;
+
+  start = await walletBalance(alice.id);
+  amount = Math.ceil((start * 2) / PARALLEL);
+  const contributed = await burst(PARALLEL, () =>
+    api(alice.token, 'POST', `/api/goals/${goalId}/add`, { amount })
+  );
+  const saved = contributed * amount;
+  check('Contributions accepted', contributed, Math.min(PARALLEL, Math.floor(start / amount)));
+  check('Wallet after contributions', await walletBalance(alice.id), start - saved);
+  check('Goal after contributions', (await prisma.goal.findUniqueOrThrow({ where: { id: goalId } })).saved, saved);
+
+  console.log('↩️  Parallel goal withdrawals asking for more than the goal holds');
+  start = await walletBalance(alice.id);
+  amount = Math.ceil((saved * 2) / PARALLEL);
+  const taken = await burst(PARALLEL, () =>
+    api(alice.token, 'POST', `/api/goals/${goalId}/withdraw`, { amount })
+  );
+  check('Goal withdrawals accepted', taken, Math.min(PARALLEL, Math.floor(saved / amount)));
+  check('Goal after withdrawals', (await prisma.goal.findUniqueOrThrow({ where: { id: goalId } })).saved, saved - taken * amount);
+  check('Wallet after goal withdrawals', await walletBalance(alice.id), start + taken * amount);
+
+  console.log('🔁 Parallel transfers in both directions');
+  await api(bob.token, 'GET', '/api/payments/wallet');
+  const aliceStart = await walletBalance(alice.id);
+  const bobStart = await walletBalance(bob.id);
+  amount = Math.ceil(Math.max(aliceStart, bobStart) / (PARALLEL / 4));
+
+  let aliceSent = 0;
+  let bobSent = 0;
+  await burst(PARALLEL, async (i) => {
+    const fromAlice = i % 2 === 0;
+    const result = fromAlice
+      ? await api(alice.token, 'POST', '/api/payments/transfer', { amount, receiverPhone: bob.phone })
+      : await api(bob.token, 'POST', '/api/payments/transfer', { amount, receiverPhone: alice.phone });
+    if (result.status === 200) {
+      if (fromAlice) aliceSent++;
+      else bobSent++;
+    }
+    return result;
+  });
+
+  const aliceEnd = await walletBalance(alice.id);
+  const bobEnd = await walletBalance(bob.id);
+  check('Money conserved across both wallets', aliceEnd + bobEnd, aliceStart + bobStart);
+  check('Alice after transfers', aliceEnd, aliceStart + (bobSent - aliceSent) * amount);
+  check('Bob after transfers', bobEnd, bobStart + (aliceSent - bobSent) * amount);
+
+  console.log('📒 Ledger');
+  const issues = await verifyLedger();
+  check('Unbalanced journal entries', issues.unbalancedEntries.length, 0);
+  check('Stale account balances', issues.staleAccounts.length, 0);
+  check('Wallet/goal balances out of step with the ledger', issues.mirrorMismatches.length, 0);
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} check(s) failed`);
+    process.exitCode = 1;
+  } else {
+    console.log('✅ All balances consistent');
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Concurrency test failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,45 @@
+import { prisma } from '../config/database.js';
+import { verifyLedger } from '../services/ledgerService.js';
+
+async function main() {
+  console.log('🔎 Verifying ledger...');
+
+  const issues = await verifyLedger();
+  const problems =
+    issues.unbalancedEntries.length +
+    issues.staleAccounts.length +
+    issues.mirrorMismatches.length;
+
+  if (issues.unmigrated.wallets > 0 || issues.unmigrated.goals > 0) {
+    console.log(
+      `ℹ️  ${issues.unmigrated.wallets} wallet(s) and ${issues.unmigrated.goals} goal(s) have no ledger account yet; run npm run ledger:migrate`
+    );
+  }
+
+  if (problems === 0) {
+    console.log('✅ Ledger is balanced');
+    return;
+  }
+
+  for (const entry of issues.unbalancedEntries) {
+    console.error(`❌ Journal entry ${entry.journalEntryId} is off by ${entry.sum}`);
+  }
+  for (const account of issues.staleAccounts) {
+    console.error(`❌ Account ${account.accountId} caches ${account.cached} but its postings sum to ${account.postings}`);
+  }
+  for (const mismatch of issues.mirrorMismatches) {
+    const owner = mismatch.walletId ? `wallet ${mismatch.walletId}` : `goal ${mismatch.goalId}`;
+    console.error(`❌ ${owner} shows ${mismatch.mirror} but its ledger account holds ${mismatch.ledger}`);
+  }
+
+  process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Ledger verification failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,280 @@
+import { AutoSaveRule, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { addGoalLedgerEntry } from './goalLedgerService.js';
+import { findHomeWallet, findWallet } from './walletService.js';
+import {
+  RecurrenceSchedule,
+  firstOccurrenceIndexFrom,
+  isWithinSchedule,
+  nextOccurrence,
+  occurrenceAt,
+} from '../utils/recurrence.js';
+
+// Rules picked up per scheduler tick
+const BATCH_SIZE = 100;
+
+// Missed runs executed per rule per tick (e.g. after long downtime)
+const MAX_CATCH_UP = 31;
+
+// ================= TYPES =================
+export type AutoSaveRuleDefinition = Pick<
+  AutoSaveRule,
+  'trigger' | 'amountType' | 'amount' | 'frequency' | 'interval' | 'startDate' | 'endDate'
+> & Partial<Pick<AutoSaveRule, 'nextRunAt' | 'occurrenceIndex' | 'goalId'>>;
+
+interface RunContext {
+  // Occurrence being executed, for scheduled rules
+  scheduledFor?: Date;
+  // Deposit that triggered the run, for deposit rules
+  triggerTransactionId?: string;
+  // Amount percentages are taken of: the deposit, or the wallet balance for scheduled rules
+  baseAmount: number;
+}
+
+// ================= HELPERS =================
+export const ruleSchedule = (rule: AutoSaveRuleDefinition): RecurrenceSchedule | null => {
+  if (rule.trigger !== 'SCHEDULE' || !rule.frequency || !rule.startDate) return null;
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    startDate: rule.startDate,
+    endDate: rule.endDate,
+  };
+};
+
+export const ruleAmount = (rule: Pick<AutoSaveRule, 'amountType' | 'amount'>, baseAmount: number) => {
+  if (rule.amountType === 'FIXED') return rule.amount;
+  return Math.floor(baseAmount * rule.amount) / 100;
+};
+
+// Rules move money out of the wallet in their goal's currency
+const findRuleWallet = async (client: Prisma.TransactionClient, userId: string, goalId: string) => {
+  const goal = await client.goal.findUnique({ where: { id: goalId }, select: { currency: true } });
+  return goal ? findWallet(client, userId, goal.currency) : null;
+};
+
+// ================= EXECUTION =================
+
+/**
+ * Execute one run of a rule: debit the wallet, credit the goal and record an
+ * AUTOMATIC saving, all in one transaction. A run that can't move money
+ * (insufficient funds, inactive goal) is still recorded as SKIPPED so it shows
+ * in the rule's history.
+ *
+ * Scheduled runs claim the rule by advancing `nextRunAt` conditionally, so an
+ * occurrence runs at most once across overlapping ticks and restarts. Returns
+ * null when the occurrence was already claimed.
+ */
+const executeRule = async (rule: AutoSaveRule, context: RunContext) => {
+  const scheduledFor = context.scheduledFor ?? null;
+  const triggerTransactionId = context.triggerTransactionId ?? null;
+
+  return prisma.$transaction(async (tx) => {
+    const schedule = ruleSchedule(rule);
+
+    if (scheduledFor && schedule) {
+      const claimed = await tx.autoSaveRule.updateMany({
+        where: { id: rule.id, nextRunAt: scheduledFor, isActive: true },
+        data: {
+          ...nextOccurrence(schedule, rule.occurrenceIndex),
+          lastRunAt: scheduledFor,
+        },
+      });
+
+      if (claimed.count === 0) return null;
+    }
+
+    const amount = ruleAmount(rule, context.baseAmount);
+    const baseRun = { ruleId: rule.id, amount, scheduledFor, triggerTransactionId };
+    const skip = (reason: string) =>
+      tx.autoSaveRun.create({ data: { ...baseRun, status: 'SKIPPED', reason } });
+
+    if (amount <= 0) return skip('Nothing to save');
+
+    const goal = await tx.goal.findFirst({
+      where: { id: rule.goalId, userId: rule.userId, isActive: true },
+    });
+    if (!goal) return skip('Goal is no longer active');
+
+    const wallet = await findWallet(tx, rule.userId, goal.currency);
+    if (!wallet) return skip(`No ${goal.currency} wallet`);
+
+    // The wallet is debited conditionally, so concurrent spending can't overdraw it
+    const recorded = await addGoalLedgerEntry(tx, {
+      amount,
+      type: 'AUTOMATIC',
+      date: scheduledFor ?? new Date(),
+      userId: rule.userId,
+      goalId: goal.id,
+      autoSaveRuleId: rule.id,
+    }, {
+      counterparty: { type: 'WALLET', walletId: wallet.id },
+      transaction: {
+        amount,
+        currency: wallet.currency,
+        type: 'GOAL_TRANSFER',
+        status: 'COMPLETED',
+        description: `Auto-save: ${rule.name} → ${goal.name}`,
+        senderWalletId: wallet.id,
+        senderUserId: rule.userId,
+      },
+    });
+    if (!recorded?.transaction) return skip('Insufficient funds');
+
+    return tx.autoSaveRun.create({
+      data: {
+        ...baseRun,
+        status: 'SUCCEEDED',
+        transactionId: recorded.transaction.id,
+        savingId: recorded.saving.id,
+      },
+    });
+  });
+};
+
+/**
+ * Run every due occurrence of active scheduled rules.
+ * Returns the number of runs recorded.
+ */
+export const processDueAutoSaveRules = async (now: Date = new Date()) => {
+  const due = await prisma.autoSaveRule.findMany({
+    where: { trigger: 'SCHEDULE', isActive: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let processed = 0;
+
+  for (const rule of due) {
+    let current: AutoSaveRule | null = rule;
+    let runs = 0;
+
+    while (
+      current?.nextRunAt &&
+      current.isActive &&
+      current.nextRunAt <= now &&
+      runs < MAX_CATCH_UP
+    ) {
+      try {
+        const wallet = await findRuleWallet(prisma, current.userId, current.goalId);
+        const run = await executeRule(current, {
+          scheduledFor: current.nextRunAt,
+          baseAmount: wallet?.balance ?? 0,
+        });
+        if (!run) break;
+
+        processed++;
+        runs++;
+        current = await prisma.autoSaveRule.findUnique({ where: { id: rule.id } });
+      } catch (error) {
+        console.error(`Auto-save rule ${rule.id} failed:`, error);
+        break;
+      }
+    }
+  }
+
+  return processed;
+};
+
+/**
+ * Apply the user's deposit-triggered rules to a completed deposit.
+ * Failures are logged and never fail the deposit itself.
+ */
+export const applyDepositRules = async (
+  userId: string,
+  deposit: { id: string; amount: number; currency: string }
+) => {
+  // Percentages of a deposit only make sense for goals saving in its currency
+  const rules = await prisma.autoSaveRule.findMany({
+    where: { userId, trigger: 'DEPOSIT', isActive: true, goal: { currency: deposit.currency } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const runs = [];
+
+  for (const rule of rules) {
+    try {
+      const existing = await prisma.autoSaveRun.findUnique({
+        where: { ruleId_triggerTransactionId: { ruleId: rule.id, triggerTransactionId: deposit.id } },
+      });
+      if (existing) continue;
+
+      const run = await executeRule(rule, {
+        triggerTransactionId: deposit.id,
+        baseAmount: deposit.amount,
+      });
+      if (run) runs.push(run);
+    } catch (error) {
+      console.error(`Auto-save rule ${rule.id} failed for deposit ${deposit.id}:`, error);
+    }
+  }
+
+  return runs;
+};
+
+// ================= PREVIEW =================
+
+/**
+ * Dry run of a rule against the current wallet balance without moving money.
+ *
+ * Scheduled rules project their next `count` runs; deposit rules show what a
+ * deposit of `depositAmount` would trigger. Projections assume no other
+ * deposits or spending in between.
+ */
+export const previewRule = async (
+  userId: string,
+  rule: AutoSaveRuleDefinition,
+  options: { count?: number; depositAmount?: number } = {}
+) => {
+  const { count = 5, depositAmount = 0 } = options;
+  const wallet = rule.goalId
+    ? await findRuleWallet(prisma, userId, rule.goalId)
+    : await findHomeWallet(prisma, userId);
+  const walletBalance = wallet?.balance ?? 0;
+
+  let balance = walletBalance;
+  const runs: Array<{
+    scheduledFor: Date | null;
+    amount: number;
+    status: 'SUCCEEDED' | 'SKIPPED';
+    reason?: string;
+    walletBalanceAfter: number;
+  }> = [];
+
+  const project = (scheduledFor: Date | null, amount: number) => {
+    if (amount <= 0) {
+      runs.push({ scheduledFor, amount, status: 'SKIPPED', reason: 'Nothing to save', walletBalanceAfter: balance });
+    } else if (amount > balance) {
+      runs.push({ scheduledFor, amount, status: 'SKIPPED', reason: 'Insufficient funds', walletBalanceAfter: balance });
+    } else {
+      balance -= amount;
+      runs.push({ scheduledFor, amount, status: 'SUCCEEDED', walletBalanceAfter: balance });
+    }
+  };
+
+  if (rule.trigger === 'DEPOSIT') {
+    balance += depositAmount;
+    project(null, ruleAmount(rule, depositAmount));
+  } else {
+    const schedule = ruleSchedule(rule);
+    if (schedule) {
+      const startIndex = rule.nextRunAt && rule.occurrenceIndex !== undefined
+        ? rule.occurrenceIndex
+        : firstOccurrenceIndexFrom(schedule, new Date());
+
+      for (let i = 0; i < count; i++) {
+        const scheduledFor = occurrenceAt(schedule, startIndex + i);
+        if (!isWithinSchedule(schedule, scheduledFor)) break;
+        project(scheduledFor, ruleAmount(rule, balance));
+      }
+    }
+  }
+
+  return {
+    walletBalance,
+    totalSaved: runs
+      .filter(run => run.status === 'SUCCEEDED')
+      .reduce((sum, run) => sum + run.amount, 0),
+    runs,
+  };
+};
@@ -0,0 +1,264 @@
+import { BillSplit, BillSplitMethod, BillSplitParticipant, Prisma, Transaction, User } from '@prisma/client';
+import { prisma, serializableTransaction } from '../config/database.js';
+import { convertWithTable, loadRateTable } from './fxService.js';
+import { formatAmount, notify } from './notificationService.js';
+import { findUserByPhone } from './transferService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+export interface BillSplitInput {
+  description: string;
+  category: string;
+  amount: number;
+  currency: string;
+  date: Date;
+  method: BillSplitMethod;
+  creatorShares: number;
+  participants: { phone?: string; email?: string; shares?: number; amount?: number }[];
+}
+
+export type BillSplitOutcome = { ok: true; split: BillSplit } | Rejected;
+
+// ================= CONFIG =================
+// How long participants have to pay their share before the request expires
+export const BILL_SPLIT_REQUEST_DAYS = parseInt(process.env.BILL_SPLIT_REQUEST_DAYS || '30');
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Participants, with the state of the request collecting each share
+export const billSplitDetails = {
+  creator: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+  participants: {
+    include: {
+      user: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+      paymentRequest: { select: { id: true, status: true, expiresAt: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} as const;
+
+// ================= SHARES =================
+
+/**
+ * Work out each participant's share in cents, and the creator's part as what
+ * is left. EQUAL splits between the participants and the creator; SHARES
+ * weighs everyone including the creator (creatorShares); EXACT takes each
+ * participant's amount as given. Cents that don't divide evenly go to the
+ * creator, or to the first participants when the creator has no part.
+ */
+const divideBill = (input: BillSplitInput): { creator: number; participants: number[] } | Rejected => {
+  const total = Math.round(input.amount * 100);
+  const count = input.participants.length;
+  let participants: number[];
+
+  if (input.method === 'EXACT') {
+    participants = input.participants.map(p => Math.round((p.amount ?? 0) * 100));
+  } else {
+    const weights = input.method === 'EQUAL'
+      ? input.participants.map(() => 1)
+      : input.participants.map(p => p.shares ?? 0);
+    const creatorWeight = input.method === 'EQUAL' ? 1 : input.creatorShares;
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, creatorWeight);
+
+    participants = weights.map(weight => Math.floor((total * weight) / totalWeight));
+    if (creatorWeight === 0) {
+      let left = total - participants.reduce((sum, cents) => sum + cents, 0);
+      for (let i = 0; left > 0; i = (i + 1) % count, left--) participants[i]! += 1;
+    }
+  }
+
+  const creator = total - participants.reduce((sum, cents) => sum + cents, 0);
+  if (creator < 0) {
+    return { ok: false, error: 'Shares add up to more than the bill' };
+  }
+  if (participants.some(cents => cents <= 0)) {
+    return { ok: false, error: 'Every participant must owe something' };
+  }
+
+  return { creator, participants };
+};
+
+// ================= SPLITTING =================
+
+/**
+ * Record a bill the user paid and ask each participant for their share with a
+ * payment request. The creator's own part is recorded as their expense right
+ * away; participants' shares become their expenses as they pay.
+ */
+export const createBillSplit = async (creatorId: string, input: BillSplitInput): Promise<BillSplitOutcome> => {
+  const participants: User[] = [];
+  for (const entry of input.participants) {
+    const user = entry.phone
+      ? await findUserByPhone(prisma, entry.phone)
+      : await prisma.user.findUnique({ where: { email: entry.email ?? '' } });
+
+    if (!user) {
+      return { ok: false, error: `No user found for ${entry.phone ?? entry.email}` };
+    }
+    if (user.id === creatorId) {
+      return { ok: false, error: 'You are already part of the split' };
+    }
+    if (participants.some(p => p.id === user.id)) {
+      return { ok: false, error: `${entry.phone ?? entry.email} is listed more than once` };
+    }
+    participants.push(user);
+  }
+
+  const shares = divideBill(input);
+  if ('ok' in shares) return shares;
+
+  const split = await prisma.$transaction(async (tx) => {
+    const creator = await tx.user.findUniqueOrThrow({ where: { id: creatorId } });
+    const table = await loadRateTable(tx);
+    const creatorShare = shares.creator / 100;
+
+    const expense = creatorShare > 0
+      ? await tx.expense.create({
+        data: {
+          description: input.description,
+          amount: convertWithTable(table, creatorShare, input.currency, creator.homeCurrency),
+          category: input.category,
+          date: input.date,
+          userId: creatorId,
+        },
+      })
+      : null;
+
+    const created = await tx.billSplit.create({
+      data: {
+        description: input.description,
+        category: input.category,
+        totalAmount: input.amount,
+        currency: input.currency,
+        method: input.method,
+        creatorShare,
+        date: input.date,
+        creatorId,
+        expenseId: expense?.id ?? null,
+      },
+    });
+
+    const expiresAt = new Date(Date.now() + BILL_SPLIT_REQUEST_DAYS * DAY_MS);
+
+    for (const [i, user] of participants.entries()) {
+      const amount = shares.participants[i]! / 100;
+      const request = await tx.paymentRequest.create({
+        data: {
+          amount,
+          currency: input.currency,
+          note: `Split: ${input.description}`,
+          expiresAt,
+          requesterId: creatorId,
+          payerId: user.id,
+        },
+      });
+
+      await tx.billSplitParticipant.create({
+        data: {
+          amount,
+          shares: input.method === 'SHARES' ? input.participants[i]!.shares ?? null : null,
+          splitId: created.id,
+          userId: user.id,
+          paymentRequestId: request.id,
+        },
+      });
+    }
+
+    return created;
+  });
+
+  return { ok: true, split };
+};
+
+/**
+ * Settle the share a paid request was collecting, inside the caller's
+ * transaction: record it as the participant's expense, in their home
+ * currency, and let the creator know.
+ */
+export const settleBillSplitShare = async (
+  tx: Prisma.TransactionClient,
+  participant: BillSplitParticipant & { split: BillSplit },
+  transaction: Transaction
+) => {
+  const { split } = participant;
+  const payer = await tx.user.findUniqueOrThrow({ where: { id: participant.userId } });
+  const table = await loadRateTable(tx);
+
+  const expense = await tx.expense.create({
+    data: {
+      description: split.description,
+      amount: convertWithTable(table, participant.amount, split.currency, payer.homeCurrency),
+      category: split.category,
+      date: split.date,
+      userId: participant.userId,
+    },
+  });
+
+  const settled = await tx.billSplitParticipant.update({
+    where: { id: participant.id },
+    data: { settledAt: new Date(), expenseId: expense.id },
+  });
+
+  const name = [payer.firstName, payer.lastName].filter(Boolean).join(' ') || payer.email;
+  await notify(split.creatorId, {
+    type: 'BILL_SPLIT_SETTLED',
+    title: 'Split bill paid',
+    message: `${name} paid their share of ${split.description} (${formatAmount(participant.amount, split.currency)}).`,
+    data: { billSplitId: split.id, participantId: participant.id, transactionId: transaction.id },
+  }, tx);
+
+  return settled;
+};
+
+/**
+ * Stop collecting a split: requests still pending are cancelled, and every
+ * share left unpaid is added to the creator's expense, as they end up paying
+ * it. Returns null when the user created no such split.
+ */
+export const cancelBillSplit = (id: string, creatorId: string) =>
+  serializableTransaction(async (tx): Promise<BillSplitOutcome | null> => {
+    const split = await tx.billSplit.findFirst({
+      where: { id, creatorId },
+      include: { creator: true, participants: true },
+    });
+    if (!split) return null;
+    if (split.cancelledAt) return { ok: false, error: 'Split is already cancelled' };
+
+    const unpaid = split.participants.filter(p => !p.settledAt);
+
+    await tx.paymentRequest.updateMany({
+      where: { id: { in: unpaid.map(p => p.paymentRequestId) }, status: 'PENDING' },
+      data: { status: 'CANCELLED', respondedAt: new Date() },
+    });
+
+    let expenseId = split.expenseId;
+    const unpaidTotal = unpaid.reduce((sum, p) => sum + p.amount, 0);
+
+    if (unpaidTotal > 0) {
+      const table = await loadRateTable(tx);
+      const amount = convertWithTable(table, unpaidTotal, split.currency, split.creator.homeCurrency);
+
+      if (expenseId) {
+        await tx.expense.update({ where: { id: expenseId }, data: { amount: { increment: amount } } });
+      } else {
+        const expense = await tx.expense.create({
+          data: {
+            description: split.description,
+            amount,
+            category: split.category,
+            date: split.date,
+            userId: creatorId,
+          },
+        });
+        expenseId = expense.id;
+      }
+    }
+
+    const updated = await tx.billSplit.update({
+      where: { id },
+      data: { cancelledAt: new Date(), expenseId },
+    });
+
+    return { ok: true, split: updated };
+  });
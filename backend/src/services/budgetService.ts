@@ -0,0 +1,155 @@
+import { Budget } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+// How far back rollover is replayed when computing a month's carried-over amount
+const MAX_ROLLOVER_MONTHS = 12;
+
+// ================= TYPES =================
+export interface BudgetStatus {
+  id: string;
+  category: string;
+  limit: number;
+  rollover: Budget['rollover'];
+  rolloverCap: number | null;
+  isActive: boolean;
+  month: string;
+  carriedOver: number;
+  effectiveLimit: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  isOverBudget: boolean;
+}
+
+export interface BudgetSummary {
+  limit: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  overBudgetCategories: string[];
+}
+
+// ================= HELPERS =================
+export const normalizeCategory = (category: string) => category.trim().toLowerCase();
+
+export const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+export const monthKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Parse a `YYYY-MM` string into the first day of that month.
+ * Falls back to the current month when no value is given.
+ */
+export const parseMonth = (value?: string) => {
+  if (!value) return startOfMonth(new Date());
+  const [year, month] = value.split('-').map(Number);
+  return new Date(year ?? new Date().getFullYear(), (month ?? 1) - 1, 1);
+};
+
+const addMonths = (date: Date, months: number) =>
+  new Date(date.getFullYear(), date.getMonth() + months, 1);
+
+const carryOver = (budget: Budget, unspent: number) => {
+  if (unspent <= 0) return 0;
+  switch (budget.rollover) {
+    case 'FULL':
+      return unspent;
+    case 'CAPPED':
+      return Math.min(unspent, budget.rolloverCap ?? 0);
+    default:
+      return 0;
+  }
+};
+
+// ================= SERVICE =================
+
+/**
+ * Budget-vs-actual figures for a user's budgets in the given month.
+ *
+ * Spending is matched to budgets by Expense.category (case-insensitive).
+ * Rollover is replayed month by month from when the budget was created
+ * (at most MAX_ROLLOVER_MONTHS back) using the budget's current limit.
+ */
+export const getBudgetStatuses = async (
+  userId: string,
+  month: Date = new Date(),
+  activeOnly = true
+): Promise<BudgetStatus[]> => {
+  const targetMonth = startOfMonth(month);
+  const monthEnd = addMonths(targetMonth, 1);
+
+  const budgets = await prisma.budget.findMany({
+    where: { userId, ...(activeOnly && { isActive: true }) },
+    orderBy: { category: 'asc' },
+  });
+
+  if (budgets.length === 0) return [];
+
+  const earliestMonth = budgets.reduce((earliest, budget) => {
+    const created = startOfMonth(budget.createdAt);
+    return created < earliest ? created : earliest;
+  }, targetMonth);
+  const historyStart = earliestMonth < addMonths(targetMonth, -MAX_ROLLOVER_MONTHS)
+    ? addMonths(targetMonth, -MAX_ROLLOVER_MONTHS)
+    : earliestMonth;
+
+  const expenses = await prisma.expense.findMany({
+    where: { userId, date: { gte: historyStart, lt: monthEnd } },
+    select: { amount: true, category: true, date: true },
+  });
+
+  // Spending keyed by "<category>|<YYYY-MM>"
+  const spentByMonth = new Map<string, number>();
+  for (const expense of expenses) {
+    const key = `${normalizeCategory(expense.category)}|${monthKey(expense.date)}`;
+    spentByMonth.set(key, (spentByMonth.get(key) || 0) + expense.amount);
+  }
+
+  const spentIn = (budget: Budget, date: Date) =>
+    spentByMonth.get(`${normalizeCategory(budget.category)}|${monthKey(date)}`) || 0;
+
+  return budgets.map(budget => {
+    let carriedOver = 0;
+    const created = startOfMonth(budget.createdAt);
+    let cursor = created > historyStart ? created : historyStart;
+
+    while (cursor < targetMonth) {
+      const unspent = budget.limit + carriedOver - spentIn(budget, cursor);
+      carriedOver = carryOver(budget, unspent);
+      cursor = addMonths(cursor, 1);
+    }
+
+    const effectiveLimit = budget.limit + carriedOver;
+    const spent = spentIn(budget, targetMonth);
+
+    return {
+      id: budget.id,
+      category: budget.category,
+      limit: budget.limit,
+      rollover: budget.rollover,
+      rolloverCap: budget.rolloverCap,
+      isActive: budget.isActive,
+      month: monthKey(targetMonth),
+      carriedOver,
+      effectiveLimit,
+      spent,
+      remaining: effectiveLimit - spent,
+      percentUsed: effectiveLimit ? (spent / effectiveLimit) * 100 : 0,
+      isOverBudget: spent > effectiveLimit,
+    };
+  });
+};
+
+export const summarizeBudgets = (statuses: BudgetStatus[]): BudgetSummary => {
+  const limit = statuses.reduce((sum, s) => sum + s.effectiveLimit, 0);
+  const spent = statuses.reduce((sum, s) => sum + s.spent, 0);
+
+  return {
+    limit,
+    spent,
+    remaining: limit - spent,
+    percentUsed: limit ? (spent / limit) * 100 : 0,
+    overBudgetCategories: statuses.filter(s => s.isOverBudget).map(s => s.category),
+  };
+};
@@ -0,0 +1,159 @@
+import bcrypt from 'bcryptjs';
+import { ChildProfile, Prisma, User } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { getLimitUsage } from './riskService.js';
+import { findUserByPhone } from './transferService.js';
+import { ensureWallet } from './walletService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+export interface ChildInput {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName?: string;
+  phone?: string;
+}
+
+// Spending controls a parent sets; amounts are in USD like every transfer limit
+export interface ChildControls {
+  dailyLimit?: number;
+  weeklyLimit?: number;
+  monthlyLimit?: number;
+  approvalThreshold?: number;
+}
+
+export type ChildOutcome = { ok: true; child: ChildProfile & { user: ChildUser } } | Rejected;
+
+// ================= CONFIG =================
+// Starting controls for a new child profile, in USD; the parent can change them
+export const CHILD_APPROVAL_THRESHOLD = parseFloat(process.env.CHILD_APPROVAL_THRESHOLD || '20');
+export const CHILD_DAILY_LIMIT = parseFloat(process.env.CHILD_DAILY_LIMIT || '50');
+export const CHILD_WEEKLY_LIMIT = parseFloat(process.env.CHILD_WEEKLY_LIMIT || '150');
+export const CHILD_MONTHLY_LIMIT = parseFloat(process.env.CHILD_MONTHLY_LIMIT || '300');
+
+export const childUserSelect = {
+  id: true,
+  email: true,
+  phone: true,
+  firstName: true,
+  lastName: true,
+  homeCurrency: true,
+  createdAt: true,
+} as const;
+
+type ChildUser = Pick<User, keyof typeof childUserSelect>;
+
+// ================= CHILDREN =================
+
+/**
+ * Create a child profile for a parent: a user signing in with its own email
+ * and password, with a wallet in the parent's home currency, the default
+ * child limits and approval threshold. A child can't have children of its own.
+ */
+export const createChild = async (parentId: string, input: ChildInput): Promise<ChildOutcome> => {
+  const parent = await prisma.user.findUniqueOrThrow({
+    where: { id: parentId },
+    include: { childProfile: true },
+  });
+  if (parent.childProfile) {
+    return { ok: false, error: 'Child profiles can\'t add children' };
+  }
+
+  if (await prisma.user.findUnique({ where: { email: input.email } })) {
+    return { ok: false, error: 'Email is already in use' };
+  }
+  if (input.phone && await findUserByPhone(prisma, input.phone)) {
+    return { ok: false, error: 'Phone number is already in use' };
+  }
+
+  const password = await bcrypt.hash(input.password, 10);
+
+  const child = await prisma.$transaction(async (tx) => {
+    const user = await tx.user.create({
+      data: {
+        email: input.email,
+        password,
+        firstName: input.firstName,
+        lastName: input.lastName ?? null,
+        phone: input.phone ?? null,
+        homeCurrency: parent.homeCurrency,
+        transferLimit: {
+          create: {
+            dailyLimit: CHILD_DAILY_LIMIT,
+            weeklyLimit: CHILD_WEEKLY_LIMIT,
+            monthlyLimit: CHILD_MONTHLY_LIMIT,
+          },
+        },
+      },
+    });
+
+    // Opened here so the child starts from zero rather than the welcome balance
+    await ensureWallet(tx, user.id, parent.homeCurrency);
+
+    return tx.childProfile.create({
+      data: { approvalThreshold: CHILD_APPROVAL_THRESHOLD, userId: user.id, parentId },
+      include: { user: { select: childUserSelect } },
+    });
+  });
+
+  return { ok: true, child };
+};
+
+/**
+ * The parent's child profile for a child user, or null when it isn't theirs.
+ */
+export const findChild = (client: Prisma.TransactionClient, parentId: string, childId: string) =>
+  client.childProfile.findFirst({
+    where: { userId: childId, parentId },
+    include: { user: { select: childUserSelect } },
+  });
+
+/**
+ * Everything a parent sees about a child: wallets, goals, limits and how much
+ * of them is used, and the allowances the parent sends.
+ */
+export const getChildOverview = async (profile: ChildProfile) => {
+  const [wallets, goals, limits, allowances] = await Promise.all([
+    prisma.wallet.findMany({ where: { userId: profile.userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.goal.findMany({
+      where: { userId: profile.userId },
+      orderBy: [{ priority: 'desc' }, { targetDate: 'asc' }],
+    }),
+    getLimitUsage(profile.userId),
+    prisma.scheduledTransfer.findMany({
+      where: { userId: profile.parentId, receiverId: profile.userId, isActive: true },
+      orderBy: { nextRunAt: 'asc' },
+    }),
+  ]);
+
+  return { wallets, goals, limits, approvalThreshold: profile.approvalThreshold, allowances };
+};
+
+/**
+ * Change a child's limits and approval threshold. Returns null when the child
+ * isn't the parent's.
+ */
+export const updateChildControls = async (parentId: string, childId: string, controls: ChildControls) => {
+  const profile = await findChild(prisma, parentId, childId);
+  if (!profile) return null;
+
+  const { approvalThreshold, ...limits } = controls;
+
+  return prisma.$transaction(async (tx) => {
+    if (Object.keys(limits).length > 0) {
+      await tx.transferLimit.upsert({
+        where: { userId: childId },
+        create: { ...limits, userId: childId },
+        update: limits,
+      });
+    }
+
+    return tx.childProfile.update({
+      where: { id: profile.id },
+      data: approvalThreshold !== undefined ? { approvalThreshold } : {},
+      include: { user: { select: childUserSelect } },
+    });
+  });
+};
@@ -0,0 +1,146 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FxRateSource, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+// ================= TYPES =================
+export interface FxQuote {
+  from: string;
+  to: string;
+  amount: number;
+  // Mid-market rate: 1 `from` = `rate` `to`
+  rate: number;
+  // Percent taken off the converted amount
+  spread: number;
+  converted: number;
+}
+
+// Units of each currency per 1 USD
+export type FxRateTable = Map<string, number>;
+
+// ================= CONFIG =================
+// Every rate is stored against this currency
+export const FX_BASE_CURRENCY = 'USD';
+
+const FX_SPREAD_PERCENT = parseFloat(process.env.FX_SPREAD_PERCENT || '1');
+const FX_RATES_FILE = path.resolve(process.env.FX_RATES_FILE || 'fx-rates.json');
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const normalizeCurrency = (currency: string) => currency.trim().toUpperCase();
+
+// ================= RATES =================
+
+export const loadRateTable = async (client: Prisma.TransactionClient = prisma): Promise<FxRateTable> => {
+  const rates = await client.fxRate.findMany({ select: { currency: true, rate: true } });
+  const table: FxRateTable = new Map(rates.map(row => [row.currency, row.rate]));
+  table.set(FX_BASE_CURRENCY, 1);
+  return table;
+};
+
+export const isSupportedCurrency = async (currency: string, client: Prisma.TransactionClient = prisma) => {
+  if (currency === FX_BASE_CURRENCY) return true;
+  const rate = await client.fxRate.findUnique({ where: { currency } });
+  return rate !== null;
+};
+
+/**
+ * Mid-market rate from one currency to another, derived through the base
+ * currency. Returns null when either side has no rate.
+ */
+export const rateFromTable = (table: FxRateTable, from: string, to: string) => {
+  if (from === to) return 1;
+  const fromRate = table.get(from);
+  const toRate = table.get(to);
+  if (!fromRate || !toRate) return null;
+  return toRate / fromRate;
+};
+
+/**
+ * Convert using a loaded table, for reporting totals; no spread. Amounts in a
+ * currency without a rate are left unconverted.
+ */
+export const convertWithTable = (table: FxRateTable, amount: number, from: string, to: string) => {
+  const rate = rateFromTable(table, from, to);
+  return rate === null ? amount : round2(amount * rate);
+};
+
+/**
+ * Quote converting an amount the customer is sending: the mid-market rate
+ * less the configured spread. Returns null when there is no rate.
+ */
+export const quoteConversion = async (
+  amount: number,
+  from: string,
+  to: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<FxQuote | null> => {
+  const rate = rateFromTable(await loadRateTable(client), from, to);
+  if (rate === null) return null;
+
+  const spread = from === to ? 0 : FX_SPREAD_PERCENT;
+  return {
+    from,
+    to,
+    amount,
+    rate,
+    spread,
+    converted: round2(amount * rate * (1 - spread / 100)),
+  };
+};
+
+/**
+ * Replace the given rates (units per 1 USD). Currencies not listed keep their
+ * current rate. Returns the number of rates written.
+ */
+export const setRates = async (rates: Record<string, number>, source: FxRateSource) => {
+  const entries = Object.entries(rates)
+    .map(([currency, rate]) => [normalizeCurrency(currency), rate] as const)
+    .filter(([currency]) => currency !== FX_BASE_CURRENCY);
+
+  await prisma.$transaction(
+    entries.map(([currency, rate]) =>
+      prisma.fxRate.upsert({
+        where: { currency },
+        update: { rate, source },
+        create: { currency, rate, source },
+      })
+    )
+  );
+
+  return entries.length;
+};
+
+// ================= RATE FILE =================
+// The rate file is JSON of the form { "base": "USD", "rates": { "INR": 83.1 } }.
+// It is re-read whenever it changes, so a cron job or deploy can drop in fresh
+// rates without touching the API.
+
+let lastFileMtime = 0;
+
+export const syncRatesFromFile = async (force = false) => {
+  let stat;
+  try {
+    stat = await fs.stat(FX_RATES_FILE);
+  } catch {
+    // No rate file configured; rates come from the admin endpoint
+    return 0;
+  }
+
+  if (!force && stat.mtimeMs === lastFileMtime) return 0;
+
+  const contents = JSON.parse(await fs.readFile(FX_RATES_FILE, 'utf8'));
+  const base = normalizeCurrency(contents.base || FX_BASE_CURRENCY);
+  if (base !== FX_BASE_CURRENCY) {
+    throw new Error(`FX rate file must be quoted against ${FX_BASE_CURRENCY}, got ${base}`);
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [currency, rate] of Object.entries(contents.rates ?? {})) {
+    if (typeof rate === 'number' && rate > 0) rates[currency] = rate;
+  }
+
+  const written = await setRates(rates, 'FILE');
+  lastFileMtime = stat.mtimeMs;
+  return written;
+};
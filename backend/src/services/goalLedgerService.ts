@@ -0,0 +1,227 @@
+import { Prisma, Saving } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { LedgerAccountRef, postTransfer } from './ledgerService.js';
+
+// ================= TYPES =================
+export type GoalLedgerEntry = Omit<Prisma.SavingUncheckedCreateInput, 'goalId' | 'journalEntryId'> & {
+  goalId: string;
+};
+
+export interface GoalMovement {
+  // Where the money comes from (contributions) or goes to (withdrawals, payments)
+  counterparty: LedgerAccountRef;
+  // Wallet transaction recorded alongside, linked to the same journal entry
+  transaction?: Omit<Prisma.TransactionUncheckedCreateInput, 'journalEntryId'>;
+  description?: string;
+}
+
+export type GoalReversal = { ok: true } | { ok: false; error: string };
+
+// ================= LEDGER =================
+// Every change to a goal's balance is a Saving row with that goalId, posted to
+// the double-entry ledger against the wallet or outside world it moved to or
+// from. `goal.saved` is kept equal to the sum of those rows. Write through these
+// helpers, inside the caller's transaction, instead of touching `saved` directly.
+
+const recordGoalMovement = async (
+  tx: Prisma.TransactionClient,
+  entry: GoalLedgerEntry,
+  movement: GoalMovement,
+  direction: 'IN' | 'OUT'
+) => {
+  const goal: LedgerAccountRef = { type: 'GOAL', goalId: entry.goalId };
+
+  const description = movement.description ?? movement.transaction?.description;
+
+  const journalEntry = await postTransfer(tx, {
+    from: direction === 'IN' ? movement.counterparty : goal,
+    to: direction === 'IN' ? goal : movement.counterparty,
+    amount: entry.amount,
+    ...(description && { description }),
+  });
+  if (!journalEntry) return null;
+
+  const transaction = movement.transaction
+    ? await tx.transaction.create({
+        data: { ...movement.transaction, journalEntryId: journalEntry.id },
+      })
+    : null;
+
+  const saving = await tx.saving.create({
+    data: {
+      ...entry,
+      amount: direction === 'IN' ? entry.amount : -entry.amount,
+      journalEntryId: journalEntry.id,
+      ...(transaction && { sourceTransactionId: transaction.id }),
+    },
+  });
+
+  return { saving, transaction };
+};
+
+/**
+ * Record money moving into a goal from the wallet or the outside world.
+ * Returns null when a wallet counterparty can't cover it.
+ */
+export const addGoalLedgerEntry = (
+  tx: Prisma.TransactionClient,
+  entry: GoalLedgerEntry,
+  movement: GoalMovement
+) => recordGoalMovement(tx, entry, movement, 'IN');
+
+/**
+ * Record money leaving a goal; `entry.amount` is the positive amount taken out
+ * and is stored negated. The balance check and decrement are one conditional
+ * update, so concurrent withdrawals can't overdraw the goal. Returns null when
+ * the goal doesn't hold enough.
+ */
+export const deductGoalLedgerEntry = (
+  tx: Prisma.TransactionClient,
+  entry: GoalLedgerEntry,
+  movement: GoalMovement
+) => recordGoalMovement(tx, entry, movement, 'OUT');
+
+/**
+ * Undo a ledger entry's effect on its goal, e.g. before deleting the saving.
+ * Money saved from a wallet goes back to the wallet its journal entry debited,
+ * as a GOAL_TRANSFER, so it is available again; money saved outside the app
+ * goes back outside. Refuses when the goal can't give the money back: the
+ * wallet is gone or isn't the saver's (e.g. a merchant's refund), or the
+ * saver's wallet-funded share or the goal no longer holds it because it was
+ * withdrawn or spent. Savings whose goal has since been deleted have nothing
+ * to reverse.
+ */
+export const reverseGoalLedgerEntry = async (
+  tx: Prisma.TransactionClient,
+  saving: Pick<Saving, 'goalId' | 'userId' | 'amount' | 'isExternal' | 'journalEntryId'>
+): Promise<GoalReversal> => {
+  if (!saving.goalId || saving.amount === 0) return { ok: true };
+
+  const goal: LedgerAccountRef = { type: 'GOAL', goalId: saving.goalId };
+  const amount = Math.abs(saving.amount);
+  const description = 'Reversal of deleted saving';
+  const spent: GoalReversal = { ok: false, error: 'This saving has already been withdrawn or spent from the goal' };
+
+  if (saving.amount > 0 && !saving.isExternal) {
+    const debit = saving.journalEntryId
+      ? await tx.posting.findFirst({
+          where: { journalEntryId: saving.journalEntryId, amount: { lt: 0 }, account: { kind: 'WALLET' } },
+          include: { account: { include: { wallet: true } } },
+        })
+      : null;
+    const wallet = debit?.account.wallet;
+    if (!wallet) return { ok: false, error: 'The wallet this saving came from no longer exists' };
+    if (wallet.userId !== saving.userId) {
+      return { ok: false, error: 'This saving didn\'t come from your wallet and can\'t be deleted' };
+    }
+
+    const [goalBalance, ownBalance] = await Promise.all([
+      getGoalWalletBalance(tx, saving.goalId),
+      getGoalWalletBalance(tx, saving.goalId, saving.userId),
+    ]);
+    if (amount > goalBalance || amount > ownBalance) return spent;
+
+    const journalEntry = await postTransfer(tx, {
+      from: goal,
+      to: { type: 'WALLET', walletId: wallet.id },
+      amount,
+      description,
+    });
+    if (!journalEntry) return spent;
+
+    await tx.transaction.create({
+      data: {
+        amount,
+        currency: wallet.currency,
+        type: 'GOAL_TRANSFER',
+        status: 'COMPLETED',
+        description,
+        receiverWalletId: wallet.id,
+        receiverUserId: wallet.userId,
+        journalEntryId: journalEntry.id,
+      },
+    });
+    return { ok: true };
+  }
+
+  const external: LedgerAccountRef = { type: 'EXTERNAL' };
+
+  const journalEntry = await postTransfer(tx, {
+    from: saving.amount > 0 ? goal : external,
+    to: saving.amount > 0 ? external : goal,
+    amount,
+    description,
+  });
+  return journalEntry ? { ok: true } : spent;
+};
+
+/**
+ * What a goal holds that came in from wallets, overall or for one user: wallet
+ * contributions less everything taken out against them, never more than the
+ * goal's balance. Only this part can go to a wallet; the rest was saved
+ * outside the app and can only go back outside.
+ */
+export const getGoalWalletBalance = async (
+  client: Prisma.TransactionClient,
+  goalId: string,
+  userId?: string
+) => {
+  const [result, goal] = await Promise.all([
+    client.saving.aggregate({
+      where: { goalId, isExternal: false, ...(userId && { userId }) },
+      _sum: { amount: true },
+    }),
+    client.goal.findUniqueOrThrow({ where: { id: goalId }, select: { saved: true } }),
+  ]);
+  return Math.round(Math.max(0, Math.min(result._sum.amount ?? 0, goal.saved)) * 100) / 100;
+};
+
+export const getGoalLedgerBalance = async (
+  client: Prisma.TransactionClient,
+  goalId: string
+) => {
+  const result = await client.saving.aggregate({
+    where: { goalId },
+    _sum: { amount: true },
+  });
+  return result._sum.amount ?? 0;
+};
+
+// ================= BACKFILL =================
+
+/**
+ * Bring goals saved before the ledger existed in line with it: any gap between
+ * `saved` and the sum of the goal's savings becomes one opening-balance entry
+ * dated at the goal's creation, flagged external since its source is unknown.
+ * Safe to run repeatedly; goals already in sync are left alone. Returns the
+ * number of goals adjusted.
+ */
+export const backfillGoalLedger = async () => {
+  const goals = await prisma.goal.findMany({
+    select: { id: true, userId: true, saved: true, createdAt: true },
+  });
+
+  let adjusted = 0;
+
+  for (const goal of goals) {
+    await prisma.$transaction(async (tx) => {
+      const ledgerBalance = await getGoalLedgerBalance(tx, goal.id);
+      const gap = Math.round((goal.saved - ledgerBalance) * 100) / 100;
+      if (gap === 0) return;
+
+      await tx.saving.create({
+        data: {
+          amount: gap,
+          type: 'GOAL_CONTRIBUTION',
+          date: goal.createdAt,
+          userId: goal.userId,
+          goalId: goal.id,
+          isExternal: true,
+        },
+      });
+      adjusted++;
+    });
+  }
+
+  return adjusted;
+};
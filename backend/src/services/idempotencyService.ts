@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+import { IdempotencyKey, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+// ================= TYPES =================
+export interface IdempotentRequest {
+  userId: string;
+  key: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export type IdempotencyClaim =
+  | { outcome: 'CLAIMED'; record: IdempotencyKey }
+  | { outcome: 'REPLAY'; record: IdempotencyKey }
+  | { outcome: 'IN_PROGRESS' }
+  | { outcome: 'MISMATCH' };
+
+// How long a key is remembered; retries after this are treated as new requests
+const KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24');
+
+export const hashRequest = (method: string, path: string, body: unknown) =>
+  createHash('sha256')
+    .update(JSON.stringify({ method, path, body: body ?? null }))
+    .digest('hex');
+
+/**
+ * Claim an idempotency key for a request. The unique (userId, key) index makes
+ * the claim atomic: of two concurrent requests with the same key only one gets
+ * CLAIMED. A key seen before either replays its stored response, is still being
+ * processed, or was used for a different request.
+ */
+export const claimIdempotencyKey = async (request: IdempotentRequest): Promise<IdempotencyClaim> => {
+  const requestHash = hashRequest(request.method, request.path, request.body);
+
+  try {
+    const record = await prisma.idempotencyKey.create({
+      data: {
+        userId: request.userId,
+        key: request.key,
+        method: request.method,
+        path: request.path,
+        requestHash,
+        expiresAt: new Date(Date.now() + KEY_TTL_HOURS * 60 * 60 * 1000),
+      },
+    });
+    return { outcome: 'CLAIMED', record };
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { userId_key: { userId: request.userId, key: request.key } },
+  });
+
+  // Purged between our insert and this read: let the client try again
+  if (!existing) return { outcome: 'IN_PROGRESS' };
+
+  // Expired but not yet purged: the key is free to be used afresh
+  if (existing.expiresAt < new Date()) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id, expiresAt: { lt: new Date() } } });
+    return claimIdempotencyKey(request);
+  }
+
+  if (existing.requestHash !== requestHash) return { outcome: 'MISMATCH' };
+  if (existing.status === 'IN_PROGRESS') return { outcome: 'IN_PROGRESS' };
+  return { outcome: 'REPLAY', record: existing };
+};
+
+/**
+ * Store the response for a claimed key so later retries can replay it.
+ */
+export const completeIdempotencyKey = (id: string, responseStatus: number, responseBody: unknown) =>
+  prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      status: 'COMPLETED',
+      responseStatus,
+      responseBody: responseBody === undefined ? Prisma.JsonNull : (responseBody as Prisma.InputJsonValue),
+    },
+  });
+
+/**
+ * Forget a claimed key, e.g. after a server error, so the request can be retried.
+ */
+export const releaseIdempotencyKey = (id: string) =>
+  prisma.idempotencyKey.deleteMany({ where: { id } });
+
+/**
+ * Delete keys past their expiry. Returns the number removed.
+ */
+export const purgeExpiredIdempotencyKeys = async (now: Date = new Date()) => {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lt: now } },
+  });
+  return count;
+};
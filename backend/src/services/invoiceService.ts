@@ -0,0 +1,369 @@
+import { randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
+import { Goal, Invoice, Prisma, Transaction, Wallet } from '@prisma/client';
+import { prisma, serializableTransaction } from '../config/database.js';
+import { addGoalLedgerEntry, deductGoalLedgerEntry, getGoalWalletBalance } from './goalLedgerService.js';
+import { LedgerAccountRef, postTransfer } from './ledgerService.js';
+import { formatAmount, notify } from './notificationService.js';
+import { checkTransferLimits } from './riskService.js';
+import { findGoalAccess } from './sharedGoalService.js';
+import { postWalletTransfer } from './transferService.js';
+import { ensureWallet } from './walletService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+export type PaidInvoice =
+  | { ok: true; invoice: Invoice; transaction: Transaction; wallet: Wallet | null; goal: Goal | null }
+  | Rejected;
+
+export type RefundedInvoice = { ok: true; invoice: Invoice; refund: Transaction } | Rejected;
+
+export interface SettlementTotal {
+  currency: string;
+  paidCount: number;
+  paidAmount: number;
+  refundedCount: number;
+  refundedAmount: number;
+  net: number;
+}
+
+// ================= CONFIG =================
+export const INVOICE_EXPIRY_MINUTES = parseInt(process.env.INVOICE_EXPIRY_MINUTES || '30');
+export const INVOICE_MAX_EXPIRY_MINUTES = parseInt(process.env.INVOICE_MAX_EXPIRY_MINUTES || '10080');
+
+const INVOICE_QR_PREFIX = 'piggybank://invoice?t=';
+
+// The name payers see for a merchant
+const merchantLabel = (merchant: { merchantName: string | null; firstName: string | null }) =>
+  merchant.merchantName ?? merchant.firstName ?? 'merchant';
+
+const notOpen = (invoice: Invoice): Rejected => ({
+  ok: false,
+  error: `Invoice is already ${invoice.status.toLowerCase()}`,
+});
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+// ================= CODES =================
+// An invoice's code carries nothing but its random token, so it can't be
+// edited into another amount, and stops working once the invoice is paid.
+
+export const newInvoiceToken = () => randomBytes(24).toString('base64url');
+
+export const encodeInvoiceQr = (invoice: Pick<Invoice, 'token'>) => `${INVOICE_QR_PREFIX}${invoice.token}`;
+
+/**
+ * The token in a scanned invoice code, or null when the payload isn't one.
+ */
+export const invoiceTokenFromQr = (payload: string): string | null => {
+  const data = payload.trim();
+  if (!data.startsWith(INVOICE_QR_PREFIX)) return null;
+  return data.slice(INVOICE_QR_PREFIX.length) || null;
+};
+
+// ================= STATUS EVENTS =================
+// Merchants waiting on an invoice are woken as soon as it is paid or refunded.
+// Only requests served by this process hear about it; the rest see the change
+// when their wait runs out and they re-read the invoice.
+
+const invoiceEvents = new EventEmitter();
+invoiceEvents.setMaxListeners(0);
+
+const publishStatus = (invoice: Invoice) => {
+  invoiceEvents.emit(invoice.id, invoice.status);
+};
+
+/**
+ * Resolve when the invoice's status changes or after `ms`, whichever is first.
+ */
+export const waitForInvoiceChange = (id: string, ms: number) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      invoiceEvents.off(id, done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    invoiceEvents.once(id, done);
+  });
+
+// ================= TRANSITIONS =================
+// An invoice is paid once and refunded at most once. Both re-read it inside a
+// serializable transaction, so two payers scanning the same code can't both
+// pay it.
+
+/**
+ * Pay the invoice a scanned token belongs to, from the payer's wallet in the
+ * invoice's currency or from a goal they own that saves in it. Returns null
+ * when there is no such invoice.
+ */
+export const payInvoice = async (token: string, payerId: string, goalId?: string) => {
+  const outcome = await serializableTransaction(async (tx): Promise<PaidInvoice | null> => {
+    const invoice = await tx.invoice.findUnique({
+      where: { token },
+      include: {
+        merchant: { select: { id: true, homeCurrency: true, merchantName: true, firstName: true } },
+      },
+    });
+    if (!invoice) return null;
+    if (invoice.status !== 'CREATED') return notOpen(invoice);
+
+    if (invoice.expiresAt <= new Date()) {
+      await tx.invoice.update({ where: { id: invoice.id }, data: { status: 'EXPIRED' } });
+      return { ok: false, error: 'Invoice has expired' };
+    }
+
+    if (invoice.merchantId === payerId) {
+      return { ok: false, error: 'Cannot pay your own invoice' };
+    }
+
+    const { amount, currency } = invoice;
+    const limitHit = await checkTransferLimits(tx, { senderId: payerId, amount, currency });
+    if (limitHit) return { ok: false, error: limitHit };
+
+    const description = `Invoice ${invoice.reference} from ${merchantLabel(invoice.merchant)}`;
+    let transaction: Transaction;
+    let wallet: Wallet | null = null;
+    let goal: Goal | null = null;
+
+    if (goalId) {
+      const access = await findGoalAccess(tx, goalId, payerId);
+      if (!access) return { ok: false, error: 'Goal not found' };
+      if (access.role !== 'OWNER') return { ok: false, error: 'Only the goal owner can pay from it' };
+      if (access.goal.currency !== currency) {
+        return { ok: false, error: `This goal saves in ${access.goal.currency}, but the invoice is in ${currency}` };
+      }
+
+      // The merchant is paid into a wallet, so only goal money that came from
+      // wallets can pay; what was saved outside the app never entered one
+      if ((await getGoalWalletBalance(tx, goalId)) < amount) {
+        return { ok: false, error: 'Not enough money moved into this goal from a wallet to pay this invoice' };
+      }
+
+      // Goal money is paid in the invoice's currency, so the merchant gets a wallet in it
+      const merchantWallet = await ensureWallet(tx, invoice.merchantId, currency);
+      const recorded = await deductGoalLedgerEntry(tx, {
+        amount,
+        type: 'GOAL_PAYMENT',
+        date: new Date(),
+        userId: payerId,
+        goalId,
+      }, {
+        counterparty: { type: 'WALLET', walletId: merchantWallet.id },
+        transaction: {
+          amount,
+          currency,
+          type: 'TRANSFER',
+          status: 'COMPLETED',
+          description,
+          senderUserId: payerId,
+          receiverWalletId: merchantWallet.id,
+          receiverUserId: invoice.merchantId,
+          invoiceId: invoice.id,
+        },
+      });
+      if (!recorded?.transaction) return { ok: false, error: 'Insufficient funds in goal' };
+
+      transaction = recorded.transaction;
+      goal = await tx.goal.findUniqueOrThrow({ where: { id: goalId } });
+    } else {
+      const transfer = await postWalletTransfer(tx, {
+        senderId: payerId,
+        receiver: invoice.merchant,
+        amount,
+        currency,
+        description,
+        invoiceId: invoice.id,
+      });
+      if (!transfer.ok) return transfer;
+
+      transaction = transfer.transaction;
+      wallet = transfer.senderWallet;
+    }
+
+    const updated = await tx.invoice.update({
+      where: { id: invoice.id },
+      data: { status: 'PAID', paidAt: new Date(), payerId, goalId: goalId ?? null },
+    });
+
+    await notify(invoice.merchantId, {
+      type: 'INVOICE_PAID',
+      title: 'Invoice paid',
+      message: `Invoice ${invoice.reference} for ${formatAmount(amount, currency)} was paid.`,
+      data: { invoiceId: invoice.id, transactionId: transaction.id },
+    }, tx);
+
+    return { ok: true, invoice: updated, transaction, wallet, goal };
+  });
+
+  if (outcome?.ok) publishStatus(outcome.invoice);
+  return outcome;
+};
+
+/**
+ * Give a paid invoice's money back: out of the merchant's wallet and into the
+ * goal it was paid from, or the payer's wallet when it came from there or the
+ * goal is gone. Returns null when the merchant has no such invoice.
+ */
+export const refundInvoice = async (id: string, merchantId: string) => {
+  const outcome = await serializableTransaction(async (tx): Promise<RefundedInvoice | null> => {
+    const invoice = await tx.invoice.findFirst({
+      where: { id, merchantId },
+      include: { transactions: { where: { status: 'COMPLETED' } } },
+    });
+    if (!invoice) return null;
+    if (invoice.status !== 'PAID') {
+      return { ok: false, error: 'Only paid invoices can be refunded' };
+    }
+
+    const payment = invoice.transactions[0];
+    if (!payment?.receiverWalletId || !payment.senderUserId) {
+      return { ok: false, error: 'The payment for this invoice no longer exists' };
+    }
+
+    const description = `Refund of invoice ${invoice.reference}`;
+    // Take back what the merchant was credited and return what the payer paid
+    const credited = payment.convertedAmount ?? payment.amount;
+    const creditedCurrency = payment.convertedCurrency ?? payment.currency;
+    const converted = creditedCurrency !== payment.currency;
+    const merchantWallet: LedgerAccountRef = { type: 'WALLET', walletId: payment.receiverWalletId };
+    const insufficient: Rejected = { ok: false, error: 'Not enough funds in your wallet to refund this invoice' };
+
+    const refundData = {
+      amount: credited,
+      currency: creditedCurrency,
+      type: 'TRANSFER',
+      status: 'REFUNDED',
+      description,
+      senderWalletId: payment.receiverWalletId,
+      senderUserId: merchantId,
+      receiverUserId: payment.senderUserId,
+      reversalOfId: payment.id,
+      invoiceId: invoice.id,
+      ...(converted && {
+        convertedAmount: payment.amount,
+        convertedCurrency: payment.currency,
+      }),
+    } satisfies Omit<Prisma.TransactionUncheckedCreateInput, 'journalEntryId'>;
+
+    let refund: Transaction;
+
+    if (invoice.goalId && !converted) {
+      const recorded = await addGoalLedgerEntry(tx, {
+        amount: payment.amount,
+        type: 'GOAL_CONTRIBUTION',
+        date: new Date(),
+        userId: payment.senderUserId,
+        goalId: invoice.goalId,
+      }, {
+        counterparty: merchantWallet,
+        transaction: refundData,
+      });
+      if (!recorded?.transaction) return insufficient;
+      refund = recorded.transaction;
+    } else {
+      const payerWalletId = payment.senderWalletId
+        ?? (await ensureWallet(tx, payment.senderUserId, payment.currency)).id;
+
+      const journalEntry = await postTransfer(tx, {
+        from: merchantWallet,
+        to: { type: 'WALLET', walletId: payerWalletId },
+        amount: credited,
+        description,
+        ...(converted && { converted: { amount: payment.amount, currency: payment.currency } }),
+      });
+      if (!journalEntry) return insufficient;
+
+      refund = await tx.transaction.create({
+        data: { ...refundData, receiverWalletId: payerWalletId, journalEntryId: journalEntry.id },
+      });
+    }
+
+    const updated = await tx.invoice.update({
+      where: { id },
+      data: { status: 'REFUNDED', refundedAt: new Date() },
+    });
+
+    await notify(payment.senderUserId, {
+      type: 'INVOICE_REFUNDED',
+      title: 'Payment refunded',
+      message: `Your payment of ${formatAmount(payment.amount, payment.currency)} for invoice ${invoice.reference} was refunded.`,
+      data: { invoiceId: id, transactionId: payment.id, refundTransactionId: refund.id },
+    }, tx);
+
+    return { ok: true, invoice: updated, refund };
+  });
+
+  if (outcome?.ok) publishStatus(outcome.invoice);
+  return outcome;
+};
+
+/**
+ * Mark unpaid invoices past their expiry as EXPIRED, optionally only one
+ * merchant's. Returns the number expired.
+ */
+export const expireInvoices = async (now: Date = new Date(), merchantId?: string) => {
+  const { count } = await prisma.invoice.updateMany({
+    where: {
+      status: 'CREATED',
+      expiresAt: { lte: now },
+      ...(merchantId && { merchantId }),
+    },
+    data: { status: 'EXPIRED' },
+  });
+  return count;
+};
+
+// ================= SETTLEMENT =================
+
+/**
+ * What a merchant took in on one day: the invoices paid and refunded between
+ * local midnights, with totals per currency. An invoice paid and refunded on
+ * the same day appears in both lists and nets to zero.
+ */
+export const getSettlementReport = async (merchantId: string, day: Date) => {
+  const from = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  const to = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+
+  const [paid, refunded] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { merchantId, paidAt: { gte: from, lt: to } },
+      orderBy: { paidAt: 'asc' },
+    }),
+    prisma.invoice.findMany({
+      where: { merchantId, refundedAt: { gte: from, lt: to } },
+      orderBy: { refundedAt: 'asc' },
+    }),
+  ]);
+
+  const totals = new Map<string, SettlementTotal>();
+  const totalFor = (currency: string) => {
+    const existing = totals.get(currency);
+    if (existing) return existing;
+    const created = { currency, paidCount: 0, paidAmount: 0, refundedCount: 0, refundedAmount: 0, net: 0 };
+    totals.set(currency, created);
+    return created;
+  };
+
+  for (const invoice of paid) {
+    const total = totalFor(invoice.currency);
+    total.paidCount++;
+    total.paidAmount = round2(total.paidAmount + invoice.amount);
+  }
+  for (const invoice of refunded) {
+    const total = totalFor(invoice.currency);
+    total.refundedCount++;
+    total.refundedAmount = round2(total.refundedAmount + invoice.amount);
+  }
+  for (const total of totals.values()) {
+    total.net = round2(total.paidAmount - total.refundedAmount);
+  }
+
+  return {
+    date: `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, '0')}-${String(from.getDate()).padStart(2, '0')}`,
+    totals: [...totals.values()],
+    paid,
+    refunded,
+  };
+};
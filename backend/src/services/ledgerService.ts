@@ -0,0 +1,311 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { fromMinor, toMinor } from '../utils/money.js';
+
+// ================= TYPES =================
+export type LedgerAccountRef =
+  | { type: 'WALLET'; walletId: string }
+  | { type: 'GOAL'; goalId: string }
+  | { type: 'EXTERNAL' };
+
+export interface LedgerTransfer {
+  from: LedgerAccountRef;
+  to: LedgerAccountRef;
+  // Major units, as used by the API
+  amount: number;
+  // Currency of `amount`; defaults to that of the wallet or goal involved, else USD
+  currency?: string;
+  // What `to` is credited when it holds another currency (after FX conversion)
+  converted?: { amount: number; currency: string };
+  description?: string;
+  // Let the source go below zero (e.g. reversing a saving the goal already spent)
+  allowNegative?: boolean;
+}
+
+export interface LedgerIssues {
+  unbalancedEntries: Array<{ journalEntryId: string; sum: number }>;
+  staleAccounts: Array<{ accountId: string; cached: number; postings: number }>;
+  mirrorMismatches: Array<{ accountId: string; walletId: string | null; goalId: string | null; mirror: number; ledger: number }>;
+  unmigrated: { wallets: number; goals: number };
+}
+
+// The rest of the world: deposits come from here, withdrawals and payments go here
+const externalCode = (currency: string) => `external:${currency}`;
+
+// ================= ACCOUNTS =================
+
+/**
+ * Find the ledger account for a wallet, goal or the outside world, opening it
+ * if needed. Wallets and goals that predate the ledger get an opening entry for
+ * their current Float balance, so call this before changing that balance.
+ */
+const resolveAccount = async (
+  tx: Prisma.TransactionClient,
+  ref: LedgerAccountRef,
+  currency: string
+) => {
+  if (ref.type === 'EXTERNAL') {
+    // Read before creating: an upsert would write to this shared row
+    const code = externalCode(currency);
+    const external = await tx.ledgerAccount.findUnique({ where: { code } });
+    return external ?? tx.ledgerAccount.create({ data: { kind: 'EXTERNAL', code } });
+  }
+
+  const where = ref.type === 'WALLET' ? { walletId: ref.walletId } : { goalId: ref.goalId };
+  const existing = await tx.ledgerAccount.findUnique({ where });
+  if (existing) return existing;
+
+  const opening = ref.type === 'WALLET'
+    ? (await tx.wallet.findUniqueOrThrow({ where: { id: ref.walletId } })).balance
+    : (await tx.goal.findUniqueOrThrow({ where: { id: ref.goalId } })).saved;
+
+  const account = await tx.ledgerAccount.create({
+    data: { kind: ref.type, ...where },
+  });
+
+  if (opening !== 0) {
+    const external = await resolveAccount(tx, { type: 'EXTERNAL' }, currency);
+    await postJournalEntry(tx, {
+      currency,
+      description: 'Opening balance',
+      postings: [
+        { accountId: account.id, amount: toMinor(opening) },
+        { accountId: external.id, amount: -toMinor(opening) },
+      ],
+    });
+    return tx.ledgerAccount.findUniqueOrThrow({ where: { id: account.id } });
+  }
+
+  return account;
+};
+
+// Currency a wallet or goal holds; the outside world takes any currency
+const accountCurrency = async (tx: Prisma.TransactionClient, ref: LedgerAccountRef) => {
+  if (ref.type === 'WALLET') {
+    return (await tx.wallet.findUniqueOrThrow({ where: { id: ref.walletId } })).currency;
+  }
+  if (ref.type === 'GOAL') {
+    return (await tx.goal.findUniqueOrThrow({ where: { id: ref.goalId } })).currency;
+  }
+  return null;
+};
+
+// ================= POSTING =================
+
+/**
+ * Write a journal entry and update the cached balances of its accounts.
+ * Throws if the postings don't sum to zero.
+ */
+export const postJournalEntry = async (
+  tx: Prisma.TransactionClient,
+  entry: {
+    currency: string;
+    description?: string;
+    postings: Array<{ accountId: string; amount: bigint }>;
+  }
+) => {
+  const sum = entry.postings.reduce((total, posting) => total + posting.amount, 0n);
+  if (sum !== 0n) {
+    throw new Error(`Unbalanced journal entry: postings sum to ${sum}`);
+  }
+
+  const journalEntry = await tx.journalEntry.create({
+    data: {
+      currency: entry.currency,
+      description: entry.description ?? null,
+      postings: { create: entry.postings },
+    },
+  });
+
+  // External accounts take part in nearly every entry, so caching their
+  // balance would make one hot row that every serializable transaction
+  // conflicts on; their balance is only ever read from the postings
+  for (const posting of entry.postings) {
+    await tx.ledgerAccount.updateMany({
+      where: { id: posting.accountId, kind: { not: 'EXTERNAL' } },
+      data: { balance: { increment: posting.amount } },
+    });
+  }
+
+  return journalEntry;
+};
+
+/**
+ * Move money between two accounts: one balanced journal entry (two when the
+ * money is converted between currencies), plus the matching change to the
+ * Wallet.balance / Goal.saved mirrors. The source is debited with a
+ * conditional update, so concurrent movements can't overdraw it. Returns the
+ * entry debiting the source, or null, having changed nothing, when the source
+ * can't cover it.
+ */
+export const postTransfer = async (tx: Prisma.TransactionClient, transfer: LedgerTransfer) => {
+  const { from, to, amount } = transfer;
+  const [heldFrom, heldTo] = await Promise.all([accountCurrency(tx, from), accountCurrency(tx, to)]);
+
+  const currency = transfer.currency ?? heldFrom ?? heldTo ?? 'USD';
+  const credited = transfer.converted ?? { amount, currency };
+  if ((heldFrom && heldFrom !== currency) || (heldTo && heldTo !== credited.currency)) {
+    throw new Error(`Currency mismatch moving ${currency} into ${heldTo ?? credited.currency}`);
+  }
+
+  // Resolve first so legacy accounts open with their pre-transfer balance
+  const fromAccount = await resolveAccount(tx, from, currency);
+  const toAccount = await resolveAccount(tx, to, credited.currency);
+
+  if (from.type === 'WALLET') {
+    const debited = await tx.wallet.updateMany({
+      where: { id: from.walletId, ...(!transfer.allowNegative && { balance: { gte: amount } }) },
+      data: { balance: { decrement: amount } },
+    });
+    if (debited.count === 0) return null;
+  } else if (from.type === 'GOAL') {
+    const debited = await tx.goal.updateMany({
+      where: { id: from.goalId, ...(!transfer.allowNegative && { saved: { gte: amount } }) },
+      data: { saved: { decrement: amount } },
+    });
+    if (debited.count === 0) return null;
+  }
+
+  if (to.type === 'WALLET') {
+    await tx.wallet.update({
+      where: { id: to.walletId },
+      data: { balance: { increment: credited.amount } },
+    });
+  } else if (to.type === 'GOAL') {
+    await tx.goal.update({
+      where: { id: to.goalId },
+      data: { saved: { increment: credited.amount } },
+    });
+  }
+
+  const description = transfer.description !== undefined && { description: transfer.description };
+
+  if (credited.currency === currency) {
+    const minor = toMinor(amount);
+    return postJournalEntry(tx, {
+      currency,
+      ...description,
+      postings: [
+        { accountId: toAccount.id, amount: minor },
+        { accountId: fromAccount.id, amount: -minor },
+      ],
+    });
+  }
+
+  // Entries can't mix currencies, so a conversion is two: the source pays out
+  // to the outside world in its currency, which pays the destination in its own
+  const [externalFrom, externalTo] = await Promise.all([
+    resolveAccount(tx, { type: 'EXTERNAL' }, currency),
+    resolveAccount(tx, { type: 'EXTERNAL' }, credited.currency),
+  ]);
+
+  const debitEntry = await postJournalEntry(tx, {
+    currency,
+    ...description,
+    postings: [
+      { accountId: externalFrom.id, amount: toMinor(amount) },
+      { accountId: fromAccount.id, amount: -toMinor(amount) },
+    ],
+  });
+
+  await postJournalEntry(tx, {
+    currency: credited.currency,
+    description: `FX ${currency}→${credited.currency} for ${debitEntry.id}`,
+    postings: [
+      { accountId: toAccount.id, amount: toMinor(credited.amount) },
+      { accountId: externalTo.id, amount: -toMinor(credited.amount) },
+    ],
+  });
+
+  return debitEntry;
+};
+
+// ================= MIGRATION & CHECKS =================
+
+/**
+ * Open ledger accounts, with opening-balance entries, for every wallet and goal
+ * that doesn't have one yet. Safe to run repeatedly. Returns how many were opened.
+ */
+export const migrateToLedger = async () => {
+  const [wallets, goals] = await Promise.all([
+    prisma.wallet.findMany({ where: { ledgerAccount: null }, select: { id: true, currency: true } }),
+    prisma.goal.findMany({ where: { ledgerAccount: null }, select: { id: true, currency: true } }),
+  ]);
+
+  for (const wallet of wallets) {
+    await prisma.$transaction(tx =>
+      resolveAccount(tx, { type: 'WALLET', walletId: wallet.id }, wallet.currency)
+    );
+  }
+
+  for (const goal of goals) {
+    await prisma.$transaction(tx =>
+      resolveAccount(tx, { type: 'GOAL', goalId: goal.id }, goal.currency)
+    );
+  }
+
+  return { wallets: wallets.length, goals: goals.length };
+};
+
+/**
+ * Check the ledger's invariants: every journal entry sums to zero, cached
+ * wallet and goal account balances equal the sum of their postings, and the
+ * wallet/goal Float mirrors match their accounts.
+ */
+export const verifyLedger = async (): Promise<LedgerIssues> => {
+  const [unbalanced, postingSums, accounts, unmigratedWallets, unmigratedGoals] = await Promise.all([
+    prisma.posting.groupBy({
+      by: ['journalEntryId'],
+      _sum: { amount: true },
+      having: { amount: { _sum: { not: 0n } } },
+    }),
+    prisma.posting.groupBy({
+      by: ['accountId'],
+      _sum: { amount: true },
+    }),
+    prisma.ledgerAccount.findMany({
+      include: {
+        wallet: { select: { balance: true } },
+        goal: { select: { saved: true } },
+      },
+    }),
+    prisma.wallet.count({ where: { ledgerAccount: null } }),
+    prisma.goal.count({ where: { ledgerAccount: null } }),
+  ]);
+
+  const postingTotals = new Map(postingSums.map(row => [row.accountId, row._sum.amount ?? 0n]));
+
+  const issues: LedgerIssues = {
+    unbalancedEntries: unbalanced.map(row => ({
+      journalEntryId: row.journalEntryId,
+      sum: fromMinor(row._sum.amount ?? 0n),
+    })),
+    staleAccounts: [],
+    mirrorMismatches: [],
+    unmigrated: { wallets: unmigratedWallets, goals: unmigratedGoals },
+  };
+
+  for (const account of accounts) {
+    const postings = postingTotals.get(account.id) ?? 0n;
+    if (account.kind !== 'EXTERNAL' && postings !== account.balance) {
+      issues.staleAccounts.push({
+        accountId: account.id,
+        cached: fromMinor(account.balance),
+        postings: fromMinor(postings),
+      });
+    }
+
+    const mirror = account.wallet?.balance ?? account.goal?.saved;
+    if (mirror !== undefined && toMinor(mirror) !== account.balance) {
+      issues.mirrorMismatches.push({
+        accountId: account.id,
+        walletId: account.walletId,
+        goalId: account.goalId,
+        mirror,
+        ledger: fromMinor(account.balance),
+      });
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,26 @@
+import { NotificationType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+// ================= TYPES =================
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Prisma.InputJsonObject;
+}
+
+// How amounts read in notification messages, e.g. "25.00 USD"
+export const formatAmount = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+/**
+ * Leave a notification in the user's inbox. Pass the caller's transaction so
+ * the notification only exists if the change it describes was committed.
+ */
+export const notify = (
+  userId: string,
+  notification: NotificationInput,
+  client: Prisma.TransactionClient = prisma
+) =>
+  client.notification.create({
+    data: { ...notification, userId },
+  });
@@ -0,0 +1,90 @@
+import { Payee, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { findUserByPhone } from './transferService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+export interface PayeeInput {
+  phone: string;
+  nickname?: string;
+  isFavorite?: boolean;
+}
+
+export const payeeUserSelect = {
+  id: true,
+  phone: true,
+  firstName: true,
+  lastName: true,
+  homeCurrency: true,
+} as const;
+
+type PayeeUser = Prisma.UserGetPayload<{ select: typeof payeeUserSelect }>;
+
+export type PayeeWithUser = Payee & { payeeUser: PayeeUser };
+
+export type PayeeOutcome = { ok: true; payee: PayeeWithUser } | Rejected;
+
+// ================= PAYEES =================
+
+/**
+ * One of the user's saved payees with the user it pays, or null when the
+ * payee isn't theirs.
+ */
+export const findPayee = (client: Prisma.TransactionClient, userId: string, id: string) =>
+  client.payee.findFirst({
+    where: { id, userId },
+    include: { payeeUser: { select: payeeUserSelect } },
+  });
+
+/**
+ * Save someone to the user's payees by phone number. The number has to match
+ * exactly one user, and each person can only be saved once.
+ */
+export const savePayee = async (userId: string, input: PayeeInput): Promise<PayeeOutcome> => {
+  const payeeUser = await findUserByPhone(prisma, input.phone);
+  if (!payeeUser) {
+    return { ok: false, error: 'No user found with that phone number' };
+  }
+  if (payeeUser.id === userId) {
+    return { ok: false, error: 'You can\'t save yourself as a payee' };
+  }
+
+  const existing = await prisma.payee.findUnique({
+    where: { userId_payeeUserId: { userId, payeeUserId: payeeUser.id } },
+  });
+  if (existing) {
+    return { ok: false, error: 'Payee is already saved' };
+  }
+
+  const payee = await prisma.payee.create({
+    data: {
+      nickname: input.nickname ?? null,
+      isFavorite: input.isFavorite ?? false,
+      userId,
+      payeeUserId: payeeUser.id,
+    },
+    include: { payeeUser: { select: payeeUserSelect } },
+  });
+
+  return { ok: true, payee };
+};
+
+/**
+ * Note a completed transfer to a payee: mark it as just used, saving the
+ * receiver as a new payee when `link` is set and they aren't saved yet.
+ */
+export const recordPayeeUse = async (userId: string, payeeUserId: string, link: boolean) => {
+  const lastUsedAt = new Date();
+
+  if (!link) {
+    await prisma.payee.updateMany({ where: { userId, payeeUserId }, data: { lastUsedAt } });
+    return;
+  }
+
+  await prisma.payee.upsert({
+    where: { userId_payeeUserId: { userId, payeeUserId } },
+    create: { userId, payeeUserId, lastUsedAt },
+    update: { lastUsedAt },
+  });
+};
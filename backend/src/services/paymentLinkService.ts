@@ -0,0 +1,95 @@
+import { randomBytes } from 'crypto';
+import { PaymentLink, Prisma } from '@prisma/client';
+import { screenTransfer, ScreenedTransfer } from './riskService.js';
+import { WalletTransfer } from './transferService.js';
+
+// ================= TYPES =================
+// What a link shows: its stored status, or EXPIRED once an active link is past its expiry
+export type PaymentLinkState = PaymentLink['status'] | 'EXPIRED';
+
+// ================= CONFIG =================
+export const PAYMENT_LINK_MAX_EXPIRY_MINUTES = parseInt(process.env.PAYMENT_LINK_MAX_EXPIRY_MINUTES || '129600');
+
+const WEB_APP_URL = (process.env.WEB_APP_URL || 'http://localhost:5173').replace(/\/+$/, '');
+
+const closedReasons: Record<Exclude<PaymentLinkState, 'ACTIVE'>, string> = {
+  USED: 'This payment link has already been used',
+  DISABLED: 'This payment link has been disabled',
+  EXPIRED: 'This payment link has expired',
+};
+
+// ================= LINKS =================
+// A link carries nothing but its random token. Everything it pays, and to
+// whom, is read from the stored link when it is opened.
+
+export const newPaymentLinkToken = () => randomBytes(18).toString('base64url');
+
+export const paymentLinkUrl = (link: Pick<PaymentLink, 'token'>) => `${WEB_APP_URL}/pay/${link.token}`;
+
+export const paymentLinkState = (link: PaymentLink, now = new Date()): PaymentLinkState =>
+  link.status === 'ACTIVE' && link.expiresAt && link.expiresAt <= now ? 'EXPIRED' : link.status;
+
+/**
+ * Why the link can't be paid, or null when it can.
+ */
+export const paymentLinkClosedReason = (link: PaymentLink, now = new Date()) => {
+  const state = paymentLinkState(link, now);
+  return state === 'ACTIVE' ? null : closedReasons[state];
+};
+
+/**
+ * The name a link shows to whoever opens it: a merchant's trading name, or
+ * the creator's first name and last initial. Nothing that identifies their
+ * account is shown before the visitor logs in.
+ */
+export const paymentLinkCreatorName = (creator: {
+  firstName: string | null;
+  lastName: string | null;
+  merchantName: string | null;
+}) => {
+  if (creator.merchantName) return creator.merchantName;
+  const initial = creator.lastName ? ` ${creator.lastName.charAt(0)}.` : '';
+  return creator.firstName ? `${creator.firstName}${initial}` : 'PiggyBank user';
+};
+
+// ================= PAYMENTS =================
+
+/**
+ * Screen and send a transfer through a link inside the caller's transaction.
+ * The link is re-read first, so a single-use link can't be paid twice; it is
+ * used up as soon as a payment is sent or held.
+ */
+export const payThroughLink = async (
+  tx: Prisma.TransactionClient,
+  linkId: string,
+  transfer: WalletTransfer
+): Promise<ScreenedTransfer> => {
+  const link = await tx.paymentLink.findUniqueOrThrow({ where: { id: linkId } });
+  const closed = paymentLinkClosedReason(link);
+  if (closed) return { status: 'REJECTED', error: closed };
+
+  const screened = await screenTransfer(tx, { ...transfer, paymentLinkId: link.id });
+
+  if (screened.status !== 'REJECTED' && link.singleUse) {
+    await tx.paymentLink.update({ where: { id: link.id }, data: { status: 'USED' } });
+  }
+
+  return screened;
+};
+
+/**
+ * Completed payments per link: how many and how much, keyed by link ID.
+ */
+export const summarizeLinkPayments = async (client: Prisma.TransactionClient, linkIds: string[]) => {
+  const rows = await client.transaction.groupBy({
+    by: ['paymentLinkId'],
+    where: { paymentLinkId: { in: linkIds }, status: 'COMPLETED' },
+    _count: { _all: true },
+    _sum: { amount: true },
+  });
+
+  return new Map(rows.map((row) => [
+    row.paymentLinkId!,
+    { paymentCount: row._count._all, totalReceived: row._sum.amount ?? 0 },
+  ]));
+};
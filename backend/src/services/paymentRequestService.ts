@@ -0,0 +1,127 @@
+import { PaymentRequest, PaymentRequestStatus } from '@prisma/client';
+import { prisma, serializableTransaction } from '../config/database.js';
+import { settleBillSplitShare } from './billSplitService.js';
+import { checkTransferLimits } from './riskService.js';
+import { postWalletTransfer, WalletTransferResult } from './transferService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+export type PaymentRequestOutcome = { ok: true; request: PaymentRequest } | Rejected;
+
+export type AcceptedPaymentRequest =
+  | { ok: true; request: PaymentRequest; transfer: Extract<WalletTransferResult, { ok: true }> }
+  | Rejected;
+
+// ================= CONFIG =================
+export const PAYMENT_REQUEST_EXPIRY_DAYS = parseInt(process.env.PAYMENT_REQUEST_EXPIRY_DAYS || '7');
+
+// Names shown on both sides of a request
+export const paymentRequestParties = {
+  requester: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+  payer: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+} as const;
+
+const notPending = (request: PaymentRequest): Rejected => ({
+  ok: false,
+  error: `Payment request is already ${request.status.toLowerCase()}`,
+});
+
+// ================= TRANSITIONS =================
+// A request only ever moves out of PENDING, once. Each transition re-reads the
+// request inside a serializable transaction, so an accept racing a decline or
+// a second accept can't both succeed.
+
+/**
+ * Pay a request: transfer its amount from the payer's wallet to the requester
+ * and mark it ACCEPTED. A request collecting a split bill share also settles
+ * the share. Returns null when the payer has no such request.
+ */
+export const acceptPaymentRequest = (id: string, payerId: string) =>
+  serializableTransaction(async (tx): Promise<AcceptedPaymentRequest | null> => {
+    const request = await tx.paymentRequest.findFirst({
+      where: { id, payerId },
+      include: {
+        requester: { select: { id: true, homeCurrency: true } },
+        billSplitShare: { include: { split: true } },
+      },
+    });
+    if (!request) return null;
+    if (request.status !== 'PENDING') return notPending(request);
+
+    if (request.expiresAt <= new Date()) {
+      await tx.paymentRequest.update({ where: { id }, data: { status: 'EXPIRED' } });
+      return { ok: false, error: 'Payment request has expired' };
+    }
+
+    const limitHit = await checkTransferLimits(tx, {
+      senderId: payerId,
+      amount: request.amount,
+      currency: request.currency,
+    });
+    if (limitHit) return { ok: false, error: limitHit };
+
+    const transfer = await postWalletTransfer(tx, {
+      senderId: payerId,
+      receiver: request.requester,
+      amount: request.amount,
+      currency: request.currency,
+      description: request.note ? `Payment request: ${request.note}` : 'Payment request',
+    });
+    if (!transfer.ok) return transfer;
+
+    const updated = await tx.paymentRequest.update({
+      where: { id },
+      data: {
+        status: 'ACCEPTED',
+        respondedAt: new Date(),
+        transactionId: transfer.transaction.id,
+      },
+    });
+
+    if (request.billSplitShare) {
+      await settleBillSplitShare(tx, request.billSplitShare, transfer.transaction);
+    }
+
+    return { ok: true, request: updated, transfer };
+  });
+
+/**
+ * Close a pending request without paying it: the payer declines it or the
+ * requester cancels it. Returns null when the user has no such request.
+ */
+export const closePaymentRequest = (
+  id: string,
+  userId: string,
+  status: Extract<PaymentRequestStatus, 'DECLINED' | 'CANCELLED'>
+) =>
+  serializableTransaction(async (tx): Promise<PaymentRequestOutcome | null> => {
+    const request = await tx.paymentRequest.findFirst({
+      where: status === 'DECLINED' ? { id, payerId: userId } : { id, requesterId: userId },
+    });
+    if (!request) return null;
+    if (request.status !== 'PENDING') return notPending(request);
+
+    const updated = await tx.paymentRequest.update({
+      where: { id },
+      data: { status, respondedAt: new Date() },
+    });
+
+    return { ok: true, request: updated };
+  });
+
+/**
+ * Mark pending requests past their expiry as EXPIRED, optionally only those
+ * involving one user. Returns the number expired.
+ */
+export const expirePaymentRequests = async (now: Date = new Date(), userId?: string) => {
+  const { count } = await prisma.paymentRequest.updateMany({
+    where: {
+      status: 'PENDING',
+      expiresAt: { lte: now },
+      ...(userId && { OR: [{ payerId: userId }, { requesterId: userId }] }),
+    },
+    data: { status: 'EXPIRED' },
+  });
+  return count;
+};
@@ -0,0 +1,163 @@
+import { Expense, Goal, QrPayment, Transaction, Wallet } from '@prisma/client';
+import { serializableTransaction } from '../config/database.js';
+import { convertWithTable, loadRateTable } from './fxService.js';
+import { deductGoalLedgerEntry } from './goalLedgerService.js';
+import { postTransfer } from './ledgerService.js';
+import { QrPayload } from './qrPayloadService.js';
+import { checkTransferLimits } from './riskService.js';
+import { findGoalAccess } from './sharedGoalService.js';
+import { findWallet, getHomeCurrency } from './walletService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+export interface QrPaymentInput {
+  userId: string;
+  payload: QrPayload;
+  // The scanned text, kept as it was
+  rawData: string;
+  amount: number;
+  // Pay from this goal instead of the wallet
+  goalId?: string;
+  category?: string;
+}
+
+export type QrPaymentOutcome =
+  | {
+      ok: true;
+      qrPayment: QrPayment;
+      transaction: Transaction;
+      expense: Expense;
+      wallet: Wallet | null;
+      goal: Goal | null;
+    }
+  | Rejected;
+
+// ================= CONFIG =================
+export const QR_PAYMENT_CATEGORY = 'Payment';
+
+// ================= PAYMENTS =================
+
+/**
+ * Pay a scanned UPI or EMVCo code out of the app, from the user's wallet in
+ * the code's currency or from a goal they own that saves in it. The debit,
+ * the QR_PAYMENT transaction, the expense and the QrPayment record are written
+ * in one serializable transaction, so either all of them exist or none do.
+ * The expense is converted into the home currency. Payments over the user's
+ * transfer limits are refused.
+ * Returns null when the goal isn't one the user can see.
+ */
+export const payQrCode = (input: QrPaymentInput) =>
+  serializableTransaction(async (tx): Promise<QrPaymentOutcome | null> => {
+    const { userId, payload, amount, goalId } = input;
+    const { currency } = payload;
+    const payee = payload.payeeName || payload.payeeAddress;
+    const description = payload.note ? `${payee}: ${payload.note}` : `QR payment to ${payee}`;
+
+    const limitHit = await checkTransferLimits(tx, { senderId: userId, amount, currency });
+    if (limitHit) return { ok: false, error: limitHit };
+
+    let transaction: Transaction;
+    let wallet: Wallet | null = null;
+    let goal: Goal | null = null;
+    let savingId: string | null = null;
+
+    if (goalId) {
+      const access = await findGoalAccess(tx, goalId, userId);
+      if (!access) return null;
+      if (access.role !== 'OWNER') {
+        return { ok: false, error: 'Only the goal owner can pay from it' };
+      }
+      if (access.goal.currency !== currency) {
+        return { ok: false, error: `This goal saves in ${access.goal.currency}, but the code asks for ${currency}` };
+      }
+
+      const recorded = await deductGoalLedgerEntry(tx, {
+        amount,
+        type: 'GOAL_PAYMENT',
+        date: new Date(),
+        userId,
+        goalId,
+      }, {
+        counterparty: { type: 'EXTERNAL' },
+        transaction: {
+          amount,
+          currency,
+          type: 'QR_PAYMENT',
+          status: 'COMPLETED',
+          description,
+          senderUserId: userId,
+        },
+      });
+      if (!recorded?.transaction) return { ok: false, error: 'Insufficient funds in goal' };
+
+      transaction = recorded.transaction;
+      savingId = recorded.saving.id;
+      goal = await tx.goal.findUniqueOrThrow({ where: { id: goalId } });
+    } else {
+      const source = await findWallet(tx, userId, currency);
+      if (!source) return { ok: false, error: 'Insufficient funds' };
+
+      // The debit is conditional, so concurrent payments can't overdraw the wallet
+      const journalEntry = await postTransfer(tx, {
+        from: { type: 'WALLET', walletId: source.id },
+        to: { type: 'EXTERNAL' },
+        amount,
+        description,
+      });
+      if (!journalEntry) return { ok: false, error: 'Insufficient funds' };
+
+      transaction = await tx.transaction.create({
+        data: {
+          amount,
+          currency,
+          type: 'QR_PAYMENT',
+          status: 'COMPLETED',
+          description,
+          senderWalletId: source.id,
+          senderUserId: userId,
+          journalEntryId: journalEntry.id,
+        },
+      });
+      wallet = await tx.wallet.findUniqueOrThrow({ where: { id: source.id } });
+    }
+
+    // Expenses are kept in the home currency, like budgets and the dashboard
+    const [homeCurrency, table] = await Promise.all([getHomeCurrency(tx, userId), loadRateTable(tx)]);
+    const expense = await tx.expense.create({
+      data: {
+        description,
+        amount: convertWithTable(table, amount, currency, homeCurrency),
+        category: input.category || QR_PAYMENT_CATEGORY,
+        date: new Date(),
+        userId,
+      },
+    });
+
+    if (savingId) {
+      await tx.saving.update({ where: { id: savingId }, data: { expenseId: expense.id } });
+    }
+
+    const qrPayment = await tx.qrPayment.create({
+      data: {
+        format: payload.format,
+        source: goalId ? 'GOAL' : 'WALLET',
+        payeeName: payload.payeeName,
+        payeeAddress: payload.payeeAddress,
+        amount,
+        currency,
+        requestedAmount: payload.amount,
+        note: payload.note,
+        reference: payload.reference,
+        merchantCategoryCode: payload.merchantCategoryCode,
+        merchantCity: payload.merchantCity,
+        rawData: input.rawData,
+        userId,
+        goalId: goalId ?? null,
+        transactionId: transaction.id,
+        expenseId: expense.id,
+      },
+    });
+
+    return { ok: true, qrPayment, transaction, expense, wallet, goal };
+  });
@@ -0,0 +1,107 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+// What a receive-money code asks for: a transfer to the user's wallet in one
+// currency, optionally of a fixed amount and only until it expires
+export interface ReceiveQr {
+  receiverId: string;
+  currency: string;
+  amount: number | null;
+  note: string | null;
+  expiresAt: Date | null;
+}
+
+export type ReceiveQrOutcome = { ok: true; qr: ReceiveQr } | Rejected;
+
+// ================= CONFIG =================
+// Codes are signed with their own secret when one is set, otherwise the JWT secret
+const QR_SIGNING_SECRET = process.env.QR_SIGNING_SECRET || process.env.JWT_SECRET || '';
+export const RECEIVE_QR_MAX_EXPIRY_MINUTES = parseInt(process.env.RECEIVE_QR_MAX_EXPIRY_MINUTES || '10080');
+
+const RECEIVE_QR_PREFIX = 'piggybank://pay?';
+
+// ================= PAYLOADS =================
+
+const payloadQuery = (qr: ReceiveQr) => {
+  const params = new URLSearchParams({ to: qr.receiverId, cu: qr.currency });
+  if (qr.amount !== null) params.set('am', qr.amount.toFixed(2));
+  if (qr.note !== null) params.set('tn', qr.note);
+  if (qr.expiresAt !== null) params.set('exp', String(Math.floor(qr.expiresAt.getTime() / 1000)));
+  return params.toString();
+};
+
+const sign = (query: string) =>
+  createHmac('sha256', QR_SIGNING_SECRET).update(query).digest('base64url');
+
+// Whether a scanned payload is one of our receive-money codes, valid or not
+export const isReceiveQr = (payload: string) => payload.trim().startsWith(RECEIVE_QR_PREFIX);
+
+/**
+ * The text a receive-money code holds: a piggybank://pay link carrying the
+ * receiver, currency, any fixed amount, note and expiry, and an HMAC of them.
+ */
+export const encodeReceiveQr = (qr: ReceiveQr): string => {
+  const query = payloadQuery(qr);
+  return `${RECEIVE_QR_PREFIX}${query}&sig=${sign(query)}`;
+};
+
+/**
+ * Read a scanned receive-money code back. The signature has to match the
+ * fields exactly, so edited codes are refused, and so are expired ones.
+ */
+export const decodeReceiveQr = (payload: string): ReceiveQrOutcome => {
+  const data = payload.trim();
+  if (!data.startsWith(RECEIVE_QR_PREFIX)) {
+    return { ok: false, error: 'Not a PiggyBank payment code' };
+  }
+
+  // The signature covers the query exactly as it was encoded
+  const sigAt = data.lastIndexOf('&sig=');
+  if (sigAt < 0) {
+    return { ok: false, error: 'Malformed payment code' };
+  }
+  const query = data.slice(RECEIVE_QR_PREFIX.length, sigAt);
+
+  const expected = Buffer.from(sign(query));
+  const provided = Buffer.from(data.slice(sigAt + '&sig='.length));
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { ok: false, error: 'Payment code signature is invalid' };
+  }
+
+  const params = new URLSearchParams(query);
+  const receiverId = params.get('to');
+  const currency = params.get('cu');
+  if (!receiverId || !currency) {
+    return { ok: false, error: 'Malformed payment code' };
+  }
+
+  const amount = params.get('am');
+  const expiry = params.get('exp');
+  const qr: ReceiveQr = {
+    receiverId,
+    currency,
+    amount: amount !== null ? parseFloat(amount) : null,
+    note: params.get('tn'),
+    expiresAt: expiry !== null ? new Date(parseInt(expiry) * 1000) : null,
+  };
+
+  if (qr.expiresAt && qr.expiresAt.getTime() <= Date.now()) {
+    return { ok: false, error: 'Payment code has expired' };
+  }
+
+  return { ok: true, qr };
+};
+
+/**
+ * Draw a payload as a QR code, as SVG markup and as a PNG data URL.
+ */
+export const renderQr = async (payload: string) => {
+  const [svg, png] = await Promise.all([
+    QRCode.toString(payload, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 }),
+    QRCode.toDataURL(payload, { errorCorrectionLevel: 'M', margin: 2, width: 320 }),
+  ]);
+  return { svg, png };
+};
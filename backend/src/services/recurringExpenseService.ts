@@ -0,0 +1,103 @@
+import { RecurringExpense } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { nextOccurrence } from '../utils/recurrence.js';
+
+// Templates picked up per scheduler tick
+const BATCH_SIZE = 100;
+
+// Missed occurrences posted per template per tick (e.g. after long downtime)
+const MAX_CATCH_UP = 366;
+
+/**
+ * Post the template's current occurrence as an Expense and advance it.
+ *
+ * The template row is claimed with a conditional update on `nextRunAt`, and
+ * the expense is unique per (template, date), so an occurrence is posted at
+ * most once even if two scheduler runs overlap or the process restarts
+ * mid-run. Returns the advanced template, or null if someone else got there first.
+ */
+const postOccurrence = async (template: RecurringExpense) => {
+  const next = nextOccurrence(template, template.occurrenceIndex);
+
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.recurringExpense.updateMany({
+      where: {
+        id: template.id,
+        nextRunAt: template.nextRunAt,
+        isActive: true,
+        isPaused: false,
+      },
+      data: {
+        ...next,
+        lastRunAt: template.nextRunAt,
+      },
+    });
+
+    if (claimed.count === 0) return null;
+
+    await tx.expense.createMany({
+      data: [{
+        description: template.description,
+        amount: template.amount,
+        category: template.category,
+        date: template.nextRunAt,
+        userId: template.userId,
+        recurringExpenseId: template.id,
+      }],
+      skipDuplicates: true,
+    });
+
+    return tx.recurringExpense.findUnique({ where: { id: template.id } });
+  });
+};
+
+/**
+ * Materialize every due occurrence of active, unpaused templates.
+ * Returns the number of expenses posted.
+ */
+export const processDueRecurringExpenses = async (now: Date = new Date()) => {
+  const due = await prisma.recurringExpense.findMany({
+    where: { isActive: true, isPaused: false, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let posted = 0;
+
+  for (const template of due) {
+    let current: RecurringExpense | null = template;
+    let runs = 0;
+
+    while (
+      current &&
+      current.isActive &&
+      current.nextRunAt <= now &&
+      runs < MAX_CATCH_UP
+    ) {
+      try {
+        current = await postOccurrence(current);
+        if (current) posted++;
+        runs++;
+      } catch (error) {
+        console.error(`Recurring expense ${template.id} failed:`, error);
+        break;
+      }
+    }
+  }
+
+  return posted;
+};
+
+/**
+ * Move past the next occurrence without posting it.
+ */
+export const skipNextOccurrence = async (template: RecurringExpense) => {
+  const next = nextOccurrence(template, template.occurrenceIndex);
+
+  const skipped = await prisma.recurringExpense.updateMany({
+    where: { id: template.id, nextRunAt: template.nextRunAt },
+    data: next,
+  });
+
+  return skipped.count > 0;
+};
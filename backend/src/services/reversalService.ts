@@ -0,0 +1,258 @@
+import { Prisma, ReversalRequest, ReversalRequestStatus, Transaction } from '@prisma/client';
+import { serializableTransaction } from '../config/database.js';
+import { postTransfer } from './ledgerService.js';
+import { formatAmount, notify } from './notificationService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+export type ReversalOutcome = { ok: true; request: ReversalRequest } | Rejected;
+
+export type ApprovedReversal =
+  | { ok: true; request: ReversalRequest; compensation: Transaction }
+  | Rejected;
+
+// Who is deciding on a request: the receiver of the transfer, or an operator
+export type ReversalApprover = { role: 'RECEIVER'; userId: string } | { role: 'ADMIN' };
+
+// ================= CONFIG =================
+// How long after a transaction its sender can ask for it to be reversed
+export const REVERSAL_WINDOW_DAYS = parseInt(process.env.REVERSAL_WINDOW_DAYS || '7');
+// Reversal requests a user can file in any rolling 30 days
+export const REVERSAL_MAX_PER_MONTH = parseInt(process.env.REVERSAL_MAX_PER_MONTH || '3');
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Original transaction and its sender, shown with each request
+export const reversalRequestDetails = {
+  transaction: true,
+  requester: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+} as const;
+
+// An invoice payment is undone by the merchant's refund, which also closes the invoice
+const invoicePayment: Rejected = { ok: false, error: 'Invoice payments can only be refunded by the merchant' };
+
+const notPending = (request: ReversalRequest): Rejected => ({
+  ok: false,
+  error: `Reversal request is already ${request.status.toLowerCase()}`,
+});
+
+// Requests the approver is allowed to decide on
+const approvableBy = (approver: ReversalApprover): Prisma.ReversalRequestWhereInput =>
+  approver.role === 'ADMIN'
+    ? {}
+    : { transaction: { type: 'TRANSFER', receiverUserId: approver.userId } };
+
+// ================= FILING =================
+
+/**
+ * Ask for one of the user's own completed transfers or withdrawals to be
+ * reversed, within REVERSAL_WINDOW_DAYS of it and REVERSAL_MAX_PER_MONTH
+ * requests. Invoice payments go through the merchant's refund instead.
+ * Returns null when the user sent no such transaction.
+ */
+export const fileReversalRequest = (transactionId: string, userId: string, reason: string) =>
+  serializableTransaction(async (tx): Promise<ReversalOutcome | null> => {
+    const transaction = await tx.transaction.findFirst({
+      where: { id: transactionId, senderUserId: userId },
+      include: { reversedBy: { select: { id: true } } },
+    });
+    if (!transaction) return null;
+
+    if (transaction.type !== 'TRANSFER' && transaction.type !== 'WITHDRAWAL') {
+      return { ok: false, error: 'Only transfers and withdrawals can be reversed' };
+    }
+    if (transaction.invoiceId) return invoicePayment;
+    if (transaction.status !== 'COMPLETED' || transaction.reversalOfId) {
+      return { ok: false, error: 'Only completed transactions can be reversed' };
+    }
+    if (transaction.reversedBy) {
+      return { ok: false, error: 'Transaction has already been reversed' };
+    }
+
+    const now = Date.now();
+    if (transaction.createdAt.getTime() < now - REVERSAL_WINDOW_DAYS * DAY_MS) {
+      return { ok: false, error: `Reversals must be requested within ${REVERSAL_WINDOW_DAYS} days` };
+    }
+
+    const [open, recent] = await Promise.all([
+      tx.reversalRequest.count({ where: { transactionId, status: 'PENDING' } }),
+      tx.reversalRequest.count({
+        where: { requesterId: userId, createdAt: { gte: new Date(now - 30 * DAY_MS) } },
+      }),
+    ]);
+    if (open > 0) {
+      return { ok: false, error: 'A reversal is already pending for this transaction' };
+    }
+    if (recent >= REVERSAL_MAX_PER_MONTH) {
+      return { ok: false, error: `You can request at most ${REVERSAL_MAX_PER_MONTH} reversals in 30 days` };
+    }
+
+    const request = await tx.reversalRequest.create({
+      data: { reason, transactionId, requesterId: userId },
+    });
+
+    // Withdrawals have no receiver; they wait for an admin
+    if (transaction.type === 'TRANSFER' && transaction.receiverUserId) {
+      await notify(transaction.receiverUserId, {
+        type: 'REVERSAL_REQUESTED',
+        title: 'Reversal requested',
+        message: `A transfer of ${formatAmount(transaction.amount, transaction.currency)} you received was sent by mistake. Please review the request to return it.`,
+        data: { reversalRequestId: request.id, transactionId },
+      }, tx);
+    }
+
+    return { ok: true, request };
+  });
+
+// ================= TRANSITIONS =================
+// As with payment requests, a reversal request leaves PENDING once, and every
+// transition re-reads it inside a serializable transaction.
+
+/**
+ * Undo the original transaction with a linked compensating one, and mark the
+ * request APPROVED. A transfer is returned from the receiver's wallet (which
+ * must still hold the amount they were credited) as a REVERSED transaction;
+ * a withdrawal is credited back to the wallet as a REFUNDED one. Returns null
+ * when the approver can't see the request.
+ */
+export const approveReversalRequest = (id: string, approver: ReversalApprover) =>
+  serializableTransaction(async (tx): Promise<ApprovedReversal | null> => {
+    const request = await tx.reversalRequest.findFirst({
+      where: { id, ...approvableBy(approver) },
+      include: { transaction: { include: { reversedBy: { select: { id: true } } } } },
+    });
+    if (!request) return null;
+    if (request.status !== 'PENDING') return notPending(request);
+
+    const original = request.transaction;
+    if (original.reversedBy) {
+      return { ok: false, error: 'Transaction has already been reversed' };
+    }
+    if (original.invoiceId) return invoicePayment;
+    if (!original.senderWalletId) {
+      return { ok: false, error: 'The original wallet no longer exists' };
+    }
+
+    const description = `Reversal of ${original.description ?? original.type.toLowerCase()}`;
+    let compensation: Prisma.TransactionUncheckedCreateInput;
+
+    if (original.type === 'TRANSFER') {
+      if (!original.receiverWalletId) {
+        return { ok: false, error: 'The receiving wallet no longer exists' };
+      }
+
+      // Take back what the receiver was credited and return what the sender paid
+      const credited = original.convertedAmount ?? original.amount;
+      const creditedCurrency = original.convertedCurrency ?? original.currency;
+      const converted = creditedCurrency !== original.currency;
+
+      const journalEntry = await postTransfer(tx, {
+        from: { type: 'WALLET', walletId: original.receiverWalletId },
+        to: { type: 'WALLET', walletId: original.senderWalletId },
+        amount: credited,
+        description,
+        ...(converted && { converted: { amount: original.amount, currency: original.currency } }),
+      });
+      if (!journalEntry) {
+        return { ok: false, error: 'The receiver no longer has enough funds to return this transfer' };
+      }
+
+      compensation = {
+        amount: credited,
+        currency: creditedCurrency,
+        type: 'TRANSFER',
+        status: 'REVERSED',
+        description,
+        senderWalletId: original.receiverWalletId,
+        senderUserId: original.receiverUserId,
+        receiverWalletId: original.senderWalletId,
+        receiverUserId: original.senderUserId,
+        journalEntryId: journalEntry.id,
+        ...(converted && {
+          convertedAmount: original.amount,
+          convertedCurrency: original.currency,
+        }),
+      };
+    } else {
+      const journalEntry = await postTransfer(tx, {
+        from: { type: 'EXTERNAL' },
+        to: { type: 'WALLET', walletId: original.senderWalletId },
+        amount: original.amount,
+        currency: original.currency,
+        description,
+      });
+      if (!journalEntry) return { ok: false, error: 'Failed to refund withdrawal' };
+
+      compensation = {
+        amount: original.amount,
+        currency: original.currency,
+        type: 'WITHDRAWAL',
+        status: 'REFUNDED',
+        description,
+        receiverWalletId: original.senderWalletId,
+        receiverUserId: original.senderUserId,
+        journalEntryId: journalEntry.id,
+      };
+    }
+
+    const created = await tx.transaction.create({
+      data: { ...compensation, reversalOfId: original.id },
+    });
+
+    const updated = await tx.reversalRequest.update({
+      where: { id },
+      data: { status: 'APPROVED', resolvedBy: approver.role, respondedAt: new Date() },
+    });
+
+    await notify(request.requesterId, {
+      type: 'REVERSAL_APPROVED',
+      title: 'Reversal approved',
+      message: `Your ${original.type === 'TRANSFER' ? 'transfer' : 'withdrawal'} of ${formatAmount(original.amount, original.currency)} was reversed and the money is back in your wallet.`,
+      data: { reversalRequestId: id, transactionId: original.id, reversalTransactionId: created.id },
+    }, tx);
+
+    return { ok: true, request: updated, compensation: created };
+  });
+
+const closeReversalRequest = (
+  where: Prisma.ReversalRequestWhereInput,
+  status: Extract<ReversalRequestStatus, 'REJECTED' | 'CANCELLED'>,
+  resolvedBy?: ReversalApprover['role']
+) =>
+  serializableTransaction(async (tx): Promise<ReversalOutcome | null> => {
+    const request = await tx.reversalRequest.findFirst({ where, include: { transaction: true } });
+    if (!request) return null;
+    if (request.status !== 'PENDING') return notPending(request);
+
+    const updated = await tx.reversalRequest.update({
+      where: { id: request.id },
+      data: { status, respondedAt: new Date(), ...(resolvedBy && { resolvedBy }) },
+    });
+
+    if (status === 'REJECTED') {
+      const { transaction } = request;
+      await notify(request.requesterId, {
+        type: 'REVERSAL_REJECTED',
+        title: 'Reversal rejected',
+        message: `Your request to reverse ${formatAmount(transaction.amount, transaction.currency)} was rejected.`,
+        data: { reversalRequestId: request.id, transactionId: transaction.id },
+      }, tx);
+    }
+
+    return { ok: true, request: updated };
+  });
+
+/**
+ * Turn down a pending request; the sender is notified. Returns null when the
+ * approver can't see the request.
+ */
+export const rejectReversalRequest = (id: string, approver: ReversalApprover) =>
+  closeReversalRequest({ id, ...approvableBy(approver) }, 'REJECTED', approver.role);
+
+/**
+ * Withdraw a pending request the user filed. Returns null when they have no
+ * such request.
+ */
+export const cancelReversalRequest = (id: string, userId: string) =>
+  closeReversalRequest({ id, requesterId: userId }, 'CANCELLED');
@@ -0,0 +1,550 @@
+import {
+  Prisma,
+  RiskDecision,
+  RiskOutcome,
+  RiskPolicy,
+  RiskRuleType,
+  Transaction,
+  TransactionType,
+} from '@prisma/client';
+import { prisma, serializableTransaction } from '../config/database.js';
+import { FX_BASE_CURRENCY, FxRateTable, convertWithTable, loadRateTable } from './fxService.js';
+import { postWalletTransfer, WalletTransfer, WalletTransferResult } from './transferService.js';
+import { formatAmount, notify } from './notificationService.js';
+import { findWallet } from './walletService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+export interface RiskReason {
+  rule: RiskRuleType | 'LIMIT' | 'PARENT_APPROVAL';
+  score: number;
+  detail: string;
+}
+
+export interface RiskAssessment {
+  outcome: RiskOutcome;
+  score: number;
+  reasons: RiskReason[];
+}
+
+export type ScreenedTransfer =
+  | { status: 'SENT'; transfer: Extract<WalletTransferResult, { ok: true }>; decision: RiskDecision }
+  | { status: 'HELD'; transaction: Transaction; decision: RiskDecision }
+  | { status: 'REJECTED'; error: string };
+
+export type SettledHold =
+  | { ok: true; decision: RiskDecision; transfer: Extract<WalletTransferResult, { ok: true }> }
+  | Rejected;
+
+export type ClosedHold = { ok: true; decision: RiskDecision; transaction: Transaction } | Rejected;
+
+// The sender confirming or cancelling their own held transfer, the parent of
+// a child sender deciding on it, or an operator reviewing it
+export type HoldActor =
+  | { role: 'SENDER'; userId: string }
+  | { role: 'PARENT'; userId: string }
+  | { role: 'ADMIN' };
+
+export interface EffectiveRiskRule {
+  type: RiskRuleType;
+  isEnabled: boolean;
+  score: number;
+  params: Record<string, number>;
+}
+
+export type TransferLimits = Pick<RiskPolicy, 'dailyLimit' | 'weeklyLimit' | 'monthlyLimit'>;
+
+// ================= CONFIG =================
+// Used until an admin saves the policy or a rule; stored rows override these.
+//   VELOCITY                  maxTransfers within windowMinutes
+//   NEW_PAYEE                 first transfer to someone, of at least minAmount
+//   LARGE_AMOUNT              over multiplier x the average of the last lookbackDays,
+//                             once there are minHistory transfers to compare with
+//   REPEATED_SMALL_TRANSFERS  minCount transfers of at most maxAmount to the same
+//                             person within windowHours
+export const DEFAULT_RISK_RULES: EffectiveRiskRule[] = [
+  { type: 'VELOCITY', isEnabled: true, score: 40, params: { maxTransfers: 5, windowMinutes: 60 } },
+  { type: 'NEW_PAYEE', isEnabled: true, score: 20, params: { minAmount: 100 } },
+  { type: 'LARGE_AMOUNT', isEnabled: true, score: 40, params: { multiplier: 3, lookbackDays: 90, minHistory: 3 } },
+  { type: 'REPEATED_SMALL_TRANSFERS', isEnabled: true, score: 40, params: { maxAmount: 50, minCount: 4, windowHours: 24 } },
+];
+
+export const DEFAULT_RISK_POLICY = {
+  dailyLimit: parseFloat(process.env.TRANSFER_DAILY_LIMIT || '2000'),
+  weeklyLimit: parseFloat(process.env.TRANSFER_WEEKLY_LIMIT || '5000'),
+  monthlyLimit: parseFloat(process.env.TRANSFER_MONTHLY_LIMIT || '10000'),
+  confirmScore: 40,
+  reviewScore: 80,
+};
+
+const MINUTE_MS = 1000 * 60;
+const HOUR_MS = MINUTE_MS * 60;
+const DAY_MS = HOUR_MS * 24;
+
+const LIMIT_PERIODS = [
+  { key: 'dailyLimit', label: 'Daily', days: 1 },
+  { key: 'weeklyLimit', label: 'Weekly', days: 7 },
+  { key: 'monthlyLimit', label: '30-day', days: 30 },
+] as const;
+
+// Money the user pays to someone else, in or out of the app, counts towards
+// their limits; deposits, withdrawals to their own bank and moves between their
+// wallets and goals don't
+const OUTGOING_TYPES: TransactionType[] = ['TRANSFER', 'QR_PAYMENT', 'GOAL_PAYMENT'];
+
+const usd = (amount: number) => `${amount.toFixed(2)} ${FX_BASE_CURRENCY}`;
+
+// ================= CONFIGURATION =================
+
+export const getRiskPolicy = async (client: Prisma.TransactionClient = prisma) => {
+  const stored = await client.riskPolicy.findUnique({ where: { id: 'default' } });
+  return stored ?? { id: 'default', ...DEFAULT_RISK_POLICY, updatedAt: null };
+};
+
+/**
+ * Every rule type with its stored settings, falling back to the defaults for
+ * rules (and params) that were never saved.
+ */
+export const getRiskRules = async (client: Prisma.TransactionClient = prisma): Promise<EffectiveRiskRule[]> => {
+  const stored = await client.riskRule.findMany();
+  const byType = new Map(stored.map(rule => [rule.type, rule]));
+
+  return DEFAULT_RISK_RULES.map((defaults) => {
+    const rule = byType.get(defaults.type);
+    if (!rule) return defaults;
+    return {
+      type: rule.type,
+      isEnabled: rule.isEnabled,
+      score: rule.score,
+      params: { ...defaults.params, ...(rule.params as Record<string, number>) },
+    };
+  });
+};
+
+/**
+ * The user's limits: their own overrides, else the policy's.
+ */
+export const getTransferLimits = async (
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<TransferLimits> => {
+  const [policy, override] = await Promise.all([
+    getRiskPolicy(client),
+    client.transferLimit.findUnique({ where: { userId } }),
+  ]);
+
+  return {
+    dailyLimit: override?.dailyLimit ?? policy.dailyLimit,
+    weeklyLimit: override?.weeklyLimit ?? policy.weeklyLimit,
+    monthlyLimit: override?.monthlyLimit ?? policy.monthlyLimit,
+  };
+};
+
+// ================= HISTORY =================
+
+interface SentTransfer {
+  usd: number;
+  receiverUserId: string | null;
+  createdAt: Date;
+}
+
+// Payments the user has sent or has pending since `since`, in USD
+const loadSentTransfers = async (
+  client: Prisma.TransactionClient,
+  table: FxRateTable,
+  senderId: string,
+  since: Date,
+  excludeTransactionId?: string
+): Promise<SentTransfer[]> => {
+  const sent = await client.transaction.findMany({
+    where: {
+      senderUserId: senderId,
+      type: { in: OUTGOING_TYPES },
+      status: { in: ['COMPLETED', 'PENDING'] },
+      createdAt: { gte: since },
+      ...(excludeTransactionId && { id: { not: excludeTransactionId } }),
+    },
+    select: { amount: true, currency: true, receiverUserId: true, createdAt: true },
+  });
+
+  return sent.map(row => ({
+    usd: convertWithTable(table, row.amount, row.currency, FX_BASE_CURRENCY),
+    receiverUserId: row.receiverUserId,
+    createdAt: row.createdAt,
+  }));
+};
+
+const sentSince = (history: SentTransfer[], since: number) =>
+  history.filter(row => row.createdAt.getTime() >= since);
+
+const sumUsd = (rows: SentTransfer[]) => rows.reduce((sum, row) => sum + row.usd, 0);
+
+const exceededLimit = (history: SentTransfer[], amountUsd: number, limits: TransferLimits, now: number) => {
+  for (const period of LIMIT_PERIODS) {
+    const used = sumUsd(sentSince(history, now - period.days * DAY_MS));
+    const limit = limits[period.key];
+    if (used + amountUsd > limit) {
+      return `${period.label} transfer limit of ${usd(limit)} reached (${usd(used)} already sent)`;
+    }
+  }
+  return null;
+};
+
+/**
+ * How much of each limit the user has used, in USD.
+ */
+export const getLimitUsage = async (userId: string) => {
+  const [limits, table] = await Promise.all([getTransferLimits(userId), loadRateTable()]);
+  const now = Date.now();
+  const history = await loadSentTransfers(prisma, table, userId, new Date(now - 30 * DAY_MS));
+
+  return {
+    currency: FX_BASE_CURRENCY,
+    periods: LIMIT_PERIODS.map(period => {
+      const used = sumUsd(sentSince(history, now - period.days * DAY_MS));
+      return {
+        period: period.key.replace('Limit', ''),
+        limit: limits[period.key],
+        used: Math.round(used * 100) / 100,
+        remaining: Math.max(0, Math.round((limits[period.key] - used) * 100) / 100),
+      };
+    }),
+  };
+};
+
+/**
+ * Check a transfer against the sender's limits only, for transfers the user
+ * set up earlier (scheduled transfers, payment requests) and for payments
+ * that leave through an invoice or QR code. Pass the pending transaction being
+ * completed so it isn't counted twice. These can't be held for a parent, so a
+ * child's transfer above their approval threshold is refused. Returns the
+ * reason it is over a limit, or null.
+ */
+export const checkTransferLimits = async (
+  client: Prisma.TransactionClient,
+  transfer: { senderId: string; amount: number; currency: string; excludeTransactionId?: string }
+) => {
+  const now = Date.now();
+  const [limits, table, child] = await Promise.all([
+    getTransferLimits(transfer.senderId, client),
+    loadRateTable(client),
+    client.childProfile.findUnique({ where: { userId: transfer.senderId } }),
+  ]);
+  const history = await loadSentTransfers(
+    client, table, transfer.senderId, new Date(now - 30 * DAY_MS), transfer.excludeTransactionId
+  );
+  const amountUsd = convertWithTable(table, transfer.amount, transfer.currency, FX_BASE_CURRENCY);
+
+  if (child && amountUsd > child.approvalThreshold) {
+    return `Payments over ${usd(child.approvalThreshold)} need a parent's approval; send it as a transfer instead`;
+  }
+  return exceededLimit(history, amountUsd, limits, now);
+};
+
+// ================= SCORING =================
+
+/**
+ * Check a transfer against the sender's limits and score it with the enabled
+ * rules. Over a limit is BLOCK; otherwise the score decides between ALLOW and
+ * holding it for the sender to confirm or for an admin to review. A child's
+ * transfer above their approval threshold is held for their parent instead,
+ * unless it already needs an admin's review.
+ */
+export const assessTransfer = async (
+  client: Prisma.TransactionClient,
+  transfer: { senderId: string; receiverId: string; amount: number; currency: string }
+): Promise<RiskAssessment> => {
+  const now = Date.now();
+  const [policy, rules, limits, table, child, paidBefore] = await Promise.all([
+    getRiskPolicy(client),
+    getRiskRules(client),
+    getTransferLimits(transfer.senderId, client),
+    loadRateTable(client),
+    client.childProfile.findUnique({ where: { userId: transfer.senderId } }),
+    client.transaction.count({
+      where: {
+        senderUserId: transfer.senderId,
+        receiverUserId: transfer.receiverId,
+        type: 'TRANSFER',
+        status: 'COMPLETED',
+      },
+    }),
+  ]);
+
+  const param = (type: RiskRuleType, key: string) =>
+    rules.find(rule => rule.type === type)?.params[key] ?? 0;
+
+  // Look back far enough for the limits and every rule's window
+  const lookbackMs = Math.max(
+    30 * DAY_MS,
+    param('LARGE_AMOUNT', 'lookbackDays') * DAY_MS,
+    param('REPEATED_SMALL_TRANSFERS', 'windowHours') * HOUR_MS,
+    param('VELOCITY', 'windowMinutes') * MINUTE_MS
+  );
+  const history = await loadSentTransfers(client, table, transfer.senderId, new Date(now - lookbackMs));
+  const amountUsd = convertWithTable(table, transfer.amount, transfer.currency, FX_BASE_CURRENCY);
+
+  const limitHit = exceededLimit(history, amountUsd, limits, now);
+  if (limitHit) {
+    return { outcome: 'BLOCK', score: 0, reasons: [{ rule: 'LIMIT', score: 0, detail: limitHit }] };
+  }
+
+  const reasons: RiskReason[] = [];
+
+  for (const rule of rules) {
+    if (!rule.isEnabled) continue;
+    const p = rule.params;
+    let detail: string | null = null;
+
+    switch (rule.type) {
+      case 'VELOCITY': {
+        const recent = sentSince(history, now - (p.windowMinutes ?? 0) * MINUTE_MS).length;
+        if (recent >= (p.maxTransfers ?? Infinity)) {
+          detail = `${recent} transfers in the last ${p.windowMinutes} minutes`;
+        }
+        break;
+      }
+      case 'NEW_PAYEE':
+        if (paidBefore === 0 && amountUsd >= (p.minAmount ?? 0)) {
+          detail = 'First transfer to this recipient';
+        }
+        break;
+      case 'LARGE_AMOUNT': {
+        const past = sentSince(history, now - (p.lookbackDays ?? 0) * DAY_MS);
+        if (past.length >= (p.minHistory ?? 1) && past.length > 0) {
+          const average = sumUsd(past) / past.length;
+          if (average > 0 && amountUsd > average * (p.multiplier ?? Infinity)) {
+            detail = `Amount is ${(amountUsd / average).toFixed(1)}x the usual transfer`;
+          }
+        }
+        break;
+      }
+      case 'REPEATED_SMALL_TRANSFERS': {
+        if (amountUsd > (p.maxAmount ?? 0)) break;
+        const small = sentSince(history, now - (p.windowHours ?? 0) * HOUR_MS).filter(row =>
+          row.receiverUserId === transfer.receiverId && row.usd <= (p.maxAmount ?? 0)
+        ).length + 1;
+        if (small >= (p.minCount ?? Infinity)) {
+          detail = `${small} small transfers to the same recipient within ${p.windowHours} hours`;
+        }
+        break;
+      }
+    }
+
+    if (detail) reasons.push({ rule: rule.type, score: rule.score, detail });
+  }
+
+  const score = reasons.reduce((sum, reason) => sum + reason.score, 0);
+  let outcome: RiskOutcome = score >= policy.reviewScore
+    ? 'HOLD_REVIEW'
+    : score >= policy.confirmScore ? 'HOLD_CONFIRM' : 'ALLOW';
+
+  if (child && amountUsd > child.approvalThreshold && outcome !== 'HOLD_REVIEW') {
+    outcome = 'HOLD_PARENT';
+    reasons.push({
+      rule: 'PARENT_APPROVAL',
+      score: 0,
+      detail: `Over the ${usd(child.approvalThreshold)} a parent has to approve`,
+    });
+  }
+
+  return { outcome, score, reasons };
+};
+
+// ================= SCREENED TRANSFERS =================
+
+/**
+ * Assess a user-to-user transfer inside the caller's transaction and act on
+ * the result: send it, hold it as a PENDING transaction, or refuse it. The
+ * decision is recorded for everything but transfers that fail for lack of funds.
+ */
+export const screenTransfer = async (
+  tx: Prisma.TransactionClient,
+  transfer: WalletTransfer
+): Promise<ScreenedTransfer> => {
+  const { senderId, receiver, amount, currency, description } = transfer;
+
+  const assessment = await assessTransfer(tx, { senderId, receiverId: receiver.id, amount, currency });
+  const decision = {
+    amount,
+    currency,
+    score: assessment.score,
+    outcome: assessment.outcome,
+    reasons: assessment.reasons as unknown as Prisma.InputJsonArray,
+    userId: senderId,
+    receiverId: receiver.id,
+  };
+
+  if (assessment.outcome === 'BLOCK') {
+    await tx.riskDecision.create({ data: decision });
+    return { status: 'REJECTED', error: assessment.reasons[0]?.detail ?? 'Transfer limit reached' };
+  }
+
+  if (assessment.outcome === 'ALLOW') {
+    const sent = await postWalletTransfer(tx, transfer);
+    if (!sent.ok) return { status: 'REJECTED', error: sent.error };
+
+    const recorded = await tx.riskDecision.create({
+      data: { ...decision, transactionId: sent.transaction.id },
+    });
+    return { status: 'SENT', transfer: sent, decision: recorded };
+  }
+
+  // Nothing moves until the hold is released, but there's no point holding
+  // what the wallet can't cover
+  const wallet = await findWallet(tx, senderId, currency);
+  if (!wallet || wallet.balance < amount) {
+    return { status: 'REJECTED', error: 'Insufficient funds' };
+  }
+
+  const held = await tx.transaction.create({
+    data: {
+      amount,
+      currency,
+      type: 'TRANSFER',
+      status: 'PENDING',
+      description,
+      senderUserId: senderId,
+      receiverUserId: receiver.id,
+      ...(transfer.paymentLinkId && { paymentLinkId: transfer.paymentLinkId }),
+    },
+  });
+  const recorded = await tx.riskDecision.create({
+    data: { ...decision, transactionId: held.id },
+  });
+
+  if (assessment.outcome === 'HOLD_PARENT') {
+    const child = await tx.childProfile.findUniqueOrThrow({ where: { userId: senderId }, include: { user: true } });
+    const name = child.user.firstName || child.user.email;
+    await notify(child.parentId, {
+      type: 'CHILD_APPROVAL_REQUESTED',
+      title: 'Transfer waiting for your approval',
+      message: `${name} wants to send ${formatAmount(amount, currency)}: ${description}.`,
+      data: { transactionId: held.id, childId: senderId },
+    }, tx);
+  }
+
+  return { status: 'HELD', transaction: held, decision: recorded };
+};
+
+// ================= HOLDS =================
+// A held transfer is released once: the sender confirms it (HOLD_CONFIRM only),
+// the child sender's parent approves it (HOLD_PARENT only) or an admin approves
+// it, or it is cancelled or declined. Each re-reads the hold inside a
+// serializable transaction.
+
+const findHold = (tx: Prisma.TransactionClient, transactionId: string, actor: HoldActor) =>
+  tx.riskDecision.findFirst({
+    where: {
+      transactionId,
+      outcome: { in: actor.role === 'PARENT' ? ['HOLD_PARENT'] : ['HOLD_CONFIRM', 'HOLD_REVIEW', 'HOLD_PARENT'] },
+      ...(actor.role === 'SENDER' && { userId: actor.userId }),
+      ...(actor.role === 'PARENT' && { user: { childProfile: { parentId: actor.userId } } }),
+    },
+    include: { transaction: true },
+  });
+
+// Let a child know what their parent decided
+const notifyChild = (tx: Prisma.TransactionClient, transaction: Transaction, approved: boolean) =>
+  notify(transaction.senderUserId!, approved
+    ? {
+      type: 'CHILD_TRANSFER_APPROVED',
+      title: 'Transfer approved',
+      message: `Your transfer of ${formatAmount(transaction.amount, transaction.currency)} was approved and sent.`,
+      data: { transactionId: transaction.id },
+    }
+    : {
+      type: 'CHILD_TRANSFER_DECLINED',
+      title: 'Transfer declined',
+      message: `Your transfer of ${formatAmount(transaction.amount, transaction.currency)} was declined.`,
+      data: { transactionId: transaction.id },
+    }, tx);
+
+/**
+ * Send a held transfer. Returns null when the actor can't see the hold.
+ */
+export const releaseHeldTransfer = (transactionId: string, actor: HoldActor) =>
+  serializableTransaction(async (tx): Promise<SettledHold | null> => {
+    const hold = await findHold(tx, transactionId, actor);
+    if (!hold?.transaction) return null;
+
+    if (hold.resolution || hold.transaction.status !== 'PENDING') {
+      return { ok: false, error: 'Transfer is no longer on hold' };
+    }
+    if (actor.role === 'SENDER' && hold.outcome === 'HOLD_REVIEW') {
+      return { ok: false, error: 'Transfer is waiting for review' };
+    }
+    if (actor.role === 'SENDER' && hold.outcome === 'HOLD_PARENT') {
+      return { ok: false, error: 'Transfer is waiting for a parent\'s approval' };
+    }
+
+    const receiver = hold.receiverId
+      ? await tx.user.findUnique({ where: { id: hold.receiverId }, select: { id: true, homeCurrency: true } })
+      : null;
+    if (!receiver) return { ok: false, error: 'Receiver not found' };
+
+    const { transaction } = hold;
+    const sent = await postWalletTransfer(tx, {
+      senderId: hold.userId,
+      receiver,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      description: transaction.description ?? 'Transfer',
+      pendingTransactionId: transaction.id,
+    });
+    if (!sent.ok) return sent;
+
+    const decision = await tx.riskDecision.update({
+      where: { id: hold.id },
+      data: { resolution: actor.role === 'SENDER' ? 'CONFIRMED' : 'APPROVED', resolvedAt: new Date() },
+    });
+
+    if (actor.role === 'PARENT') {
+      await notifyChild(tx, sent.transaction, true);
+    }
+
+    return { ok: true, decision, transfer: sent };
+  });
+
+/**
+ * Drop a held transfer: the sender cancels it, or a parent or an admin
+ * declines it. It is marked FAILED. Returns null when the actor can't see the
+ * hold.
+ */
+export const closeHeldTransfer = (transactionId: string, actor: HoldActor) =>
+  serializableTransaction(async (tx): Promise<ClosedHold | null> => {
+    const hold = await findHold(tx, transactionId, actor);
+    if (!hold?.transaction) return null;
+
+    if (hold.resolution || hold.transaction.status !== 'PENDING') {
+      return { ok: false, error: 'Transfer is no longer on hold' };
+    }
+
+    const cancelled = actor.role === 'SENDER';
+    const failureReason = cancelled
+      ? 'Cancelled by sender'
+      : actor.role === 'PARENT' ? 'Declined by parent' : 'Declined in review';
+    const transaction = await tx.transaction.update({
+      where: { id: transactionId },
+      data: { status: 'FAILED', failureReason },
+    });
+    const decision = await tx.riskDecision.update({
+      where: { id: hold.id },
+      data: { resolution: cancelled ? 'CANCELLED' : 'DECLINED', resolvedAt: new Date() },
+    });
+
+    // A single-use payment link the hold used up can be paid again
+    if (transaction.paymentLinkId) {
+      await tx.paymentLink.updateMany({
+        where: { id: transaction.paymentLinkId, singleUse: true, status: 'USED' },
+        data: { status: 'ACTIVE' },
+      });
+    }
+
+    if (actor.role === 'PARENT') {
+      await notifyChild(tx, transaction, false);
+    }
+
+    return { ok: true, decision, transaction };
+  });
@@ -0,0 +1,288 @@
+import { Prisma, RoundUp } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { startOfMonth } from './budgetService.js';
+import { postTransfer } from './ledgerService.js';
+import { findWallet } from './walletService.js';
+
+// ================= TYPES =================
+export interface RoundUpSource {
+  // Amount that left the user's pocket
+  amount: number;
+  expenseId?: string;
+  sourceTransactionId?: string;
+}
+
+export interface SweepResult {
+  swept: number;
+  skipped: number;
+  total: number;
+}
+
+const DEFAULT_SETTINGS = {
+  isEnabled: false,
+  step: 10,
+  multiplier: 1,
+  monthlyCap: null,
+  sweepMode: 'IMMEDIATE' as const,
+  goalId: null,
+};
+
+// ================= HELPERS =================
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Spare change for an amount: the gap up to the next multiple of `step`, times
+ * the multiplier. Whole multiples round up to nothing. Works in cents so float
+ * amounts like 19.99 don't drift.
+ */
+export const spareChange = (amount: number, step: number, multiplier = 1) => {
+  const cents = Math.round(amount * 100);
+  const stepCents = step * 100;
+  const spare = (stepCents - (cents % stepCents)) % stepCents;
+  return (spare * multiplier) / 100;
+};
+
+export const resolveRoundUpSettings = async (userId: string) => {
+  const settings = await prisma.roundUpSetting.findUnique({ where: { userId } });
+  return settings ?? { ...DEFAULT_SETTINGS, userId };
+};
+
+const monthToDateRoundUps = async (
+  client: Prisma.TransactionClient,
+  userId: string,
+  now: Date
+) => {
+  const result = await client.saving.aggregate({
+    where: { userId, type: 'ROUND_UP', date: { gte: startOfMonth(now) } },
+    _sum: { amount: true },
+  });
+  return result._sum.amount ?? 0;
+};
+
+// ================= SWEEPING =================
+
+/**
+ * Move pending round-ups into the target goal. Everything swept together is
+ * debited from the wallet as one transaction, with one ROUND_UP saving per
+ * round-up linking back to its expense or transaction.
+ *
+ * Round-ups that can't be swept (no target goal, monthly cap reached,
+ * insufficient funds) are marked SKIPPED with a reason. Each round-up is
+ * claimed with a conditional update on its status, so overlapping sweeps never
+ * move the same spare change twice.
+ */
+export const sweepRoundUps = async (
+  userId: string,
+  options: { ids?: string[]; before?: Date } = {}
+): Promise<SweepResult> => {
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const pending = await tx.roundUp.findMany({
+      where: {
+        userId,
+        status: 'PENDING',
+        ...(options.ids && { id: { in: options.ids } }),
+        ...(options.before && { createdAt: { lt: options.before } }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const result: SweepResult = { swept: 0, skipped: 0, total: 0 };
+    if (pending.length === 0) return result;
+
+    const settings = await tx.roundUpSetting.findUnique({ where: { userId } });
+    const goal = settings?.goalId
+      ? await tx.goal.findFirst({ where: { id: settings.goalId, userId, isActive: true } })
+      : null;
+    const wallet = goal ? await findWallet(tx, userId, goal.currency) : null;
+
+    const monthToDate = await monthToDateRoundUps(tx, userId, now);
+
+    let capRemaining = settings?.monthlyCap != null
+      ? Math.max(0, settings.monthlyCap - monthToDate)
+      : Infinity;
+    let available = wallet?.balance ?? 0;
+
+    const skip = async (roundUp: RoundUp, reason: string) => {
+      const claimed = await tx.roundUp.updateMany({
+        where: { id: roundUp.id, status: 'PENDING' },
+        data: { status: 'SKIPPED', reason },
+      });
+      result.skipped += claimed.count;
+    };
+
+    const toSweep: Array<{ roundUp: RoundUp; amount: number }> = [];
+
+    for (const roundUp of pending) {
+      if (!goal || !wallet) {
+        await skip(roundUp, !goal ? 'No active target goal' : 'No wallet');
+        continue;
+      }
+
+      const amount = Math.round(Math.min(roundUp.amount, capRemaining) * 100) / 100;
+      if (amount <= 0) {
+        await skip(roundUp, 'Monthly cap reached');
+        continue;
+      }
+      if (amount > available) {
+        await skip(roundUp, 'Insufficient funds');
+        continue;
+      }
+
+      const claimed = await tx.roundUp.updateMany({
+        where: { id: roundUp.id, status: 'PENDING' },
+        data: {
+          status: 'SWEPT',
+          sweptAt: now,
+          amount,
+          ...(amount < roundUp.amount && { reason: 'Reduced to stay within the monthly cap' }),
+        },
+      });
+      if (claimed.count === 0) continue;
+
+      capRemaining -= amount;
+      available -= amount;
+      toSweep.push({ roundUp, amount });
+    }
+
+    if (!goal || !wallet || toSweep.length === 0) return result;
+
+    const total = Math.round(toSweep.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+
+    // One ledger movement for the whole sweep. The wallet is debited
+    // conditionally; throwing rolls the claims back and the round-ups stay pending
+    const journalEntry = await postTransfer(tx, {
+      from: { type: 'WALLET', walletId: wallet.id },
+      to: { type: 'GOAL', goalId: goal.id },
+      amount: total,
+      description: `Round-ups → ${goal.name}`,
+    });
+    if (!journalEntry) throw new Error('Wallet balance changed during round-up sweep');
+
+    await tx.transaction.create({
+      data: {
+        amount: total,
+        currency: wallet.currency,
+        type: 'GOAL_TRANSFER',
+        status: 'COMPLETED',
+        description: toSweep.length === 1
+          ? `Round-up → ${goal.name}`
+          : `Round-ups (${toSweep.length}) → ${goal.name}`,
+        senderWalletId: wallet.id,
+        senderUserId: userId,
+        journalEntryId: journalEntry.id,
+      },
+    });
+
+    // The goal's balance already moved with the journal entry; each round-up
+    // still gets its own contribution row pointing at what it rounded up
+    for (const { roundUp, amount } of toSweep) {
+      const saving = await tx.saving.create({
+        data: {
+          amount,
+          type: 'ROUND_UP',
+          date: now,
+          userId,
+          goalId: goal.id,
+          expenseId: roundUp.expenseId,
+          sourceTransactionId: roundUp.sourceTransactionId,
+          journalEntryId: journalEntry.id,
+        },
+      });
+
+      await tx.roundUp.update({
+        where: { id: roundUp.id },
+        data: { savingId: saving.id },
+      });
+    }
+
+    result.swept = toSweep.length;
+    result.total = total;
+    return result;
+  });
+};
+
+/**
+ * Round up an expense or outgoing payment. The spare change is queued as a
+ * pending round-up and, in IMMEDIATE mode, swept straight away; DAILY mode
+ * leaves it for the nightly batch. Failures are logged and never fail the
+ * payment itself.
+ */
+export const recordRoundUp = async (userId: string, source: RoundUpSource) => {
+  try {
+    const settings = await prisma.roundUpSetting.findUnique({ where: { userId } });
+    if (!settings?.isEnabled || !settings.goalId) return null;
+
+    const amount = spareChange(source.amount, settings.step, settings.multiplier);
+    if (amount <= 0) return null;
+
+    const roundUp = await prisma.roundUp.create({
+      data: {
+        amount,
+        sourceAmount: source.amount,
+        userId,
+        expenseId: source.expenseId ?? null,
+        sourceTransactionId: source.sourceTransactionId ?? null,
+      },
+    });
+
+    if (settings.sweepMode === 'IMMEDIATE') {
+      await sweepRoundUps(userId, { ids: [roundUp.id] });
+      return prisma.roundUp.findUnique({ where: { id: roundUp.id } });
+    }
+
+    return roundUp;
+  } catch (error) {
+    console.error(`Round-up failed for user ${userId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Daily batch: sweep every round-up left pending from before today.
+ * Returns the number of round-ups swept.
+ */
+export const processDailyRoundUps = async (now: Date = new Date()) => {
+  const before = startOfDay(now);
+
+  const users = await prisma.roundUp.groupBy({
+    by: ['userId'],
+    where: { status: 'PENDING', createdAt: { lt: before } },
+  });
+
+  let swept = 0;
+
+  for (const { userId } of users) {
+    try {
+      const result = await sweepRoundUps(userId, { before });
+      swept += result.swept;
+    } catch (error) {
+      console.error(`Round-up sweep failed for user ${userId}:`, error);
+    }
+  }
+
+  return swept;
+};
+
+export const getRoundUpSummary = async (userId: string, now: Date = new Date()) => {
+  const [settings, monthToDate, pending] = await Promise.all([
+    resolveRoundUpSettings(userId),
+    monthToDateRoundUps(prisma, userId, now),
+    prisma.roundUp.aggregate({
+      where: { userId, status: 'PENDING' },
+      _sum: { amount: true },
+      _count: true,
+    }),
+  ]);
+
+  return {
+    monthToDate,
+    monthlyCap: settings.monthlyCap,
+    capRemaining: settings.monthlyCap != null
+      ? Math.max(0, settings.monthlyCap - monthToDate)
+      : null,
+    pendingAmount: pending._sum.amount ?? 0,
+    pendingCount: pending._count,
+  };
+};
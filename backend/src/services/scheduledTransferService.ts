@@ -0,0 +1,239 @@
+import { RecurrenceFrequency, ScheduledTransfer, Transaction } from '@prisma/client';
+import { prisma, serializableTransaction } from '../config/database.js';
+import { nextOccurrence, occurrenceFrom } from '../utils/recurrence.js';
+import { formatAmount, notify } from './notificationService.js';
+import { checkTransferLimits } from './riskService.js';
+import { postWalletTransfer } from './transferService.js';
+
+// ================= CONFIG =================
+// Attempts per occurrence before it is marked FAILED, and the wait between them
+export const SCHEDULED_TRANSFER_MAX_ATTEMPTS = parseInt(process.env.SCHEDULED_TRANSFER_MAX_ATTEMPTS || '3');
+export const SCHEDULED_TRANSFER_RETRY_HOURS = parseInt(process.env.SCHEDULED_TRANSFER_RETRY_HOURS || '6');
+
+// Schedules and occurrences picked up per scheduler tick
+const BATCH_SIZE = 100;
+
+// Missed occurrences materialized per schedule per tick (e.g. after long downtime)
+const MAX_CATCH_UP = 366;
+
+const HOUR_MS = 1000 * 60 * 60;
+
+// ================= OCCURRENCES =================
+
+export interface TransferSchedule {
+  frequency: RecurrenceFrequency | null;
+  interval: number;
+  startDate: Date;
+  endDate: Date | null;
+}
+
+// Where a new or rescheduled transfer starts; a one-off transfer has a single
+// occurrence on its start date
+export const firstRunFrom = (schedule: TransferSchedule, from: Date) =>
+  schedule.frequency
+    ? occurrenceFrom({ ...schedule, frequency: schedule.frequency }, from)
+    : { occurrenceIndex: 0, nextRunAt: schedule.startDate, isActive: schedule.startDate >= from };
+
+/**
+ * Record the schedule's current occurrence as a PENDING transfer and advance
+ * the schedule. A one-off transfer is deactivated after its only occurrence.
+ *
+ * Same claim as recurring expenses: a conditional update on `nextRunAt` plus a
+ * transaction unique per (schedule, date), so an occurrence is created at most
+ * once. Returns the advanced schedule, or null if someone else got there first.
+ */
+const materializeOccurrence = async (schedule: ScheduledTransfer) => {
+  const next = schedule.frequency
+    ? nextOccurrence({ ...schedule, frequency: schedule.frequency }, schedule.occurrenceIndex)
+    : { occurrenceIndex: schedule.occurrenceIndex + 1, nextRunAt: schedule.nextRunAt, isActive: false };
+
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.scheduledTransfer.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt, isActive: true },
+      data: {
+        ...next,
+        lastRunAt: schedule.nextRunAt,
+      },
+    });
+
+    if (claimed.count === 0) return null;
+
+    await tx.transaction.createMany({
+      data: [{
+        amount: schedule.amount,
+        currency: schedule.currency,
+        type: 'TRANSFER',
+        status: 'PENDING',
+        description: schedule.description ?? 'Scheduled transfer',
+        senderUserId: schedule.userId,
+        scheduledTransferId: schedule.id,
+        scheduledFor: schedule.nextRunAt,
+        nextAttemptAt: schedule.nextRunAt,
+      }],
+      skipDuplicates: true,
+    });
+
+    return tx.scheduledTransfer.findUnique({ where: { id: schedule.id } });
+  });
+};
+
+type PendingOccurrence = Transaction & { scheduledTransfer: ScheduledTransfer | null };
+
+/**
+ * Try to send one pending occurrence. On failure it is retried every
+ * SCHEDULED_TRANSFER_RETRY_HOURS until SCHEDULED_TRANSFER_MAX_ATTEMPTS is
+ * reached, then marked FAILED. The sender is notified of each outcome.
+ * Returns whether the transfer went through.
+ */
+const attemptOccurrence = (occurrence: PendingOccurrence, now: Date) =>
+  serializableTransaction(async (tx) => {
+    // Another run may have settled or cancelled it since it was listed
+    const current = await tx.transaction.findFirst({
+      where: { id: occurrence.id, status: 'PENDING', nextAttemptAt: occurrence.nextAttemptAt },
+    });
+    const schedule = occurrence.scheduledTransfer;
+    if (!current || !schedule || !current.senderUserId) return false;
+
+    const receiver = await tx.user.findUnique({
+      where: { id: schedule.receiverId },
+      select: { id: true, homeCurrency: true },
+    });
+
+    // Over a limit is retried like a shortfall, as the limit window moves on
+    const limitHit = await checkTransferLimits(tx, {
+      senderId: current.senderUserId,
+      amount: current.amount,
+      currency: current.currency,
+      excludeTransactionId: current.id,
+    });
+
+    const result = !receiver
+      ? { ok: false as const, error: 'Recipient not found' }
+      : limitHit
+        ? { ok: false as const, error: limitHit }
+        : await postWalletTransfer(tx, {
+          senderId: current.senderUserId,
+          receiver,
+          amount: current.amount,
+          currency: current.currency,
+          description: current.description ?? 'Scheduled transfer',
+          pendingTransactionId: current.id,
+        });
+
+    const amount = formatAmount(current.amount, current.currency);
+    const data = { transactionId: current.id, scheduledTransferId: schedule.id };
+
+    if (result.ok) {
+      await tx.transaction.update({
+        where: { id: current.id },
+        data: { attempts: { increment: 1 }, nextAttemptAt: null, failureReason: null },
+      });
+      await notify(current.senderUserId, {
+        type: 'SCHEDULED_TRANSFER_SENT',
+        title: 'Scheduled transfer sent',
+        message: `Your scheduled transfer of ${amount} was sent.`,
+        data,
+      }, tx);
+      return true;
+    }
+
+    const attempts = current.attempts + 1;
+    const exhausted = attempts >= SCHEDULED_TRANSFER_MAX_ATTEMPTS;
+
+    await tx.transaction.update({
+      where: { id: current.id },
+      data: {
+        attempts,
+        failureReason: result.error,
+        ...(exhausted
+          ? { status: 'FAILED', nextAttemptAt: null }
+          : { nextAttemptAt: new Date(now.getTime() + SCHEDULED_TRANSFER_RETRY_HOURS * HOUR_MS) }),
+      },
+    });
+
+    await notify(current.senderUserId, exhausted
+      ? {
+        type: 'SCHEDULED_TRANSFER_FAILED',
+        title: 'Scheduled transfer failed',
+        message: `Your scheduled transfer of ${amount} failed after ${attempts} attempts: ${result.error}.`,
+        data,
+      }
+      : {
+        type: 'SCHEDULED_TRANSFER_RETRYING',
+        title: 'Scheduled transfer delayed',
+        message: `Your scheduled transfer of ${amount} could not be sent (${result.error}). We'll try again in ${SCHEDULED_TRANSFER_RETRY_HOURS} hours.`,
+        data,
+      }, tx);
+
+    return false;
+  });
+
+// ================= SCHEDULER =================
+
+/**
+ * Create PENDING transfers for every due occurrence of active schedules, then
+ * attempt every pending occurrence whose next attempt is due.
+ * Returns the number of transfers sent.
+ */
+export const processScheduledTransfers = async (now: Date = new Date()) => {
+  const due = await prisma.scheduledTransfer.findMany({
+    where: { isActive: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const schedule of due) {
+    let current: ScheduledTransfer | null = schedule;
+    let runs = 0;
+
+    while (current && current.isActive && current.nextRunAt <= now && runs < MAX_CATCH_UP) {
+      try {
+        current = await materializeOccurrence(current);
+        runs++;
+      } catch (error) {
+        console.error(`Scheduled transfer ${schedule.id} failed:`, error);
+        break;
+      }
+    }
+  }
+
+  const pending = await prisma.transaction.findMany({
+    where: {
+      status: 'PENDING',
+      scheduledTransferId: { not: null },
+      nextAttemptAt: { lte: now },
+    },
+    include: { scheduledTransfer: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let sent = 0;
+
+  for (const occurrence of pending) {
+    try {
+      if (await attemptOccurrence(occurrence, now)) sent++;
+    } catch (error) {
+      console.error(`Scheduled transfer occurrence ${occurrence.id} failed:`, error);
+    }
+  }
+
+  return sent;
+};
+
+/**
+ * Stop a schedule. Occurrences still waiting to go through are marked FAILED
+ * so they aren't retried; transfers already sent are kept.
+ */
+export const cancelScheduledTransfer = (id: string) =>
+  prisma.$transaction(async (tx) => {
+    await tx.transaction.updateMany({
+      where: { scheduledTransferId: id, status: 'PENDING' },
+      data: { status: 'FAILED', nextAttemptAt: null, failureReason: 'Cancelled' },
+    });
+
+    return tx.scheduledTransfer.update({
+      where: { id },
+      data: { isActive: false },
+    });
+  });
@@ -0,0 +1,72 @@
+import { processDueAutoSaveRules } from './autoSaveService.js';
+import { syncRatesFromFile } from './fxService.js';
+import { purgeExpiredIdempotencyKeys } from './idempotencyService.js';
+import { expireInvoices } from './invoiceService.js';
+import { expirePaymentRequests } from './paymentRequestService.js';
+import { processDueRecurringExpenses } from './recurringExpenseService.js';
+import { processDailyRoundUps } from './roundUpService.js';
+import { processScheduledTransfers } from './scheduledTransferService.js';
+
+// ================= TYPES =================
+interface ScheduledJob {
+  name: string;
+  run: () => Promise<number>;
+}
+
+// ================= JOBS =================
+// Each job returns how many items it processed. Jobs keep their own state in
+// the database, so a restart simply picks up whatever is still due.
+const jobs: ScheduledJob[] = [
+  { name: 'recurring-expenses', run: () => processDueRecurringExpenses() },
+  { name: 'auto-save-rules', run: () => processDueAutoSaveRules() },
+  { name: 'round-up-sweep', run: () => processDailyRoundUps() },
+  { name: 'idempotency-key-purge', run: () => purgeExpiredIdempotencyKeys() },
+  { name: 'fx-rates-file', run: () => syncRatesFromFile() },
+  { name: 'payment-request-expiry', run: () => expirePaymentRequests() },
+  { name: 'invoice-expiry', run: () => expireInvoices() },
+  { name: 'scheduled-transfers', run: () => processScheduledTransfers() },
+];
+
+// ================= RUNNER =================
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || '60000');
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const tick = async () => {
+  // Skip this tick if the previous one is still working through a backlog
+  if (running) return;
+  running = true;
+
+  try {
+    for (const job of jobs) {
+      try {
+        const processed = await job.run();
+        if (processed > 0) {
+          console.log(`⏰ ${job.name}: processed ${processed}`);
+        }
+      } catch (error) {
+        console.error(`Scheduled job ${job.name} failed:`, error);
+      }
+    }
+  } finally {
+    running = false;
+  }
+};
+
+export function startScheduler() {
+  if (timer || process.env.SCHEDULER_ENABLED === 'false') return;
+
+  timer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+  // Catch up on anything that came due while the server was down
+  void tick();
+
+  console.log(`⏰ Scheduler started (every ${SCHEDULER_INTERVAL_MS / 1000}s)`);
+}
+
+export function stopScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
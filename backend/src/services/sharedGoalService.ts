@@ -0,0 +1,385 @@
+import { Goal, GoalInvitation, GoalMemberRole, Prisma, Transaction } from '@prisma/client';
+import { prisma, serializableTransaction } from '../config/database.js';
+import { deductGoalLedgerEntry, getGoalWalletBalance } from './goalLedgerService.js';
+import { formatAmount, notify } from './notificationService.js';
+import { findUserByPhone } from './transferService.js';
+import { ensureWallet } from './walletService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+// The goal's user is its OWNER; everyone else it is shared with has a GoalMember role
+export type GoalRole = 'OWNER' | GoalMemberRole;
+
+export interface GoalAccess {
+  goal: Goal;
+  role: GoalRole;
+}
+
+export type GoalInvitationOutcome = { ok: true; invitation: GoalInvitation } | Rejected;
+
+// What a member took with them on leaving: back to their wallet, and back to
+// the outside world for what they had saved outside the app
+export interface ReturnedShare {
+  toWallet: number;
+  toExternal: number;
+}
+
+// A withdrawal split the same way, with the wallet transaction for the first part
+export interface GoalWithdrawal extends ReturnedShare {
+  transaction: Transaction | null;
+}
+
+export type LeaveGoalOutcome = { ok: true; returned: ReturnedShare } | Rejected;
+
+const memberSelect = { id: true, firstName: true, lastName: true, email: true, phone: true } as const;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const displayName = (user: { firstName: string | null; lastName: string | null; email: string }) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+
+// ================= ACCESS =================
+
+// Goals the user owns or is a member of
+export const goalsVisibleTo = (userId: string): Prisma.GoalWhereInput => ({
+  OR: [{ userId }, { members: { some: { userId } } }],
+});
+
+/**
+ * The goal and the user's role on it, or null when they can't see it.
+ */
+export const findGoalAccess = async (
+  client: Prisma.TransactionClient,
+  goalId: string,
+  userId: string
+): Promise<GoalAccess | null> => {
+  const goal = await client.goal.findFirst({
+    where: { id: goalId, ...goalsVisibleTo(userId) },
+    include: { members: { where: { userId } } },
+  });
+  if (!goal) return null;
+
+  const { members, ...rest } = goal;
+  return { goal: rest, role: goal.userId === userId ? 'OWNER' : members[0]!.role };
+};
+
+// Owners and contributors can put money in; viewers only follow along
+export const canContribute = (role: GoalRole) => role !== 'VIEWER';
+
+// ================= CONTRIBUTIONS =================
+
+/**
+ * What a user has put into a goal less what they have taken out, split by
+ * whether it moved through their wallet or was saved outside the app.
+ */
+const getMemberNet = async (client: Prisma.TransactionClient, goalId: string, userId: string) => {
+  const rows = await client.saving.groupBy({
+    by: ['isExternal'],
+    where: { goalId, userId },
+    _sum: { amount: true },
+  });
+  const sumFor = (isExternal: boolean) => rows.find(row => row.isExternal === isExternal)?._sum.amount ?? 0;
+
+  const wallet = round(sumFor(false));
+  const external = round(sumFor(true));
+  return { wallet, external, net: round(wallet + external) };
+};
+
+/**
+ * How much a member may withdraw: contributors only what they put in
+ * themselves, net of their own withdrawals. Only the part they moved in from
+ * their wallet can go back to it (see withdrawGoalShare).
+ */
+export const getWithdrawableShare = async (
+  client: Prisma.TransactionClient,
+  goalId: string,
+  userId: string
+) => Math.max(0, (await getMemberNet(client, goalId, userId)).net);
+
+/**
+ * Take money out of a goal for a user, inside the caller's transaction. Only
+ * money that came from wallets can go to one, so the amount is split: up to
+ * `walletShare` and what the goal still holds from wallets goes to the user's
+ * goal-currency wallet, and the rest, saved outside the app, is released back
+ * outside. Both are recorded as withdrawals by the user. Returns null, having
+ * moved nothing, when the goal doesn't hold the amount.
+ */
+export const withdrawGoalShare = async (
+  tx: Prisma.TransactionClient,
+  goal: Goal,
+  withdrawal: { userId: string; amount: number; walletShare: number; description: string }
+): Promise<GoalWithdrawal | null> => {
+  const { userId, amount, description } = withdrawal;
+  const { saved } = await tx.goal.findUniqueOrThrow({ where: { id: goal.id } });
+  if (amount > saved) return null;
+
+  const walletBalance = await getGoalWalletBalance(tx, goal.id);
+  const toWallet = round(Math.max(0, Math.min(amount, withdrawal.walletShare, walletBalance)));
+  const toExternal = round(amount - toWallet);
+  const entry = { type: 'GOAL_WITHDRAWAL' as const, date: new Date(), userId, goalId: goal.id };
+  let transaction: Transaction | null = null;
+
+  if (toWallet > 0) {
+    const { id: walletId, currency } = await ensureWallet(tx, userId, goal.currency);
+    const recorded = await deductGoalLedgerEntry(tx, { ...entry, amount: toWallet }, {
+      counterparty: { type: 'WALLET', walletId },
+      transaction: {
+        amount: toWallet,
+        currency,
+        type: 'GOAL_TRANSFER',
+        status: 'COMPLETED',
+        description,
+        receiverWalletId: walletId,
+        receiverUserId: userId,
+      },
+    });
+    transaction = recorded?.transaction ?? null;
+  }
+
+  if (toExternal > 0) {
+    await deductGoalLedgerEntry(tx, { ...entry, amount: toExternal, isExternal: true }, {
+      counterparty: { type: 'EXTERNAL' },
+      description: `Saved outside the app for ${goal.name}`,
+    });
+  }
+
+  return { toWallet, toExternal, transaction };
+};
+
+/**
+ * Per-member breakdown of a goal's balance: the owner and every member with
+ * what they contributed, withdrew, and their net share.
+ */
+export const getGoalMemberBreakdown = async (client: Prisma.TransactionClient, goal: Goal) => {
+  const [owner, members, contributed, withdrawn] = await Promise.all([
+    client.user.findUniqueOrThrow({ where: { id: goal.userId }, select: memberSelect }),
+    client.goalMember.findMany({
+      where: { goalId: goal.id },
+      include: { user: { select: memberSelect } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    client.saving.groupBy({
+      by: ['userId'],
+      where: { goalId: goal.id, amount: { gt: 0 } },
+      _sum: { amount: true },
+    }),
+    client.saving.groupBy({
+      by: ['userId'],
+      where: { goalId: goal.id, amount: { lt: 0 } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const sumFor = (rows: typeof contributed, userId: string) =>
+    Math.abs(rows.find(row => row.userId === userId)?._sum.amount ?? 0);
+
+  return [
+    { user: owner, role: 'OWNER' as GoalRole, joinedAt: goal.createdAt },
+    ...members.map(member => ({ user: member.user, role: member.role as GoalRole, joinedAt: member.createdAt })),
+  ].map(entry => {
+    const put = round(sumFor(contributed, entry.user.id));
+    const taken = round(sumFor(withdrawn, entry.user.id));
+    return { ...entry, contributed: put, withdrawn: taken, net: round(put - taken) };
+  });
+};
+
+// ================= INVITATIONS =================
+
+/**
+ * Invite a user, found by email or phone, to a goal the inviter owns.
+ * Returns null when the goal isn't theirs.
+ */
+export const inviteToGoal = async (
+  goalId: string,
+  ownerId: string,
+  invitee: { email?: string; phone?: string; role: GoalMemberRole }
+): Promise<GoalInvitationOutcome | null> => {
+  const goal = await prisma.goal.findFirst({ where: { id: goalId, userId: ownerId } });
+  if (!goal) return null;
+
+  const user = invitee.phone
+    ? await findUserByPhone(prisma, invitee.phone)
+    : await prisma.user.findUnique({ where: { email: invitee.email ?? '' } });
+
+  if (!user) {
+    return { ok: false, error: `No user found for ${invitee.phone ?? invitee.email}` };
+  }
+  if (user.id === ownerId) {
+    return { ok: false, error: 'You already own this goal' };
+  }
+
+  return serializableTransaction(async (tx): Promise<GoalInvitationOutcome> => {
+    const [member, pending] = await Promise.all([
+      tx.goalMember.findUnique({ where: { goalId_userId: { goalId, userId: user.id } } }),
+      tx.goalInvitation.findFirst({ where: { goalId, inviteeId: user.id, status: 'PENDING' } }),
+    ]);
+    if (member) return { ok: false, error: 'Already a member of this goal' };
+    if (pending) return { ok: false, error: 'Already invited to this goal' };
+
+    const invitation = await tx.goalInvitation.create({
+      data: { goalId, inviterId: ownerId, inviteeId: user.id, role: invitee.role },
+    });
+
+    const owner = await tx.user.findUniqueOrThrow({ where: { id: ownerId } });
+    await notify(user.id, {
+      type: 'GOAL_INVITATION',
+      title: 'Shared goal invitation',
+      message: `${displayName(owner)} invited you to ${goal.name} as a ${invitee.role.toLowerCase()}.`,
+      data: { goalId, invitationId: invitation.id },
+    }, tx);
+
+    return { ok: true, invitation };
+  });
+};
+
+/**
+ * Accept or decline an invitation sent to the user. Accepting makes them a
+ * member with the invited role. Returns null when there is no such invitation.
+ */
+export const respondToGoalInvitation = (id: string, inviteeId: string, accept: boolean) =>
+  serializableTransaction(async (tx): Promise<GoalInvitationOutcome | null> => {
+    const invitation = await tx.goalInvitation.findFirst({ where: { id, inviteeId } });
+    if (!invitation) return null;
+    if (invitation.status !== 'PENDING') {
+      return { ok: false, error: `Invitation is already ${invitation.status.toLowerCase()}` };
+    }
+
+    if (accept) {
+      await tx.goalMember.create({
+        data: { goalId: invitation.goalId, userId: inviteeId, role: invitation.role },
+      });
+    }
+
+    const updated = await tx.goalInvitation.update({
+      where: { id },
+      data: { status: accept ? 'ACCEPTED' : 'DECLINED', respondedAt: new Date() },
+    });
+
+    return { ok: true, invitation: updated };
+  });
+
+/**
+ * Withdraw a pending invitation to a goal the user owns. Returns null when
+ * there is no such invitation.
+ */
+export const cancelGoalInvitation = (goalId: string, id: string, ownerId: string) =>
+  serializableTransaction(async (tx): Promise<GoalInvitationOutcome | null> => {
+    const invitation = await tx.goalInvitation.findFirst({
+      where: { id, goalId, goal: { userId: ownerId } },
+    });
+    if (!invitation) return null;
+    if (invitation.status !== 'PENDING') {
+      return { ok: false, error: `Invitation is already ${invitation.status.toLowerCase()}` };
+    }
+
+    const updated = await tx.goalInvitation.update({
+      where: { id },
+      data: { status: 'CANCELLED', respondedAt: new Date() },
+    });
+
+    return { ok: true, invitation: updated };
+  });
+
+// ================= MEMBERS =================
+
+/**
+ * Change a member's role on a goal the user owns. Returns null when there is
+ * no such member.
+ */
+export const updateGoalMemberRole = async (
+  goalId: string,
+  ownerId: string,
+  memberId: string,
+  role: GoalMemberRole
+) => {
+  const member = await prisma.goalMember.findFirst({
+    where: { goalId, userId: memberId, goal: { userId: ownerId } },
+  });
+  if (!member) return null;
+
+  return prisma.goalMember.update({
+    where: { id: member.id },
+    data: { role },
+    include: { user: { select: memberSelect } },
+  });
+};
+
+// ================= LEAVING =================
+
+/**
+ * Give a member their share back as they leave, inside the caller's
+ * transaction. Their share is their net contribution, capped at what the goal
+ * still holds (the owner may already have spent from it). What they moved in
+ * from their wallet goes back to it; anything beyond that was saved outside
+ * the app and is released back outside (see withdrawGoalShare), so their net
+ * share ends at zero.
+ */
+export const returnMemberShare = async (
+  tx: Prisma.TransactionClient,
+  goal: Goal,
+  userId: string
+): Promise<ReturnedShare> => {
+  const { wallet, net } = await getMemberNet(tx, goal.id, userId);
+  const { saved } = await tx.goal.findUniqueOrThrow({ where: { id: goal.id } });
+
+  const share = round(Math.min(net, saved));
+  if (share <= 0) return { toWallet: 0, toExternal: 0 };
+
+  const returned = await withdrawGoalShare(tx, goal, {
+    userId,
+    amount: share,
+    walletShare: wallet,
+    description: `Your share of ${goal.name}`,
+  });
+  return { toWallet: returned?.toWallet ?? 0, toExternal: returned?.toExternal ?? 0 };
+};
+
+/**
+ * Take a member off a goal: the member leaving themselves, or the owner
+ * removing them. Their share is returned first (see returnMemberShare) and the
+ * other side is notified. The owner can't leave their own goal; they delete it
+ * instead. Returns null when the goal or member doesn't exist for the actor.
+ */
+export const removeGoalMember = (goalId: string, memberId: string, actorId: string) =>
+  serializableTransaction(async (tx): Promise<LeaveGoalOutcome | null> => {
+    const goal = await tx.goal.findFirst({
+      where: { id: goalId, ...goalsVisibleTo(actorId) },
+    });
+    if (!goal) return null;
+
+    if (memberId === goal.userId) {
+      return { ok: false, error: 'The owner can\'t leave the goal; delete it instead' };
+    }
+    if (actorId !== memberId && actorId !== goal.userId) {
+      return { ok: false, error: 'Only the owner can remove members' };
+    }
+
+    const member = await tx.goalMember.findUnique({
+      where: { goalId_userId: { goalId, userId: memberId } },
+      include: { user: true },
+    });
+    if (!member) return null;
+
+    const returned = await returnMemberShare(tx, goal, memberId);
+    await tx.goalMember.delete({ where: { id: member.id } });
+
+    const total = formatAmount(returned.toWallet + returned.toExternal, goal.currency);
+    if (actorId === memberId) {
+      await notify(goal.userId, {
+        type: 'GOAL_MEMBER_LEFT',
+        title: 'Member left your goal',
+        message: `${displayName(member.user)} left ${goal.name} and took their share (${total}).`,
+        data: { goalId, userId: memberId, ...returned },
+      }, tx);
+    } else {
+      await notify(memberId, {
+        type: 'GOAL_MEMBER_LEFT',
+        title: 'Removed from a shared goal',
+        message: `You were removed from ${goal.name}; your share (${total}) was returned.`,
+        data: { goalId, userId: memberId, ...returned },
+      }, tx);
+    }
+
+    return { ok: true, returned };
+  });
@@ -0,0 +1,177 @@
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../config/database.js';
+import { FX_BASE_CURRENCY, convertWithTable, loadRateTable } from './fxService.js';
+
+// ================= TYPES =================
+type Rejected = { ok: false; error: string };
+
+// What the user re-enters to prove it's them: their transaction PIN, or their password
+export type StepUpCredential = { pin: string } | { password: string };
+
+export type StepUpCheck = { ok: true } | Rejected;
+
+// ================= CONFIG =================
+const JWT_SECRET = process.env.JWT_SECRET;
+
+if (!JWT_SECRET) {
+  throw new Error('JWT_SECRET is not defined');
+}
+
+// How long a step-up token can be used for after the PIN or password was entered
+export const STEP_UP_TOKEN_MINUTES = parseInt(process.env.STEP_UP_TOKEN_MINUTES || '5');
+// Wrong PINs or passwords in a row before step-up is locked, and for how long
+export const STEP_UP_MAX_ATTEMPTS = parseInt(process.env.STEP_UP_MAX_ATTEMPTS || '5');
+export const STEP_UP_LOCKOUT_MINUTES = parseInt(process.env.STEP_UP_LOCKOUT_MINUTES || '15');
+// Transfers above this many USD need a step-up token; withdrawals always do
+export const STEP_UP_TRANSFER_THRESHOLD = parseFloat(process.env.STEP_UP_TRANSFER_THRESHOLD || '200');
+
+// Audience of step-up tokens. They carry no `id` claim, so `authenticate`
+// never accepts one as a session token.
+const STEP_UP_AUDIENCE = 'step-up';
+
+const MINUTE_MS = 1000 * 60;
+
+// ================= PIN =================
+
+// PINs like 1111 or 1234 are the first ones anyone tries
+const isGuessablePin = (pin: string) => {
+  const digits = pin.split('').map(Number);
+  const steps = new Set(digits.slice(1).map((digit, i) => digit - digits[i]!));
+  return steps.size === 1 && [0, 1, -1].includes([...steps][0]!);
+};
+
+/**
+ * Check a PIN or password, counting failures. After STEP_UP_MAX_ATTEMPTS
+ * wrong ones in a row, step-up is locked for STEP_UP_LOCKOUT_MINUTES and
+ * every attempt is refused until then. Returns null when the user is gone.
+ */
+export const verifyStepUpCredential = async (
+  userId: string,
+  credential: StepUpCredential
+): Promise<StepUpCheck | null> => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) return null;
+
+  const now = Date.now();
+  if (user.stepUpLockedUntil && user.stepUpLockedUntil.getTime() > now) {
+    const minutes = Math.ceil((user.stepUpLockedUntil.getTime() - now) / MINUTE_MS);
+    return { ok: false, error: `Too many failed attempts. Try again in ${minutes} minutes` };
+  }
+
+  let valid: boolean;
+  if ('pin' in credential) {
+    if (!user.transactionPin) {
+      return { ok: false, error: 'Set a transaction PIN in your profile, or confirm with your password' };
+    }
+    valid = await bcrypt.compare(credential.pin, user.transactionPin);
+  } else {
+    valid = await bcrypt.compare(credential.password, user.password);
+  }
+
+  if (valid) {
+    if (user.stepUpFailures > 0 || user.stepUpLockedUntil) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { stepUpFailures: 0, stepUpLockedUntil: null },
+      });
+    }
+    return { ok: true };
+  }
+
+  // Incremented in the database so parallel guesses are all counted
+  const { stepUpFailures } = await prisma.user.update({
+    where: { id: userId },
+    data: { stepUpFailures: { increment: 1 } },
+    select: { stepUpFailures: true },
+  });
+
+  if (stepUpFailures >= STEP_UP_MAX_ATTEMPTS) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { stepUpFailures: 0, stepUpLockedUntil: new Date(now + STEP_UP_LOCKOUT_MINUTES * MINUTE_MS) },
+    });
+    return { ok: false, error: `Too many failed attempts. Try again in ${STEP_UP_LOCKOUT_MINUTES} minutes` };
+  }
+
+  const left = STEP_UP_MAX_ATTEMPTS - stepUpFailures;
+  return {
+    ok: false,
+    error: `Incorrect ${'pin' in credential ? 'PIN' : 'password'} (${left} ${left === 1 ? 'attempt' : 'attempts'} left)`,
+  };
+};
+
+/**
+ * Set or change the user's transaction PIN. Their password is required, and
+ * counts towards the step-up lockout. Returns null when the user is gone.
+ */
+export const setTransactionPin = async (
+  userId: string,
+  pin: string,
+  password: string
+): Promise<StepUpCheck | null> => {
+  if (isGuessablePin(pin)) {
+    return { ok: false, error: 'Choose a PIN that is harder to guess' };
+  }
+
+  const check = await verifyStepUpCredential(userId, { password });
+  if (!check?.ok) return check;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { transactionPin: await bcrypt.hash(pin, 10) },
+  });
+
+  return { ok: true };
+};
+
+/**
+ * Remove the user's transaction PIN, after which step-up needs their password.
+ * Returns null when the user is gone.
+ */
+export const removeTransactionPin = async (userId: string, password: string): Promise<StepUpCheck | null> => {
+  const check = await verifyStepUpCredential(userId, { password });
+  if (!check?.ok) return check;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { transactionPin: null },
+  });
+
+  return { ok: true };
+};
+
+// ================= TOKENS =================
+
+/**
+ * Short-lived token proving the user just entered their PIN or password. It
+ * is sent in the X-Step-Up-Token header and can be used for any step-up
+ * endpoint until it expires.
+ */
+export const issueStepUpToken = (userId: string) => {
+  const expiresAt = new Date(Date.now() + STEP_UP_TOKEN_MINUTES * MINUTE_MS);
+  const token = jwt.sign({}, JWT_SECRET, {
+    subject: userId,
+    audience: STEP_UP_AUDIENCE,
+    expiresIn: STEP_UP_TOKEN_MINUTES * 60,
+  });
+
+  return { token, expiresAt };
+};
+
+export const verifyStepUpToken = (token: string, userId: string) => {
+  try {
+    jwt.verify(token, JWT_SECRET, { audience: STEP_UP_AUDIENCE, subject: userId });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether a transfer is large enough to need a step-up token.
+ */
+export const exceedsStepUpThreshold = async (amount: number, currency: string) => {
+  const table = await loadRateTable();
+  return convertWithTable(table, amount, currency, FX_BASE_CURRENCY) > STEP_UP_TRANSFER_THRESHOLD;
+};
@@ -0,0 +1,136 @@
+import { Prisma, Transaction, Wallet } from '@prisma/client';
+import { FxQuote, quoteConversion } from './fxService.js';
+import { postTransfer } from './ledgerService.js';
+import { ensureWallet, findWallet } from './walletService.js';
+
+// ================= TYPES =================
+export interface WalletTransfer {
+  senderId: string;
+  receiver: { id: string; homeCurrency: string };
+  amount: number;
+  // Currency the sender pays in
+  currency: string;
+  description: string;
+  // Complete this PENDING transaction instead of recording a new one
+  pendingTransactionId?: string;
+  // The merchant invoice the transfer pays
+  invoiceId?: string;
+  // The payment link it was paid through
+  paymentLinkId?: string;
+}
+
+export type WalletTransferResult =
+  | { ok: true; transaction: Transaction; senderWallet: Wallet; receiverWallet: Wallet; fx: FxQuote | null }
+  | { ok: false; error: string };
+
+// ================= RECIPIENTS =================
+
+const normalizePhoneCandidates = (input: string): string[] => {
+  if (!input) return [];
+  const trimmed = String(input).trim();
+  const digitsOnly = trimmed.replace(/\D+/g, '');
+  const candidates = new Set<string>();
+
+  candidates.add(trimmed);
+  if (digitsOnly) candidates.add(digitsOnly);
+  if (digitsOnly) candidates.add(`+${digitsOnly}`);
+
+  if (digitsOnly.length === 10) {
+    candidates.add(`1${digitsOnly}`);
+    candidates.add(`+1${digitsOnly}`);
+  }
+
+  return Array.from(candidates);
+};
+
+/**
+ * Look a user up by phone number, tolerating formatting differences and a
+ * missing country code. A number that only matches on its last ten digits
+ * resolves when exactly one user has it; otherwise there's no telling who was
+ * meant and nobody is returned.
+ */
+export const findUserByPhone = async (client: Prisma.TransactionClient, phone: string) => {
+  const candidates = normalizePhoneCandidates(phone);
+  const digitsOnly = phone.replace(/\D+/g, '');
+  const last10 = digitsOnly.length >= 10 ? digitsOnly.slice(-10) : undefined;
+
+  const exact = await client.user.findFirst({ where: { phone: { in: candidates } } });
+  if (exact || !last10) return exact;
+
+  const bySuffix = await client.user.findMany({ where: { phone: { endsWith: last10 } }, take: 2 });
+  if (bySuffix.length !== 1) return null;
+  return bySuffix[0] ?? null;
+};
+
+// ================= TRANSFERS =================
+
+/**
+ * Move money from one user's wallet to another's, inside the caller's
+ * transaction. The receiver is paid into their wallet in the same currency if
+ * they have one, otherwise the amount is converted into their home currency
+ * and the rate and spread are recorded on the transaction. Returns an error
+ * instead of throwing when the transfer can't go ahead, so callers can report
+ * it as a bad request.
+ */
+export const postWalletTransfer = async (
+  tx: Prisma.TransactionClient,
+  transfer: WalletTransfer
+): Promise<WalletTransferResult> => {
+  const { senderId, receiver, amount, currency, description, pendingTransactionId, invoiceId, paymentLinkId } = transfer;
+
+  const senderWallet = await findWallet(tx, senderId, currency);
+  if (!senderWallet || senderWallet.balance < amount) {
+    return { ok: false, error: 'Insufficient funds' };
+  }
+
+  const receiverWalletInCurrency = await findWallet(tx, receiver.id, currency);
+  const creditCurrency = receiverWalletInCurrency ? currency : receiver.homeCurrency;
+  const quote = await quoteConversion(amount, currency, creditCurrency, tx);
+  if (!quote) {
+    return { ok: false, error: `No exchange rate from ${currency} to ${creditCurrency}` };
+  }
+  const fx = quote.from !== quote.to ? quote : null;
+
+  const receiverWallet = receiverWalletInCurrency ?? await ensureWallet(tx, receiver.id, creditCurrency);
+
+  const journalEntry = await postTransfer(tx, {
+    from: { type: 'WALLET', walletId: senderWallet.id },
+    to: { type: 'WALLET', walletId: receiverWallet.id },
+    amount,
+    description,
+    ...(fx && { converted: { amount: fx.converted, currency: fx.to } }),
+  });
+  if (!journalEntry) return { ok: false, error: 'Insufficient funds' };
+
+  const data = {
+    amount,
+    currency,
+    type: 'TRANSFER',
+    status: 'COMPLETED',
+    description,
+    senderWalletId: senderWallet.id,
+    senderUserId: senderId,
+    receiverWalletId: receiverWallet.id,
+    receiverUserId: receiver.id,
+    journalEntryId: journalEntry.id,
+    ...(invoiceId && { invoiceId }),
+    ...(paymentLinkId && { paymentLinkId }),
+    ...(fx && {
+      fxRate: fx.rate,
+      fxSpread: fx.spread,
+      convertedAmount: fx.converted,
+      convertedCurrency: fx.to,
+    }),
+  } satisfies Prisma.TransactionUncheckedCreateInput;
+
+  const transaction = pendingTransactionId
+    ? await tx.transaction.update({ where: { id: pendingTransactionId }, data })
+    : await tx.transaction.create({ data });
+
+  const [updatedSender, updatedReceiver] = await Promise.all([
+    tx.wallet.findUniqueOrThrow({ where: { id: senderWallet.id } }),
+    tx.wallet.findUniqueOrThrow({ where: { id: receiverWallet.id } }),
+  ]);
+
+  return { ok: true, transaction, senderWallet: updatedSender, receiverWallet: updatedReceiver, fx };
+};
@@ -0,0 +1,28 @@
+import { Prisma } from '@prisma/client';
+
+// A user holds at most one wallet per currency. Their home currency decides
+// which one is used when a request doesn't name a currency.
+
+export const getHomeCurrency = async (client: Prisma.TransactionClient, userId: string) => {
+  const user = await client.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { homeCurrency: true },
+  });
+  return user.homeCurrency;
+};
+
+export const findWallet = (client: Prisma.TransactionClient, userId: string, currency: string) =>
+  client.wallet.findUnique({ where: { userId_currency: { userId, currency } } });
+
+/**
+ * The user's wallet in a currency, opened empty if they don't have one yet.
+ */
+export const ensureWallet = (tx: Prisma.TransactionClient, userId: string, currency: string) =>
+  tx.wallet.upsert({
+    where: { userId_currency: { userId, currency } },
+    update: {},
+    create: { userId, currency, balance: 0 },
+  });
+
+export const findHomeWallet = async (client: Prisma.TransactionClient, userId: string) =>
+  findWallet(client, userId, await getHomeCurrency(client, userId));
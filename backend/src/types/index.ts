@@ -13,8 +13,26 @@ export const UserLoginSchema = z.object({
   password: z.string(),
 });
 
+const TransactionPin = z.string().regex(/^\d{4,6}$/, 'PIN must be 4 to 6 digits');
+
+export const TransactionPinSetSchema = z.object({
+  pin: TransactionPin,
+  password: z.string().min(1),
+});
+
+export const TransactionPinRemoveSchema = z.object({
+  password: z.string().min(1),
+});
+
+// Either the transaction PIN or the account password
+export const StepUpSchema = z.union([
+  z.object({ pin: TransactionPin }).strict(),
+  z.object({ password: z.string().min(1) }).strict(),
+]);
+
 export type UserRegisterInput = z.infer<typeof UserRegisterSchema>;
 export type UserLoginInput = z.infer<typeof UserLoginSchema>;
+export type StepUpInput = z.infer<typeof StepUpSchema>;
 
 // Goal Types
 export const GoalCreateSchema = z.object({
@@ -37,6 +55,24 @@ export const GoalUpdateSchema = GoalCreateSchema.partial().extend({
 export type GoalCreateInput = z.infer<typeof GoalCreateSchema>;
 export type GoalUpdateInput = z.infer<typeof GoalUpdateSchema>;
 
+// Shared Goal Types
+const GoalMemberRoleSchema = z.enum(['CONTRIBUTOR', 'VIEWER']);
+
+export const GoalInvitationCreateSchema = z.object({
+  phone: z.string().trim().min(1).optional(),
+  email: z.string().email().optional(),
+  role: GoalMemberRoleSchema.default('CONTRIBUTOR'),
+}).refine((val) => Boolean(val.phone) !== Boolean(val.email), {
+  message: 'Give either phone or email',
+  path: ['phone'],
+});
+
+export const GoalMemberUpdateSchema = z.object({
+  role: GoalMemberRoleSchema,
+});
+
+export type GoalInvitationCreateInput = z.infer<typeof GoalInvitationCreateSchema>;
+
 // Expense Types
 export const ExpenseCreateSchema = z.object({
   description: z.string().min(1),
@@ -50,15 +86,405 @@ export const ExpenseUpdateSchema = ExpenseCreateSchema.partial();
 export type ExpenseCreateInput = z.infer<typeof ExpenseCreateSchema>;
 export type ExpenseUpdateInput = z.infer<typeof ExpenseUpdateSchema>;
 
+// Recurring Expense Types
+const RecurringExpenseBaseSchema = z.object({
+  description: z.string().min(1),
+  amount: z.number().positive(),
+  category: z.string().min(1),
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']),
+  interval: z.number().int().positive().max(365).default(1),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime().optional(),
+});
+
+export const RecurringExpenseCreateSchema = RecurringExpenseBaseSchema.refine(
+  (val) => !val.endDate || new Date(val.endDate) >= new Date(val.startDate),
+  { message: 'endDate must be on or after startDate', path: ['endDate'] }
+);
+
+export const RecurringExpenseUpdateSchema = RecurringExpenseBaseSchema.partial().extend({
+  endDate: z.string().datetime().nullable().optional(),
+});
+
+export type RecurringExpenseCreateInput = z.infer<typeof RecurringExpenseCreateSchema>;
+export type RecurringExpenseUpdateInput = z.infer<typeof RecurringExpenseUpdateSchema>;
+
 // Saving Types
 export const SavingCreateSchema = z.object({
   amount: z.number().positive(),
   type: z.enum(['MANUAL', 'AUTOMATIC', 'ROUND_UP', 'GOAL_CONTRIBUTION']),
   date: z.string().datetime(),
+  goalId: z.string().cuid().optional(),
 });
 
 export type SavingCreateInput = z.infer<typeof SavingCreateSchema>;
 
+// Auto-Save Rule Types
+const AutoSaveRuleBaseSchema = z.object({
+  name: z.string().min(1),
+  goalId: z.string().cuid(),
+  trigger: z.enum(['SCHEDULE', 'DEPOSIT']),
+  amountType: z.enum(['FIXED', 'PERCENTAGE']),
+  amount: z.number().positive(),
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']).optional(),
+  interval: z.number().int().positive().max(365).default(1),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
+export const AutoSaveRuleCreateSchema = AutoSaveRuleBaseSchema
+  .refine((val) => val.amountType !== 'PERCENTAGE' || val.amount <= 100, {
+    message: 'Percentage must be at most 100',
+    path: ['amount'],
+  })
+  .refine((val) => val.trigger !== 'SCHEDULE' || (val.frequency && val.startDate), {
+    message: 'Scheduled rules need a frequency and startDate',
+    path: ['frequency'],
+  });
+
+export const AutoSaveRuleUpdateSchema = AutoSaveRuleBaseSchema.partial().extend({
+  endDate: z.string().datetime().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const AutoSaveRulePreviewQuerySchema = z.object({
+  count: z.coerce.number().int().min(1).max(52).optional(),
+  depositAmount: z.coerce.number().positive().optional(),
+});
+
+export type AutoSaveRuleCreateInput = z.infer<typeof AutoSaveRuleCreateSchema>;
+export type AutoSaveRuleUpdateInput = z.infer<typeof AutoSaveRuleUpdateSchema>;
+
+// Round-Up Types
+export const RoundUpSettingsSchema = z.object({
+  isEnabled: z.boolean().optional(),
+  step: z.union([z.literal(10), z.literal(50), z.literal(100)]).optional(),
+  multiplier: z.number().int().min(1).max(3).optional(),
+  monthlyCap: z.number().positive().nullable().optional(),
+  sweepMode: z.enum(['IMMEDIATE', 'DAILY']).optional(),
+  goalId: z.string().cuid().nullable().optional(),
+});
+
+export type RoundUpSettingsInput = z.infer<typeof RoundUpSettingsSchema>;
+
+// Budget Types
+const BudgetBaseSchema = z.object({
+  category: z.string().trim().min(1),
+  limit: z.number().positive(),
+  rollover: z.enum(['NONE', 'FULL', 'CAPPED']).default('NONE'),
+  rolloverCap: z.number().positive().optional(),
+});
+
+export const BudgetCreateSchema = BudgetBaseSchema.refine(
+  (val) => val.rollover !== 'CAPPED' || val.rolloverCap !== undefined,
+  { message: 'rolloverCap is required for CAPPED rollover', path: ['rolloverCap'] }
+);
+
+export const BudgetUpdateSchema = BudgetBaseSchema.partial().extend({
+  rolloverCap: z.number().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const BudgetQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'month must be YYYY-MM').optional(),
+  includeInactive: z.enum(['true', 'false']).optional(),
+});
+
+export type BudgetCreateInput = z.infer<typeof BudgetCreateSchema>;
+export type BudgetUpdateInput = z.infer<typeof BudgetUpdateSchema>;
+
+// FX Types
+const CurrencyCodeSchema = z.string().regex(/^[A-Za-z]{3}$/, 'currency must be a 3-letter ISO code')
+  .transform(code => code.toUpperCase());
+
+export const FxRatesUpdateSchema = z.object({
+  // Units of each currency per 1 USD
+  rates: z.record(CurrencyCodeSchema, z.number().positive()),
+});
+
+export const FxConvertQuerySchema = z.object({
+  from: CurrencyCodeSchema,
+  to: CurrencyCodeSchema,
+  amount: z.coerce.number().positive(),
+});
+
+export const WalletOpenSchema = z.object({
+  currency: CurrencyCodeSchema,
+});
+
+export type FxRatesUpdateInput = z.infer<typeof FxRatesUpdateSchema>;
+
+// Payment Request Types
+export const PaymentRequestCreateSchema = z.object({
+  amount: z.number().positive(),
+  currency: CurrencyCodeSchema.optional(),
+  note: z.string().trim().max(200).optional(),
+  payerPhone: z.string().trim().min(1).optional(),
+  payerEmail: z.string().email().optional(),
+  expiresInDays: z.number().int().min(1).max(30).optional(),
+}).refine((val) => Boolean(val.payerPhone) !== Boolean(val.payerEmail), {
+  message: 'Give either payerPhone or payerEmail',
+  path: ['payerPhone'],
+});
+
+export const PaymentRequestQuerySchema = z.object({
+  status: z.enum(['PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED', 'EXPIRED']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type PaymentRequestCreateInput = z.infer<typeof PaymentRequestCreateSchema>;
+
+// Bill Split Types
+const BillSplitParticipantSchema = z.object({
+  phone: z.string().trim().min(1).optional(),
+  email: z.string().email().optional(),
+  // SHARES: weight of this participant's part
+  shares: z.number().int().positive().max(100).optional(),
+  // EXACT: this participant's part
+  amount: z.number().positive().optional(),
+}).refine((val) => Boolean(val.phone) !== Boolean(val.email), {
+  message: 'Give either phone or email',
+  path: ['phone'],
+});
+
+export const BillSplitCreateSchema = z.object({
+  description: z.string().trim().min(1).max(200),
+  category: z.string().min(1),
+  amount: z.number().positive(),
+  currency: CurrencyCodeSchema.optional(),
+  date: z.string().datetime().optional(),
+  method: z.enum(['EQUAL', 'SHARES', 'EXACT']).default('EQUAL'),
+  // SHARES: the creator's own weight; 0 when they aren't part of the bill
+  creatorShares: z.number().int().min(0).max(100).default(1),
+  participants: z.array(BillSplitParticipantSchema).min(1).max(20),
+}).refine((val) => val.method !== 'SHARES' || val.participants.every(p => p.shares !== undefined), {
+  message: 'Give shares for every participant',
+  path: ['participants'],
+}).refine((val) => val.method !== 'EXACT' || val.participants.every(p => p.amount !== undefined), {
+  message: 'Give an amount for every participant',
+  path: ['participants'],
+});
+
+export const BillSplitQuerySchema = z.object({
+  role: z.enum(['created', 'owed']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type BillSplitCreateInput = z.infer<typeof BillSplitCreateSchema>;
+
+// Scheduled Transfer Types
+const ScheduledTransferBaseSchema = z.object({
+  receiverPhone: z.string().trim().min(1),
+  amount: z.number().positive(),
+  currency: CurrencyCodeSchema.optional(),
+  description: z.string().trim().max(200).optional(),
+  // Leave out for a one-off transfer on startDate
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']).optional(),
+  interval: z.number().int().positive().max(365).default(1),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime().optional(),
+});
+
+export const ScheduledTransferCreateSchema = ScheduledTransferBaseSchema.refine(
+  (val) => !val.endDate || new Date(val.endDate) >= new Date(val.startDate),
+  { message: 'endDate must be on or after startDate', path: ['endDate'] }
+);
+
+export const ScheduledTransferUpdateSchema = ScheduledTransferBaseSchema.omit({ receiverPhone: true, currency: true })
+  .partial()
+  .extend({
+    frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']).nullable().optional(),
+    endDate: z.string().datetime().nullable().optional(),
+  });
+
+export type ScheduledTransferCreateInput = z.infer<typeof ScheduledTransferCreateSchema>;
+export type ScheduledTransferUpdateInput = z.infer<typeof ScheduledTransferUpdateSchema>;
+
+// Family Types
+export const ChildCreateSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8),
+  firstName: z.string().trim().min(1),
+  lastName: z.string().trim().optional(),
+  phone: z.string().trim().min(1).optional(),
+});
+
+export const ChildControlsUpdateSchema = z.object({
+  dailyLimit: z.number().positive().optional(),
+  weeklyLimit: z.number().positive().optional(),
+  monthlyLimit: z.number().positive().optional(),
+  approvalThreshold: z.number().min(0).optional(),
+});
+
+// An allowance is always recurring, from the parent's wallet in the child's home currency
+export const AllowanceCreateSchema = ScheduledTransferBaseSchema.omit({ receiverPhone: true, currency: true })
+  .required({ frequency: true })
+  .refine(
+    (val) => !val.endDate || new Date(val.endDate) >= new Date(val.startDate),
+    { message: 'endDate must be on or after startDate', path: ['endDate'] }
+  );
+
+export type ChildCreateInput = z.infer<typeof ChildCreateSchema>;
+export type AllowanceCreateInput = z.infer<typeof AllowanceCreateSchema>;
+
+// Payee Types
+export const PayeeCreateSchema = z.object({
+  phone: z.string().trim().min(1),
+  nickname: z.string().trim().min(1).max(50).optional(),
+  isFavorite: z.boolean().optional(),
+});
+
+export const PayeeUpdateSchema = z.object({
+  nickname: z.string().trim().min(1).max(50).nullable().optional(),
+  isFavorite: z.boolean().optional(),
+});
+
+export const PayeeQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  favorite: z.enum(['true', 'false']).transform((val) => val === 'true').optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type PayeeCreateInput = z.infer<typeof PayeeCreateSchema>;
+export type PayeeUpdateInput = z.infer<typeof PayeeUpdateSchema>;
+
+// Receive QR Types
+export const ReceiveQrQuerySchema = z.object({
+  currency: z.string().length(3).optional(),
+  amount: z.coerce.number().positive().optional(),
+  note: z.string().trim().min(1).max(140).optional(),
+  expiresInMinutes: z.coerce.number().int().min(1).optional(),
+});
+
+export const ReceiveQrResolveSchema = z.object({
+  payload: z.string().trim().min(1),
+});
+
+// QR Payment Types
+export const QrPaymentCreateSchema = z.object({
+  qrData: z.string().trim().min(1),
+  // Required unless the code fixes the amount
+  amount: z.number().positive().optional(),
+  // Pay from this goal instead of the wallet
+  goalId: z.string().cuid().optional(),
+  category: z.string().trim().min(1).max(50).optional(),
+});
+
+export const QrPaymentQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type QrPaymentCreateInput = z.infer<typeof QrPaymentCreateSchema>;
+
+// Merchant Invoice Types
+const InvoiceStatusSchema = z.enum(['CREATED', 'PAID', 'EXPIRED', 'REFUNDED']);
+
+export const InvoiceCreateSchema = z.object({
+  amount: z.number().positive(),
+  currency: CurrencyCodeSchema.optional(),
+  reference: z.string().trim().min(1).max(64),
+  description: z.string().trim().max(200).optional(),
+  expiresInMinutes: z.number().int().min(1).optional(),
+});
+
+export const InvoiceQuerySchema = z.object({
+  status: InvoiceStatusSchema.optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+// Long-poll: answer once the status is no longer `after`, or after `wait` seconds
+export const InvoiceStatusQuerySchema = z.object({
+  after: InvoiceStatusSchema.optional(),
+  wait: z.coerce.number().int().min(0).max(30).optional(),
+});
+
+export const InvoicePaySchema = z.object({
+  payload: z.string().trim().min(1),
+  goalId: z.string().cuid().optional(),
+});
+
+export const SettlementQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be YYYY-MM-DD').optional(),
+});
+
+export const MerchantUpdateSchema = z.object({
+  isMerchant: z.boolean(),
+  merchantName: z.string().trim().min(1).max(100).nullable().optional(),
+});
+
+export type InvoiceCreateInput = z.infer<typeof InvoiceCreateSchema>;
+export type InvoicePayInput = z.infer<typeof InvoicePaySchema>;
+export type MerchantUpdateInput = z.infer<typeof MerchantUpdateSchema>;
+
+// Payment Link Types
+export const PaymentLinkCreateSchema = z.object({
+  // Left out to let the payer choose
+  amount: z.number().positive().optional(),
+  currency: CurrencyCodeSchema.optional(),
+  note: z.string().trim().min(1).max(140).optional(),
+  singleUse: z.boolean().optional(),
+  expiresInMinutes: z.number().int().min(1).optional(),
+});
+
+export const PaymentLinkQuerySchema = z.object({
+  status: z.enum(['ACTIVE', 'USED', 'DISABLED']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type PaymentLinkCreateInput = z.infer<typeof PaymentLinkCreateSchema>;
+
+// Reversal Types
+export const ReversalRequestCreateSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const ReversalRequestQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+// Risk Types
+export const RiskPolicyUpdateSchema = z.object({
+  dailyLimit: z.number().positive().optional(),
+  weeklyLimit: z.number().positive().optional(),
+  monthlyLimit: z.number().positive().optional(),
+  confirmScore: z.number().int().min(0).optional(),
+  reviewScore: z.number().int().min(0).optional(),
+});
+
+export const RiskRuleUpdateSchema = z.object({
+  isEnabled: z.boolean().optional(),
+  score: z.number().int().min(0).max(1000).optional(),
+  params: z.record(z.string(), z.number().min(0)).optional(),
+});
+
+export const RiskRuleParamsSchema = z.object({
+  type: z.enum(['VELOCITY', 'NEW_PAYEE', 'LARGE_AMOUNT', 'REPEATED_SMALL_TRANSFERS']),
+});
+
+export const RiskDecisionQuerySchema = z.object({
+  outcome: z.enum(['ALLOW', 'HOLD_CONFIRM', 'HOLD_REVIEW', 'HOLD_PARENT', 'BLOCK']).optional(),
+  userId: z.string().cuid().optional(),
+  unresolved: z.enum(['true', 'false']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const TransferLimitUpdateSchema = z.object({
+  dailyLimit: z.number().positive().nullable().optional(),
+  weeklyLimit: z.number().positive().nullable().optional(),
+  monthlyLimit: z.number().positive().nullable().optional(),
+});
+
+export type RiskRuleUpdateInput = z.infer<typeof RiskRuleUpdateSchema>;
+
 // AI Insight Types
 export const InsightCreateSchema = z.object({
   type: z.enum(['SAVING', 'SPENDING', 'WARNING', 'GOAL', 'ACHIEVEMENT']),
@@ -146,6 +572,25 @@ export interface DashboardData {
     yearlyGrowth: number;
   };
   monthlyBudget: number;
+  monthlySpent: number;
+  budgetSummary: {
+    limit: number;
+    spent: number;
+    remaining: number;
+    percentUsed: number;
+    overBudgetCategories: string[];
+  };
+  budgets: Array<{
+    id: string;
+    category: string;
+    limit: number;
+    carriedOver: number;
+    effectiveLimit: number;
+    spent: number;
+    remaining: number;
+    percentUsed: number;
+    isOverBudget: boolean;
+  }>;
   recentExpenses: Array<{
     id: string;
     description: string;
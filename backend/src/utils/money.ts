@@ -0,0 +1,6 @@
+// Money is stored in the ledger as integer minor units (cents/paise) so sums
+// never drift; the API and the Float columns still speak major units.
+
+export const toMinor = (amount: number): bigint => BigInt(Math.round(amount * 100));
+
+export const fromMinor = (minor: bigint): number => Number(minor) / 100;
@@ -0,0 +1,102 @@
+import { RecurrenceFrequency } from '@prisma/client';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Upper bound on how many occurrences we walk when searching for the next one
+const MAX_OCCURRENCE_SCAN = 100000;
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: Date;
+  endDate?: Date | null;
+}
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Date of the n-th occurrence (0-based) of a schedule.
+ *
+ * Monthly and yearly schedules keep the day of month of the start date and
+ * clamp it to the last day of shorter months, so a schedule starting on the
+ * 31st posts on Feb 28/29 and returns to the 31st afterwards.
+ */
+export const occurrenceAt = (schedule: RecurrenceSchedule, index: number): Date => {
+  const { frequency, interval, startDate } = schedule;
+  const steps = index * interval;
+
+  switch (frequency) {
+    case 'DAILY':
+      return new Date(startDate.getTime() + steps * DAY_MS);
+    case 'WEEKLY':
+      return new Date(startDate.getTime() + steps * 7 * DAY_MS);
+    case 'MONTHLY':
+    case 'YEARLY': {
+      const totalMonths =
+        startDate.getUTCFullYear() * 12 +
+        startDate.getUTCMonth() +
+        (frequency === 'MONTHLY' ? steps : steps * 12);
+      const year = Math.floor(totalMonths / 12);
+      const month = totalMonths % 12;
+      const day = Math.min(startDate.getUTCDate(), daysInMonth(year, month));
+
+      return new Date(Date.UTC(
+        year,
+        month,
+        day,
+        startDate.getUTCHours(),
+        startDate.getUTCMinutes(),
+        startDate.getUTCSeconds(),
+        startDate.getUTCMilliseconds()
+      ));
+    }
+  }
+};
+
+/**
+ * Index of the first occurrence at or after `from`.
+ */
+export const firstOccurrenceIndexFrom = (schedule: RecurrenceSchedule, from: Date): number => {
+  let index = 0;
+  while (index < MAX_OCCURRENCE_SCAN && occurrenceAt(schedule, index) < from) {
+    index++;
+  }
+  return index;
+};
+
+/**
+ * Whether the given occurrence date falls within the schedule's end date.
+ */
+export const isWithinSchedule = (schedule: RecurrenceSchedule, date: Date) =>
+  !schedule.endDate || date <= schedule.endDate;
+
+/**
+ * Position of the occurrence that follows `index`, flagging the schedule as
+ * finished once that occurrence falls past its end date.
+ */
+export const nextOccurrence = (schedule: RecurrenceSchedule, index: number) => {
+  const occurrenceIndex = index + 1;
+  const nextRunAt = occurrenceAt(schedule, occurrenceIndex);
+
+  return {
+    occurrenceIndex,
+    nextRunAt,
+    isActive: isWithinSchedule(schedule, nextRunAt),
+  };
+};
+
+/**
+ * First occurrence at or after `from`, used when a schedule is created,
+ * changed or resumed after a pause.
+ */
+export const occurrenceFrom = (schedule: RecurrenceSchedule, from: Date) => {
+  const occurrenceIndex = firstOccurrenceIndexFrom(schedule, from);
+  const nextRunAt = occurrenceAt(schedule, occurrenceIndex);
+
+  return {
+    occurrenceIndex,
+    nextRunAt,
+    isActive: isWithinSchedule(schedule, nextRunAt),
+  };
+};
@@ -21,12 +21,32 @@ import { colors } from '../constants/colors';
 import { formatCurrency } from '../utils/formatters';
 
 interface DashboardData {
+    // Home currency every amount is reported in
+    currency?: string;
     savings: {
         total: number;
         monthlyGrowth: number;
         yearlyGrowth: number;
     };
     monthlyBudget: number;
+    monthlySpent: number;
+    budgetSummary: {
+        limit: number;
+        spent: number;
+        remaining: number;
+        percentUsed: number;
+        overBudgetCategories: string[];
+    };
+    budgets: Array<{
+        id: string;
+        category: string;
+        effectiveLimit: number;
+        carriedOver: number;
+        spent: number;
+        remaining: number;
+        percentUsed: number;
+        isOverBudget: boolean;
+    }>;
     recentExpenses: Array<{
         id: string;
         description: string;
@@ -135,7 +155,7 @@ const DashboardScreen: React.FC = () => {
                 <Card style={styles.walletCard}>
                     <Text style={styles.walletLabel}>Total Balance</Text>
                     <Text style={styles.walletAmount}>
-                        {formatCurrency(data?.savings.total || 0)}
+                        {formatCurrency(data?.savings.total || 0, data?.currency)}
                     </Text>
                 </Card>
 
@@ -150,7 +170,7 @@ const DashboardScreen: React.FC = () => {
                     <Card style={styles.statCard}>
                         <Text style={styles.statEmoji}>💰</Text>
                         <Text style={styles.statValue}>
-                            {formatCurrency(data?.goals?.reduce((sum, g) => sum + g.saved, 0) || 0)}
+                            {formatCurrency(data?.goals?.reduce((sum, g) => sum + g.saved, 0) || 0, data?.currency)}
                         </Text>
                         <Text style={styles.statLabel}>Total Saved</Text>
                     </Card>
@@ -163,10 +183,63 @@ const DashboardScreen: React.FC = () => {
                         <Text style={styles.expenseEmoji}>💸</Text>
                     </View>
                     <Text style={styles.expenseAmount}>
-                        {formatCurrency(data?.recentExpenses?.reduce((sum, e) => sum + e.amount, 0) || 0)}
+                        {formatCurrency(data?.monthlySpent || 0, data?.currency)}
+                    </Text>
+                    <Text style={styles.expenseSubtext}>
+                        {(data?.budgets?.length ?? 0) > 0
+                            ? `of ${formatCurrency(data?.monthlyBudget || 0, data?.currency)} budget`
+                            : 'No budgets set'}
                     </Text>
                 </Card>
 
+                {/* Over Budget Warning */}
+                {(data?.budgetSummary?.overBudgetCategories?.length ?? 0) > 0 && (
+                    <Card style={styles.warningCard}>
+                        <Text style={styles.warningTitle}>⚠️ Over Budget</Text>
+                        <Text style={styles.warningText}>
+                            You've exceeded your budget for{' '}
+                            {data?.budgetSummary.overBudgetCategories.join(', ')} this month.
+                        </Text>
+                    </Card>
+                )}
+
+                {/* Budgets */}
+                {(data?.budgets?.length ?? 0) > 0 && (
+                    <Card style={styles.budgetCard}>
+                        <Text style={styles.sectionTitle}>Budgets This Month</Text>
+                        {data?.budgets.map((budget) => (
+                            <View key={budget.id} style={styles.budgetRow}>
+                                <View style={styles.budgetHeader}>
+                                    <Text style={styles.budgetCategory}>{budget.category}</Text>
+                                    <Text
+                                        style={[
+                                            styles.budgetAmount,
+                                            budget.isOverBudget && styles.budgetAmountOver,
+                                        ]}
+                                    >
+                                        {formatCurrency(budget.spent, data?.currency)} of {formatCurrency(budget.effectiveLimit, data?.currency)}
+                                    </Text>
+                                </View>
+                                <View style={styles.progressBar}>
+                                    <View
+                                        style={[
+                                            styles.progressFill,
+                                            { width: `${Math.min(budget.percentUsed, 100)}%` },
+                                            budget.percentUsed > 80 && styles.progressFillWarning,
+                                            budget.isOverBudget && styles.progressFillOver,
+                                        ]}
+                                    />
+                                </View>
+                                {budget.carriedOver > 0 && (
+                                    <Text style={styles.budgetRollover}>
+                                        Includes {formatCurrency(budget.carriedOver, data?.currency)} rolled over
+                                    </Text>
+                                )}
+                            </View>
+                        ))}
+                    </Card>
+                )}
+
                 {/* Quick Actions */}
                 <View style={styles.actionsContainer}>
                     <Text style={styles.sectionTitle}>Quick Actions</Text>
@@ -407,6 +480,71 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         color: colors.error,
     },
+    expenseSubtext: {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginTop: 4,
+    },
+    warningCard: {
+        backgroundColor: colors.errorLight,
+        marginBottom: 20,
+    },
+    warningTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: colors.error,
+        marginBottom: 4,
+    },
+    warningText: {
+        fontSize: 14,
+        color: colors.error,
+    },
+    budgetCard: {
+        marginBottom: 20,
+    },
+    budgetRow: {
+        marginBottom: 16,
+    },
+    budgetHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 6,
+    },
+    budgetCategory: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.text,
+    },
+    budgetAmount: {
+        fontSize: 12,
+        color: colors.textSecondary,
+    },
+    budgetAmountOver: {
+        color: colors.error,
+        fontWeight: '600',
+    },
+    budgetRollover: {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginTop: 4,
+    },
+    progressBar: {
+        height: 8,
+        backgroundColor: colors.gray200,
+        borderRadius: 4,
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        backgroundColor: colors.success,
+    },
+    progressFillWarning: {
+        backgroundColor: colors.warning,
+    },
+    progressFillOver: {
+        backgroundColor: colors.error,
+    },
     actionsContainer: {
         marginTop: 8,
     },
@@ -12,6 +12,7 @@ import { RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { GoalsStackParamList } from '../navigation/MainNavigator';
 import apiService from '../services/api';
+import { askStepUp } from '../utils/stepUp';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { Input } from '../components/Input';
@@ -73,7 +74,7 @@ const GoalDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
         fetchGoalDetails();
     }, [goalId]);
 
-    const handleAddMoney = async () => {
+    const handleAddMoney = async (source: 'WALLET' | 'EXTERNAL') => {
         const amountNum = parseFloat(amount);
         if (!amountNum || amountNum <= 0) {
             Alert.alert('Invalid Amount', 'Please enter a valid amount');
@@ -82,8 +83,11 @@ const GoalDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
 
         setProcessing(true);
         try {
-            await apiService.addToGoal(goalId, amountNum);
-            Alert.alert('Success', 'Money added to goal!');
+            await apiService.addToGoal(goalId, amountNum, source);
+            Alert.alert(
+                'Success',
+                source === 'WALLET' ? 'Money moved from your wallet to this goal!' : 'Savings recorded!'
+            );
             setAddModalVisible(false);
             setAmount('');
             fetchGoalDetails();
@@ -108,7 +112,11 @@ const GoalDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
 
         setProcessing(true);
         try {
-            await apiService.withdrawFromGoal(goalId, amountNum);
+            const response = await apiService.withStepUp(
+                () => apiService.withdrawFromGoal(goalId, amountNum),
+                askStepUp
+            );
+            if (!response) return;
             Alert.alert('Success', 'Money withdrawn from goal!');
             setWithdrawModalVisible(false);
             setAmount('');
@@ -233,11 +241,18 @@ const GoalDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
                     keyboardType="numeric"
                 />
                 <Button
-                    title="Add Money"
-                    onPress={handleAddMoney}
+                    title="💳 Add from Wallet"
+                    onPress={() => handleAddMoney('WALLET')}
                     loading={processing}
                     style={styles.modalButton}
                 />
+                <Button
+                    title="💵 I Saved This Elsewhere"
+                    onPress={() => handleAddMoney('EXTERNAL')}
+                    variant="secondary"
+                    disabled={processing}
+                    style={styles.modalButton}
+                />
             </Modal>
 
             {/* Withdraw Money Modal */}
@@ -272,7 +287,11 @@ const GoalDetailsScreen: React.FC<Props> = ({ route, navigation }) => {
                                         }
                                         setProcessing(true);
                                         try {
-                                            await apiService.withdrawFromGoal(goalId, amountNum);
+                                            const response = await apiService.withStepUp(
+                                                () => apiService.withdrawFromGoal(goalId, amountNum),
+                                                askStepUp
+                                            );
+                                            if (!response) return;
                                             Alert.alert('Success', 'Money withdrawn to wallet!');
                                             fetchGoalDetails();
                                         } catch (error: any) {
@@ -10,29 +10,83 @@ import {
     ScrollView,
 } from 'react-native';
 import apiService from '../services/api';
+import { askStepUp } from '../utils/stepUp';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { Input } from '../components/Input';
 import { Modal } from '../components/Modal';
+import { Picker } from '../components/Picker';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 import { colors } from '../constants/colors';
 import { formatCurrency, formatDate } from '../utils/formatters';
 
 interface Transaction {
     id: string;
-    type: 'DEPOSIT' | 'WITHDRAWAL' | 'TRANSFER' | 'PAYMENT';
+    type: 'DEPOSIT' | 'WITHDRAWAL' | 'TRANSFER' | 'PAYMENT' | 'GOAL_TRANSFER' | 'QR_PAYMENT' | 'GOAL_PAYMENT';
     amount: number;
+    currency?: string;
     description?: string;
+    senderUserId?: string;
     createdAt: string;
 }
 
+interface PaymentRequestParty {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    email: string;
+}
+
+interface PaymentRequest {
+    id: string;
+    amount: number;
+    currency: string;
+    note?: string;
+    status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED' | 'EXPIRED';
+    createdAt: string;
+    requester: PaymentRequestParty;
+    payer: PaymentRequestParty;
+}
+
+const partyName = (party: PaymentRequestParty): string =>
+    [party.firstName, party.lastName].filter(Boolean).join(' ') || party.email;
+
+interface Payee {
+    id: string;
+    nickname?: string;
+    isFavorite: boolean;
+    payeeUser: {
+        id: string;
+        phone?: string;
+        firstName?: string;
+        lastName?: string;
+    };
+}
+
+const payeeName = (payee: Payee): string =>
+    payee.nickname
+    || [payee.payeeUser.firstName, payee.payeeUser.lastName].filter(Boolean).join(' ')
+    || payee.payeeUser.phone
+    || 'Payee';
+
 const PaymentsScreen: React.FC = () => {
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
     const [balance, setBalance] = useState(0);
+    const [allocated, setAllocated] = useState(0);
+    const [currency, setCurrency] = useState('INR');
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [depositModalVisible, setDepositModalVisible] = useState(false);
     const [withdrawModalVisible, setWithdrawModalVisible] = useState(false);
+    const [requestModalVisible, setRequestModalVisible] = useState(false);
+    const [sendModalVisible, setSendModalVisible] = useState(false);
+    const [payees, setPayees] = useState<Payee[]>([]);
+    const [payeeSearch, setPayeeSearch] = useState('');
+    const [payeeId, setPayeeId] = useState('');
+    const [receiverPhone, setReceiverPhone] = useState('');
+    const [incomingRequests, setIncomingRequests] = useState<PaymentRequest[]>([]);
+    const [outgoingRequests, setOutgoingRequests] = useState<PaymentRequest[]>([]);
+    const [payer, setPayer] = useState('');
     const [amount, setAmount] = useState('');
     const [description, setDescription] = useState('');
     const [processing, setProcessing] = useState(false);
@@ -44,6 +98,8 @@ const PaymentsScreen: React.FC = () => {
             if (walletRes?.success && walletRes?.data) {
                 const bal = walletRes.data?.balance || 0;
                 setBalance(bal);
+                setAllocated((walletRes.data as any)?.funds?.allocated || 0);
+                setCurrency((walletRes.data as any)?.currency || 'INR');
             }
 
             // Fetch transactions
@@ -51,6 +107,18 @@ const PaymentsScreen: React.FC = () => {
             if (txRes?.success && txRes?.data && Array.isArray(txRes.data)) {
                 setTransactions(txRes.data);
             }
+
+            // Fetch recent payment requests both ways
+            const [incomingRes, outgoingRes] = await Promise.all([
+                apiService.getIncomingPaymentRequests({ limit: 5 }),
+                apiService.getOutgoingPaymentRequests({ limit: 5 }),
+            ]);
+            if (incomingRes?.success && Array.isArray(incomingRes.data)) {
+                setIncomingRequests(incomingRes.data);
+            }
+            if (outgoingRes?.success && Array.isArray(outgoingRes.data)) {
+                setOutgoingRequests(outgoingRes.data);
+            }
         } catch (error: any) {
             console.error('Fetch error:', error);
             Alert.alert('Error', 'Failed to load wallet data');
@@ -64,6 +132,16 @@ const PaymentsScreen: React.FC = () => {
         fetchWalletData();
     }, []);
 
+    // Favorites come first, then whoever was paid most recently
+    useEffect(() => {
+        const search = payeeSearch.trim();
+        apiService.getPayees({ ...(search && { search }), limit: 20 })
+            .then((res) => {
+                if (res?.success && Array.isArray(res.data)) setPayees(res.data);
+            })
+            .catch((error) => console.error('Fetch payees error:', error));
+    }, [payeeSearch, sendModalVisible]);
+
     const onRefresh = () => {
         setRefreshing(true);
         fetchWalletData();
@@ -78,7 +156,7 @@ const PaymentsScreen: React.FC = () => {
 
         setProcessing(true);
         try {
-            await apiService.deposit(amountNum, description);
+            await apiService.deposit(amountNum, description, currency);
             Alert.alert('Success', 'Money deposited successfully!');
             setDepositModalVisible(false);
             setAmount('');
@@ -105,7 +183,11 @@ const PaymentsScreen: React.FC = () => {
 
         setProcessing(true);
         try {
-            await apiService.withdraw(amountNum, description);
+            const response = await apiService.withStepUp(
+                () => apiService.withdraw(amountNum, description, currency),
+                askStepUp
+            );
+            if (!response) return;
             Alert.alert('Success', 'Money withdrawn successfully!');
             setWithdrawModalVisible(false);
             setAmount('');
@@ -118,18 +200,130 @@ const PaymentsScreen: React.FC = () => {
         }
     };
 
+    const handleSendMoney = async () => {
+        const amountNum = parseFloat(amount);
+        if (!payeeId && !receiverPhone.trim()) {
+            Alert.alert('Missing Recipient', 'Pick a payee or enter a phone number');
+            return;
+        }
+        if (!amountNum || amountNum <= 0) {
+            Alert.alert('Invalid Amount', 'Please enter a valid amount');
+            return;
+        }
+
+        setProcessing(true);
+        try {
+            const note = description || 'Payment';
+            const response = await apiService.withStepUp(
+                () => payeeId
+                    ? apiService.transferToPayee(payeeId, amountNum, note, currency)
+                    : apiService.transfer(receiverPhone.trim(), amountNum, note, currency),
+                askStepUp
+            );
+            if (!response) return;
+            // Held transfers are confirmed or reviewed from the web app
+            const held = Boolean((response.data as { hold?: object } | undefined)?.hold);
+            Alert.alert(
+                held ? 'On Hold' : 'Success',
+                held ? response.message || 'Transfer is on hold' : 'Money sent successfully!'
+            );
+            setSendModalVisible(false);
+            setPayeeId('');
+            setPayeeSearch('');
+            setReceiverPhone('');
+            setAmount('');
+            setDescription('');
+            fetchWalletData();
+        } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to send money');
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleRequestMoney = async () => {
+        const amountNum = parseFloat(amount);
+        if (!payer.trim()) {
+            Alert.alert('Missing Payer', 'Enter a phone number or email to request from');
+            return;
+        }
+        if (!amountNum || amountNum <= 0) {
+            Alert.alert('Invalid Amount', 'Please enter a valid amount');
+            return;
+        }
+
+        setProcessing(true);
+        try {
+            const payerInput = payer.trim();
+            await apiService.createPaymentRequest({
+                amount: amountNum,
+                ...(payerInput.includes('@') ? { payerEmail: payerInput } : { payerPhone: payerInput }),
+                currency,
+                ...(description && { note: description }),
+            });
+            Alert.alert('Success', 'Payment request sent!');
+            setRequestModalVisible(false);
+            setPayer('');
+            setAmount('');
+            setDescription('');
+            fetchWalletData();
+        } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to request money');
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const handleRespondToRequest = async (request: PaymentRequest, action: 'accept' | 'decline' | 'cancel') => {
+        try {
+            if (action === 'accept') {
+                const response = await apiService.withStepUp(
+                    () => apiService.acceptPaymentRequest(request.id),
+                    askStepUp
+                );
+                if (!response) return;
+                Alert.alert('Success', `Paid ${formatCurrency(request.amount, request.currency)} to ${partyName(request.requester)}`);
+            } else if (action === 'decline') {
+                await apiService.declinePaymentRequest(request.id);
+            } else {
+                await apiService.cancelPaymentRequest(request.id);
+            }
+            fetchWalletData();
+        } catch (error: any) {
+            Alert.alert('Error', error.message || `Failed to ${action} request`);
+        }
+    };
+
+    const confirmPayRequest = (request: PaymentRequest) => {
+        Alert.alert(
+            'Pay Request',
+            `Pay ${formatCurrency(request.amount, request.currency)} to ${partyName(request.requester)}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Pay', onPress: () => handleRespondToRequest(request, 'accept') },
+            ]
+        );
+    };
+
     const getTransactionIcon = (type: string): string => {
         const iconMap: Record<string, string> = {
             DEPOSIT: '⬇️',
             WITHDRAWAL: '⬆️',
             TRANSFER: '↔️',
             PAYMENT: '💳',
+            GOAL_TRANSFER: '🎯',
+            QR_PAYMENT: '📷',
+            GOAL_PAYMENT: '💳',
         };
         return iconMap[type] || '💰';
     };
 
-    const getTransactionColor = (type: string): string => {
-        return type === 'DEPOSIT' ? colors.success : colors.error;
+    // Goal transfers go both ways: into a goal (sent from the wallet) or back out of one
+    const isIncoming = (item: Transaction): boolean =>
+        item.type === 'DEPOSIT' || (item.type === 'GOAL_TRANSFER' && !item.senderUserId);
+
+    const getTransactionColor = (item: Transaction): string => {
+        return isIncoming(item) ? colors.success : colors.error;
     };
 
     if (loading) {
@@ -144,7 +338,12 @@ const PaymentsScreen: React.FC = () => {
 
             <View style={styles.balanceCard}>
                 <Text style={styles.balanceLabel}>Available Balance</Text>
-                <Text style={styles.balanceAmount}>{formatCurrency(balance)}</Text>
+                <Text style={[styles.balanceAmount, allocated > 0 && styles.balanceAmountCompact]}>
+                    {formatCurrency(balance, currency)}
+                </Text>
+                {allocated > 0 && (
+                    <Text style={styles.allocatedText}>{formatCurrency(allocated, currency)} set aside in goals</Text>
+                )}
                 <View style={styles.actionButtons}>
                     <Button
                         title="Deposit"
@@ -157,9 +356,85 @@ const PaymentsScreen: React.FC = () => {
                         variant="secondary"
                         style={styles.actionButton}
                     />
+                    <Button
+                        title="Send"
+                        onPress={() => setSendModalVisible(true)}
+                        variant="secondary"
+                        style={styles.actionButton}
+                    />
+                    <Button
+                        title="Request"
+                        onPress={() => setRequestModalVisible(true)}
+                        variant="secondary"
+                        style={styles.actionButton}
+                    />
                 </View>
             </View>
 
+            {(incomingRequests.length > 0 || outgoingRequests.length > 0) && (
+                <View style={styles.requestsSection}>
+                    <Text style={styles.sectionTitle}>Payment Requests</Text>
+                    {incomingRequests.map((request) => (
+                        <Card key={request.id} style={styles.requestCard}>
+                            <View style={styles.transactionHeader}>
+                                <View style={styles.transactionDetails}>
+                                    <Text style={styles.transactionType}>
+                                        {partyName(request.requester)} requests {formatCurrency(request.amount, request.currency)}
+                                    </Text>
+                                    {request.note && (
+                                        <Text style={styles.transactionDescription}>{request.note}</Text>
+                                    )}
+                                    <Text style={styles.transactionDate}>{formatDate(request.createdAt)}</Text>
+                                </View>
+                                {request.status === 'PENDING' ? (
+                                    <View style={styles.requestActions}>
+                                        <Button
+                                            title="Pay"
+                                            size="small"
+                                            onPress={() => confirmPayRequest(request)}
+                                        />
+                                        <Button
+                                            title="Decline"
+                                            size="small"
+                                            variant="outline"
+                                            onPress={() => handleRespondToRequest(request, 'decline')}
+                                            style={styles.requestActionButton}
+                                        />
+                                    </View>
+                                ) : (
+                                    <Text style={styles.requestStatus}>{request.status.toLowerCase()}</Text>
+                                )}
+                            </View>
+                        </Card>
+                    ))}
+                    {outgoingRequests.map((request) => (
+                        <Card key={request.id} style={styles.requestCard}>
+                            <View style={styles.transactionHeader}>
+                                <View style={styles.transactionDetails}>
+                                    <Text style={styles.transactionType}>
+                                        You asked {partyName(request.payer)} for {formatCurrency(request.amount, request.currency)}
+                                    </Text>
+                                    {request.note && (
+                                        <Text style={styles.transactionDescription}>{request.note}</Text>
+                                    )}
+                                    <Text style={styles.transactionDate}>{formatDate(request.createdAt)}</Text>
+                                </View>
+                                {request.status === 'PENDING' ? (
+                                    <Button
+                                        title="Cancel"
+                                        size="small"
+                                        variant="outline"
+                                        onPress={() => handleRespondToRequest(request, 'cancel')}
+                                    />
+                                ) : (
+                                    <Text style={styles.requestStatus}>{request.status.toLowerCase()}</Text>
+                                )}
+                            </View>
+                        </Card>
+                    ))}
+                </View>
+            )}
+
             <View style={styles.transactionsHeader}>
                 <Text style={styles.sectionTitle}>Recent Transactions</Text>
             </View>
@@ -195,9 +470,9 @@ const PaymentsScreen: React.FC = () => {
                                 </View>
                                 <Text style={[
                                     styles.transactionAmount,
-                                    { color: getTransactionColor(item.type) }
+                                    { color: getTransactionColor(item) }
                                 ]}>
-                                    {item.type === 'DEPOSIT' ? '+' : '-'}{formatCurrency(item.amount)}
+                                    {isIncoming(item) ? '+' : '-'}{formatCurrency(item.amount, item.currency || currency)}
                                 </Text>
                             </View>
                         </Card>
@@ -258,6 +533,97 @@ const PaymentsScreen: React.FC = () => {
                     style={styles.modalButton}
                 />
             </Modal>
+
+            {/* Send Modal */}
+            <Modal
+                visible={sendModalVisible}
+                onClose={() => setSendModalVisible(false)}
+                title="Send Money"
+            >
+                <Input
+                    label="Search Payees"
+                    value={payeeSearch}
+                    onChangeText={setPayeeSearch}
+                    placeholder="Name, nickname or phone"
+                    autoCapitalize="none"
+                />
+                <Picker
+                    label="To"
+                    value={payeeId}
+                    options={[
+                        { label: 'Someone new', value: '' },
+                        ...payees.map((payee) => ({
+                            label: payeeName(payee),
+                            value: payee.id,
+                            ...(payee.isFavorite && { emoji: '⭐' }),
+                        })),
+                    ]}
+                    onValueChange={setPayeeId}
+                    placeholder="Pick a payee"
+                />
+                {!payeeId && (
+                    <Input
+                        label="Phone Number"
+                        value={receiverPhone}
+                        onChangeText={setReceiverPhone}
+                        placeholder="Enter receiver's phone number"
+                        keyboardType="phone-pad"
+                    />
+                )}
+                <Input
+                    label="Amount"
+                    value={amount}
+                    onChangeText={setAmount}
+                    placeholder="Enter amount"
+                    keyboardType="numeric"
+                />
+                <Input
+                    label="Description (Optional)"
+                    value={description}
+                    onChangeText={setDescription}
+                    placeholder="What's this for?"
+                />
+                <Button
+                    title="Send"
+                    onPress={handleSendMoney}
+                    loading={processing}
+                    style={styles.modalButton}
+                />
+            </Modal>
+
+            {/* Request Modal */}
+            <Modal
+                visible={requestModalVisible}
+                onClose={() => setRequestModalVisible(false)}
+                title="Request Money"
+            >
+                <Input
+                    label="From (phone or email)"
+                    value={payer}
+                    onChangeText={setPayer}
+                    placeholder="Enter phone number or email"
+                    autoCapitalize="none"
+                />
+                <Input
+                    label="Amount"
+                    value={amount}
+                    onChangeText={setAmount}
+                    placeholder="Enter amount"
+                    keyboardType="numeric"
+                />
+                <Input
+                    label="Note (Optional)"
+                    value={description}
+                    onChangeText={setDescription}
+                    placeholder="What's it for?"
+                />
+                <Button
+                    title="Send Request"
+                    onPress={handleRequestMoney}
+                    loading={processing}
+                    style={styles.modalButton}
+                />
+            </Modal>
         </SafeAreaView>
     );
 };
@@ -297,6 +663,15 @@ const styles = StyleSheet.create({
         color: colors.white,
         marginBottom: 20,
     },
+    balanceAmountCompact: {
+        marginBottom: 4,
+    },
+    allocatedText: {
+        fontSize: 14,
+        color: colors.white,
+        opacity: 0.8,
+        marginBottom: 20,
+    },
     actionButtons: {
         flexDirection: 'row',
         width: '100%',
@@ -306,6 +681,26 @@ const styles = StyleSheet.create({
         flex: 1,
         marginHorizontal: 6,
     },
+    requestsSection: {
+        paddingHorizontal: 20,
+        marginBottom: 12,
+    },
+    requestCard: {
+        marginTop: 12,
+    },
+    requestActions: {
+        flexDirection: 'row',
+        marginLeft: 12,
+    },
+    requestActionButton: {
+        marginLeft: 8,
+    },
+    requestStatus: {
+        fontSize: 14,
+        color: colors.textSecondary,
+        textTransform: 'capitalize',
+        marginLeft: 12,
+    },
     transactionsHeader: {
         paddingHorizontal: 20,
         marginBottom: 12,
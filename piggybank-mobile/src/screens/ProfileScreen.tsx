@@ -9,6 +9,7 @@ import {
     Alert,
 } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
+import apiService from '../services/api';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { colors } from '../constants/colors';
@@ -33,6 +34,47 @@ const ProfileScreen: React.FC = () => {
         );
     };
 
+    const handleTransactionPin = () => {
+        Alert.prompt(
+            'Transaction PIN',
+            'Enter a new 4-6 digit PIN. You\'ll use it to confirm withdrawals and larger payments.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Next',
+                    onPress: (pin?: string) => {
+                        if (!pin || !/^\d{4,6}$/.test(pin)) {
+                            Alert.alert('Invalid PIN', 'Your PIN must be 4 to 6 digits');
+                            return;
+                        }
+                        Alert.prompt(
+                            'Confirm Password',
+                            'Enter your password to save the PIN',
+                            [
+                                { text: 'Cancel', style: 'cancel' },
+                                {
+                                    text: 'Save',
+                                    onPress: async (password?: string) => {
+                                        try {
+                                            await apiService.setTransactionPin(pin, password || '');
+                                            Alert.alert('Success', 'Transaction PIN saved');
+                                        } catch (error: any) {
+                                            Alert.alert('Error', error.message || 'Failed to save PIN');
+                                        }
+                                    },
+                                },
+                            ],
+                            'secure-text'
+                        );
+                    },
+                },
+            ],
+            'secure-text',
+            '',
+            'number-pad'
+        );
+    };
+
     return (
         <SafeAreaView style={styles.container}>
             <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -72,6 +114,14 @@ const ProfileScreen: React.FC = () => {
                             <Text style={styles.menuArrow}>›</Text>
                         </TouchableOpacity>
                     </Card>
+
+                    <Card style={styles.menuCard}>
+                        <TouchableOpacity style={styles.menuItem} onPress={handleTransactionPin}>
+                            <Text style={styles.menuEmoji}>🔢</Text>
+                            <Text style={styles.menuText}>Transaction PIN</Text>
+                            <Text style={styles.menuArrow}>›</Text>
+                        </TouchableOpacity>
+                    </Card>
                 </View>
 
                 <View style={styles.section}>
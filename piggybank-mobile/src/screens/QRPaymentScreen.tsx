@@ -12,6 +12,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { GoalsStackParamList } from '../navigation/MainNavigator';
 import apiService from '../services/api';
+import { askStepUp } from '../utils/stepUp';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { Input } from '../components/Input';
@@ -27,6 +28,17 @@ interface Props {
     route: QRPaymentScreenRouteProp;
 }
 
+// What the server read from a UPI or EMVCo code
+interface QrPayload {
+    payeeName: string | null;
+    payeeAddress: string;
+    // Set when the code fixes what has to be paid
+    amount: number | null;
+    currency: string;
+    note: string | null;
+    merchantCity: string | null;
+}
+
 interface Goal {
     id: string;
     name: string;
@@ -36,14 +48,34 @@ interface Goal {
 
 const QRPaymentScreen: React.FC<Props> = ({ navigation, route }) => {
     const { goalId, qrData } = route.params;
+    const [payload, setPayload] = useState<QrPayload | null>(null);
+    const payeeName = payload?.payeeName || payload?.payeeAddress || 'the merchant';
     const [loading, setLoading] = useState(true);
     const [processing, setProcessing] = useState(false);
     const [goal, setGoal] = useState<Goal | null>(null);
     const [amount, setAmount] = useState('');
 
     useEffect(() => {
-        fetchGoalDetails();
-    }, [goalId]);
+        // The server reads the code, so what is shown is what it will pay
+        const resolveCode = async () => {
+            try {
+                const response = await apiService.resolveReceiveQr(qrData);
+                const code = response.data as QrPayload;
+                setPayload(code);
+                // A code with a fixed amount is paid exactly that
+                if (code.amount !== null) setAmount(String(code.amount));
+            } catch (error: any) {
+                setLoading(false);
+                Alert.alert('Invalid QR Code', error.message || 'This QR code can\'t be paid', [
+                    { text: 'OK', onPress: () => navigation.goBack() },
+                ]);
+                return;
+            }
+            fetchGoalDetails();
+        };
+
+        resolveCode();
+    }, [goalId, qrData]);
 
     const fetchGoalDetails = async () => {
         try {
@@ -84,7 +116,7 @@ const QRPaymentScreen: React.FC<Props> = ({ navigation, route }) => {
 
         Alert.alert(
             'Confirm Payment',
-            `Pay ${formatCurrency(amountNum)} from ${goal?.name}?`,
+            `Pay ${formatCurrency(amountNum)} to ${payeeName} from ${goal?.name}?`,
             [
                 { text: 'Cancel', style: 'cancel' },
                 {
@@ -92,10 +124,14 @@ const QRPaymentScreen: React.FC<Props> = ({ navigation, route }) => {
                     onPress: async () => {
                         setProcessing(true);
                         try {
-                            await apiService.payFromGoalWithQR(goalId, amountNum, qrData);
+                            const response = await apiService.withStepUp(
+                                () => apiService.payFromGoalWithQR(goalId, amountNum, qrData),
+                                askStepUp
+                            );
+                            if (!response) return;
                             Alert.alert(
                                 'Payment Successful',
-                                `${formatCurrency(amountNum)} has been paid from your goal`,
+                                `${formatCurrency(amountNum)} has been paid to ${payeeName}`,
                                 [
                                     {
                                         text: 'OK',
@@ -120,6 +156,16 @@ const QRPaymentScreen: React.FC<Props> = ({ navigation, route }) => {
         return <LoadingSpinner fullScreen message="Loading..." />;
     }
 
+    if (!payload) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <View style={styles.errorContainer}>
+                    <Text style={styles.errorText}>This QR code can't be paid</Text>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
     if (!goal) {
         return (
             <SafeAreaView style={styles.container}>
@@ -142,12 +188,18 @@ const QRPaymentScreen: React.FC<Props> = ({ navigation, route }) => {
                 </Card>
 
                 <Card style={styles.qrInfoCard}>
-                    <Text style={styles.sectionTitle}>QR Code Information</Text>
+                    <Text style={styles.sectionTitle}>Paying</Text>
                     <View style={styles.qrDataContainer}>
-                        <Text style={styles.qrDataLabel}>Scanned Data:</Text>
-                        <Text style={styles.qrDataText} numberOfLines={3}>
-                            {qrData}
-                        </Text>
+                        <Text style={styles.payeeName}>{payeeName}</Text>
+                        {payload.payeeName && (
+                            <Text style={styles.qrDataText}>{payload.payeeAddress}</Text>
+                        )}
+                        {payload.merchantCity && (
+                            <Text style={styles.qrDataLabel}>{payload.merchantCity}</Text>
+                        )}
+                        {payload.note && (
+                            <Text style={styles.qrNote}>{payload.note}</Text>
+                        )}
                     </View>
                 </Card>
 
@@ -174,11 +226,12 @@ const QRPaymentScreen: React.FC<Props> = ({ navigation, route }) => {
                 <Card style={styles.paymentCard}>
                     <Text style={styles.sectionTitle}>Payment Amount</Text>
                     <Input
-                        label="Enter Amount"
+                        label={payload.amount ? 'Amount set by the QR code' : 'Enter Amount'}
                         value={amount}
                         onChangeText={setAmount}
                         placeholder="0.00"
                         keyboardType="numeric"
+                        editable={!payload.amount}
                     />
 
                     <Button
@@ -254,6 +307,17 @@ const styles = StyleSheet.create({
         color: colors.text,
         fontFamily: 'monospace',
     },
+    payeeName: {
+        fontSize: 18,
+        fontWeight: '600',
+        color: colors.text,
+        marginBottom: 4,
+    },
+    qrNote: {
+        fontSize: 14,
+        color: colors.textSecondary,
+        marginTop: 8,
+    },
     balanceCard: {
         marginBottom: 16,
     },
@@ -12,6 +12,20 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 import { GoalsStackParamList } from '../navigation/MainNavigator';
 import { colors } from '../constants/colors';
+import apiService from '../services/api';
+import { askStepUp } from '../utils/stepUp';
+
+// Receive-money codes (piggybank://pay) and merchant invoices (piggybank://invoice)
+const PIGGYBANK_QR_PREFIX = 'piggybank://';
+
+interface ReceiveQr {
+    kind: 'WALLET' | 'INVOICE';
+    reference?: string;
+    currency: string;
+    amount: number | null;
+    note: string | null;
+    receiver: { firstName: string; lastName: string | null; merchantName?: string | null };
+}
 
 type QRScannerScreenNavigationProp = StackNavigationProp<GoalsStackParamList, 'QRScanner'>;
 type QRScannerScreenRouteProp = RouteProp<GoalsStackParamList, 'QRScanner'>;
@@ -35,9 +49,118 @@ const QRScannerScreen: React.FC<Props> = ({ navigation, route }) => {
         getCameraPermissions();
     }, []);
 
+    const sendToQr = async (payload: string, amount: number) => {
+        try {
+            const response = await apiService.withStepUp(
+                () => apiService.transferWithQr(payload, amount),
+                askStepUp
+            );
+            if (!response) {
+                setScanned(false);
+                return;
+            }
+            const held = Boolean((response.data as { hold?: object } | undefined)?.hold);
+            Alert.alert(
+                held ? 'On Hold' : 'Success',
+                held ? response.message || 'Transfer is on hold' : 'Money sent successfully!'
+            );
+            navigation.goBack();
+        } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to send money');
+            setScanned(false);
+        }
+    };
+
+    const payInvoice = async (payload: string, fromGoal: boolean) => {
+        try {
+            const response = await apiService.withStepUp(
+                () => apiService.payInvoice(payload, fromGoal ? goalId : undefined),
+                askStepUp
+            );
+            if (!response) {
+                setScanned(false);
+                return;
+            }
+            Alert.alert('Success', 'Invoice paid!');
+            navigation.goBack();
+        } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to pay invoice');
+            setScanned(false);
+        }
+    };
+
+    // Another PiggyBank user's receive code pays them straight from the wallet;
+    // a merchant's invoice can be paid from the wallet or this goal
+    const handleReceiveQr = async (payload: string) => {
+        try {
+            const response = await apiService.resolveReceiveQr(payload);
+            const qr = response.data as ReceiveQr;
+            const name = qr.receiver.merchantName
+                || [qr.receiver.firstName, qr.receiver.lastName].filter(Boolean).join(' ');
+            const note = qr.note ? `\n${qr.note}` : '';
+
+            if (qr.kind === 'INVOICE' && qr.amount !== null) {
+                Alert.alert(
+                    'Pay Invoice',
+                    `Pay ${qr.currency} ${qr.amount.toFixed(2)} to ${name} for ${qr.reference}?${note}`,
+                    [
+                        { text: 'Cancel', style: 'cancel', onPress: () => setScanned(false) },
+                        { text: 'From Wallet', onPress: () => payInvoice(payload, false) },
+                        { text: 'From Goal', onPress: () => payInvoice(payload, true) },
+                    ]
+                );
+                return;
+            }
+
+            if (qr.amount !== null) {
+                const amount = qr.amount;
+                Alert.alert(
+                    'Send Money',
+                    `Send ${qr.currency} ${amount.toFixed(2)} to ${name}?${note}`,
+                    [
+                        { text: 'Cancel', style: 'cancel', onPress: () => setScanned(false) },
+                        { text: 'Send', onPress: () => sendToQr(payload, amount) },
+                    ]
+                );
+                return;
+            }
+
+            Alert.prompt(
+                'Send Money',
+                `How much ${qr.currency} to send to ${name}?${note}`,
+                [
+                    { text: 'Cancel', style: 'cancel', onPress: () => setScanned(false) },
+                    {
+                        text: 'Send',
+                        onPress: (value?: string) => {
+                            const amount = parseFloat(value || '');
+                            if (!amount || amount <= 0) {
+                                Alert.alert('Invalid Amount', 'Please enter a valid amount');
+                                setScanned(false);
+                                return;
+                            }
+                            sendToQr(payload, amount);
+                        },
+                    },
+                ],
+                'plain-text',
+                '',
+                'decimal-pad'
+            );
+        } catch (error: any) {
+            Alert.alert('Invalid Code', error.message || 'This payment code cannot be used');
+            setScanned(false);
+        }
+    };
+
     const handleBarCodeScanned = ({ type, data }: { type: string; data: string }) => {
         setScanned(true);
 
+        if (data.startsWith(PIGGYBANK_QR_PREFIX)) {
+            handleReceiveQr(data);
+            return;
+        }
+
         // Navigate to payment screen with scanned data
         navigation.navigate('QRPayment', {
             goalId,
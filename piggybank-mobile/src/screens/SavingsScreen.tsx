@@ -21,7 +21,7 @@ import { formatCurrency, formatDate } from '../utils/formatters';
 interface Saving {
     id: string;
     amount: number;
-    type: 'MANUAL' | 'AUTOMATIC' | 'ROUND_UP' | 'GOAL_CONTRIBUTION';
+    type: 'MANUAL' | 'AUTOMATIC' | 'ROUND_UP' | 'GOAL_CONTRIBUTION' | 'GOAL_WITHDRAWAL' | 'GOAL_PAYMENT';
     date: string;
     createdAt: string;
 }
@@ -102,6 +102,8 @@ const SavingsScreen: React.FC = () => {
             AUTOMATIC: '🤖',
             ROUND_UP: '🔄',
             GOAL_CONTRIBUTION: '🎯',
+            GOAL_WITHDRAWAL: '↩️',
+            GOAL_PAYMENT: '💸',
         };
         return emojiMap[type] || '💵';
     };
@@ -112,6 +114,8 @@ const SavingsScreen: React.FC = () => {
             AUTOMATIC: 'Automatic',
             ROUND_UP: 'Round Up',
             GOAL_CONTRIBUTION: 'Goal',
+            GOAL_WITHDRAWAL: 'Goal Withdrawal',
+            GOAL_PAYMENT: 'Goal Payment',
         };
         return labelMap[type] || type;
     };
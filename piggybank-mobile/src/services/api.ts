@@ -8,8 +8,15 @@ interface ApiResponse<T = any> {
     error?: string;
 }
 
+// The transaction PIN, or the account password for users without one
+export type StepUpCredential = { pin: string } | { password: string };
+
+// Thrown when an endpoint needs the PIN or password re-entered first
+export class StepUpRequiredError extends Error {}
+
 class ApiService {
     private token: string | null = null;
+    private stepUpToken: { token: string; expiresAt: number } | null = null;
 
     async setToken(token: string) {
         this.token = token;
@@ -25,6 +32,7 @@ class ApiService {
 
     async clearToken() {
         this.token = null;
+        this.stepUpToken = null;
         await storageService.removeItem('authToken');
     }
 
@@ -33,18 +41,22 @@ class ApiService {
         options: RequestInit = {}
     ): Promise<ApiResponse<T>> {
         const url = `${API_BASE_URL}${endpoint}`;
+        const stepUpToken = this.stepUpToken && this.stepUpToken.expiresAt > Date.now()
+            ? this.stepUpToken.token
+            : null;
         const token = await this.getToken();
 
         console.log(`🌐 API Request: ${options.method || 'GET'} ${url}`);
         console.log('🔑 Token present:', !!token);
 
         const config: RequestInit = {
+            ...options,
             headers: {
                 'Content-Type': 'application/json',
                 ...(token && { Authorization: `Bearer ${token}` }),
+                ...(stepUpToken && { 'X-Step-Up-Token': stepUpToken }),
                 ...options.headers,
             },
-            ...options,
         };
 
         try {
@@ -73,6 +85,7 @@ class ApiService {
                     // In React Native, we'll handle navigation in the context
                 }
                 const message = payload?.error || payload?.message || `${response.status} ${response.statusText}`;
+                if (payload?.stepUpRequired) throw new StepUpRequiredError(message);
                 throw new Error(message);
             }
 
@@ -83,6 +96,51 @@ class ApiService {
         }
     }
 
+    // Money-moving calls send an Idempotency-Key and retry network failures
+    // with the same key, so a request that reached the server before the
+    // connection dropped isn't applied twice
+    private async idempotentRequest<T>(
+        endpoint: string,
+        options: RequestInit = {},
+        retries = 2
+    ): Promise<ApiResponse<T>> {
+        const key = (globalThis as any).crypto?.randomUUID?.()
+            ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.request<T>(endpoint, {
+                    ...options,
+                    headers: { ...options.headers, 'Idempotency-Key': key },
+                });
+            } catch (error) {
+                // fetch rejects with a TypeError when the network fails; HTTP errors are final
+                if (!(error instanceof TypeError) || attempt >= retries) throw error;
+                await new Promise(resolve => setTimeout(resolve, 500 * (attempt + 1)));
+            }
+        }
+    }
+
+    /**
+     * Run a money-moving call, and if the server wants the PIN or password
+     * re-entered, ask for it with `ask`, step up and run the call once more.
+     * Resolves to null when the user dismisses the prompt.
+     */
+    async withStepUp<T>(
+        call: () => Promise<T>,
+        ask: () => StepUpCredential | null | Promise<StepUpCredential | null>
+    ): Promise<T | null> {
+        try {
+            return await call();
+        } catch (error) {
+            if (!(error instanceof StepUpRequiredError)) throw error;
+            const credential = await ask();
+            if (!credential) return null;
+            await this.stepUp(credential);
+            return call();
+        }
+    }
+
     // Authentication
     async register(userData: {
         email: string;
@@ -128,6 +186,37 @@ class ApiService {
         });
     }
 
+    async setTransactionPin(pin: string, password: string) {
+        return this.request('/auth/pin', {
+            method: 'PUT',
+            body: JSON.stringify({ pin, password }),
+        });
+    }
+
+    async removeTransactionPin(password: string) {
+        return this.request('/auth/pin', {
+            method: 'DELETE',
+            body: JSON.stringify({ password }),
+        });
+    }
+
+    async stepUp(credential: StepUpCredential) {
+        type StepUpData = { token: string; expiresAt: string };
+        const response = await this.request<StepUpData>('/auth/step-up', {
+            method: 'POST',
+            body: JSON.stringify(credential),
+        });
+
+        if (response.success && response.data) {
+            this.stepUpToken = {
+                token: response.data.token,
+                expiresAt: new Date(response.data.expiresAt).getTime(),
+            };
+        }
+
+        return response;
+    }
+
     // Goals
     async getGoals(params?: { active?: boolean }) {
         const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
@@ -161,10 +250,10 @@ class ApiService {
         });
     }
 
-    async addToGoal(id: string, amount: number) {
-        return this.request(`/goals/${id}/add`, {
+    async addToGoal(id: string, amount: number, source: 'WALLET' | 'EXTERNAL' = 'WALLET') {
+        return this.idempotentRequest(`/goals/${id}/add`, {
             method: 'POST',
-            body: JSON.stringify({ amount }),
+            body: JSON.stringify({ amount, source }),
         });
     }
 
@@ -183,16 +272,61 @@ class ApiService {
     }
 
     async payFromGoalWithQR(id: string, amount: number, qrData: string) {
-        return this.request(`/payments/qr-payment`, {
-            method: 'POST',
-            body: JSON.stringify({ goalId: id, amount, qrData }),
-        });
+        return this.payWithQr(qrData, amount, id);
+    }
+
+    async getGoalContributions(id: string, params?: { page?: number; limit?: number; type?: string }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/goals/${id}/contributions${queryString}`);
     }
 
     async getGoalProgress() {
         return this.request('/goals/progress');
     }
 
+    // Shared goals
+    async inviteToGoal(id: string, invitee: { email?: string; phone?: string; role?: 'CONTRIBUTOR' | 'VIEWER' }) {
+        return this.request(`/goals/${id}/invitations`, {
+            method: 'POST',
+            body: JSON.stringify(invitee),
+        });
+    }
+
+    async cancelGoalInvitation(id: string, invitationId: string) {
+        return this.request(`/goals/${id}/invitations/${invitationId}`, {
+            method: 'DELETE',
+        });
+    }
+
+    async getGoalInvitations() {
+        return this.request('/goals/invitations');
+    }
+
+    async respondToGoalInvitation(invitationId: string, accept: boolean) {
+        return this.request(`/goals/invitations/${invitationId}/${accept ? 'accept' : 'decline'}`, {
+            method: 'POST',
+        });
+    }
+
+    async updateGoalMember(id: string, userId: string, role: 'CONTRIBUTOR' | 'VIEWER') {
+        return this.request(`/goals/${id}/members/${userId}`, {
+            method: 'PUT',
+            body: JSON.stringify({ role }),
+        });
+    }
+
+    async removeGoalMember(id: string, userId: string) {
+        return this.request(`/goals/${id}/members/${userId}`, {
+            method: 'DELETE',
+        });
+    }
+
+    async leaveGoal(id: string) {
+        return this.request(`/goals/${id}/leave`, {
+            method: 'POST',
+        });
+    }
+
     // Expenses
     async getExpenses(params?: {
         page?: number;
@@ -246,11 +380,64 @@ class ApiService {
         return this.request(`/expenses/analytics${queryString}`);
     }
 
+    // Recurring Expenses
+    async getRecurringExpenses(params?: { active?: boolean }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/expenses/recurring${queryString}`);
+    }
+
+    async createRecurringExpense(templateData: {
+        description: string;
+        amount: number;
+        category: string;
+        frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+        interval?: number;
+        startDate: string;
+        endDate?: string;
+    }) {
+        return this.request('/expenses/recurring', {
+            method: 'POST',
+            body: JSON.stringify(templateData),
+        });
+    }
+
+    async updateRecurringExpense(id: string, templateData: any) {
+        return this.request(`/expenses/recurring/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(templateData),
+        });
+    }
+
+    async deleteRecurringExpense(id: string) {
+        return this.request(`/expenses/recurring/${id}`, {
+            method: 'DELETE',
+        });
+    }
+
+    async pauseRecurringExpense(id: string) {
+        return this.request(`/expenses/recurring/${id}/pause`, {
+            method: 'POST',
+        });
+    }
+
+    async resumeRecurringExpense(id: string) {
+        return this.request(`/expenses/recurring/${id}/resume`, {
+            method: 'POST',
+        });
+    }
+
+    async skipRecurringExpense(id: string) {
+        return this.request(`/expenses/recurring/${id}/skip`, {
+            method: 'POST',
+        });
+    }
+
     // Savings
     async getSavings(params?: {
         page?: number;
         limit?: number;
         type?: string;
+        goalId?: string;
         startDate?: string;
         endDate?: string;
         sortBy?: string;
@@ -264,6 +451,7 @@ class ApiService {
         amount: number;
         type: 'MANUAL' | 'AUTOMATIC' | 'ROUND_UP' | 'GOAL_CONTRIBUTION';
         date: string;
+        goalId?: string;
     }) {
         return this.request('/savings', {
             method: 'POST',
@@ -286,6 +474,97 @@ class ApiService {
         return this.request('/savings/analytics');
     }
 
+    // Auto-Save Rules
+    async getAutoSaveRules(params?: { active?: boolean }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/savings/rules${queryString}`);
+    }
+
+    async getAutoSaveRule(id: string) {
+        return this.request(`/savings/rules/${id}`);
+    }
+
+    async createAutoSaveRule(ruleData: {
+        name: string;
+        goalId: string;
+        trigger: 'SCHEDULE' | 'DEPOSIT';
+        amountType: 'FIXED' | 'PERCENTAGE';
+        amount: number;
+        frequency?: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+        interval?: number;
+        startDate?: string;
+        endDate?: string;
+    }) {
+        return this.request('/savings/rules', {
+            method: 'POST',
+            body: JSON.stringify(ruleData),
+        });
+    }
+
+    async updateAutoSaveRule(id: string, ruleData: {
+        name?: string;
+        goalId?: string;
+        trigger?: 'SCHEDULE' | 'DEPOSIT';
+        amountType?: 'FIXED' | 'PERCENTAGE';
+        amount?: number;
+        frequency?: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+        interval?: number;
+        startDate?: string;
+        endDate?: string | null;
+        isActive?: boolean;
+    }) {
+        return this.request(`/savings/rules/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(ruleData),
+        });
+    }
+
+    async deleteAutoSaveRule(id: string) {
+        return this.request(`/savings/rules/${id}`, {
+            method: 'DELETE',
+        });
+    }
+
+    async previewAutoSaveRule(id: string, params?: { count?: number; depositAmount?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/savings/rules/${id}/preview${queryString}`);
+    }
+
+    async getAutoSaveRuleRuns(id: string, params?: { page?: number; limit?: number; status?: string }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/savings/rules/${id}/runs${queryString}`);
+    }
+
+    // Round-Ups
+    async getRoundUpSettings() {
+        return this.request('/savings/round-ups/settings');
+    }
+
+    async updateRoundUpSettings(settings: {
+        isEnabled?: boolean;
+        step?: 10 | 50 | 100;
+        multiplier?: number;
+        monthlyCap?: number | null;
+        sweepMode?: 'IMMEDIATE' | 'DAILY';
+        goalId?: string | null;
+    }) {
+        return this.request('/savings/round-ups/settings', {
+            method: 'PUT',
+            body: JSON.stringify(settings),
+        });
+    }
+
+    async getRoundUps(params?: { page?: number; limit?: number; status?: string }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/savings/round-ups${queryString}`);
+    }
+
+    async sweepRoundUps() {
+        return this.request('/savings/round-ups/sweep', {
+            method: 'POST',
+        });
+    }
+
     // AI Insights
     async getInsights(params?: {
         page?: number;
@@ -347,6 +626,37 @@ class ApiService {
         return this.request('/insights/unread-count');
     }
 
+    // Budgets
+    async getBudgets(params?: { month?: string; includeInactive?: boolean }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/budgets${queryString}`);
+    }
+
+    async createBudget(budgetData: {
+        category: string;
+        limit: number;
+        rollover?: 'NONE' | 'FULL' | 'CAPPED';
+        rolloverCap?: number;
+    }) {
+        return this.request('/budgets', {
+            method: 'POST',
+            body: JSON.stringify(budgetData),
+        });
+    }
+
+    async updateBudget(id: string, budgetData: any) {
+        return this.request(`/budgets/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(budgetData),
+        });
+    }
+
+    async deleteBudget(id: string) {
+        return this.request(`/budgets/${id}`, {
+            method: 'DELETE',
+        });
+    }
+
     // Dashboard
     async getDashboardData() {
         return this.request('/dashboard');
@@ -358,8 +668,20 @@ class ApiService {
     }
 
     // Payments
-    async getWallet() {
-        return this.request('/payments/wallet');
+    async getWallet(currency?: string) {
+        const queryString = currency ? `?${new URLSearchParams({ currency })}` : '';
+        return this.request(`/payments/wallet${queryString}`);
+    }
+
+    async getWallets() {
+        return this.request('/payments/wallets');
+    }
+
+    async openWallet(currency: string) {
+        return this.request('/payments/wallets', {
+            method: 'POST',
+            body: JSON.stringify({ currency }),
+        });
     }
 
     async getTransactions(params?: { page?: number; limit?: number }) {
@@ -367,27 +689,447 @@ class ApiService {
         return this.request(`/payments/transactions${queryString}`);
     }
 
-    async deposit(amount: number, description?: string) {
-        return this.request('/payments/deposit', {
+    async deposit(amount: number, description?: string, currency?: string) {
+        return this.idempotentRequest('/payments/deposit', {
             method: 'POST',
-            body: JSON.stringify({ amount, description }),
+            body: JSON.stringify({ amount, description, currency }),
         });
     }
 
-    async withdraw(amount: number, description?: string) {
-        return this.request('/payments/withdraw', {
+    async withdraw(amount: number, description?: string, currency?: string) {
+        return this.idempotentRequest('/payments/withdraw', {
             method: 'POST',
-            body: JSON.stringify({ amount, description }),
+            body: JSON.stringify({ amount, description, currency }),
+        });
+    }
+
+    async transfer(receiverPhone: string, amount: number, description?: string, currency?: string) {
+        return this.idempotentRequest('/payments/transfer', {
+            method: 'POST',
+            body: JSON.stringify({ receiverPhone, amount, description, currency }),
         });
     }
 
-    async transfer(receiverPhone: string, amount: number, description?: string) {
-        return this.request('/payments/transfer', {
+    async transferToPayee(payeeId: string, amount: number, description?: string, currency?: string) {
+        return this.idempotentRequest('/payments/transfer', {
             method: 'POST',
-            body: JSON.stringify({ receiverPhone, amount, description }),
+            body: JSON.stringify({ payeeId, amount, description, currency }),
         });
     }
 
+    // Receive-money QR codes
+    async getReceiveQr(params?: { currency?: string; amount?: number; note?: string; expiresInMinutes?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/payments/wallet/qr${queryString}`);
+    }
+
+    async resolveReceiveQr(payload: string) {
+        return this.request('/payments/qr/resolve', {
+            method: 'POST',
+            body: JSON.stringify({ payload }),
+        });
+    }
+
+    async transferWithQr(qrPayload: string, amount: number, description?: string) {
+        return this.idempotentRequest('/payments/transfer', {
+            method: 'POST',
+            body: JSON.stringify({ qrPayload, amount, description }),
+        });
+    }
+
+    // Payment links
+    async createPaymentLink(data: {
+        amount?: number;
+        currency?: string;
+        note?: string;
+        singleUse?: boolean;
+        expiresInMinutes?: number;
+    }) {
+        return this.request('/payment-links', {
+            method: 'POST',
+            body: JSON.stringify(data),
+        });
+    }
+
+    async getPaymentLinks(params?: { status?: 'ACTIVE' | 'USED' | 'DISABLED'; page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/payment-links${queryString}`);
+    }
+
+    async getPaymentLink(id: string) {
+        return this.request(`/payment-links/${id}`);
+    }
+
+    async disablePaymentLink(id: string) {
+        return this.request(`/payment-links/${id}/disable`, {
+            method: 'POST',
+        });
+    }
+
+    async getPaymentLinkPreview(token: string) {
+        return this.request(`/payment-links/preview/${encodeURIComponent(token)}`);
+    }
+
+    async transferWithLink(linkToken: string, amount: number, description?: string) {
+        return this.idempotentRequest('/payments/transfer', {
+            method: 'POST',
+            body: JSON.stringify({ linkToken, amount, description }),
+        });
+    }
+
+    // Merchant invoices
+    async createInvoice(data: {
+        amount: number;
+        reference: string;
+        currency?: string;
+        description?: string;
+        expiresInMinutes?: number;
+    }) {
+        return this.request('/merchant/invoices', {
+            method: 'POST',
+            body: JSON.stringify(data),
+        });
+    }
+
+    async getInvoices(params?: { status?: string; page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/merchant/invoices${queryString}`);
+    }
+
+    async getInvoice(id: string) {
+        return this.request(`/merchant/invoices/${id}`);
+    }
+
+    async getInvoiceStatus(id: string, params?: { after?: string; wait?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/merchant/invoices/${id}/status${queryString}`);
+    }
+
+    async refundInvoice(id: string) {
+        return this.idempotentRequest(`/merchant/invoices/${id}/refund`, {
+            method: 'POST',
+        });
+    }
+
+    async getSettlementReport(date?: string) {
+        const queryString = date ? `?${new URLSearchParams({ date })}` : '';
+        return this.request(`/merchant/settlements${queryString}`);
+    }
+
+    async payInvoice(payload: string, goalId?: string) {
+        return this.idempotentRequest('/payments/invoices/pay', {
+            method: 'POST',
+            body: JSON.stringify({ payload, goalId }),
+        });
+    }
+
+    // QR payments
+    async payWithQr(qrData: string, amount?: number, goalId?: string) {
+        return this.idempotentRequest('/payments/qr-payment', {
+            method: 'POST',
+            body: JSON.stringify({ qrData, amount, goalId }),
+        });
+    }
+
+    async getQrPayments(params?: { page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/payments/qr-payments${queryString}`);
+    }
+
+    // Transfer limits and held transfers
+    async getTransferLimits() {
+        return this.request('/payments/limits');
+    }
+
+    async confirmHeldTransfer(transactionId: string) {
+        return this.idempotentRequest(`/payments/transactions/${transactionId}/confirm`, {
+            method: 'POST',
+        });
+    }
+
+    async cancelHeldTransfer(transactionId: string) {
+        return this.request(`/payments/transactions/${transactionId}/cancel`, {
+            method: 'POST',
+        });
+    }
+
+    // Payment requests
+    async createPaymentRequest(data: {
+        amount: number;
+        payerPhone?: string;
+        payerEmail?: string;
+        currency?: string;
+        note?: string;
+        expiresInDays?: number;
+    }) {
+        return this.request('/payments/requests', {
+            method: 'POST',
+            body: JSON.stringify(data),
+        });
+    }
+
+    async getIncomingPaymentRequests(params?: { status?: string; page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/payments/requests/incoming${queryString}`);
+    }
+
+    async getOutgoingPaymentRequests(params?: { status?: string; page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/payments/requests/outgoing${queryString}`);
+    }
+
+    async acceptPaymentRequest(id: string) {
+        return this.idempotentRequest(`/payments/requests/${id}/accept`, {
+            method: 'POST',
+        });
+    }
+
+    async declinePaymentRequest(id: string) {
+        return this.request(`/payments/requests/${id}/decline`, {
+            method: 'POST',
+        });
+    }
+
+    async cancelPaymentRequest(id: string) {
+        return this.request(`/payments/requests/${id}/cancel`, {
+            method: 'POST',
+        });
+    }
+
+    // Reversals
+    async requestReversal(transactionId: string, reason: string) {
+        return this.request(`/payments/transactions/${transactionId}/reversal`, {
+            method: 'POST',
+            body: JSON.stringify({ reason }),
+        });
+    }
+
+    async getIncomingReversalRequests(params?: { status?: string; page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/payments/reversals/incoming${queryString}`);
+    }
+
+    async getOutgoingReversalRequests(params?: { status?: string; page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/payments/reversals/outgoing${queryString}`);
+    }
+
+    async approveReversal(id: string) {
+        return this.idempotentRequest(`/payments/reversals/${id}/approve`, {
+            method: 'POST',
+        });
+    }
+
+    async rejectReversal(id: string) {
+        return this.request(`/payments/reversals/${id}/reject`, {
+            method: 'POST',
+        });
+    }
+
+    async cancelReversal(id: string) {
+        return this.request(`/payments/reversals/${id}/cancel`, {
+            method: 'POST',
+        });
+    }
+
+    // Bill splits
+    async createBillSplit(data: {
+        description: string;
+        category: string;
+        amount: number;
+        currency?: string;
+        date?: string;
+        method?: 'EQUAL' | 'SHARES' | 'EXACT';
+        creatorShares?: number;
+        participants: { phone?: string; email?: string; shares?: number; amount?: number }[];
+    }) {
+        return this.request('/splits', {
+            method: 'POST',
+            body: JSON.stringify(data),
+        });
+    }
+
+    async getBillSplits(params?: { role?: 'created' | 'owed'; page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/splits${queryString}`);
+    }
+
+    async getBillSplit(id: string) {
+        return this.request(`/splits/${id}`);
+    }
+
+    async settleBillSplit(id: string) {
+        return this.idempotentRequest(`/splits/${id}/settle`, {
+            method: 'POST',
+        });
+    }
+
+    async cancelBillSplit(id: string) {
+        return this.request(`/splits/${id}`, {
+            method: 'DELETE',
+        });
+    }
+
+    // Scheduled transfers
+    async getScheduledTransfers(active?: boolean) {
+        const queryString = active !== undefined ? `?active=${active}` : '';
+        return this.request(`/payments/scheduled${queryString}`);
+    }
+
+    async createScheduledTransfer(data: {
+        receiverPhone: string;
+        amount: number;
+        startDate: string;
+        currency?: string;
+        description?: string;
+        frequency?: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+        interval?: number;
+        endDate?: string;
+    }) {
+        return this.request('/payments/scheduled', {
+            method: 'POST',
+            body: JSON.stringify(data),
+        });
+    }
+
+    async updateScheduledTransfer(id: string, data: {
+        amount?: number;
+        description?: string;
+        frequency?: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | null;
+        interval?: number;
+        startDate?: string;
+        endDate?: string | null;
+    }) {
+        return this.request(`/payments/scheduled/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(data),
+        });
+    }
+
+    async cancelScheduledTransfer(id: string) {
+        return this.request(`/payments/scheduled/${id}`, {
+            method: 'DELETE',
+        });
+    }
+
+    // Payees
+    async getPayees(params?: { search?: string; favorite?: boolean; page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/payees${queryString}`);
+    }
+
+    async createPayee(payee: { phone: string; nickname?: string; isFavorite?: boolean }) {
+        return this.request('/payees', {
+            method: 'POST',
+            body: JSON.stringify(payee),
+        });
+    }
+
+    async updatePayee(id: string, updates: { nickname?: string | null; isFavorite?: boolean }) {
+        return this.request(`/payees/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(updates),
+        });
+    }
+
+    async deletePayee(id: string) {
+        return this.request(`/payees/${id}`, {
+            method: 'DELETE',
+        });
+    }
+
+    // Family
+    async createChild(child: { email: string; password: string; firstName: string; lastName?: string; phone?: string }) {
+        return this.request('/family/children', {
+            method: 'POST',
+            body: JSON.stringify(child),
+        });
+    }
+
+    async getChildren() {
+        return this.request('/family/children');
+    }
+
+    async getChild(id: string) {
+        return this.request(`/family/children/${id}`);
+    }
+
+    async updateChildLimits(id: string, limits: {
+        dailyLimit?: number;
+        weeklyLimit?: number;
+        monthlyLimit?: number;
+        approvalThreshold?: number;
+    }) {
+        return this.request(`/family/children/${id}/limits`, {
+            method: 'PUT',
+            body: JSON.stringify(limits),
+        });
+    }
+
+    async getChildActivity(id: string, params?: { page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/family/children/${id}/activity${queryString}`);
+    }
+
+    async createAllowance(id: string, allowance: {
+        amount: number;
+        frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+        interval?: number;
+        startDate: string;
+        endDate?: string;
+        description?: string;
+    }) {
+        return this.request(`/family/children/${id}/allowances`, {
+            method: 'POST',
+            body: JSON.stringify(allowance),
+        });
+    }
+
+    async createChildPayee(id: string, payee: { phone: string; nickname?: string; isFavorite?: boolean }) {
+        return this.request(`/family/children/${id}/payees`, {
+            method: 'POST',
+            body: JSON.stringify(payee),
+        });
+    }
+
+    async getChildApprovals() {
+        return this.request('/family/approvals');
+    }
+
+    async respondToChildTransfer(transactionId: string, approve: boolean) {
+        return this.request(`/family/approvals/${transactionId}/${approve ? 'approve' : 'decline'}`, {
+            method: 'POST',
+        });
+    }
+
+    // Notifications
+    async getNotifications(params?: { isRead?: boolean; page?: number; limit?: number }) {
+        const queryString = params ? `?${new URLSearchParams(params as any)}` : '';
+        return this.request(`/notifications${queryString}`);
+    }
+
+    async markNotificationAsRead(id: string) {
+        return this.request(`/notifications/${id}/read`, {
+            method: 'PUT',
+        });
+    }
+
+    async markAllNotificationsAsRead() {
+        return this.request('/notifications/mark-all-read', {
+            method: 'PUT',
+        });
+    }
+
+    // Exchange rates
+    async getFxRates() {
+        return this.request('/fx/rates');
+    }
+
+    async convertCurrency(from: string, to: string, amount: number) {
+        const queryString = new URLSearchParams({ from, to, amount: String(amount) });
+        return this.request(`/fx/convert?${queryString}`);
+    }
+
     // Chatbot
     async sendChatMessage(message: string, context?: string) {
         return this.request('/chat', {
@@ -1,9 +1,23 @@
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    INR: '₹',
+    USD: '$',
+    EUR: '€',
+    GBP: '£',
+    JPY: '¥',
+    CAD: 'C$',
+    AUD: 'A$',
+    SGD: 'S$',
+    AED: 'AED ',
+};
+
 /**
- * Format a number as currency (Indian Rupees)
+ * Format a number as currency (Indian Rupees unless another currency code is given)
  */
-export const formatCurrency = (amount: number): string => {
+export const formatCurrency = (amount: number, currency: string = 'INR'): string => {
+    const symbol = CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+
     if (amount === null || amount === undefined || isNaN(amount)) {
-        return '₹0';
+        return `${symbol}0`;
     }
 
     // Convert to absolute value for formatting
@@ -13,7 +27,7 @@ export const formatCurrency = (amount: number): string => {
     // Format with commas (Indian numbering system)
     const formatted = absAmount.toFixed(0).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
 
-    return `${isNegative ? '-' : ''}₹${formatted}`;
+    return `${isNegative ? '-' : ''}${symbol}${formatted}`;
 };
 
 /**
@@ -0,0 +1,25 @@
+import { Alert } from 'react-native';
+import { StepUpCredential } from '../services/api';
+
+/**
+ * Ask for the transaction PIN, or the password for users without one, when
+ * the server wants a withdrawal or payment confirmed. Resolves to null if the
+ * user cancels. PINs are 4-6 digits; anything else is taken to be the password.
+ */
+export const askStepUp = () => new Promise<StepUpCredential | null>((resolve) => {
+    Alert.prompt(
+        'Confirm',
+        'Enter your transaction PIN (or your password) to continue',
+        [
+            { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+            {
+                text: 'Confirm',
+                onPress: (entry?: string) => {
+                    if (!entry) return resolve(null);
+                    resolve(/^\d{4,6}$/.test(entry) ? { pin: entry } : { password: entry });
+                },
+            },
+        ],
+        'secure-text'
+    );
+});
@@ -9,14 +9,25 @@ import Analytics from './components/Analytics';
 import Profile from './components/Profile';
 import Payments from './components/Payments';
 import Login from './components/Login';
+import PayLink from './components/PayLink';
 
 type Screen = 'dashboard' | 'goals' | 'insights' | 'analytics' | 'profile' | 'payments';
 
+// The token of a /pay/<token> payment link the app was opened with
+const paymentLinkToken = () => window.location.pathname.match(/^\/pay\/([\w-]+)\/?$/)?.[1] ?? null;
+
 function AppContent() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('dashboard');
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [payLinkToken, setPayLinkToken] = useState(paymentLinkToken);
   const { isAuthenticated, isLoading, logout } = useAuth();
 
+  const closePayLink = () => {
+    window.history.replaceState(null, '', '/');
+    setPayLinkToken(null);
+    setCurrentScreen('payments');
+  };
+
   const renderScreen = () => {
     switch (currentScreen) {
       case 'dashboard':
@@ -58,6 +69,11 @@ function AppContent() {
     );
   }
 
+  // Payment links preview to anyone and ask for a login only to pay
+  if (payLinkToken) {
+    return <PayLink token={payLinkToken} isAuthenticated={isAuthenticated} onDone={closePayLink} />;
+  }
+
   if (!isAuthenticated) {
     return <Login />;
   }
@@ -9,6 +9,24 @@ interface DashboardData {
     yearlyGrowth: number;
   };
   monthlyBudget: number;
+  monthlySpent: number;
+  budgetSummary: {
+    limit: number;
+    spent: number;
+    remaining: number;
+    percentUsed: number;
+    overBudgetCategories: string[];
+  };
+  budgets: Array<{
+    id: string;
+    category: string;
+    effectiveLimit: number;
+    carriedOver: number;
+    spent: number;
+    remaining: number;
+    percentUsed: number;
+    isOverBudget: boolean;
+  }>;
   recentExpenses: Array<{
     id: string;
     description: string;
@@ -71,11 +89,11 @@ const Dashboard = () => {
     );
   }
 
-  const { savings, recentExpenses, quickInsights, monthlyBudget } = dashboardData;
+  const { savings, recentExpenses, quickInsights, monthlyBudget, monthlySpent, budgetSummary, budgets } = dashboardData;
   
-  const totalExpenses = recentExpenses.reduce((sum, expense) => sum + expense.amount, 0);
-  const remainingBudget = monthlyBudget - totalExpenses;
-  const spendingRate = (totalExpenses / monthlyBudget) * 100;
+  const hasBudgets = budgets.length > 0;
+  const remainingBudget = budgetSummary.remaining;
+  const spendingRate = budgetSummary.percentUsed;
 
   return (
     <div className="p-4 space-y-6">
@@ -114,8 +132,10 @@ const Dashboard = () => {
             <DollarSign className="w-4 h-4 text-green-600" />
             <span className="text-sm font-medium text-gray-600">This Month</span>
           </div>
-          <p className="text-xl font-bold text-gray-900">${totalExpenses.toLocaleString()}</p>
-          <p className="text-xs text-gray-500">of ${monthlyBudget.toLocaleString()} budget</p>
+          <p className="text-xl font-bold text-gray-900">${monthlySpent.toLocaleString()}</p>
+          <p className="text-xs text-gray-500">
+            {hasBudgets ? `of $${monthlyBudget.toLocaleString()} budget` : 'No budgets set'}
+          </p>
         </div>
         
         <div className="bg-white rounded-xl p-4 border border-gray-100">
@@ -123,7 +143,9 @@ const Dashboard = () => {
             <TrendingDown className="w-4 h-4 text-orange-600" />
             <span className="text-sm font-medium text-gray-600">Remaining</span>
           </div>
-          <p className="text-xl font-bold text-gray-900">${remainingBudget.toLocaleString()}</p>
+          <p className={`text-xl font-bold ${remainingBudget < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            ${remainingBudget.toLocaleString()}
+          </p>
           <p className={`text-xs ${spendingRate > 80 ? 'text-red-500' : 'text-green-500'}`}>
             {spendingRate.toFixed(0)}% used
           </p>
@@ -141,8 +163,21 @@ const Dashboard = () => {
         </p>
       </div>
 
+      {/* Over Budget Warning */}
+      {budgetSummary.overBudgetCategories.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle className="w-4 h-4 text-red-600" />
+            <span className="text-sm font-semibold text-red-800">Over Budget</span>
+          </div>
+          <p className="text-sm text-red-700">
+            You've exceeded your budget for {budgetSummary.overBudgetCategories.join(', ')} this month.
+          </p>
+        </div>
+      )}
+
       {/* Spending Alert */}
-      {spendingRate > 75 && (
+      {hasBudgets && spendingRate > 75 && budgetSummary.overBudgetCategories.length === 0 && (
         <div className="bg-orange-50 border border-orange-200 rounded-xl p-4">
           <div className="flex items-center space-x-2 mb-2">
             <AlertTriangle className="w-4 h-4 text-orange-600" />
@@ -154,6 +189,38 @@ const Dashboard = () => {
         </div>
       )}
 
+      {/* Budgets */}
+      {hasBudgets && (
+        <div className="bg-white rounded-xl p-4 border border-gray-100">
+          <h3 className="font-semibold text-gray-900 mb-4">Budgets This Month</h3>
+          <div className="space-y-4">
+            {budgets.map((budget) => (
+              <div key={budget.id}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium text-gray-900">{budget.category}</span>
+                  <span className={`text-xs ${budget.isOverBudget ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                    ${budget.spent.toLocaleString()} of ${budget.effectiveLimit.toLocaleString()}
+                  </span>
+                </div>
+                <div className="bg-gray-100 rounded-full h-2">
+                  <div
+                    className={`rounded-full h-2 transition-all duration-1000 ${
+                      budget.isOverBudget ? 'bg-red-500' : budget.percentUsed > 80 ? 'bg-orange-500' : 'bg-green-500'
+                    }`}
+                    style={{ width: `${Math.min(budget.percentUsed, 100)}%` }}
+                  ></div>
+                </div>
+                {budget.carriedOver > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Includes ${budget.carriedOver.toLocaleString()} rolled over from last month
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Expenses */}
       <div className="bg-white rounded-xl p-4 border border-gray-100">
         <h3 className="font-semibold text-gray-900 mb-4">Recent Expenses</h3>
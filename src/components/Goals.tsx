@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Target, Plus, Calendar, DollarSign, TrendingUp, X, Trash2 } from 'lucide-react';
+import { Target, Plus, Calendar, DollarSign, TrendingUp, X, Trash2, UserPlus, Users, LogOut } from 'lucide-react';
 import { apiService } from '../services/api';
 
 interface Goal {
@@ -11,6 +11,16 @@ interface Goal {
   targetDate: string;
   priority: 'low' | 'medium' | 'high';
   emoji: string;
+  // Your role on the goal; OWNER unless it was shared with you
+  role?: 'OWNER' | 'CONTRIBUTOR' | 'VIEWER';
+  memberCount?: number;
+}
+
+interface GoalInvitation {
+  id: string;
+  role: 'CONTRIBUTOR' | 'VIEWER';
+  goal: { id: string; name: string; emoji?: string };
+  inviter: { firstName?: string; lastName?: string; email: string };
 }
 
 const Goals = () => {
@@ -21,10 +31,12 @@ const Goals = () => {
   const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null);
   const [showAddFundsModal, setShowAddFundsModal] = useState(false);
   const [addAmount, setAddAmount] = useState('');
+  const [addSource, setAddSource] = useState<'WALLET' | 'EXTERNAL'>('WALLET');
   const [addingFunds, setAddingFunds] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [goalToDelete, setGoalToDelete] = useState<Goal | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [invitations, setInvitations] = useState<GoalInvitation[]>([]);
   
   // Form state
   const [formData, setFormData] = useState({
@@ -42,7 +54,13 @@ const Goals = () => {
   const fetchGoals = async () => {
     try {
       setLoading(true);
-      const response = await apiService.getGoals();
+      const [response, invitationsResponse] = await Promise.all([
+        apiService.getGoals(),
+        apiService.getGoalInvitations(),
+      ]);
+      if (invitationsResponse.success) {
+        setInvitations(invitationsResponse.data as GoalInvitation[]);
+      }
       if (response.success) {
         setGoals(response.data as Goal[]);
       } else {
@@ -89,6 +107,7 @@ const Goals = () => {
   const handleAddToGoal = (goal: Goal) => {
     setSelectedGoal(goal);
     setAddAmount('');
+    setAddSource('WALLET');
     setShowAddFundsModal(true);
   };
 
@@ -101,7 +120,7 @@ const Goals = () => {
       setAddingFunds(true);
       const amount = parseFloat(addAmount);
       
-      const response = await apiService.addToGoal(selectedGoal.id, amount);
+      const response = await apiService.addToGoal(selectedGoal.id, amount, addSource);
       if (response.success) {
         // Update the goal's saved amount locally
         setGoals(prev => prev.map(goal => 
@@ -114,10 +133,10 @@ const Goals = () => {
         setAddAmount('');
         setSelectedGoal(null);
       } else {
-        setError('Failed to add funds to goal');
+        setError(response.error || 'Failed to add funds to goal');
       }
     } catch (err) {
-      setError('Failed to add funds to goal');
+      setError(err instanceof Error ? err.message : 'Failed to add funds to goal');
       console.error('Error adding funds to goal:', err);
     } finally {
       setAddingFunds(false);
@@ -151,6 +170,53 @@ const Goals = () => {
     }
   };
 
+  const handleShareGoal = async (goal: Goal) => {
+    const contact = window.prompt(`Invite someone to ${goal.name} by email or phone`)?.trim();
+    if (!contact) return;
+    const role = window.confirm('Let them add money to this goal? Cancel to invite them as a viewer.')
+      ? 'CONTRIBUTOR'
+      : 'VIEWER';
+
+    try {
+      const response = await apiService.inviteToGoal(goal.id, {
+        ...(contact.includes('@') ? { email: contact } : { phone: contact }),
+        role,
+      });
+      window.alert(response.success ? 'Invitation sent' : response.error || 'Failed to send invitation');
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Failed to send invitation');
+    }
+  };
+
+  const handleLeaveGoal = async (goal: Goal) => {
+    if (!window.confirm(`Leave ${goal.name}? Your share goes back to you.`)) return;
+
+    try {
+      const response = await apiService.leaveGoal(goal.id);
+      if (response.success) {
+        setGoals(prev => prev.filter(g => g.id !== goal.id));
+      } else {
+        window.alert(response.error || 'Failed to leave goal');
+      }
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Failed to leave goal');
+    }
+  };
+
+  const handleRespondToInvitation = async (invitation: GoalInvitation, accept: boolean) => {
+    try {
+      const response = await apiService.respondToGoalInvitation(invitation.id, accept);
+      if (response.success) {
+        setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+        if (accept) fetchGoals();
+      } else {
+        window.alert(response.error || 'Failed to answer invitation');
+      }
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Failed to answer invitation');
+    }
+  };
+
   const getProgressColor = (progress: number) => {
     if (progress >= 80) return 'from-green-500 to-green-600';
     if (progress >= 50) return 'from-blue-500 to-blue-600';
@@ -232,6 +298,36 @@ const Goals = () => {
         </button>
       </div>
 
+      {/* Invitations to shared goals */}
+      {invitations.map((invitation) => (
+        <div key={invitation.id} className="bg-blue-50 rounded-2xl p-4 border border-blue-100 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="text-2xl">{invitation.goal.emoji || '🎯'}</div>
+            <div>
+              <p className="font-medium text-gray-900">{invitation.goal.name}</p>
+              <p className="text-sm text-gray-600">
+                {[invitation.inviter.firstName, invitation.inviter.lastName].filter(Boolean).join(' ') || invitation.inviter.email}
+                {' '}invited you as a {invitation.role.toLowerCase()}
+              </p>
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handleRespondToInvitation(invitation, false)}
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Decline
+            </button>
+            <button
+              onClick={() => handleRespondToInvitation(invitation, true)}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              Join
+            </button>
+          </div>
+        </div>
+      ))}
+
       {/* Goals Grid */}
       <div className="space-y-4">
         {goals.length === 0 ? (
@@ -263,6 +359,17 @@ const Goals = () => {
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {(goal.memberCount ?? 0) > 0 && (
+                      <span className="flex items-center space-x-1 text-xs text-gray-500" title="Shared goal">
+                        <Users className="w-3 h-3" />
+                        <span>{(goal.memberCount ?? 0) + 1}</span>
+                      </span>
+                    )}
+                    {goal.role && goal.role !== 'OWNER' && (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-600">
+                        {goal.role.toLowerCase()}
+                      </span>
+                    )}
                     <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                       goal.priority === 'high' ? 'bg-red-100 text-red-600' :
                       goal.priority === 'medium' ? 'bg-yellow-100 text-yellow-600' :
@@ -270,13 +377,32 @@ const Goals = () => {
                     }`}>
                       {goal.priority}
                     </span>
-                    <button
-                      onClick={() => handleDeleteGoal(goal)}
-                      className="p-1 text-gray-400 hover:text-red-500 transition-colors"
-                      title="Delete goal"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    {goal.role && goal.role !== 'OWNER' ? (
+                      <button
+                        onClick={() => handleLeaveGoal(goal)}
+                        className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                        title="Leave goal"
+                      >
+                        <LogOut className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => handleShareGoal(goal)}
+                          className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+                          title="Share goal"
+                        >
+                          <UserPlus className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteGoal(goal)}
+                          className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                          title="Delete goal"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
 
@@ -324,12 +450,14 @@ const Goals = () => {
                 </div>
 
                 {/* Action Button */}
-                <button 
-                  onClick={() => handleAddToGoal(goal)}
-                  className="w-full mt-4 bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium py-3 rounded-xl transition-colors"
-                >
-                  Add to Goal
-                </button>
+                {goal.role !== 'VIEWER' && (
+                  <button 
+                    onClick={() => handleAddToGoal(goal)}
+                    className="w-full mt-4 bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium py-3 rounded-xl transition-colors"
+                  >
+                    Add to Goal
+                  </button>
+                )}
               </div>
             );
           })
@@ -467,6 +595,30 @@ const Goals = () => {
                 </div>
               </div>
 
+              {/* Source */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">Where is the money coming from?</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { id: 'WALLET', label: '💳 My wallet', hint: 'Moves money out of your wallet' },
+                    { id: 'EXTERNAL', label: '💵 Saved elsewhere', hint: 'Cash or another account' }
+                  ].map((option) => (
+                    <button
+                      key={option.id}
+                      onClick={() => setAddSource(option.id as 'WALLET' | 'EXTERNAL')}
+                      className={`p-3 border rounded-lg text-sm text-left transition-colors ${
+                        addSource === option.id
+                          ? 'border-blue-500 bg-blue-50 text-blue-700'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="font-medium">{option.label}</div>
+                      <div className="text-xs text-gray-500">{option.hint}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Custom Amount */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Custom Amount</label>
@@ -0,0 +1,337 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiService, StepUpCredential } from '../services/api';
+
+type InvoiceStatus = 'CREATED' | 'PAID' | 'EXPIRED' | 'REFUNDED';
+
+interface Invoice {
+  id: string;
+  amount: number;
+  currency: string;
+  reference: string;
+  description: string | null;
+  status: InvoiceStatus;
+  expiresAt: string;
+  paidAt: string | null;
+  refundedAt: string | null;
+  createdAt: string;
+  payer?: { id: string; firstName: string | null; lastName: string | null; phone: string | null } | null;
+}
+
+// An open invoice as created, with the code the payer scans
+interface OpenInvoice extends Invoice {
+  payload: string;
+  svg: string;
+  png: string;
+}
+
+interface SettlementTotal {
+  currency: string;
+  paidCount: number;
+  paidAmount: number;
+  refundedCount: number;
+  refundedAmount: number;
+  net: number;
+}
+
+interface SettlementReport {
+  date: string;
+  totals: SettlementTotal[];
+  paid: Invoice[];
+  refunded: Invoice[];
+}
+
+interface MerchantProps {
+  currency: string;
+  askStepUp: () => StepUpCredential | null;
+  // Called after money moved, so the wallet can be refreshed
+  onSettled: () => void;
+}
+
+const statusStyles: Record<InvoiceStatus, string> = {
+  CREATED: 'bg-yellow-100 text-yellow-800',
+  PAID: 'bg-green-100 text-green-800',
+  EXPIRED: 'bg-gray-100 text-gray-600',
+  REFUNDED: 'bg-blue-100 text-blue-800',
+};
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const Merchant: React.FC<MerchantProps> = ({ currency, askStepUp, onSettled }) => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [openInvoice, setOpenInvoice] = useState<OpenInvoice | null>(null);
+  const [invoiceForm, setInvoiceForm] = useState({
+    amount: '',
+    reference: '',
+    description: '',
+    expiresInMinutes: '30'
+  });
+  const [creating, setCreating] = useState(false);
+  const [refunding, setRefunding] = useState<string | null>(null);
+  const [reportDate, setReportDate] = useState(today);
+  const [report, setReport] = useState<SettlementReport | null>(null);
+
+  const fetchInvoices = async () => {
+    try {
+      const response = await apiService.getInvoices({ limit: 20 });
+      if (response.success) setInvoices(response.data as Invoice[]);
+    } catch (err) {
+      console.error('Failed to fetch invoices:', err);
+    }
+  };
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const response = await apiService.getSettlementReport(reportDate);
+      if (response.success) setReport(response.data as SettlementReport);
+    } catch (err) {
+      console.error('Failed to fetch settlement report:', err);
+    }
+  }, [reportDate]);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  // Wait on the open invoice until it is paid or expires; each request is held
+  // by the server until the status changes or 25 seconds pass
+  const openInvoiceId = openInvoice?.status === 'CREATED' ? openInvoice.id : null;
+  useEffect(() => {
+    if (!openInvoiceId) return;
+    let active = true;
+
+    const watch = async () => {
+      while (active) {
+        try {
+          const response = await apiService.getInvoiceStatus(openInvoiceId, { after: 'CREATED', wait: 25 });
+          const status = (response.data as { status: InvoiceStatus } | undefined)?.status;
+          if (!active || !status) return;
+          if (status !== 'CREATED') {
+            setOpenInvoice((current) => (current && current.id === openInvoiceId ? { ...current, status } : current));
+            fetchInvoices();
+            fetchReport();
+            if (status === 'PAID') onSettled();
+            return;
+          }
+        } catch (err) {
+          console.error('Failed to check invoice status:', err);
+          await new Promise((resolve) => setTimeout(resolve, 5000));
+        }
+      }
+    };
+
+    watch();
+    return () => {
+      active = false;
+    };
+  }, [openInvoiceId, fetchReport, onSettled]);
+
+  const handleCreateInvoice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const response = await apiService.createInvoice({
+        amount: parseFloat(invoiceForm.amount),
+        reference: invoiceForm.reference,
+        currency,
+        ...(invoiceForm.description && { description: invoiceForm.description }),
+        ...(invoiceForm.expiresInMinutes && { expiresInMinutes: parseInt(invoiceForm.expiresInMinutes) }),
+      });
+      if (response.success) {
+        setOpenInvoice(response.data as OpenInvoice);
+        setInvoiceForm({ ...invoiceForm, amount: '', reference: '', description: '' });
+        fetchInvoices();
+      } else {
+        alert(response.error || 'Failed to create invoice');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create invoice');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRefund = async (invoice: Invoice) => {
+    if (!window.confirm(`Refund ${invoice.currency} ${invoice.amount.toFixed(2)} for invoice ${invoice.reference}?`)) return;
+    setRefunding(invoice.id);
+    try {
+      const response = await apiService.withStepUp(() => apiService.refundInvoice(invoice.id), askStepUp);
+      if (!response) return;
+      if (response.success) {
+        await Promise.all([fetchInvoices(), fetchReport()]);
+        onSettled();
+      } else {
+        alert(response.error || 'Failed to refund invoice');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to refund invoice');
+    } finally {
+      setRefunding(null);
+    }
+  };
+
+  const payerName = (invoice: Invoice) =>
+    invoice.payer ? [invoice.payer.firstName, invoice.payer.lastName].filter(Boolean).join(' ') || invoice.payer.phone : null;
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold text-gray-900 mb-6">Merchant</h3>
+
+      {/* New Invoice */}
+      <div className="mb-8">
+        <h4 className="text-lg font-medium text-gray-800 mb-4">🧾 New Invoice</h4>
+        <div className="flex flex-col md:flex-row gap-6">
+          <form onSubmit={handleCreateInvoice} className="flex-1 space-y-3">
+            <input
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={invoiceForm.amount}
+              onChange={(e) => setInvoiceForm({ ...invoiceForm, amount: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={`Amount (${currency})`}
+              required
+            />
+            <input
+              type="text"
+              maxLength={64}
+              value={invoiceForm.reference}
+              onChange={(e) => setInvoiceForm({ ...invoiceForm, reference: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Reference, e.g. order number"
+              required
+            />
+            <input
+              type="text"
+              maxLength={200}
+              value={invoiceForm.description}
+              onChange={(e) => setInvoiceForm({ ...invoiceForm, description: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Description (optional)"
+            />
+            <select
+              value={invoiceForm.expiresInMinutes}
+              onChange={(e) => setInvoiceForm({ ...invoiceForm, expiresInMinutes: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="5">Expires in 5 minutes</option>
+              <option value="30">Expires in 30 minutes</option>
+              <option value="1440">Expires in 1 day</option>
+            </select>
+            <button
+              type="submit"
+              disabled={creating}
+              className="w-full bg-blue-600 text-white py-2 px-6 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {creating ? 'Creating...' : 'Create Invoice'}
+            </button>
+          </form>
+
+          {openInvoice && (
+            <div className="flex flex-col items-center">
+              <img
+                src={openInvoice.png}
+                alt={`QR code for invoice ${openInvoice.reference}`}
+                className={`w-48 h-48 border border-gray-200 rounded-lg ${openInvoice.status !== 'CREATED' ? 'opacity-25' : ''}`}
+              />
+              <div className="mt-2 text-center text-sm text-gray-600">
+                <p className="font-medium text-gray-900">
+                  {openInvoice.currency} {openInvoice.amount.toFixed(2)} · {openInvoice.reference}
+                </p>
+                <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[openInvoice.status]}`}>
+                  {openInvoice.status === 'CREATED' ? 'Waiting for payment…' : openInvoice.status.toLowerCase()}
+                </span>
+                {openInvoice.status === 'CREATED' && (
+                  <p className="text-xs text-gray-500 mt-1">Valid until {new Date(openInvoice.expiresAt).toLocaleTimeString()}</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Invoices */}
+      <div className="border-t pt-6 mb-8">
+        <h4 className="text-lg font-medium text-gray-800 mb-4">📄 Invoices</h4>
+        {invoices.length === 0 ? (
+          <p className="text-sm text-gray-500">No invoices yet</p>
+        ) : (
+          <div className="space-y-2">
+            {invoices.map((invoice) => (
+              <div key={invoice.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {invoice.reference} · {invoice.currency} {invoice.amount.toFixed(2)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(invoice.createdAt).toLocaleString()}
+                    {payerName(invoice) && ` · paid by ${payerName(invoice)}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[invoice.status]}`}>
+                    {invoice.status.toLowerCase()}
+                  </span>
+                  {invoice.status === 'PAID' && (
+                    <button
+                      onClick={() => handleRefund(invoice)}
+                      disabled={refunding === invoice.id}
+                      className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      {refunding === invoice.id ? 'Refunding...' : 'Refund'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Settlement Report */}
+      <div className="border-t pt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="text-lg font-medium text-gray-800">📊 Daily Settlement</h4>
+          <input
+            type="date"
+            value={reportDate}
+            onChange={(e) => setReportDate(e.target.value || today())}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        {!report || report.totals.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing settled on this day</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Currency</th>
+                <th className="py-1">Paid</th>
+                <th className="py-1">Refunded</th>
+                <th className="py-1 text-right">Net</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.totals.map((total) => (
+                <tr key={total.currency} className="border-t border-gray-100">
+                  <td className="py-2 font-medium">{total.currency}</td>
+                  <td className="py-2">{total.paidAmount.toFixed(2)} ({total.paidCount})</td>
+                  <td className="py-2">{total.refundedAmount.toFixed(2)} ({total.refundedCount})</td>
+                  <td className="py-2 text-right font-semibold">{total.net.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Merchant;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/api';
+import { askStepUp } from '../utils/stepUp';
+import Login from './Login';
+
+type PaymentLinkState = 'ACTIVE' | 'USED' | 'DISABLED' | 'EXPIRED';
+
+interface PaymentLinkPreview {
+  name: string;
+  amount: number | null;
+  currency: string;
+  note: string | null;
+  singleUse: boolean;
+  expiresAt: string | null;
+  state: PaymentLinkState;
+}
+
+interface PayLinkProps {
+  token: string;
+  isAuthenticated: boolean;
+  // Called once the visitor has paid or walked away
+  onDone: () => void;
+}
+
+const closedMessages: Record<Exclude<PaymentLinkState, 'ACTIVE'>, string> = {
+  USED: 'This link has already been paid.',
+  DISABLED: 'This link is no longer taking payments.',
+  EXPIRED: 'This link has expired.',
+};
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+
+/**
+ * The page a /pay/<token> link opens: a preview anyone can see, then, once
+ * logged in, a transfer to the link's creator with the link's amount and note
+ * filled in.
+ */
+const PayLink: React.FC<PayLinkProps> = ({ token, isAuthenticated, onDone }) => {
+  const [preview, setPreview] = useState<PaymentLinkPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showLogin, setShowLogin] = useState(false);
+  const [form, setForm] = useState({ amount: '', description: '' });
+  const [paying, setPaying] = useState(false);
+
+  useEffect(() => {
+    const fetchPreview = async () => {
+      try {
+        const response = await apiService.getPaymentLinkPreview(token);
+        if (response.success && response.data) {
+          const link = response.data as PaymentLinkPreview;
+          setPreview(link);
+          setForm({ amount: link.amount !== null ? String(link.amount) : '', description: link.note ?? '' });
+        } else {
+          setError(response.error || 'Payment link not found');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Payment link not found');
+      }
+    };
+
+    fetchPreview();
+  }, [token]);
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preview) return;
+
+    setPaying(true);
+    try {
+      const amount = parseFloat(form.amount);
+      const response = await apiService.withStepUp(
+        () => apiService.transferWithLink(token, amount, form.description || undefined),
+        askStepUp
+      );
+      if (!response) return;
+      if (response.success) {
+        alert(response.message || `Paid ${preview.name}`);
+        onDone();
+      } else {
+        alert(response.error || 'Failed to pay');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to pay');
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  if (!isAuthenticated && showLogin) {
+    return <Login />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="text-center mb-6">
+          <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-green-500 rounded-full flex items-center justify-center mx-auto mb-3">
+            <span className="text-white text-xl font-bold">🐷</span>
+          </div>
+          <h1 className="text-lg font-bold text-gray-900">PiggyBank Payment Link</h1>
+        </div>
+
+        {error ? (
+          <p className="text-center text-red-600">{error}</p>
+        ) : !preview ? (
+          <p className="text-center text-gray-600">Loading...</p>
+        ) : (
+          <>
+            <div className="text-center mb-6">
+              <p className="text-sm text-gray-500">Pay</p>
+              <p className="text-xl font-semibold text-gray-900">{preview.name}</p>
+              <p className="text-3xl font-bold text-blue-600 mt-2">
+                {preview.amount !== null ? formatAmount(preview.amount, preview.currency) : `Any amount (${preview.currency})`}
+              </p>
+              {preview.note && <p className="text-sm text-gray-600 mt-2">{preview.note}</p>}
+              {preview.expiresAt && preview.state === 'ACTIVE' && (
+                <p className="text-xs text-gray-500 mt-2">Valid until {new Date(preview.expiresAt).toLocaleString()}</p>
+              )}
+            </div>
+
+            {preview.state !== 'ACTIVE' ? (
+              <p className="text-center text-amber-600">{closedMessages[preview.state]}</p>
+            ) : !isAuthenticated ? (
+              <button
+                onClick={() => setShowLogin(true)}
+                className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-blue-700"
+              >
+                Log in to pay
+              </button>
+            ) : (
+              <form onSubmit={handlePay} className="space-y-3">
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  placeholder={`Amount (${preview.currency})`}
+                  disabled={preview.amount !== null}
+                  required
+                />
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="What's it for? (optional)"
+                />
+                <button
+                  type="submit"
+                  disabled={paying || !form.amount}
+                  className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {paying ? 'Paying...' : `Pay ${preview.name}`}
+                </button>
+              </form>
+            )}
+          </>
+        )}
+
+        <button onClick={onDone} className="w-full mt-3 py-2 text-sm text-gray-600 hover:text-gray-900">
+          {isAuthenticated ? 'Cancel' : 'Not now'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PayLink;
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/api';
+
+type PaymentLinkState = 'ACTIVE' | 'USED' | 'DISABLED' | 'EXPIRED';
+
+interface PaymentLink {
+  id: string;
+  token: string;
+  url: string;
+  amount: number | null;
+  currency: string;
+  note: string | null;
+  singleUse: boolean;
+  state: PaymentLinkState;
+  expiresAt: string | null;
+  createdAt: string;
+  paymentCount: number;
+  totalReceived: number;
+}
+
+interface LinkPayment {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  description: string | null;
+  createdAt: string;
+  sender: { id: string; firstName: string | null; lastName: string | null; phone: string | null } | null;
+}
+
+interface PaymentLinksProps {
+  currency: string;
+}
+
+const stateStyles: Record<PaymentLinkState, string> = {
+  ACTIVE: 'bg-green-100 text-green-800',
+  USED: 'bg-blue-100 text-blue-800',
+  DISABLED: 'bg-gray-100 text-gray-600',
+  EXPIRED: 'bg-gray-100 text-gray-600',
+};
+
+const emptyLinkForm = {
+  amount: '',
+  note: '',
+  singleUse: false,
+  expiresInMinutes: ''
+};
+
+const PaymentLinks: React.FC<PaymentLinksProps> = ({ currency }) => {
+  const [links, setLinks] = useState<PaymentLink[]>([]);
+  const [linkForm, setLinkForm] = useState(emptyLinkForm);
+  const [creating, setCreating] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [payments, setPayments] = useState<LinkPayment[]>([]);
+
+  const fetchLinks = async () => {
+    try {
+      const response = await apiService.getPaymentLinks({ limit: 20 });
+      if (response.success) setLinks(response.data as PaymentLink[]);
+    } catch (err) {
+      console.error('Failed to fetch payment links:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchLinks();
+  }, []);
+
+  const handleCreateLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const response = await apiService.createPaymentLink({
+        currency,
+        singleUse: linkForm.singleUse,
+        ...(linkForm.amount && { amount: parseFloat(linkForm.amount) }),
+        ...(linkForm.note && { note: linkForm.note }),
+        ...(linkForm.expiresInMinutes && { expiresInMinutes: parseInt(linkForm.expiresInMinutes) }),
+      });
+      if (response.success) {
+        setLinkForm(emptyLinkForm);
+        await fetchLinks();
+        await handleCopy(response.data as PaymentLink);
+      } else {
+        alert(response.error || 'Failed to create payment link');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create payment link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: PaymentLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      alert('Link copied to clipboard');
+    } catch {
+      window.prompt('Copy this link', link.url);
+    }
+  };
+
+  const handleDisable = async (link: PaymentLink) => {
+    if (!window.confirm('Stop this link from taking payments?')) return;
+    try {
+      const response = await apiService.disablePaymentLink(link.id);
+      if (response.success) {
+        await fetchLinks();
+      } else {
+        alert(response.error || 'Failed to disable payment link');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to disable payment link');
+    }
+  };
+
+  const handleToggle = async (link: PaymentLink) => {
+    if (expanded === link.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(link.id);
+    setPayments([]);
+    try {
+      const response = await apiService.getPaymentLink(link.id);
+      if (response.success) setPayments((response.data as { payments: LinkPayment[] }).payments);
+    } catch (err) {
+      console.error('Failed to fetch payment link:', err);
+    }
+  };
+
+  const senderName = (payment: LinkPayment) =>
+    payment.sender
+      ? [payment.sender.firstName, payment.sender.lastName].filter(Boolean).join(' ') || payment.sender.phone
+      : 'Unknown';
+
+  return (
+    <div className="border-t pt-6 mt-8">
+      <h4 className="text-lg font-medium text-gray-800 mb-4">🔗 Payment Links</h4>
+      <form onSubmit={handleCreateLink} className="space-y-3 mb-6">
+        <div className="flex gap-3">
+          <input
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={linkForm.amount}
+            onChange={(e) => setLinkForm({ ...linkForm, amount: e.target.value })}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder={`Amount (${currency}), or leave open`}
+          />
+          <select
+            value={linkForm.expiresInMinutes}
+            onChange={(e) => setLinkForm({ ...linkForm, expiresInMinutes: e.target.value })}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Never expires</option>
+            <option value="60">Expires in 1 hour</option>
+            <option value="1440">Expires in 1 day</option>
+            <option value="10080">Expires in 7 days</option>
+          </select>
+        </div>
+        <input
+          type="text"
+          maxLength={140}
+          value={linkForm.note}
+          onChange={(e) => setLinkForm({ ...linkForm, note: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Note, e.g. Concert tickets (optional)"
+        />
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={linkForm.singleUse}
+            onChange={(e) => setLinkForm({ ...linkForm, singleUse: e.target.checked })}
+            className="mr-2"
+          />
+          Single use: stop after the first payment
+        </label>
+        <button
+          type="submit"
+          disabled={creating}
+          className="w-full bg-blue-600 text-white py-2 px-6 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {creating ? 'Creating...' : 'Create Link'}
+        </button>
+      </form>
+
+      {links.length === 0 ? (
+        <p className="text-sm text-gray-500">No payment links yet</p>
+      ) : (
+        <div className="space-y-2">
+          {links.map((link) => (
+            <div key={link.id} className="p-3 border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between">
+                <button onClick={() => handleToggle(link)} className="text-left">
+                  <p className="font-medium text-gray-900">
+                    {link.amount !== null ? `${link.currency} ${link.amount.toFixed(2)}` : `Open amount (${link.currency})`}
+                    {link.note && ` · ${link.note}`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {link.singleUse ? 'Single use' : 'Reusable'} · {link.paymentCount} payment{link.paymentCount === 1 ? '' : 's'} · {link.currency} {link.totalReceived.toFixed(2)} received
+                  </p>
+                </button>
+                <div className="flex items-center space-x-3">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${stateStyles[link.state]}`}>
+                    {link.state.toLowerCase()}
+                  </span>
+                  {link.state === 'ACTIVE' && (
+                    <>
+                      <button onClick={() => handleCopy(link)} className="text-sm text-blue-600 hover:text-blue-700">
+                        Copy
+                      </button>
+                      <button onClick={() => handleDisable(link)} className="text-sm text-red-600 hover:text-red-700">
+                        Disable
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {expanded === link.id && (
+                <div className="mt-3 border-t border-gray-100 pt-2">
+                  {payments.length === 0 ? (
+                    <p className="text-xs text-gray-500">No payments through this link yet</p>
+                  ) : (
+                    payments.map((payment) => (
+                      <div key={payment.id} className="flex justify-between text-sm py-1">
+                        <span className="text-gray-700">
+                          {senderName(payment)} · {new Date(payment.createdAt).toLocaleString()}
+                        </span>
+                        <span className="text-gray-900">
+                          {payment.currency} {payment.amount.toFixed(2)}
+                          {payment.status !== 'COMPLETED' && ` (${payment.status.toLowerCase()})`}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentLinks;
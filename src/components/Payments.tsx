@@ -1,42 +1,182 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { apiService } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { askStepUp } from '../utils/stepUp';
+import Merchant from './Merchant';
+import PaymentLinks from './PaymentLinks';
 
 interface Wallet {
   id: string;
   balance: number;
   currency: string;
+  homeCurrency: string;
+  funds?: {
+    available: number;
+    allocated: number;
+    allocatedFromWallet: number;
+    allocatedExternal: number;
+    total: number;
+  };
   stats: {
     sent: number;
     received: number;
   };
 }
 
+interface WalletSummary {
+  id: string;
+  balance: number;
+  currency: string;
+  balanceInHomeCurrency: number;
+}
+
+interface PaymentRequestParty {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  email: string;
+  phone?: string;
+}
+
+interface PaymentRequest {
+  id: string;
+  amount: number;
+  currency: string;
+  note?: string;
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED' | 'EXPIRED';
+  expiresAt: string;
+  createdAt: string;
+  requester: PaymentRequestParty;
+  payer: PaymentRequestParty;
+}
+
+interface ScheduledTransfer {
+  id: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  frequency?: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  nextRunAt: string;
+  isActive: boolean;
+  receiver: PaymentRequestParty;
+  transactions: Array<{ id: string; attempts: number; failureReason?: string }>;
+}
+
 interface Transaction {
   id: string;
   amount: number;
   currency: string;
-  type: 'TRANSFER' | 'DEPOSIT' | 'WITHDRAWAL';
-  status: 'PENDING' | 'COMPLETED' | 'FAILED';
+  type: 'TRANSFER' | 'DEPOSIT' | 'WITHDRAWAL' | 'GOAL_TRANSFER' | 'QR_PAYMENT' | 'GOAL_PAYMENT';
+  status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'REVERSED' | 'REFUNDED';
   description?: string;
   createdAt: string;
   senderUserId?: string;
   receiverUserId?: string;
+  invoiceId?: string | null;
+  reversalOf?: { id: string; createdAt: string } | null;
+  reversedBy?: { id: string; createdAt: string } | null;
+  reversalRequests?: Array<{ id: string; status: ReversalRequest['status'] }>;
 }
 
+interface BillSplit {
+  id: string;
+  description: string;
+  totalAmount: number;
+  currency: string;
+  method: 'EQUAL' | 'SHARES' | 'EXACT';
+  creatorShare: number;
+  date: string;
+  cancelledAt?: string | null;
+  creator: PaymentRequestParty;
+  participants: Array<{
+    id: string;
+    amount: number;
+    settledAt?: string | null;
+    user: PaymentRequestParty;
+    paymentRequest: { id: string; status: PaymentRequest['status'] };
+  }>;
+}
+
+interface HeldTransfer {
+  outcome: 'HOLD_CONFIRM' | 'HOLD_REVIEW';
+  reasons: Array<{ rule: string; detail: string }>;
+}
+
+interface ReversalRequest {
+  id: string;
+  reason: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+  createdAt: string;
+  transaction: Transaction;
+  requester: PaymentRequestParty;
+}
+
+interface ReceiveQr {
+  payload: string;
+  svg: string;
+  png: string;
+  currency: string;
+  amount: number | null;
+  note: string | null;
+  expiresAt: string | null;
+}
+
+interface Payee {
+  id: string;
+  nickname: string | null;
+  isFavorite: boolean;
+  lastUsedAt: string | null;
+  payeeUser: {
+    id: string;
+    phone: string | null;
+    firstName: string | null;
+    lastName: string | null;
+  };
+}
+
+const payeeName = (payee: Payee): string =>
+  payee.nickname
+  || [payee.payeeUser.firstName, payee.payeeUser.lastName].filter(Boolean).join(' ')
+  || payee.payeeUser.phone
+  || 'Payee';
+
+const emptySendForm = {
+  receiverPhone: '',
+  payeeId: '',
+  amount: '',
+  description: '',
+  sendOn: '',
+  frequency: ''
+};
+
 const Payments: React.FC = () => {
+  const { user } = useAuth();
   const [wallet, setWallet] = useState<Wallet | null>(null);
+  const [wallets, setWallets] = useState<WalletSummary[]>([]);
+  const [selectedCurrency, setSelectedCurrency] = useState<string | undefined>(undefined);
+  const [availableCurrencies, setAvailableCurrencies] = useState<string[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'send' | 'receive' | 'history'>('send');
+  const [activeTab, setActiveTab] = useState<'send' | 'receive' | 'history' | 'merchant'>('send');
+  const [isMerchant, setIsMerchant] = useState(false);
   
   // Send money form
-  const [sendForm, setSendForm] = useState({
-    receiverPhone: '',
-    amount: '',
-    description: ''
-  });
+  const [sendForm, setSendForm] = useState(emptySendForm);
   const [sending, setSending] = useState(false);
+
+  // Saved payees
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [payeeSearch, setPayeeSearch] = useState('');
+
+  // Scheduled transfers
+  const [scheduledTransfers, setScheduledTransfers] = useState<ScheduledTransfer[]>([]);
+  const [cancellingSchedule, setCancellingSchedule] = useState<string | null>(null);
+
+  // Reversals
+  const [incomingReversals, setIncomingReversals] = useState<ReversalRequest[]>([]);
+  const [reversing, setReversing] = useState<string | null>(null);
   
   // Receive money form
   const [receiveForm, setReceiveForm] = useState({
@@ -44,6 +184,15 @@ const Payments: React.FC = () => {
     description: ''
   });
   const [depositing, setDepositing] = useState(false);
+
+  // Receive-money QR code
+  const [receiveQr, setReceiveQr] = useState<ReceiveQr | null>(null);
+  const [qrForm, setQrForm] = useState({
+    amount: '',
+    note: '',
+    expiresInMinutes: ''
+  });
+  const [creatingQr, setCreatingQr] = useState(false);
   
   // Withdraw form
   const [withdrawForm, setWithdrawForm] = useState({
@@ -52,15 +201,118 @@ const Payments: React.FC = () => {
   });
   const [withdrawing, setWithdrawing] = useState(false);
 
-  const fetchWallet = async () => {
+  // Payment requests
+  const [incomingRequests, setIncomingRequests] = useState<PaymentRequest[]>([]);
+  const [outgoingRequests, setOutgoingRequests] = useState<PaymentRequest[]>([]);
+  const [requestForm, setRequestForm] = useState({
+    payer: '',
+    amount: '',
+    note: ''
+  });
+  const [requesting, setRequesting] = useState(false);
+
+  // Bill splits
+  const [billSplits, setBillSplits] = useState<BillSplit[]>([]);
+  const [splitForm, setSplitForm] = useState({
+    description: '',
+    amount: '',
+    category: 'Food',
+    method: 'EQUAL' as BillSplit['method'],
+    participants: ''
+  });
+  const [splitting, setSplitting] = useState(false);
+  const [settlingSplit, setSettlingSplit] = useState<string | null>(null);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+
+  const fetchWallet = useCallback(async () => {
     try {
-      const response = await apiService.getWallet();
+      const response = await apiService.getWallet(selectedCurrency);
       if (response.success) {
         setWallet(response.data);
       }
     } catch (err) {
       console.error('Failed to fetch wallet:', err);
     }
+  }, [selectedCurrency]);
+
+  const fetchWallets = async () => {
+    try {
+      const response = await apiService.getWallets();
+      if (response.success) {
+        setWallets(response.data as WalletSummary[]);
+      }
+    } catch (err) {
+      console.error('Failed to fetch wallets:', err);
+    }
+  };
+
+  const fetchPaymentRequests = async () => {
+    try {
+      const [incoming, outgoing] = await Promise.all([
+        apiService.getIncomingPaymentRequests({ limit: 20 }),
+        apiService.getOutgoingPaymentRequests({ limit: 20 }),
+      ]);
+      if (incoming.success) setIncomingRequests(incoming.data as PaymentRequest[]);
+      if (outgoing.success) setOutgoingRequests(outgoing.data as PaymentRequest[]);
+    } catch (err) {
+      console.error('Failed to fetch payment requests:', err);
+    }
+  };
+
+  const fetchBillSplits = async () => {
+    try {
+      const response = await apiService.getBillSplits({ limit: 20 });
+      if (response.success) {
+        setBillSplits(response.data as BillSplit[]);
+      }
+    } catch (err) {
+      console.error('Failed to fetch bill splits:', err);
+    }
+  };
+
+  const fetchScheduledTransfers = async () => {
+    try {
+      const response = await apiService.getScheduledTransfers(true);
+      if (response.success) {
+        setScheduledTransfers(response.data as ScheduledTransfer[]);
+      }
+    } catch (err) {
+      console.error('Failed to fetch scheduled transfers:', err);
+    }
+  };
+
+  const fetchPayees = async (search?: string) => {
+    try {
+      const response = await apiService.getPayees({ ...(search && { search }), limit: 20 });
+      if (response.success) {
+        setPayees(response.data as Payee[]);
+      }
+    } catch (err) {
+      console.error('Failed to fetch payees:', err);
+    }
+  };
+
+  const fetchReversalRequests = async () => {
+    try {
+      const response = await apiService.getIncomingReversalRequests({ status: 'PENDING' });
+      if (response.success) {
+        setIncomingReversals(response.data as ReversalRequest[]);
+      }
+    } catch (err) {
+      console.error('Failed to fetch reversal requests:', err);
+    }
+  };
+
+  const fetchCurrencies = async () => {
+    try {
+      const response = await apiService.getFxRates();
+      if (response.success) {
+        const { base } = response as { base?: string };
+        setAvailableCurrencies([base || 'USD', ...(response.data as { currency: string }[]).map(rate => rate.currency)]);
+      }
+    } catch (err) {
+      console.error('Failed to fetch exchange rates:', err);
+    }
   };
 
   const fetchTransactions = async () => {
@@ -78,7 +330,7 @@ const Payments: React.FC = () => {
     const loadData = async () => {
       setLoading(true);
       try {
-        await Promise.all([fetchWallet(), fetchTransactions()]);
+        await Promise.all([fetchWallet(), fetchWallets(), fetchTransactions()]);
       } catch (err) {
         setError('Failed to load payment data');
       } finally {
@@ -86,23 +338,188 @@ const Payments: React.FC = () => {
       }
     };
     loadData();
+  }, [fetchWallet]);
+
+  const fetchMerchantMode = async () => {
+    try {
+      const response = await apiService.getProfile();
+      if (response.success) {
+        setIsMerchant(Boolean((response.data as { isMerchant?: boolean } | undefined)?.isMerchant));
+      }
+    } catch (err) {
+      console.error('Failed to fetch profile:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchCurrencies();
+    fetchMerchantMode();
+    fetchPaymentRequests();
+    fetchBillSplits();
+    fetchScheduledTransfers();
+    fetchReversalRequests();
   }, []);
 
+  useEffect(() => {
+    fetchPayees(payeeSearch.trim() || undefined);
+  }, [payeeSearch]);
+
+  const handleRequestMoney = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!requestForm.payer || !requestForm.amount) return;
+
+    setRequesting(true);
+    try {
+      const payer = requestForm.payer.trim();
+      const response = await apiService.createPaymentRequest({
+        amount: parseFloat(requestForm.amount),
+        ...(payer.includes('@') ? { payerEmail: payer } : { payerPhone: payer }),
+        currency: wallet?.currency,
+        note: requestForm.note || undefined,
+      });
+
+      if (response.success) {
+        setRequestForm({ payer: '', amount: '', note: '' });
+        await fetchPaymentRequests();
+        alert('Payment request sent!');
+      } else {
+        alert(response.error || 'Failed to request money');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to request money');
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  // One participant per line: a phone or email, then `: shares` or `: amount`
+  // for those methods
+  const handleSplitBill = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const lines = splitForm.participants.split('\n').map((line) => line.trim()).filter(Boolean);
+    if (!splitForm.description || !splitForm.amount || lines.length === 0) return;
+
+    const participants = lines.map((line) => {
+      const [contact = '', value] = line.split(':').map((part) => part.trim());
+      return {
+        ...(contact.includes('@') ? { email: contact } : { phone: contact }),
+        ...(splitForm.method === 'SHARES' && { shares: parseInt(value || '1', 10) }),
+        ...(splitForm.method === 'EXACT' && { amount: parseFloat(value || '0') }),
+      };
+    });
+
+    setSplitting(true);
+    try {
+      const response = await apiService.createBillSplit({
+        description: splitForm.description,
+        category: splitForm.category,
+        amount: parseFloat(splitForm.amount),
+        currency: wallet?.currency,
+        method: splitForm.method,
+        participants,
+      });
+
+      if (response.success) {
+        setSplitForm({ description: '', amount: '', category: 'Food', method: 'EQUAL', participants: '' });
+        await Promise.all([fetchBillSplits(), fetchPaymentRequests()]);
+        alert('Bill split! Everyone has been sent a request for their share.');
+      } else {
+        alert(response.error || 'Failed to split bill');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to split bill');
+    } finally {
+      setSplitting(false);
+    }
+  };
+
+  const handleSplitAction = async (split: BillSplit, action: 'settle' | 'cancel') => {
+    if (action === 'cancel' && !window.confirm('Stop collecting this bill? Unpaid shares will count as your expense.')) return;
+
+    setSettlingSplit(split.id);
+    try {
+      const response = action === 'settle'
+        ? await apiService.withStepUp(() => apiService.settleBillSplit(split.id), askStepUp)
+        : await apiService.cancelBillSplit(split.id);
+
+      if (!response) return;
+      if (response.success) {
+        await Promise.all([fetchBillSplits(), fetchPaymentRequests(), fetchWallet(), fetchWallets(), fetchTransactions()]);
+      } else {
+        alert(response.error || `Failed to ${action} split`);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : `Failed to ${action} split`);
+    } finally {
+      setSettlingSplit(null);
+    }
+  };
+
+  const handleRespondToRequest = async (id: string, action: 'accept' | 'decline' | 'cancel') => {
+    setRespondingTo(id);
+    try {
+      const response = action === 'accept'
+        ? await apiService.withStepUp(() => apiService.acceptPaymentRequest(id), askStepUp)
+        : action === 'decline'
+          ? await apiService.declinePaymentRequest(id)
+          : await apiService.cancelPaymentRequest(id);
+
+      if (!response) return;
+      if (response.success) {
+        await Promise.all([fetchPaymentRequests(), fetchBillSplits(), fetchWallet(), fetchWallets(), fetchTransactions()]);
+      } else {
+        alert(response.error || `Failed to ${action} request`);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : `Failed to ${action} request`);
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
+  const partyName = (party: PaymentRequestParty) =>
+    [party.firstName, party.lastName].filter(Boolean).join(' ') || party.email;
+
+  const handleOpenWallet = async (currency: string) => {
+    if (!currency) return;
+    try {
+      const response = await apiService.openWallet(currency);
+      if (response.success) {
+        setSelectedCurrency(currency);
+      } else {
+        alert(response.error || 'Failed to open wallet');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to open wallet');
+    }
+  };
+
   const handleSendMoney = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!sendForm.receiverPhone || !sendForm.amount) return;
+    if ((!sendForm.receiverPhone && !sendForm.payeeId) || !sendForm.amount) return;
+
+    // A date or a repeat turns the payment into a scheduled transfer
+    if (sendForm.sendOn || sendForm.frequency) {
+      await handleScheduleTransfer();
+      return;
+    }
 
     setSending(true);
     try {
-      const response = await apiService.transfer(
-        sendForm.receiverPhone,
-        parseFloat(sendForm.amount),
-        sendForm.description || 'Payment'
-      );
-      
-      if (response.success) {
-        setSendForm({ receiverPhone: '', amount: '', description: '' });
-        await Promise.all([fetchWallet(), fetchTransactions()]);
+      const amount = parseFloat(sendForm.amount);
+      const description = sendForm.description || 'Payment';
+      const response = await apiService.withStepUp(() => sendForm.payeeId
+        ? apiService.transferToPayee(sendForm.payeeId, amount, description, wallet?.currency)
+        : apiService.transfer(sendForm.receiverPhone, amount, description, wallet?.currency), askStepUp);
+      if (!response) return;
+
+      const hold = (response.data as { hold?: HeldTransfer } | undefined)?.hold;
+      if (response.success && hold) {
+        setSendForm(emptySendForm);
+        await handleHeldTransfer((response.data as { txRecord: Transaction }).txRecord, hold);
+      } else if (response.success) {
+        setSendForm(emptySendForm);
+        await Promise.all([fetchWallet(), fetchWallets(), fetchTransactions(), fetchPayees()]);
         alert('Money sent successfully!');
       } else {
         alert(response.error || 'Failed to send money');
@@ -115,6 +532,186 @@ const Payments: React.FC = () => {
     }
   };
 
+  // Risky transfers come back on hold: ask the sender to confirm with their
+  // PIN or password, or tell them it is waiting for review
+  const handleHeldTransfer = async (transaction: Transaction, hold: HeldTransfer) => {
+    const reasons = hold.reasons.map((reason) => `• ${reason.detail}`).join('\n');
+
+    if (hold.outcome === 'HOLD_REVIEW') {
+      await fetchTransactions();
+      alert(`This transfer is on hold for review:\n${reasons}`);
+      return;
+    }
+
+    const send = window.confirm(`Please check this transfer before it is sent:\n${reasons}\n\nSend it anyway?`);
+    const confirmed = send
+      ? await apiService.withStepUp(() => apiService.confirmHeldTransfer(transaction.id), askStepUp)
+      : null;
+    const response = confirmed ?? await apiService.cancelHeldTransfer(transaction.id);
+
+    await Promise.all([fetchWallet(), fetchWallets(), fetchTransactions()]);
+    if (!response.success) {
+      alert(response.error || 'Failed to confirm transfer');
+    } else {
+      alert(confirmed ? 'Money sent successfully!' : 'Transfer cancelled');
+    }
+  };
+
+  const handleScheduleTransfer = async () => {
+    setSending(true);
+    try {
+      const startDate = sendForm.sendOn ? new Date(`${sendForm.sendOn}T09:00:00`) : new Date();
+      const response = await apiService.withStepUp(() => apiService.createScheduledTransfer({
+        receiverPhone: payees.find((payee) => payee.id === sendForm.payeeId)?.payeeUser.phone || sendForm.receiverPhone,
+        amount: parseFloat(sendForm.amount),
+        startDate: startDate.toISOString(),
+        currency: wallet?.currency,
+        description: sendForm.description || undefined,
+        ...(sendForm.frequency && { frequency: sendForm.frequency as ScheduledTransfer['frequency'] }),
+      }), askStepUp);
+
+      if (!response) return;
+      if (response.success) {
+        setSendForm(emptySendForm);
+        await fetchScheduledTransfers();
+        alert('Transfer scheduled!');
+      } else {
+        alert(response.error || 'Failed to schedule transfer');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to schedule transfer');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleToggleFavorite = async (payee: Payee) => {
+    try {
+      const response = await apiService.updatePayee(payee.id, { isFavorite: !payee.isFavorite });
+      if (response.success) {
+        await fetchPayees(payeeSearch.trim() || undefined);
+      } else {
+        alert(response.error || 'Failed to update payee');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update payee');
+    }
+  };
+
+  const handleCancelScheduledTransfer = async (id: string) => {
+    setCancellingSchedule(id);
+    try {
+      const response = await apiService.cancelScheduledTransfer(id);
+      if (response.success) {
+        await fetchScheduledTransfers();
+      } else {
+        alert(response.error || 'Failed to cancel scheduled transfer');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to cancel scheduled transfer');
+    } finally {
+      setCancellingSchedule(null);
+    }
+  };
+
+  const handleRequestReversal = async (transaction: Transaction) => {
+    const reason = window.prompt('Why should this be reversed? (e.g. sent to the wrong number)');
+    if (!reason?.trim()) return;
+
+    setReversing(transaction.id);
+    try {
+      const response = await apiService.requestReversal(transaction.id, reason.trim());
+      if (response.success) {
+        await fetchTransactions();
+        alert('Reversal requested');
+      } else {
+        alert(response.error || 'Failed to request reversal');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to request reversal');
+    } finally {
+      setReversing(null);
+    }
+  };
+
+  const handleRespondToReversal = async (id: string, action: 'approve' | 'reject') => {
+    setReversing(id);
+    try {
+      const response = action === 'approve'
+        ? await apiService.approveReversal(id)
+        : await apiService.rejectReversal(id);
+
+      if (response.success) {
+        await Promise.all([fetchReversalRequests(), fetchWallet(), fetchWallets(), fetchTransactions()]);
+      } else {
+        alert(response.error || `Failed to ${action} reversal`);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : `Failed to ${action} reversal`);
+    } finally {
+      setReversing(null);
+    }
+  };
+
+  const canRequestReversal = (transaction: Transaction) =>
+    transaction.senderUserId === user?.id &&
+    transaction.status === 'COMPLETED' &&
+    (transaction.type === 'TRANSFER' || transaction.type === 'WITHDRAWAL') &&
+    !transaction.invoiceId &&
+    !transaction.reversalOf &&
+    !transaction.reversedBy &&
+    transaction.reversalRequests?.[0]?.status !== 'PENDING';
+
+  const reversalNote = (transaction: Transaction) => {
+    if (transaction.reversalOf) return `Undoes the transaction of ${formatDate(transaction.reversalOf.createdAt)}`;
+    if (transaction.reversedBy) return `Reversed on ${formatDate(transaction.reversedBy.createdAt)}`;
+    if (transaction.reversalRequests?.[0]?.status === 'PENDING') return 'Reversal requested';
+    return null;
+  };
+
+  const describeSchedule = (schedule: ScheduledTransfer) => {
+    if (!schedule.frequency) return `Once on ${formatDate(schedule.nextRunAt)}`;
+    const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[schedule.frequency];
+    const every = schedule.interval > 1 ? `Every ${schedule.interval} ${unit}s` : `Every ${unit}`;
+    return `${every} • next ${formatDate(schedule.nextRunAt)}`;
+  };
+
+  const walletCurrency = wallet?.currency;
+  const fetchReceiveQr = useCallback(async (form: typeof qrForm) => {
+    setCreatingQr(true);
+    try {
+      const response = await apiService.getReceiveQr({
+        ...(walletCurrency && { currency: walletCurrency }),
+        ...(form.amount && { amount: parseFloat(form.amount) }),
+        ...(form.note && { note: form.note }),
+        ...(form.expiresInMinutes && { expiresInMinutes: parseInt(form.expiresInMinutes) }),
+      });
+      if (response.success) {
+        setReceiveQr(response.data as ReceiveQr);
+      } else {
+        alert(response.error || 'Failed to create QR code');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create QR code');
+    } finally {
+      setCreatingQr(false);
+    }
+  }, [walletCurrency]);
+
+  // An open code for the wallet on show, until the user asks for a specific one
+  useEffect(() => {
+    if (activeTab === 'receive' && walletCurrency) {
+      const open = { amount: '', note: '', expiresInMinutes: '' };
+      setQrForm(open);
+      fetchReceiveQr(open);
+    }
+  }, [activeTab, walletCurrency, fetchReceiveQr]);
+
+  const handleCreateQr = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await fetchReceiveQr(qrForm);
+  };
+
   const handleDeposit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!receiveForm.amount) return;
@@ -123,12 +720,13 @@ const Payments: React.FC = () => {
     try {
       const response = await apiService.deposit(
         parseFloat(receiveForm.amount),
-        receiveForm.description || 'Deposit'
+        receiveForm.description || 'Deposit',
+        wallet?.currency
       );
       
       if (response.success) {
         setReceiveForm({ amount: '', description: '' });
-        await Promise.all([fetchWallet(), fetchTransactions()]);
+        await Promise.all([fetchWallet(), fetchWallets(), fetchTransactions()]);
         alert('Deposit successful!');
       } else {
         alert(response.error || 'Failed to deposit');
@@ -146,32 +744,44 @@ const Payments: React.FC = () => {
 
     setWithdrawing(true);
     try {
-      const response = await apiService.withdraw(
+      const response = await apiService.withStepUp(() => apiService.withdraw(
         parseFloat(withdrawForm.amount),
-        withdrawForm.description || 'Withdrawal'
-      );
-      
+        withdrawForm.description || 'Withdrawal',
+        wallet?.currency
+      ), askStepUp);
+
+      if (!response) return;
       if (response.success) {
         setWithdrawForm({ amount: '', description: '' });
-        await Promise.all([fetchWallet(), fetchTransactions()]);
+        await Promise.all([fetchWallet(), fetchWallets(), fetchTransactions()]);
         alert('Withdrawal successful!');
       } else {
         alert(response.error || 'Failed to withdraw');
       }
     } catch (err) {
-      alert('Failed to withdraw');
+      alert(err instanceof Error ? err.message : 'Failed to withdraw');
     } finally {
       setWithdrawing(false);
     }
   };
 
-  const formatAmount = (amount: number) => {
+  const formatAmount = (amount: number, currency: string = wallet?.currency || 'USD') => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD'
+      currency
     }).format(amount);
   };
 
+  const currencySymbol = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: wallet?.currency || 'USD'
+  }).formatToParts(0).find(part => part.type === 'currency')?.value;
+
+  const walletsTotal = wallets.reduce((sum, w) => sum + w.balanceInHomeCurrency, 0);
+  const unopenedCurrencies = availableCurrencies.filter(
+    currency => !wallets.some(w => w.currency === currency)
+  );
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -187,6 +797,9 @@ const Payments: React.FC = () => {
       case 'TRANSFER': return '↔️';
       case 'DEPOSIT': return '⬇️';
       case 'WITHDRAWAL': return '⬆️';
+      case 'GOAL_TRANSFER': return '🎯';
+      case 'QR_PAYMENT': return '📷';
+      case 'GOAL_PAYMENT': return '💳';
       default: return '💰';
     }
   };
@@ -196,6 +809,9 @@ const Payments: React.FC = () => {
       case 'TRANSFER': return 'text-blue-600';
       case 'DEPOSIT': return 'text-green-600';
       case 'WITHDRAWAL': return 'text-red-600';
+      case 'QR_PAYMENT': return 'text-red-600';
+      case 'GOAL_PAYMENT': return 'text-red-600';
+      case 'GOAL_TRANSFER': return 'text-purple-600';
       default: return 'text-gray-600';
     }
   };
@@ -243,11 +859,52 @@ const Payments: React.FC = () => {
           <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-2xl p-6 text-white mb-8">
             <div className="flex justify-between items-start">
               <div>
-                <h2 className="text-lg font-medium mb-2">Wallet Balance</h2>
+                <h2 className="text-lg font-medium mb-2">Available Balance</h2>
                 <p className="text-4xl font-bold">{formatAmount(wallet.balance)}</p>
+                {wallet.funds && wallet.funds.allocated > 0 && (
+                  <p className="text-blue-100 mt-2">
+                    {formatAmount(wallet.funds.allocated)} set aside in goals
+                    {wallet.funds.allocatedExternal > 0 &&
+                      ` (${formatAmount(wallet.funds.allocatedExternal)} saved outside the app)`}
+                  </p>
+                )}
                 <p className="text-blue-100 mt-2">
                   {wallet.stats.sent} sent • {wallet.stats.received} received
                 </p>
+                {wallets.length > 1 && (
+                  <p className="text-blue-100 mt-2">
+                    {formatAmount(walletsTotal, wallet.homeCurrency)} across all wallets
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-2 mt-4">
+                  {wallets.map((w) => (
+                    <button
+                      key={w.id}
+                      onClick={() => setSelectedCurrency(w.currency)}
+                      className={`px-3 py-1 rounded-full text-sm font-medium ${
+                        w.currency === wallet.currency
+                          ? 'bg-white text-blue-700'
+                          : 'bg-white/20 text-white hover:bg-white/30'
+                      }`}
+                    >
+                      {w.currency}
+                    </button>
+                  ))}
+                  {unopenedCurrencies.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => handleOpenWallet(e.target.value)}
+                      className="px-3 py-1 rounded-full text-sm bg-white/20 text-white"
+                    >
+                      <option value="">+ Add currency</option>
+                      {unopenedCurrencies.map((currency) => (
+                        <option key={currency} value={currency} className="text-gray-900">
+                          {currency}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
               </div>
               <div className="text-6xl opacity-20">💳</div>
             </div>
@@ -261,7 +918,8 @@ const Payments: React.FC = () => {
               {[
                 { id: 'send', label: 'Send Money', icon: '📤' },
                 { id: 'receive', label: 'Receive Money', icon: '📥' },
-                { id: 'history', label: 'Transaction History', icon: '📋' }
+                { id: 'history', label: 'Transaction History', icon: '📋' },
+                ...(isMerchant ? [{ id: 'merchant', label: 'Merchant', icon: '🏪' }] : [])
               ].map((tab) => (
                 <button
                   key={tab.id}
@@ -287,24 +945,77 @@ const Payments: React.FC = () => {
                 <form onSubmit={handleSendMoney} className="space-y-6">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Receiver Phone Number
+                      Send To
                     </label>
                     <input
-                      type="tel"
-                      value={sendForm.receiverPhone}
-                      onChange={(e) => setSendForm({ ...sendForm, receiverPhone: e.target.value })}
-                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      placeholder="Enter receiver's phone number"
-                      required
+                      type="search"
+                      value={payeeSearch}
+                      onChange={(e) => setPayeeSearch(e.target.value)}
+                      className="w-full px-4 py-2 mb-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                      placeholder="Search saved payees"
                     />
+                    {payees.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {payees.map((payee) => (
+                          <div
+                            key={payee.id}
+                            className={`flex items-center rounded-full border text-sm ${
+                              sendForm.payeeId === payee.id
+                                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                                : 'border-gray-300 text-gray-700'
+                            }`}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => setSendForm({
+                                ...sendForm,
+                                payeeId: sendForm.payeeId === payee.id ? '' : payee.id,
+                                receiverPhone: '',
+                              })}
+                              className="pl-3 pr-1 py-1"
+                            >
+                              {payeeName(payee)}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleToggleFavorite(payee)}
+                              className={`pr-3 pl-1 py-1 ${payee.isFavorite ? 'text-yellow-500' : 'text-gray-300 hover:text-gray-400'}`}
+                              title={payee.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                            >
+                              ★
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">
+                        {payeeSearch ? 'No saved payees match' : 'People you send money to are saved here'}
+                      </p>
+                    )}
                   </div>
+
+                  {!sendForm.payeeId && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Receiver Phone Number
+                      </label>
+                      <input
+                        type="tel"
+                        value={sendForm.receiverPhone}
+                        onChange={(e) => setSendForm({ ...sendForm, receiverPhone: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Or enter a phone number"
+                        required
+                      />
+                    </div>
+                  )}
                   
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Amount
                     </label>
                     <div className="relative">
-                      <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+                      <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">{currencySymbol}</span>
                       <input
                         type="number"
                         step="0.01"
@@ -330,25 +1041,193 @@ const Payments: React.FC = () => {
                       placeholder="What's this for?"
                     />
                   </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Send On (Optional)
+                      </label>
+                      <input
+                        type="date"
+                        value={sendForm.sendOn}
+                        min={new Date().toISOString().slice(0, 10)}
+                        onChange={(e) => setSendForm({ ...sendForm, sendOn: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Repeat
+                      </label>
+                      <select
+                        value={sendForm.frequency}
+                        onChange={(e) => setSendForm({ ...sendForm, frequency: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">Don't repeat</option>
+                        <option value="DAILY">Daily</option>
+                        <option value="WEEKLY">Weekly</option>
+                        <option value="MONTHLY">Monthly</option>
+                        <option value="YEARLY">Yearly</option>
+                      </select>
+                    </div>
+                  </div>
                   
                   <button
                     type="submit"
                     disabled={sending || !sendForm.receiverPhone || !sendForm.amount}
                     className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {sending ? 'Sending...' : 'Send Money'}
+                    {sending
+                      ? 'Sending...'
+                      : sendForm.sendOn || sendForm.frequency ? 'Schedule Transfer' : 'Send Money'}
                   </button>
                 </form>
+
+                {/* Scheduled Transfers */}
+                <div className="border-t pt-6 mt-8">
+                  <h4 className="text-lg font-medium text-gray-800 mb-4">🗓️ Scheduled Transfers</h4>
+                  {scheduledTransfers.length === 0 ? (
+                    <p className="text-gray-500">No transfers scheduled</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {scheduledTransfers.map((schedule) => (
+                        <div key={schedule.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {formatAmount(schedule.amount, schedule.currency)} to {partyName(schedule.receiver)}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {schedule.description ? `${schedule.description} • ` : ''}{describeSchedule(schedule)}
+                            </p>
+                            {schedule.transactions.map((pending) => (
+                              <p key={pending.id} className="text-sm text-amber-600">
+                                {pending.attempts > 0
+                                  ? `Will retry: ${pending.failureReason} (${pending.attempts} failed)`
+                                  : 'Sending...'}
+                              </p>
+                            ))}
+                          </div>
+                          <button
+                            onClick={() => handleCancelScheduledTransfer(schedule.id)}
+                            disabled={cancellingSchedule === schedule.id}
+                            className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-300 disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
             )}
 
+            {/* Merchant Tab */}
+            {activeTab === 'merchant' && wallet && (
+              <Merchant currency={wallet.currency} askStepUp={askStepUp} onSettled={fetchWallet} />
+            )}
+
             {/* Receive Money Tab */}
             {activeTab === 'receive' && (
               <div>
                 <h3 className="text-xl font-semibold text-gray-900 mb-6">Receive Money</h3>
-                
-                {/* Deposit Form */}
+
+                {/* QR Code */}
                 <div className="mb-8">
+                  <h4 className="text-lg font-medium text-gray-800 mb-4">📲 Your QR Code</h4>
+                  <div className="flex flex-col md:flex-row gap-6">
+                    <div className="flex flex-col items-center">
+                      {receiveQr ? (
+                        <img
+                          src={receiveQr.png}
+                          alt="QR code to pay you"
+                          className={`w-48 h-48 border border-gray-200 rounded-lg ${creatingQr ? 'opacity-50' : ''}`}
+                        />
+                      ) : (
+                        <div className="w-48 h-48 border border-gray-200 rounded-lg bg-gray-50 animate-pulse" />
+                      )}
+                      {receiveQr && (
+                        <div className="mt-2 text-center text-sm text-gray-600">
+                          <p>
+                            {receiveQr.amount !== null
+                              ? `${currencySymbol}${receiveQr.amount.toFixed(2)}`
+                              : `Any amount in ${receiveQr.currency}`}
+                            {receiveQr.note ? ` · ${receiveQr.note}` : ''}
+                          </p>
+                          {receiveQr.expiresAt && (
+                            <p className="text-xs text-gray-500">Valid until {new Date(receiveQr.expiresAt).toLocaleString()}</p>
+                          )}
+                          <div className="flex justify-center space-x-3 mt-1">
+                            <a href={receiveQr.png} download="piggybank-qr.png" className="text-blue-600 hover:text-blue-700">
+                              PNG
+                            </a>
+                            <a
+                              href={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(receiveQr.svg)}`}
+                              download="piggybank-qr.svg"
+                              className="text-blue-600 hover:text-blue-700"
+                            >
+                              SVG
+                            </a>
+                            <button
+                              type="button"
+                              onClick={() => navigator.clipboard.writeText(receiveQr.payload)}
+                              className="text-blue-600 hover:text-blue-700"
+                            >
+                              Copy link
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
+                    <form onSubmit={handleCreateQr} className="flex-1 space-y-3">
+                      <p className="text-sm text-gray-600">
+                        Other PiggyBank users can scan this code in the app to send money to your wallet.
+                      </p>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">{currencySymbol}</span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          value={qrForm.amount}
+                          onChange={(e) => setQrForm({ ...qrForm, amount: e.target.value })}
+                          className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Fixed amount (optional)"
+                        />
+                      </div>
+                      <input
+                        type="text"
+                        maxLength={140}
+                        value={qrForm.note}
+                        onChange={(e) => setQrForm({ ...qrForm, note: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Note (optional)"
+                      />
+                      <select
+                        value={qrForm.expiresInMinutes}
+                        onChange={(e) => setQrForm({ ...qrForm, expiresInMinutes: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">Never expires</option>
+                        <option value="15">Expires in 15 minutes</option>
+                        <option value="60">Expires in 1 hour</option>
+                        <option value="1440">Expires in 1 day</option>
+                      </select>
+                      <button
+                        type="submit"
+                        disabled={creatingQr}
+                        className="w-full bg-blue-600 text-white py-2 px-6 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {creatingQr ? 'Creating...' : 'Create Code'}
+                      </button>
+                    </form>
+                  </div>
+                </div>
+
+                {/* Deposit Form */}
+                <div className="border-t pt-6 mb-8">
                   <h4 className="text-lg font-medium text-gray-800 mb-4">💳 Deposit to Wallet</h4>
                   <form onSubmit={handleDeposit} className="space-y-4">
                     <div>
@@ -356,7 +1235,7 @@ const Payments: React.FC = () => {
                         Amount
                       </label>
                       <div className="relative">
-                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">{currencySymbol}</span>
                         <input
                           type="number"
                           step="0.01"
@@ -402,7 +1281,7 @@ const Payments: React.FC = () => {
                         Amount
                       </label>
                       <div className="relative">
-                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">{currencySymbol}</span>
                         <input
                           type="number"
                           step="0.01"
@@ -438,6 +1317,301 @@ const Payments: React.FC = () => {
                     </button>
                   </form>
                 </div>
+
+                {/* Request Money Form */}
+                <div className="border-t pt-6 mt-8">
+                  <h4 className="text-lg font-medium text-gray-800 mb-4">🙋 Request Money</h4>
+                  <form onSubmit={handleRequestMoney} className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        From (phone or email)
+                      </label>
+                      <input
+                        type="text"
+                        value={requestForm.payer}
+                        onChange={(e) => setRequestForm({ ...requestForm, payer: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="+1 (555) 123-4567 or friend@example.com"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Amount
+                      </label>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">{currencySymbol}</span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          value={requestForm.amount}
+                          onChange={(e) => setRequestForm({ ...requestForm, amount: e.target.value })}
+                          className="w-full pl-8 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="0.00"
+                          required
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Note (Optional)
+                      </label>
+                      <input
+                        type="text"
+                        value={requestForm.note}
+                        onChange={(e) => setRequestForm({ ...requestForm, note: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="What's it for?"
+                      />
+                    </div>
+
+                    <button
+                      type="submit"
+                      disabled={requesting || !requestForm.payer || !requestForm.amount}
+                      className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {requesting ? 'Sending Request...' : 'Request Money'}
+                    </button>
+                  </form>
+                </div>
+
+                {/* Split a Bill Form */}
+                <div className="border-t pt-6 mt-8">
+                  <h4 className="text-lg font-medium text-gray-800 mb-4">🍽️ Split a Bill</h4>
+                  <form onSubmit={handleSplitBill} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          What was it?
+                        </label>
+                        <input
+                          type="text"
+                          value={splitForm.description}
+                          onChange={(e) => setSplitForm({ ...splitForm, description: e.target.value })}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Dinner at Luigi's"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Total Paid
+                        </label>
+                        <div className="relative">
+                          <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">{currencySymbol}</span>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={splitForm.amount}
+                            onChange={(e) => setSplitForm({ ...splitForm, amount: e.target.value })}
+                            className="w-full pl-8 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            placeholder="0.00"
+                            required
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Category
+                        </label>
+                        <input
+                          type="text"
+                          value={splitForm.category}
+                          onChange={(e) => setSplitForm({ ...splitForm, category: e.target.value })}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Split
+                        </label>
+                        <select
+                          value={splitForm.method}
+                          onChange={(e) => setSplitForm({ ...splitForm, method: e.target.value as BillSplit['method'] })}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="EQUAL">Equally</option>
+                          <option value="SHARES">By shares</option>
+                          <option value="EXACT">By exact amounts</option>
+                        </select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        With (one phone or email per line{splitForm.method === 'SHARES' ? ', then : shares' : splitForm.method === 'EXACT' ? ', then : amount' : ''})
+                      </label>
+                      <textarea
+                        rows={3}
+                        value={splitForm.participants}
+                        onChange={(e) => setSplitForm({ ...splitForm, participants: e.target.value })}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder={splitForm.method === 'EQUAL' ? 'friend@example.com\n+1 555 123 4567' : splitForm.method === 'SHARES' ? 'friend@example.com: 2\n+1 555 123 4567: 1' : 'friend@example.com: 25.00\n+1 555 123 4567: 18.50'}
+                        required
+                      />
+                    </div>
+
+                    <button
+                      type="submit"
+                      disabled={splitting || !splitForm.description || !splitForm.amount || !splitForm.participants.trim()}
+                      className="w-full bg-purple-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {splitting ? 'Splitting...' : 'Split Bill'}
+                    </button>
+                  </form>
+                </div>
+
+                {/* Split Bills */}
+                {billSplits.length > 0 && (
+                  <div className="border-t pt-6 mt-8">
+                    <h4 className="text-lg font-medium text-gray-800 mb-4">🧾 Split Bills</h4>
+                    <div className="space-y-3">
+                      {billSplits.map((split) => {
+                        const isCreator = split.creator.id === user?.id;
+                        const myShare = split.participants.find((participant) => participant.user.id === user?.id);
+                        const settled = split.participants.filter((participant) => participant.settledAt).length;
+
+                        return (
+                          <div key={split.id} className="p-4 border border-gray-200 rounded-lg">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <p className="font-medium text-gray-900">
+                                  {split.description} • {formatAmount(split.totalAmount, split.currency)}
+                                </p>
+                                <p className="text-sm text-gray-600">
+                                  {isCreator
+                                    ? `${settled} of ${split.participants.length} paid`
+                                    : `Paid by ${partyName(split.creator)}`} • {formatDate(split.date)}
+                                  {split.cancelledAt ? ' • Cancelled' : ''}
+                                </p>
+                              </div>
+                              {isCreator && !split.cancelledAt && settled < split.participants.length && (
+                                <button
+                                  onClick={() => handleSplitAction(split, 'cancel')}
+                                  disabled={settlingSplit === split.id}
+                                  className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-300 disabled:opacity-50"
+                                >
+                                  Stop Collecting
+                                </button>
+                              )}
+                              {myShare && !myShare.settledAt && myShare.paymentRequest.status === 'PENDING' && (
+                                <button
+                                  onClick={() => handleSplitAction(split, 'settle')}
+                                  disabled={settlingSplit === split.id}
+                                  className="bg-green-600 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                                >
+                                  Pay {formatAmount(myShare.amount, split.currency)}
+                                </button>
+                              )}
+                              {myShare?.settledAt && (
+                                <span className="text-sm text-green-600">Paid</span>
+                              )}
+                            </div>
+                            {isCreator && (
+                              <ul className="mt-2 space-y-1 text-sm">
+                                {split.participants.map((participant) => (
+                                  <li key={participant.id} className="flex justify-between text-gray-600">
+                                    <span>{partyName(participant.user)}</span>
+                                    <span className={participant.settledAt ? 'text-green-600' : ''}>
+                                      {formatAmount(participant.amount, split.currency)} • {participant.settledAt ? 'paid' : participant.paymentRequest.status.toLowerCase()}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {/* Incoming Requests */}
+                <div className="border-t pt-6 mt-8">
+                  <h4 className="text-lg font-medium text-gray-800 mb-4">📨 Requests to You</h4>
+                  {incomingRequests.length === 0 ? (
+                    <p className="text-gray-500">No one has asked you for money</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {incomingRequests.map((request) => (
+                        <div key={request.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {partyName(request.requester)} requests {formatAmount(request.amount, request.currency)}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {request.note ? `${request.note} • ` : ''}{formatDate(request.createdAt)}
+                            </p>
+                          </div>
+                          {request.status === 'PENDING' ? (
+                            <div className="flex space-x-2">
+                              <button
+                                onClick={() => handleRespondToRequest(request.id, 'accept')}
+                                disabled={respondingTo === request.id}
+                                className="bg-green-600 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                              >
+                                Pay
+                              </button>
+                              <button
+                                onClick={() => handleRespondToRequest(request.id, 'decline')}
+                                disabled={respondingTo === request.id}
+                                className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-300 disabled:opacity-50"
+                              >
+                                Decline
+                              </button>
+                            </div>
+                          ) : (
+                            <span className="text-sm text-gray-500 capitalize">{request.status.toLowerCase()}</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Outgoing Requests */}
+                <div className="border-t pt-6 mt-8">
+                  <h4 className="text-lg font-medium text-gray-800 mb-4">📤 Your Requests</h4>
+                  {outgoingRequests.length === 0 ? (
+                    <p className="text-gray-500">You haven't requested money yet</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {outgoingRequests.map((request) => (
+                        <div key={request.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {formatAmount(request.amount, request.currency)} from {partyName(request.payer)}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {request.note ? `${request.note} • ` : ''}{formatDate(request.createdAt)}
+                            </p>
+                          </div>
+                          {request.status === 'PENDING' ? (
+                            <button
+                              onClick={() => handleRespondToRequest(request.id, 'cancel')}
+                              disabled={respondingTo === request.id}
+                              className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-300 disabled:opacity-50"
+                            >
+                              Cancel
+                            </button>
+                          ) : (
+                            <span className="text-sm text-gray-500 capitalize">{request.status.toLowerCase()}</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {wallet && <PaymentLinks currency={wallet.currency} />}
               </div>
             )}
 
@@ -445,6 +1619,41 @@ const Payments: React.FC = () => {
             {activeTab === 'history' && (
               <div>
                 <h3 className="text-xl font-semibold text-gray-900 mb-6">Transaction History</h3>
+
+                {/* Reversal requests waiting on you */}
+                {incomingReversals.length > 0 && (
+                  <div className="mb-6 space-y-3">
+                    <h4 className="text-lg font-medium text-gray-800">↩️ Asked to Return</h4>
+                    {incomingReversals.map((reversal) => (
+                      <div key={reversal.id} className="flex items-center justify-between p-4 border border-amber-200 bg-amber-50 rounded-lg">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {partyName(reversal.requester)} asks for {formatAmount(reversal.transaction.amount, reversal.transaction.currency)} back
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            {reversal.reason} • sent {formatDate(reversal.transaction.createdAt)}
+                          </p>
+                        </div>
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => handleRespondToReversal(reversal.id, 'approve')}
+                            disabled={reversing === reversal.id}
+                            className="bg-green-600 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                          >
+                            Return
+                          </button>
+                          <button
+                            onClick={() => handleRespondToReversal(reversal.id, 'reject')}
+                            disabled={reversing === reversal.id}
+                            className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-300 disabled:opacity-50"
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 
                 {transactions.length === 0 ? (
                   <div className="text-center py-12">
@@ -470,16 +1679,29 @@ const Payments: React.FC = () => {
                             <p className="text-sm text-gray-600">
                               {formatDate(transaction.createdAt)}
                             </p>
+                            {reversalNote(transaction) && (
+                              <p className="text-sm text-amber-600">{reversalNote(transaction)}</p>
+                            )}
                           </div>
                         </div>
                         <div className="text-right">
                           <p className={`font-semibold ${getTransactionTypeColor(transaction.type)}`}>
-                            {transaction.type === 'WITHDRAWAL' ? '-' : '+'}
-                            {formatAmount(transaction.amount)}
+                            {transaction.type === 'WITHDRAWAL' || transaction.type === 'QR_PAYMENT' || transaction.type === 'GOAL_PAYMENT' ||
+                            (transaction.type === 'GOAL_TRANSFER' && transaction.senderUserId) ? '-' : '+'}
+                            {formatAmount(transaction.amount, transaction.currency)}
                           </p>
                           <p className="text-sm text-gray-500 capitalize">
                             {transaction.status.toLowerCase()}
                           </p>
+                          {canRequestReversal(transaction) && (
+                            <button
+                              onClick={() => handleRequestReversal(transaction)}
+                              disabled={reversing === transaction.id}
+                              className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            >
+                              Request reversal
+                            </button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -1,7 +1,183 @@
-import React from 'react';
-import { User, CreditCard, Bell, Shield, HelpCircle, LogOut, ChevronRight } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { User, CreditCard, Bell, Shield, HelpCircle, LogOut, ChevronRight, KeyRound, Users } from 'lucide-react';
+import { apiService } from '../services/api';
+
+interface Child {
+  userId: string;
+  approvalThreshold: number;
+  user: { firstName: string; email: string; wallets: { currency: string; balance: number }[] };
+}
+
+interface ChildApproval {
+  id: string;
+  reasons: { detail: string }[];
+  user: { firstName: string | null };
+  transaction: { id: string; amount: number; currency: string; description: string | null };
+}
+
+interface ChildActivity {
+  id: string;
+  amount: number;
+  currency: string;
+  type: string;
+  status: string;
+  description: string | null;
+  senderUserId: string | null;
+  createdAt: string;
+}
 
 const Profile = () => {
+  const [hasPin, setHasPin] = useState<boolean | null>(null);
+  const [pinForm, setPinForm] = useState({ pin: '', password: '' });
+  const [savingPin, setSavingPin] = useState(false);
+  const [isChild, setIsChild] = useState(false);
+  const [children, setChildren] = useState<Child[]>([]);
+  const [approvals, setApprovals] = useState<ChildApproval[]>([]);
+  const [activity, setActivity] = useState<{ childId: string; items: ChildActivity[] } | null>(null);
+
+  const fetchFamily = async () => {
+    const [childrenResponse, approvalsResponse] = await Promise.all([
+      apiService.getChildren(),
+      apiService.getChildApprovals(),
+    ]);
+    if (childrenResponse.success) setChildren(childrenResponse.data as Child[]);
+    if (approvalsResponse.success) setApprovals(approvalsResponse.data as ChildApproval[]);
+  };
+
+  useEffect(() => {
+    apiService.getProfile()
+      .then((response) => {
+        const profile = response.data as { hasTransactionPin?: boolean; isChild?: boolean } | undefined;
+        setHasPin(Boolean(profile?.hasTransactionPin));
+        setIsChild(Boolean(profile?.isChild));
+        // Children can't manage a family
+        if (!profile?.isChild) fetchFamily().catch(() => undefined);
+      })
+      .catch(() => setHasPin(null));
+  }, []);
+
+  const handleAddChild = async () => {
+    const firstName = window.prompt('Child\'s first name')?.trim();
+    if (!firstName) return;
+    const email = window.prompt(`Email ${firstName} will sign in with`)?.trim();
+    if (!email) return;
+    const password = window.prompt(`Password for ${firstName} (at least 8 characters)`);
+    if (!password) return;
+
+    try {
+      const response = await apiService.createChild({ firstName, email, password });
+      if (response.success) {
+        await fetchFamily();
+      } else {
+        alert(response.error || 'Failed to add child');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to add child');
+    }
+  };
+
+  const handleAllowance = async (child: Child) => {
+    const amount = parseFloat(window.prompt(`Weekly allowance for ${child.user.firstName}`) || '');
+    if (!(amount > 0)) return;
+
+    try {
+      const response = await apiService.createAllowance(child.userId, {
+        amount,
+        frequency: 'WEEKLY',
+        startDate: new Date().toISOString(),
+      });
+      alert(response.success ? 'Allowance scheduled' : response.error || 'Failed to schedule allowance');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to schedule allowance');
+    }
+  };
+
+  const handleApprovalThreshold = async (child: Child) => {
+    const entry = window.prompt(
+      `Transfers by ${child.user.firstName} above this many USD need your approval`,
+      String(child.approvalThreshold)
+    );
+    const approvalThreshold = parseFloat(entry || '');
+    if (!(approvalThreshold >= 0)) return;
+
+    try {
+      const response = await apiService.updateChildLimits(child.userId, { approvalThreshold });
+      if (response.success) {
+        await fetchFamily();
+      } else {
+        alert(response.error || 'Failed to update limits');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update limits');
+    }
+  };
+
+  const handleToggleActivity = async (child: Child) => {
+    if (activity?.childId === child.userId) {
+      setActivity(null);
+      return;
+    }
+    try {
+      const response = await apiService.getChildActivity(child.userId, { limit: 10 });
+      if (response.success) setActivity({ childId: child.userId, items: response.data as ChildActivity[] });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load activity');
+    }
+  };
+
+  const handleApproval = async (approval: ChildApproval, approve: boolean) => {
+    try {
+      const response = await apiService.respondToChildTransfer(approval.transaction.id, approve);
+      if (response.success) {
+        await fetchFamily();
+      } else {
+        alert(response.error || 'Failed to answer');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to answer');
+    }
+  };
+
+  const handleSavePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingPin(true);
+    try {
+      const response = await apiService.setTransactionPin(pinForm.pin, pinForm.password);
+      if (response.success) {
+        setHasPin(true);
+        setPinForm({ pin: '', password: '' });
+        alert('Transaction PIN saved');
+      } else {
+        alert(response.error || 'Failed to save PIN');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save PIN');
+    } finally {
+      setSavingPin(false);
+    }
+  };
+
+  const handleRemovePin = async () => {
+    if (!pinForm.password) {
+      alert('Enter your password to remove the PIN');
+      return;
+    }
+    setSavingPin(true);
+    try {
+      const response = await apiService.removeTransactionPin(pinForm.password);
+      if (response.success) {
+        setHasPin(false);
+        setPinForm({ pin: '', password: '' });
+      } else {
+        alert(response.error || 'Failed to remove PIN');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to remove PIN');
+    } finally {
+      setSavingPin(false);
+    }
+  };
+
   const menuItems = [
     {
       icon: CreditCard,
@@ -83,6 +259,142 @@ const Profile = () => {
         </div>
       </div>
 
+      {/* Transaction PIN */}
+      <form onSubmit={handleSavePin} className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <KeyRound className="w-5 h-5 text-purple-600" />
+            <h3 className="font-semibold text-gray-900">Transaction PIN</h3>
+          </div>
+          {hasPin !== null && (
+            <span className={`px-2 py-1 text-xs font-medium rounded-full ${hasPin ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+              {hasPin ? 'On' : 'Not set'}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-600">
+          Confirms withdrawals and larger transfers. Without a PIN you'll be asked for your password instead.
+        </p>
+        <input
+          type="password"
+          inputMode="numeric"
+          pattern="\d{4,6}"
+          maxLength={6}
+          value={pinForm.pin}
+          onChange={(e) => setPinForm({ ...pinForm, pin: e.target.value.replace(/\D/g, '') })}
+          className="w-full p-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder={hasPin ? 'New PIN (4-6 digits)' : 'PIN (4-6 digits)'}
+        />
+        <input
+          type="password"
+          value={pinForm.password}
+          onChange={(e) => setPinForm({ ...pinForm, password: e.target.value })}
+          className="w-full p-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder="Current password"
+        />
+        <div className="flex space-x-3">
+          <button
+            type="submit"
+            disabled={savingPin || pinForm.pin.length < 4 || !pinForm.password}
+            className="flex-1 bg-purple-600 text-white font-medium py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            {hasPin ? 'Change PIN' : 'Set PIN'}
+          </button>
+          {hasPin && (
+            <button
+              type="button"
+              onClick={handleRemovePin}
+              disabled={savingPin}
+              className="flex-1 bg-gray-100 text-gray-700 font-medium py-2 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Remove PIN
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Family */}
+      {!isChild && (
+        <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Users className="w-5 h-5 text-purple-600" />
+              <h3 className="font-semibold text-gray-900">Family</h3>
+            </div>
+            <button onClick={handleAddChild} className="text-sm font-medium text-purple-600 hover:text-purple-700">
+              Add child
+            </button>
+          </div>
+
+          {approvals.map((approval) => (
+            <div key={approval.id} className="p-3 bg-yellow-50 rounded-lg border border-yellow-100">
+              <p className="text-sm text-gray-900">
+                {approval.user.firstName} wants to send {approval.transaction.amount.toFixed(2)} {approval.transaction.currency}
+                {approval.transaction.description ? ` — ${approval.transaction.description}` : ''}
+              </p>
+              <div className="flex space-x-2 mt-2">
+                <button
+                  onClick={() => handleApproval(approval, true)}
+                  className="flex-1 bg-purple-600 text-white text-sm py-1.5 rounded-lg hover:bg-purple-700"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleApproval(approval, false)}
+                  className="flex-1 bg-gray-100 text-gray-700 text-sm py-1.5 rounded-lg hover:bg-gray-200"
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {children.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Add a child profile to give them their own wallet, goals and spending limits.
+            </p>
+          ) : (
+            children.map((child) => (
+              <div key={child.userId} className="p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{child.user.firstName}</p>
+                    <p className="text-xs text-gray-600">
+                      {child.user.wallets.map((w) => `${w.balance.toFixed(2)} ${w.currency}`).join(' · ')}
+                      {' · '}approval over ${child.approvalThreshold}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-3 mt-2 text-sm">
+                  <button onClick={() => handleAllowance(child)} className="text-purple-600 hover:text-purple-700">
+                    Allowance
+                  </button>
+                  <button onClick={() => handleApprovalThreshold(child)} className="text-purple-600 hover:text-purple-700">
+                    Approval limit
+                  </button>
+                  <button onClick={() => handleToggleActivity(child)} className="text-purple-600 hover:text-purple-700">
+                    {activity?.childId === child.userId ? 'Hide activity' : 'Activity'}
+                  </button>
+                </div>
+                {activity?.childId === child.userId && (
+                  <ul className="mt-2 space-y-1">
+                    {activity.items.length === 0 && <li className="text-xs text-gray-500">No activity yet</li>}
+                    {activity.items.map((item) => (
+                      <li key={item.id} className="flex justify-between text-xs text-gray-700">
+                        <span>{item.description || item.type} · {item.status.toLowerCase()}</span>
+                        <span>
+                          {item.senderUserId === child.userId ? '-' : '+'}{item.amount.toFixed(2)} {item.currency}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
       {/* Menu Items */}
       <div className="space-y-2">
         {menuItems.map((item, index) => {
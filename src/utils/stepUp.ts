@@ -0,0 +1,12 @@
+import { StepUpCredential } from '../services/api';
+
+/**
+ * Ask for the transaction PIN, or the password for users without one, when
+ * the server wants a withdrawal or payment confirmed. Returns null if the user
+ * cancels. PINs are 4-6 digits; anything else is taken to be the password.
+ */
+export const askStepUp = (): StepUpCredential | null => {
+  const entry = window.prompt('Enter your transaction PIN (or your password) to continue');
+  if (!entry) return null;
+  return /^\d{4,6}$/.test(entry) ? { pin: entry } : { password: entry };
+};